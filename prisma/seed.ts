@@ -1,5 +1,6 @@
 import { PrismaClient } from "@prisma/client";
 import { hash } from "bcryptjs";
+import { fingerprintFinding } from "../src/lib/scanner/fingerprint";
 
 const prisma = new PrismaClient();
 
@@ -21,10 +22,11 @@ async function main() {
   console.log("Created user:", user.email);
 
   // ==================== AWS ====================
-  const awsAccount = await prisma.awsAccount.upsert({
+  const awsAccount = await prisma.cloudAccount.upsert({
     where: {
-      userId_accountId: {
+      userId_provider_accountId: {
         userId: user.id,
+        provider: "AWS",
         accountId: "the5ers-staging",
       },
     },
@@ -34,6 +36,7 @@ async function main() {
       healthScore: 78,
     },
     create: {
+      provider: "AWS",
       name: "the5ers-staging",
       accountId: "the5ers-staging",
       region: "eu-central-1",
@@ -46,8 +49,9 @@ async function main() {
 
   console.log("Created AWS account:", awsAccount.name);
 
-  const awsAudit = await prisma.awsAudit.create({
+  const awsAudit = await prisma.audit.create({
     data: {
+      provider: "AWS",
       accountId: awsAccount.id,
       status: "completed",
       riskScore: 78,
@@ -77,7 +81,7 @@ async function main() {
   ];
 
   for (const phase of awsPhases) {
-    await prisma.awsPhase.create({
+    await prisma.phase.create({
       data: {
         auditId: awsAudit.id,
         phaseNumber: phase.number,
@@ -206,8 +210,9 @@ async function main() {
   ];
 
   for (const finding of awsFindings) {
-    await prisma.awsFinding.create({
+    await prisma.finding.create({
       data: {
+        provider: "AWS",
         auditId: awsAudit.id,
         findingId: finding.findingId,
         severity: finding.severity,
@@ -218,6 +223,7 @@ async function main() {
         recommendation: finding.recommendation,
         status: "open",
         region: "eu-central-1",
+        fingerprint: fingerprintFinding({ ...finding, region: "eu-central-1" }),
       },
     });
   }
@@ -225,11 +231,12 @@ async function main() {
   console.log("Created AWS audit with findings");
 
   // ==================== GCP ====================
-  const gcpProject = await prisma.gcpProject.upsert({
+  const gcpProject = await prisma.cloudAccount.upsert({
     where: {
-      userId_projectId: {
+      userId_provider_accountId: {
         userId: user.id,
-        projectId: "the5ers-prod-gcp",
+        provider: "GCP",
+        accountId: "the5ers-prod-gcp",
       },
     },
     update: {
@@ -238,8 +245,9 @@ async function main() {
       healthScore: 72,
     },
     create: {
+      provider: "GCP",
       name: "the5ers-prod",
-      projectId: "the5ers-prod-gcp",
+      accountId: "the5ers-prod-gcp",
       projectNumber: "123456789012",
       region: "us-central1",
       userId: user.id,
@@ -251,9 +259,10 @@ async function main() {
 
   console.log("Created GCP project:", gcpProject.name);
 
-  const gcpAudit = await prisma.gcpAudit.create({
+  const gcpAudit = await prisma.audit.create({
     data: {
-      projectId: gcpProject.id,
+      provider: "GCP",
+      accountId: gcpProject.id,
       status: "completed",
       riskScore: 72,
       totalFindings: 38,
@@ -282,7 +291,7 @@ async function main() {
   ];
 
   for (const phase of gcpPhases) {
-    await prisma.gcpPhase.create({
+    await prisma.phase.create({
       data: {
         auditId: gcpAudit.id,
         phaseNumber: phase.number,
@@ -411,8 +420,9 @@ async function main() {
   ];
 
   for (const finding of gcpFindings) {
-    await prisma.gcpFinding.create({
+    await prisma.finding.create({
       data: {
+        provider: "GCP",
         auditId: gcpAudit.id,
         findingId: finding.findingId,
         severity: finding.severity,
@@ -423,6 +433,7 @@ async function main() {
         recommendation: finding.recommendation,
         status: "open",
         region: "us-central1",
+        fingerprint: fingerprintFinding({ ...finding, region: "us-central1" }),
       },
     });
   }
@@ -430,11 +441,12 @@ async function main() {
   console.log("Created GCP audit with findings");
 
   // ==================== AZURE ====================
-  const azureSubscription = await prisma.azureSubscription.upsert({
+  const azureSubscription = await prisma.cloudAccount.upsert({
     where: {
-      userId_subscriptionId: {
+      userId_provider_accountId: {
         userId: user.id,
-        subscriptionId: "a1b2c3d4-e5f6-7890-abcd-ef1234567890",
+        provider: "AZURE",
+        accountId: "a1b2c3d4-e5f6-7890-abcd-ef1234567890",
       },
     },
     update: {
@@ -443,8 +455,9 @@ async function main() {
       healthScore: 75,
     },
     create: {
+      provider: "AZURE",
       name: "the5ers-azure-prod",
-      subscriptionId: "a1b2c3d4-e5f6-7890-abcd-ef1234567890",
+      accountId: "a1b2c3d4-e5f6-7890-abcd-ef1234567890",
       tenantId: "tenant-12345",
       region: "eastus",
       userId: user.id,
@@ -456,9 +469,10 @@ async function main() {
 
   console.log("Created Azure subscription:", azureSubscription.name);
 
-  const azureAudit = await prisma.azureAudit.create({
+  const azureAudit = await prisma.audit.create({
     data: {
-      subscriptionId: azureSubscription.id,
+      provider: "AZURE",
+      accountId: azureSubscription.id,
       status: "completed",
       riskScore: 75,
       totalFindings: 42,
@@ -487,7 +501,7 @@ async function main() {
   ];
 
   for (const phase of azurePhases) {
-    await prisma.azurePhase.create({
+    await prisma.phase.create({
       data: {
         auditId: azureAudit.id,
         phaseNumber: phase.number,
@@ -625,8 +639,9 @@ async function main() {
   ];
 
   for (const finding of azureFindings) {
-    await prisma.azureFinding.create({
+    await prisma.finding.create({
       data: {
+        provider: "AZURE",
         auditId: azureAudit.id,
         findingId: finding.findingId,
         severity: finding.severity,
@@ -637,6 +652,7 @@ async function main() {
         recommendation: finding.recommendation,
         status: "open",
         region: "eastus",
+        fingerprint: fingerprintFinding({ ...finding, region: "eastus" }),
       },
     });
   }
@@ -0,0 +1,37 @@
+// Local stand-in for Azure Resource Manager, replaying recorded responses so
+// scans can run without a real subscription.
+//
+//   npm run azure:replay -- <recording.json> [port]           replay
+//   npm run azure:replay -- <recording.json> [port] --record  proxy to ARM and save
+//
+// Point the app or worker at it with AZURE_ENDPOINT_URL=http://localhost:4590.
+// Sign-in goes to the stand-in as well, so any tenant ID, client ID and
+// client secret work in replay mode. See replay-server.ts for the recording
+// format.
+import { parseReplayArgs, startReplayServer } from "./replay-server";
+
+const DEFAULT_PORT = 4590;
+const ARM_URL = "https://management.azure.com";
+const LOGIN_URL = "https://login.microsoftonline.com";
+
+function main() {
+  const { file, port, record } = parseReplayArgs(DEFAULT_PORT);
+
+  if (!file) {
+    console.error("Usage: npm run azure:replay -- <recording.json> [port] [--record]");
+    process.exit(1);
+  }
+
+  startReplayServer({
+    name: "Azure",
+    file,
+    port,
+    record,
+    isTokenRequest: (url) => url.pathname.endsWith("/oauth2/v2.0/token"),
+    tokenUpstreamUrl: (url) => `${LOGIN_URL}${url.pathname}`,
+    upstreamUrl: (url) => `${ARM_URL}${url.pathname}${url.search}`,
+    upstreamOrigins: [ARM_URL],
+  });
+}
+
+main();
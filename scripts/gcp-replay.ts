@@ -0,0 +1,56 @@
+// Local stand-in for the Google APIs the GCP scanner calls, replaying
+// recorded responses so scans can run without a real project.
+//
+//   npm run gcp:replay -- <recording.json> [port]           replay
+//   npm run gcp:replay -- <recording.json> [port] --record  proxy to Google and save
+//   npm run gcp:replay -- --key                             print a service account key
+//
+// Point the app or worker at it with GCP_ENDPOINT_URL=http://localhost:4580,
+// which also serves access tokens, and add a project whose service account
+// key comes from --key. See replay-server.ts for the recording format.
+import { generateKeyPairSync } from "crypto";
+import { GCP_SERVICE_HOSTS, GCP_TOKEN_URL, type GcpService } from "@/lib/gcp/endpoint";
+import { parseReplayArgs, startReplayServer } from "./replay-server";
+
+const DEFAULT_PORT = 4580;
+
+function printKey() {
+  const { privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const key = {
+    type: "service_account",
+    project_id: "demo-project",
+    client_email: "scanner@demo-project.iam.gserviceaccount.com",
+    private_key: privateKey.export({ type: "pkcs8", format: "pem" }),
+  };
+  console.log(JSON.stringify(key, null, 2));
+}
+
+function main() {
+  const { file, port, record, flags } = parseReplayArgs(DEFAULT_PORT);
+
+  if (flags.includes("--key")) {
+    printKey();
+    return;
+  }
+  if (!file) {
+    console.error("Usage: npm run gcp:replay -- <recording.json> [port] [--record]");
+    process.exit(1);
+  }
+
+  startReplayServer({
+    name: "GCP",
+    file,
+    port,
+    record,
+    isTokenRequest: (url) => url.pathname === "/token",
+    tokenUpstreamUrl: () => GCP_TOKEN_URL,
+    // Requests arrive as /{service}/{path}
+    upstreamUrl: (url) => {
+      const [, service, ...rest] = url.pathname.split("/");
+      const host = GCP_SERVICE_HOSTS[service as GcpService];
+      return host && `${host}/${rest.join("/")}${url.search}`;
+    },
+  });
+}
+
+main();
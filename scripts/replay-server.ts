@@ -0,0 +1,134 @@
+// Shared HTTP server behind the cloud API stand-ins in this directory. It
+// replays responses from a recording file, or proxies to the real API and
+// records what comes back.
+//
+// Recordings map "METHOD /path" (with the sorted query string when it
+// matters, e.g. for page tokens) to a response body, or to
+// { "status": 403, "body": {...} } for errors.
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { createServer, type IncomingMessage } from "http";
+
+interface RecordedResponse {
+  status?: number;
+  body: unknown;
+}
+
+type Recording = Record<string, RecordedResponse | unknown>;
+
+export interface ReplayOptions {
+  name: string;
+  file: string;
+  port: number;
+  record: boolean;
+  // Requests for an access token, answered with a dummy token
+  isTokenRequest(url: URL): boolean;
+  // Real token endpoint used when recording, if sign-in goes through the
+  // stand-in. Tokens are passed through and never written to the recording.
+  tokenUpstreamUrl?(url: URL): string;
+  // Real URL a request is forwarded to when recording
+  upstreamUrl(url: URL): string | undefined;
+  // Upstream origins in recorded bodies (e.g. in next-page links) that are
+  // rewritten to point back at the stand-in
+  upstreamOrigins?: string[];
+}
+
+export interface ReplayArgs {
+  file?: string;
+  port: number;
+  record: boolean;
+  flags: string[];
+}
+
+export function parseReplayArgs(defaultPort: number): ReplayArgs {
+  const args = process.argv.slice(2);
+  const [file, port] = args.filter((a) => !a.startsWith("--"));
+  return {
+    file,
+    port: Number(port) || defaultPort,
+    record: args.includes("--record"),
+    flags: args.filter((a) => a.startsWith("--")),
+  };
+}
+
+function isRecordedResponse(value: unknown): value is RecordedResponse {
+  return typeof value === "object" && value !== null && "body" in value;
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString();
+}
+
+// Method, path and sorted query string, so keys do not depend on parameter order
+function recordingKey(method: string, url: URL): string {
+  url.searchParams.sort();
+  const query = url.searchParams.toString();
+  return `${method} ${url.pathname}${query ? `?${query}` : ""}`;
+}
+
+function notFound(message: string): RecordedResponse {
+  return { status: 404, body: { error: { code: 404, message } } };
+}
+
+export function startReplayServer(options: ReplayOptions) {
+  const { file, port, record } = options;
+  const localOrigin = `http://localhost:${port}`;
+  const recording: Recording = existsSync(file) ? JSON.parse(readFileSync(file, "utf8")) : {};
+
+  const proxy = async (
+    req: IncomingMessage,
+    upstream: string | undefined
+  ): Promise<RecordedResponse> => {
+    if (!upstream) return notFound(`No upstream for ${req.url}`);
+
+    const body = req.method === "POST" ? await readBody(req) : undefined;
+    const response = await fetch(upstream, {
+      method: req.method,
+      headers: {
+        ...(req.headers.authorization && { Authorization: req.headers.authorization }),
+        ...(body && { "Content-Type": req.headers["content-type"] ?? "application/json" }),
+      },
+      body,
+    });
+
+    let text = await response.text();
+    for (const origin of options.upstreamOrigins ?? []) {
+      text = text.split(origin).join(localOrigin);
+    }
+    return { status: response.status, body: text ? JSON.parse(text) : {} };
+  };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", localOrigin);
+    const method = req.method ?? "GET";
+    let response: RecordedResponse;
+
+    if (options.isTokenRequest(url)) {
+      response =
+        record && options.tokenUpstreamUrl
+          ? await proxy(req, options.tokenUpstreamUrl(url))
+          : { body: { access_token: "replay-token", expires_in: 3600, token_type: "Bearer" } };
+    } else if (record) {
+      response = await proxy(req, options.upstreamUrl(url));
+      recording[recordingKey(method, url)] = response;
+      writeFileSync(file, JSON.stringify(recording, null, 2));
+    } else {
+      const recorded = recording[recordingKey(method, url)] ?? recording[`${method} ${url.pathname}`];
+      response =
+        recorded === undefined
+          ? notFound(`No recording for ${method} ${url.pathname}`)
+          : isRecordedResponse(recorded)
+            ? recorded
+            : { body: recorded };
+    }
+
+    res.writeHead(response.status ?? 200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(response.body));
+  });
+
+  server.listen(port, () => {
+    console.log(`${options.name} stand-in ${record ? "recording to" : "replaying"} ${file} on ${localOrigin}`);
+  });
+  return server;
+}
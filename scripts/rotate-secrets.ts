@@ -0,0 +1,53 @@
+// Re-wrap every stored cloud secret with the active master key.
+//
+//   npm run secrets:rotate
+//
+// To rotate, put the new key first in SECRETS_MASTER_KEYS, keep the old one
+// after it, run this script, then drop the old key. Secrets saved before
+// encryption was introduced are encrypted on the way.
+import { prisma } from "@/lib/db";
+import { rewrapSecret } from "@/lib/secrets";
+
+async function main() {
+  let updated = 0;
+
+  // Each account stores the secret of its own provider only
+  const accounts = await prisma.cloudAccount.findMany({
+    where: {
+      OR: [
+        { secretAccessKey: { not: null } },
+        { serviceAccountKey: { not: null } },
+        { clientSecret: { not: null } },
+      ],
+    },
+    select: { id: true, secretAccessKey: true, serviceAccountKey: true, clientSecret: true },
+  });
+  let total = 0;
+  for (const { id, ...secrets } of accounts) {
+    const data: Partial<typeof secrets> = {};
+    for (const field of ["secretAccessKey", "serviceAccountKey", "clientSecret"] as const) {
+      const stored = secrets[field];
+      if (!stored) continue;
+      total++;
+      const rewrapped = rewrapSecret(stored);
+      if (rewrapped !== stored) {
+        data[field] = rewrapped;
+        updated++;
+      }
+    }
+    if (Object.keys(data).length > 0) {
+      await prisma.cloudAccount.update({ where: { id }, data });
+    }
+  }
+
+  console.log(`Re-wrapped ${updated} of ${total} stored secrets`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,37 @@
+// Run an audit from the command line.
+//
+//   npm run scan -- <cloud account id> [phase,phase,...]
+//
+// The cloud account ID is the database ID of an AWS account, GCP project or
+// Azure subscription. Set AWS_ENDPOINT_URL to scan a local AWS API stand-in
+// such as LocalStack, or GCP_ENDPOINT_URL / AZURE_ENDPOINT_URL to scan
+// recorded responses served by `npm run gcp:replay` / `npm run azure:replay`.
+import { prisma } from "@/lib/db";
+import { createAudit, runAudit } from "@/lib/scanner";
+
+async function main() {
+  const [accountId, phaseList] = process.argv.slice(2);
+
+  if (!accountId) {
+    console.error("Usage: npm run scan -- <cloud account id> [phase,phase,...]");
+    process.exit(1);
+  }
+
+  const phases = phaseList?.split(",").map(Number).filter(Boolean);
+  const audit = await createAudit(accountId, phases);
+  console.log(`Created ${audit.provider} audit ${audit.id}`);
+
+  const result = await runAudit(audit.id);
+  console.log(
+    `Audit ${result.status}: ${result.totalFindings} findings, score ${result.riskScore}, ${result.duration}s`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,41 @@
+// Run the background job worker (audits, report rendering, alert delivery)
+// and the scheduler that launches recurring audits and expires suppression
+// rules and risk acceptances.
+//
+//   npm run worker
+//
+// WORKER_POLL_INTERVAL_MS overrides how often the queue is polled.
+// SCHEDULER_INTERVAL_MS overrides how often schedules are checked.
+import { prisma } from "@/lib/db";
+import { startWorker } from "@/lib/jobs";
+import { startScheduler } from "@/lib/schedules";
+import { assertSecretsConfigured } from "@/lib/secrets";
+
+// Audits can't decrypt cloud credentials without the master keys
+try {
+  assertSecretsConfigured();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+
+const worker = startWorker({
+  pollIntervalMs: Number(process.env.WORKER_POLL_INTERVAL_MS) || undefined,
+});
+
+const scheduler = startScheduler({
+  intervalMs: Number(process.env.SCHEDULER_INTERVAL_MS) || undefined,
+});
+
+console.log(`Job worker ${worker.id} started`);
+
+async function shutdown(signal: string) {
+  console.log(`Received ${signal}, waiting for running jobs to finish...`);
+  scheduler.stop();
+  await worker.stop();
+  await prisma.$disconnect();
+  process.exit(0);
+}
+
+process.on("SIGINT", () => shutdown("SIGINT"));
+process.on("SIGTERM", () => shutdown("SIGTERM"));
@@ -1,10 +1,19 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { GlassCard } from "@/components/dashboard";
+import { useRouter } from "next/navigation";
+import {
+  AccountMembers,
+  AuditSchedules,
+  GlassCard,
+  VerificationBadge,
+  type AccountMemberInfo,
+  type AuditScheduleInfo,
+} from "@/components/dashboard";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Dialog,
@@ -37,6 +46,7 @@ import {
   Key,
   ExternalLink,
   RefreshCw,
+  ShieldCheck,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -48,15 +58,24 @@ import {
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { format } from "date-fns";
+import type { VerificationStatus } from "@/types";
 
 interface Account {
   id: string;
   name: string;
   accountId: string;
   region: string;
+  regions: string[];
+  scanAllRegions: boolean;
+  authMethod: string;
+  externalId: string | null;
+  secretAccessKeyFingerprint: string | null;
   isActive: boolean;
   lastScanAt: string | null;
   healthScore: number | null;
+  verificationStatus: VerificationStatus;
+  verificationError: string | null;
+  verifiedAt: string | null;
   audits: Array<{
     id: string;
     status: string;
@@ -68,6 +87,8 @@ interface Account {
     low: number;
     completedAt: string | null;
   }>;
+  schedules: AuditScheduleInfo[];
+  members: AccountMemberInfo[];
   _count: {
     audits: number;
   };
@@ -84,6 +105,12 @@ const awsRegions = [
   { value: "ap-northeast-1", label: "Asia Pacific (Tokyo)" },
 ];
 
+const regionSummary = (account: Pick<Account, "region" | "regions" | "scanAllRegions">) => {
+  if (account.scanAllRegions) return "All enabled regions";
+  if (account.regions.length > 1) return `${account.regions.length} regions`;
+  return account.regions[0] ?? account.region;
+};
+
 const getStatusFromScore = (score: number | null) => {
   if (score === null) return "pending";
   if (score >= 80) return "healthy";
@@ -99,6 +126,7 @@ const statusConfig = {
 };
 
 export default function AccountsPage() {
+  const router = useRouter();
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [authMethod, setAuthMethod] = useState<"keys" | "role">("role");
@@ -108,6 +136,8 @@ export default function AccountsPage() {
     name: "",
     accountId: "",
     region: "us-east-1",
+    regions: [] as string[],
+    scanAllRegions: false,
     roleArn: "",
     accessKeyId: "",
     secretAccessKey: "",
@@ -116,7 +146,7 @@ export default function AccountsPage() {
   const fetchAccounts = async () => {
     try {
       setLoading(true);
-      const response = await fetch("/api/accounts");
+      const response = await fetch("/api/accounts?provider=AWS");
       if (response.ok) {
         const data = await response.json();
         setAccounts(data.accounts || []);
@@ -150,6 +180,9 @@ export default function AccountsPage() {
           name: formData.name,
           accountId: formData.accountId,
           region: formData.region,
+          regions: formData.regions,
+          scanAllRegions: formData.scanAllRegions,
+          authMethod,
           roleArn: authMethod === "role" ? formData.roleArn : undefined,
           accessKeyId: authMethod === "keys" ? formData.accessKeyId : undefined,
           secretAccessKey: authMethod === "keys" ? formData.secretAccessKey : undefined,
@@ -158,10 +191,13 @@ export default function AccountsPage() {
 
       if (response.ok) {
         toast.success("Account added successfully!", {
-          description: "Ready for security scanning.",
+          description:
+            authMethod === "role"
+              ? "Require its external ID in the role's trust policy, then verify the credentials."
+              : "Ready for security scanning.",
         });
         setIsAddDialogOpen(false);
-        setFormData({ name: "", accountId: "", region: "us-east-1", roleArn: "", accessKeyId: "", secretAccessKey: "" });
+        setFormData({ name: "", accountId: "", region: "us-east-1", regions: [], scanAllRegions: false, roleArn: "", accessKeyId: "", secretAccessKey: "" });
         fetchAccounts();
       } else {
         const error = await response.json();
@@ -172,6 +208,53 @@ export default function AccountsPage() {
     }
   };
 
+  const toggleRegion = (region: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      regions: prev.regions.includes(region)
+        ? prev.regions.filter((r) => r !== region)
+        : [...prev.regions, region],
+    }));
+  };
+
+  const handleRunAudit = async (accountId: string) => {
+    try {
+      const response = await fetch("/api/audits", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ accountId }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success("Audit started");
+        router.push(`/dashboard/audits/${data.auditId}`);
+      } else {
+        toast.error("Failed to start audit", { description: data.error });
+      }
+    } catch {
+      toast.error("Failed to start audit");
+    }
+  };
+
+  const handleVerify = async (id: string) => {
+    try {
+      const response = await fetch(`/api/accounts/${id}/verify`, { method: "POST" });
+      const data = await response.json();
+
+      if (response.ok && data.verificationStatus === "verified") {
+        toast.success("Credentials verified");
+      } else {
+        toast.error("Verification failed", {
+          description: data.verificationError || data.error,
+        });
+      }
+      fetchAccounts();
+    } catch {
+      toast.error("Verification failed");
+    }
+  };
+
   const formatLastScan = (lastScanAt: string | null) => {
     if (!lastScanAt) return "Never";
     return format(new Date(lastScanAt), "MMM d, h:mm a");
@@ -263,6 +346,42 @@ export default function AccountsPage() {
                 </Select>
               </div>
 
+              {/* Scan Regions */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="text-white/70">Scan Regions</Label>
+                  <label className="flex items-center gap-2 text-xs text-white/60 cursor-pointer">
+                    <Checkbox
+                      checked={formData.scanAllRegions}
+                      onCheckedChange={(checked) => setFormData({ ...formData, scanAllRegions: checked === true })}
+                    />
+                    All enabled regions
+                  </label>
+                </div>
+                {!formData.scanAllRegions && (
+                  <>
+                    <div className="grid grid-cols-2 gap-1">
+                      {awsRegions.map((region) => (
+                        <label
+                          key={region.value}
+                          className="flex items-center gap-2 p-1.5 rounded hover:bg-white/5 cursor-pointer text-xs text-white/70"
+                          title={region.label}
+                        >
+                          <Checkbox
+                            checked={formData.regions.includes(region.value)}
+                            onCheckedChange={() => toggleRegion(region.value)}
+                          />
+                          {region.value}
+                        </label>
+                      ))}
+                    </div>
+                    <p className="text-xs text-white/40">
+                      Only the default region is scanned when none are selected.
+                    </p>
+                  </>
+                )}
+              </div>
+
               {/* Authentication Method */}
               <div className="space-y-3">
                 <Label className="text-white/70">Authentication Method</Label>
@@ -291,11 +410,16 @@ export default function AccountsPage() {
                         onChange={(e) => setFormData({ ...formData, roleArn: e.target.value })}
                       />
                     </div>
+                    <p className="text-xs text-white/40">
+                      An external ID is generated for the account once it is added. Add it as the
+                      sts:ExternalId condition in the role&apos;s trust policy, then verify the
+                      credentials.
+                    </p>
                   </TabsContent>
 
                   <TabsContent value="keys" className="space-y-4 mt-4">
                     <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/20 text-sm text-yellow-400">
-                      Access keys will be encrypted. We recommend IAM Role instead.
+                      Long-lived access keys are only used when this method is chosen. We recommend IAM Role instead.
                     </div>
                     <div className="space-y-2">
                       <Label className="text-white/70">Access Key ID</Label>
@@ -384,10 +508,14 @@ export default function AccountsPage() {
                     </Button>
                   </DropdownMenuTrigger>
                   <DropdownMenuContent align="end">
-                    <DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleRunAudit(account.id)}>
                       <Play className="w-4 h-4 mr-2" />
                       Run Audit
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleVerify(account.id)}>
+                      <ShieldCheck className="w-4 h-4 mr-2" />
+                      Re-verify Credentials
+                    </DropdownMenuItem>
                     <DropdownMenuItem>
                       <ExternalLink className="w-4 h-4 mr-2" />
                       View in AWS
@@ -406,7 +534,7 @@ export default function AccountsPage() {
               </div>
 
               {/* Status & Region */}
-              <div className="flex items-center gap-3 mb-4">
+              <div className="flex flex-wrap items-center gap-3 mb-4">
                 <div
                   className={cn(
                     "flex items-center gap-1.5 px-2 py-1 rounded-full text-xs font-medium",
@@ -417,9 +545,37 @@ export default function AccountsPage() {
                   <StatusIcon className="w-3 h-3" />
                   {statusKey}
                 </div>
-                <span className="text-xs text-white/40">{account.region}</span>
+                <span
+                  className="text-xs text-white/40"
+                  title={account.regions.length > 1 ? account.regions.join(", ") : undefined}
+                >
+                  {regionSummary(account)}
+                </span>
+                <VerificationBadge
+                  status={account.verificationStatus}
+                  verifiedAt={account.verifiedAt}
+                  error={account.verificationError}
+                />
+                <span
+                  className="text-xs text-white/40 flex items-center gap-1"
+                  title={account.secretAccessKeyFingerprint ?? undefined}
+                >
+                  {account.authMethod === "keys" ? (
+                    <Key className="w-3 h-3" />
+                  ) : (
+                    <Shield className="w-3 h-3" />
+                  )}
+                  {account.authMethod === "keys" ? "Access Keys" : "IAM Role"}
+                </span>
               </div>
 
+              {account.authMethod !== "keys" && account.externalId && (
+                <div className="mb-4 p-2 rounded-lg bg-white/5 text-xs">
+                  <span className="text-white/40">External ID: </span>
+                  <span className="text-white/80 font-mono break-all">{account.externalId}</span>
+                </div>
+              )}
+
               {/* Findings Summary */}
               <div className="grid grid-cols-4 gap-2 mb-4">
                 <div className="text-center p-2 rounded bg-red-500/10">
@@ -448,6 +604,21 @@ export default function AccountsPage() {
                 </div>
               </div>
 
+              {/* Schedules */}
+              <AuditSchedules
+                provider="AWS"
+                accountId={account.id}
+                schedules={account.schedules ?? []}
+                onChange={fetchAccounts}
+              />
+
+              {/* Sharing */}
+              <AccountMembers
+                accountId={account.id}
+                members={account.members ?? []}
+                onChange={fetchAccounts}
+              />
+
               {/* Footer */}
               <div className="flex items-center justify-between pt-4 border-t border-white/10">
                 <div className="flex items-center gap-2">
@@ -0,0 +1,459 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { GlassCard, RegressionBadge } from "@/components/dashboard";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ArrowLeft,
+  ArrowRight,
+  AlertTriangle,
+  CheckCircle,
+  GitCompare,
+  HelpCircle,
+  PlusCircle,
+  Repeat,
+  TrendingDown,
+  TrendingUp,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import Link from "next/link";
+import { format } from "date-fns";
+
+interface DiffFinding {
+  id: string;
+  findingId: string;
+  severity: string;
+  previousSeverity?: string;
+  title: string;
+  resource: string;
+  region: string | null;
+  status: string;
+  regression: boolean;
+  phaseNumber: number | null;
+}
+
+interface DiffCounts {
+  findings: number;
+  critical: number;
+  high: number;
+  medium: number;
+  low: number;
+  passedChecks: number;
+  failedChecks: number;
+}
+
+interface AuditSummary {
+  id: string;
+  accountId: string;
+  status: string;
+  account: {
+    name: string;
+    accountId: string;
+  };
+  riskScore: number | null;
+  complianceScore: number | null;
+  totalFindings: number;
+  critical: number;
+  high: number;
+  medium: number;
+  low: number;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+interface PhaseDelta {
+  phaseNumber: number;
+  name: string;
+  status: string | null;
+  baselineStatus: string | null;
+  current: DiffCounts;
+  baseline: DiffCounts;
+  delta: DiffCounts;
+}
+
+interface AuditDiff {
+  audit: AuditSummary;
+  baseline: AuditSummary;
+  summary: {
+    new: number;
+    fixed: number;
+    persisting: number;
+    severityChanged: number;
+    unchecked: number;
+    riskScore: number | null;
+    complianceScore: number | null;
+    counts: DiffCounts;
+  };
+  findings: {
+    new: DiffFinding[];
+    fixed: DiffFinding[];
+    persisting: DiffFinding[];
+    severityChanged: DiffFinding[];
+    unchecked: DiffFinding[];
+  };
+  phases: PhaseDelta[];
+}
+
+interface AuditOption {
+  id: string;
+  status: string;
+  riskScore: number | null;
+  createdAt: string;
+}
+
+const severityConfig = {
+  CRITICAL: { color: "text-red-400", bg: "bg-red-500/10" },
+  HIGH: { color: "text-orange-400", bg: "bg-orange-500/10" },
+  MEDIUM: { color: "text-yellow-400", bg: "bg-yellow-500/10" },
+  LOW: { color: "text-green-400", bg: "bg-green-500/10" },
+};
+
+const findingGroups = [
+  { key: "new", label: "New", icon: PlusCircle, color: "text-red-400", bg: "bg-red-500/10" },
+  { key: "fixed", label: "Fixed", icon: CheckCircle, color: "text-green-400", bg: "bg-green-500/10" },
+  { key: "severityChanged", label: "Severity changed", icon: Repeat, color: "text-purple-400", bg: "bg-purple-500/10" },
+  { key: "persisting", label: "Persisting", icon: AlertTriangle, color: "text-yellow-400", bg: "bg-yellow-500/10" },
+  { key: "unchecked", label: "Not re-checked", icon: HelpCircle, color: "text-white/40", bg: "bg-white/5" },
+] as const;
+
+// Signed change, coloured red when it is a change for the worse
+function Delta({ value, higherIsBetter = false, suffix = "" }: { value: number | null; higherIsBetter?: boolean; suffix?: string }) {
+  if (value === null) return <span className="text-white/30">–</span>;
+  if (value === 0) return <span className="text-white/30">0{suffix}</span>;
+
+  const better = higherIsBetter ? value > 0 : value < 0;
+  const rounded = Math.round(value * 10) / 10;
+  return (
+    <span className={cn("font-medium", better ? "text-green-400" : "text-red-400")}>
+      {rounded > 0 ? "+" : ""}
+      {rounded}
+      {suffix}
+    </span>
+  );
+}
+
+function AuditCard({ label, audit }: { label: string; audit: AuditSummary }) {
+  const date = audit.completedAt ?? audit.startedAt;
+
+  return (
+    <Link href={`/dashboard/audits/${audit.id}`} className="block">
+      <GlassCard className="p-4 hover:scale-[1.01] transition-all cursor-pointer">
+        <p className="text-xs text-white/50 uppercase">{label}</p>
+        <p className="text-white font-medium mt-1">
+          {date ? format(new Date(date), "MMM d, yyyy h:mm a") : "Not started"}
+        </p>
+        <div className="flex items-center gap-4 mt-2 text-sm text-white/60">
+          <span>{audit.totalFindings} findings</span>
+          {audit.riskScore !== null && <span>{audit.riskScore}% score</span>}
+          {audit.complianceScore !== null && <span>{audit.complianceScore}% checks passed</span>}
+        </div>
+      </GlassCard>
+    </Link>
+  );
+}
+
+export default function CompareAuditsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const baselineId = searchParams.get("baseline");
+  const [diff, setDiff] = useState<AuditDiff | null>(null);
+  const [options, setOptions] = useState<AuditOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDiff = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(
+        `/api/audits/${params.id}/diff${baselineId ? `?baseline=${baselineId}` : ""}`
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to compare audits");
+      }
+      setDiff(data.diff);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [params.id, baselineId]);
+
+  useEffect(() => {
+    if (params.id) {
+      fetchDiff();
+    }
+  }, [params.id, fetchDiff]);
+
+  // Earlier completed audits of the same account to pick a baseline from
+  const accountId = diff?.audit.accountId;
+  useEffect(() => {
+    if (!accountId) return;
+
+    const fetchOptions = async () => {
+      try {
+        const response = await fetch(`/api/audits?accountId=${accountId}`);
+        if (response.ok) {
+          const data = await response.json();
+          setOptions(
+            (data.audits || []).filter(
+              (a: AuditOption) => a.status === "completed" && a.id !== params.id
+            )
+          );
+        }
+      } catch (err) {
+        console.error("Failed to fetch audits:", err);
+      }
+    };
+
+    fetchOptions();
+  }, [accountId, params.id]);
+
+  const selectBaseline = (id: string) => {
+    router.push(`/dashboard/audits/${params.id}/compare?baseline=${id}`);
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div className="flex items-center gap-4">
+          <Skeleton className="h-10 w-10 rounded-lg bg-white/10" />
+          <Skeleton className="h-8 w-64 bg-white/10" />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <Skeleton className="h-28 bg-white/10 rounded-xl" />
+          <Skeleton className="h-28 bg-white/10 rounded-xl" />
+        </div>
+        <div className="grid grid-cols-4 gap-4">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} className="h-24 bg-white/10 rounded-xl" />
+          ))}
+        </div>
+        <Skeleton className="h-96 bg-white/10 rounded-2xl" />
+      </div>
+    );
+  }
+
+  if (error || !diff) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[400px] text-center">
+        <AlertTriangle className="w-12 h-12 text-red-400 mb-4" />
+        <h2 className="text-xl font-semibold text-white mb-2">Failed to compare audits</h2>
+        <p className="text-white/50 mb-4">{error || "Audit not found"}</p>
+        <Link href={`/dashboard/audits/${params.id}`}>
+          <Button className="gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Back to Audit
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const { audit, baseline, summary } = diff;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link href={`/dashboard/audits/${audit.id}`}>
+            <Button variant="ghost" size="icon" className="hover:bg-white/10">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+          </Link>
+          <div className="p-3 rounded-xl bg-primary/10">
+            <GitCompare className="w-6 h-6 text-primary" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-white">Compare Audits</h1>
+            <p className="text-white/50 text-sm">
+              {audit.account.name} <span className="font-mono">{audit.account.accountId}</span>
+            </p>
+          </div>
+        </div>
+        <Select value={baseline.id} onValueChange={selectBaseline}>
+          <SelectTrigger className="w-[260px] bg-white/5 border-white/10 text-white">
+            <SelectValue placeholder="Baseline audit" />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {format(new Date(option.createdAt), "MMM d, yyyy h:mm a")}
+                {option.riskScore !== null && ` · ${option.riskScore}%`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Audits compared */}
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] items-center gap-4">
+        <AuditCard label="Baseline" audit={baseline} />
+        <ArrowRight className="hidden md:block w-6 h-6 text-white/30 mx-auto" />
+        <AuditCard label="This audit" audit={audit} />
+      </div>
+
+      {/* Changes */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        {findingGroups.slice(0, 4).map((group) => {
+          const Icon = group.icon;
+          return (
+            <GlassCard key={group.key} className="p-4">
+              <div className="flex items-center gap-2">
+                <Icon className={cn("w-4 h-4", group.color)} />
+                <p className="text-xs text-white/50 uppercase">{group.label}</p>
+              </div>
+              <p className={cn("text-2xl font-bold mt-1", group.color)}>{summary[group.key]}</p>
+            </GlassCard>
+          );
+        })}
+      </div>
+
+      <GlassCard className="p-4">
+        <div className="flex flex-wrap items-center gap-6 text-sm">
+          <div className="flex items-center gap-2">
+            {summary.riskScore !== null && summary.riskScore < 0 ? (
+              <TrendingDown className="w-4 h-4 text-red-400" />
+            ) : (
+              <TrendingUp className="w-4 h-4 text-green-400" />
+            )}
+            <span className="text-white/50">Score</span>
+            <Delta value={summary.riskScore} higherIsBetter suffix="%" />
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-white/50">Checks passed</span>
+            <Delta value={summary.complianceScore} higherIsBetter suffix="%" />
+          </div>
+          {(["findings", "critical", "high", "medium", "low"] as const).map((field) => (
+            <div key={field} className="flex items-center gap-2">
+              <span className="text-white/50 capitalize">{field}</span>
+              <Delta value={summary.counts[field]} />
+            </div>
+          ))}
+        </div>
+      </GlassCard>
+
+      {/* Findings */}
+      <GlassCard className="p-6">
+        <Tabs defaultValue={summary.new > 0 ? "new" : "fixed"}>
+          <TabsList className="bg-white/5 flex-wrap h-auto">
+            {findingGroups
+              .filter((group) => group.key !== "unchecked" || summary.unchecked > 0)
+              .map((group) => (
+                <TabsTrigger key={group.key} value={group.key} className="data-[state=active]:bg-primary/20">
+                  {group.label}
+                  <span className="ml-2 text-white/40">{summary[group.key]}</span>
+                </TabsTrigger>
+              ))}
+          </TabsList>
+          {findingGroups.map((group) => (
+            <TabsContent key={group.key} value={group.key} className="mt-4 space-y-2">
+              {group.key === "unchecked" && (
+                <p className="text-sm text-white/40">
+                  Raised by the baseline, but their checks did not complete in this audit.
+                </p>
+              )}
+              {diff.findings[group.key].length === 0 ? (
+                <p className="text-sm text-white/40 py-8 text-center">No findings</p>
+              ) : (
+                diff.findings[group.key].map((finding) => {
+                  const config = severityConfig[finding.severity as keyof typeof severityConfig] || severityConfig.MEDIUM;
+                  const previous = finding.previousSeverity
+                    ? severityConfig[finding.previousSeverity as keyof typeof severityConfig] || severityConfig.MEDIUM
+                    : null;
+
+                  return (
+                    <div key={finding.id} className="flex items-center gap-3 p-3 rounded-lg bg-white/5">
+                      {previous && (
+                        <>
+                          <span className={cn("px-2 py-0.5 rounded text-[10px] font-bold uppercase", previous.bg, previous.color)}>
+                            {finding.previousSeverity}
+                          </span>
+                          <ArrowRight className="w-3 h-3 text-white/30" />
+                        </>
+                      )}
+                      <span className={cn("px-2 py-0.5 rounded text-[10px] font-bold uppercase", config.bg, config.color)}>
+                        {finding.severity}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs text-white/40 font-mono">{finding.findingId}</span>
+                          {finding.region && (
+                            <span className="text-xs text-white/30 px-1.5 py-0.5 bg-white/5 rounded">{finding.region}</span>
+                          )}
+                          {finding.regression && <RegressionBadge />}
+                        </div>
+                        <p className="text-sm text-white truncate">{finding.title}</p>
+                        <p className="text-xs text-white/40 truncate">{finding.resource}</p>
+                      </div>
+                      <span className="text-xs text-white/40 capitalize">{finding.status.replace("_", " ")}</span>
+                    </div>
+                  );
+                })
+              )}
+            </TabsContent>
+          ))}
+        </Tabs>
+      </GlassCard>
+
+      {/* Phase deltas */}
+      <GlassCard className="p-6">
+        <h3 className="text-lg font-semibold text-white mb-4">Changes by Phase</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-white/40 uppercase border-b border-white/10">
+                <th className="py-2 pr-4 font-medium">Phase</th>
+                <th className="py-2 px-2 font-medium text-right">Findings</th>
+                <th className="py-2 px-2 font-medium text-right">Critical</th>
+                <th className="py-2 px-2 font-medium text-right">High</th>
+                <th className="py-2 px-2 font-medium text-right">Medium</th>
+                <th className="py-2 px-2 font-medium text-right">Low</th>
+                <th className="py-2 px-2 font-medium text-right">Passed checks</th>
+                <th className="py-2 pl-2 font-medium text-right">Failed checks</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.phases.map((phase) => (
+                <tr key={phase.phaseNumber} className="border-b border-white/5">
+                  <td className="py-2 pr-4 text-white/80">
+                    <span className="text-white/40 mr-2">{phase.phaseNumber}.</span>
+                    {phase.name}
+                    {(!phase.status || !phase.baselineStatus) && (
+                      <span className="ml-2 text-xs text-white/30">
+                        {phase.status ? "not in baseline" : "not in this audit"}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2 px-2 text-right">
+                    <span className="text-white/50 mr-2">{phase.current.findings}</span>
+                    <Delta value={phase.delta.findings} />
+                  </td>
+                  <td className="py-2 px-2 text-right"><Delta value={phase.delta.critical} /></td>
+                  <td className="py-2 px-2 text-right"><Delta value={phase.delta.high} /></td>
+                  <td className="py-2 px-2 text-right"><Delta value={phase.delta.medium} /></td>
+                  <td className="py-2 px-2 text-right"><Delta value={phase.delta.low} /></td>
+                  <td className="py-2 px-2 text-right"><Delta value={phase.delta.passedChecks} higherIsBetter /></td>
+                  <td className="py-2 pl-2 text-right"><Delta value={phase.delta.failedChecks} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </GlassCard>
+    </div>
+  );
+}
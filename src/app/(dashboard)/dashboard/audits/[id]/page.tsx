@@ -1,8 +1,8 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useParams } from "next/navigation";
-import { GlassCard } from "@/components/dashboard";
+import { GlassCard, LiveIndicator } from "@/components/dashboard";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Progress } from "@/components/ui/progress";
@@ -19,8 +19,13 @@ import {
   RefreshCw,
   Download,
   ExternalLink,
+  Ban,
+  RotateCcw,
+  MinusCircle,
+  GitCompare,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { toast } from "sonner";
 import Link from "next/link";
 import { format } from "date-fns";
 
@@ -35,6 +40,7 @@ interface Finding {
   region?: string;
   recommendation?: string;
   status: string;
+  createdAt: string;
 }
 
 interface Phase {
@@ -48,12 +54,47 @@ interface Phase {
   medium: number;
   low: number;
   duration?: number;
+  errorMessage?: string | null;
+  passedChecks: number;
+  failedChecks: number;
+  skippedChecks: number;
+  erroredChecks: number;
+  checkResults: CheckResult[];
+}
+
+interface CheckResult {
+  id: string;
+  checkId: string;
+  status: string;
+  findings: number;
+  message: string | null;
+  region: string | null;
+}
+
+interface RegionResult {
+  id: string;
+  region: string;
+  status: string;
+  findings: number;
+  erroredChecks: number;
+  errorMessage: string | null;
+}
+
+interface CheckInfo {
+  id: string;
+  title: string;
 }
 
 interface AuditDetail {
   id: string;
+  provider: string;
   status: string;
   riskScore: number | null;
+  complianceScore: number | null;
+  passedChecks: number;
+  failedChecks: number;
+  skippedChecks: number;
+  erroredChecks: number;
   totalFindings: number;
   critical: number;
   high: number;
@@ -67,7 +108,9 @@ interface AuditDetail {
     name: string;
     accountId: string;
   };
+  regions: string[];
   phases: Phase[];
+  regionResults: RegionResult[];
   findings: Finding[];
 }
 
@@ -85,34 +128,169 @@ const statusConfig = {
   pending: { icon: Clock, color: "text-white/40", bg: "bg-white/5", label: "Pending" },
 };
 
+const phaseStatusConfig = {
+  completed: { icon: CheckCircle, color: "text-green-400" },
+  running: { icon: RefreshCw, color: "text-blue-400 animate-spin" },
+  failed: { icon: XCircle, color: "text-red-400" },
+  skipped: { icon: MinusCircle, color: "text-white/30" },
+  pending: { icon: Clock, color: "text-white/40" },
+};
+
+const checkStatusConfig = {
+  pass: { icon: CheckCircle, color: "text-green-400", label: "Passed" },
+  fail: { icon: XCircle, color: "text-red-400", label: "Failed" },
+  skipped: { icon: MinusCircle, color: "text-white/30", label: "Skipped" },
+  error: { icon: AlertTriangle, color: "text-yellow-400", label: "Error" },
+};
+
 export default function AuditDetailPage() {
   const params = useParams();
   const [audit, setAudit] = useState<AuditDetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [expandedPhases, setExpandedPhases] = useState<string[]>([]);
+  const [checkTitles, setCheckTitles] = useState<Record<string, string>>({});
+  const [live, setLive] = useState(false);
+  const auditRef = useRef<AuditDetail | null>(null);
+
+  const fetchAudit = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/audits/${params.id}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch audit");
+      }
+      const data = await response.json();
+      setAudit(data.audit);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [params.id]);
+
+  useEffect(() => {
+    if (params.id) {
+      fetchAudit();
+    }
+  }, [params.id, fetchAudit]);
 
   useEffect(() => {
-    const fetchAudit = async () => {
+    auditRef.current = audit;
+  }, [audit]);
+
+  const isActive = audit?.status === "pending" || audit?.status === "running";
+
+  // Follow an unfinished audit over server-sent events until it finishes
+  useEffect(() => {
+    if (!params.id || !isActive) return;
+
+    // Only findings newer than the ones already loaded are streamed
+    const since = auditRef.current?.findings
+      .map((f) => f.createdAt)
+      .sort()
+      .at(-1);
+    const source = new EventSource(
+      `/api/audits/${params.id}/stream${since ? `?since=${encodeURIComponent(since)}` : ""}`
+    );
+
+    source.onopen = () => setLive(true);
+    source.onerror = () => setLive(false);
+
+    source.addEventListener("audit", (event) => {
+      const totals = JSON.parse(event.data);
+      setAudit((prev) => prev && { ...prev, ...totals });
+    });
+
+    source.addEventListener("phase", (event) => {
+      const phase: Phase = JSON.parse(event.data);
+      setAudit((prev) =>
+        prev && {
+          ...prev,
+          phases: prev.phases.map((p) => (p.id === phase.id ? phase : p)),
+        }
+      );
+    });
+
+    source.addEventListener("findings", (event) => {
+      const findings: Finding[] = JSON.parse(event.data);
+      setAudit((prev) => {
+        if (!prev) return prev;
+        const known = new Set(prev.findings.map((f) => f.id));
+        return { ...prev, findings: [...prev.findings, ...findings.filter((f) => !known.has(f.id))] };
+      });
+    });
+
+    // Region results are only written at the end, so reload once
+    source.addEventListener("done", () => {
+      source.close();
+      setLive(false);
+      fetchAudit();
+    });
+
+    return () => {
+      source.close();
+      setLive(false);
+    };
+  }, [params.id, isActive, fetchAudit]);
+
+  // Check titles of the audit's cloud provider
+  const provider = audit?.provider;
+  useEffect(() => {
+    if (!provider) return;
+
+    const fetchChecks = async () => {
       try {
-        setLoading(true);
-        const response = await fetch(`/api/audits/${params.id}`);
-        if (!response.ok) {
-          throw new Error("Failed to fetch audit");
+        const response = await fetch(`/api/checks?provider=${provider}`);
+        if (response.ok) {
+          const data = await response.json();
+          const checks: CheckInfo[] = (data.phases || []).flatMap(
+            (phase: { checks: CheckInfo[] }) => phase.checks
+          );
+          setCheckTitles(Object.fromEntries(checks.map((c) => [c.id, c.title])));
         }
-        const data = await response.json();
-        setAudit(data.audit);
       } catch (err) {
-        setError(err instanceof Error ? err.message : "An error occurred");
-      } finally {
-        setLoading(false);
+        console.error("Failed to fetch checks:", err);
       }
     };
 
-    if (params.id) {
+    fetchChecks();
+  }, [provider]);
+
+  const handleCancel = async () => {
+    const response = await fetch(`/api/audits/${params.id}/cancel`, { method: "POST" });
+    const data = await response.json();
+    if (response.ok) {
+      toast.success("Audit cancelled");
       fetchAudit();
+    } else {
+      toast.error("Failed to cancel audit", { description: data.error });
     }
-  }, [params.id]);
+  };
+
+  const handleExportReport = async () => {
+    const response = await fetch(`/api/audits/${params.id}/report`, { method: "POST" });
+    const data = await response.json();
+    if (response.ok) {
+      toast.success("Report queued", {
+        description: "Download it from the Jobs page when it is ready.",
+      });
+    } else {
+      toast.error("Failed to export report", { description: data.error });
+    }
+  };
+
+  const handleRetry = async () => {
+    const response = await fetch(`/api/audits/${params.id}/retry`, { method: "POST" });
+    const data = await response.json();
+    if (response.ok) {
+      toast.success("Retrying failed phases", {
+        description: `${data.phasesRetried} phases queued`,
+      });
+      fetchAudit();
+    } else {
+      toast.error("Failed to retry audit", { description: data.error });
+    }
+  };
 
   const togglePhase = (phaseId: string) => {
     setExpandedPhases((prev) =>
@@ -160,6 +338,8 @@ export default function AuditDetailPage() {
 
   const status = statusConfig[audit.status as keyof typeof statusConfig] || statusConfig.pending;
   const StatusIcon = status.icon;
+  const failedPhases = audit.phases?.filter((p) => p.status === "failed").length || 0;
+  const finishedPhases = audit.phases?.filter((p) => p.status !== "pending" && p.status !== "running").length || 0;
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -180,7 +360,27 @@ export default function AuditDetailPage() {
           </div>
         </div>
         <div className="flex gap-2">
-          <Button variant="outline" className="bg-white/5 border-white/10 gap-2">
+          {isActive && (
+            <Button variant="outline" className="bg-white/5 border-white/10 gap-2 text-red-400" onClick={handleCancel}>
+              <Ban className="w-4 h-4" />
+              Cancel Audit
+            </Button>
+          )}
+          {!isActive && failedPhases > 0 && (
+            <Button variant="outline" className="bg-white/5 border-white/10 gap-2" onClick={handleRetry}>
+              <RotateCcw className="w-4 h-4" />
+              Retry Failed Phases
+            </Button>
+          )}
+          {audit.status === "completed" && (
+            <Link href={`/dashboard/audits/${audit.id}/compare`}>
+              <Button variant="outline" className="bg-white/5 border-white/10 gap-2">
+                <GitCompare className="w-4 h-4" />
+                Compare
+              </Button>
+            </Link>
+          )}
+          <Button variant="outline" className="bg-white/5 border-white/10 gap-2" onClick={handleExportReport}>
             <Download className="w-4 h-4" />
             Export Report
           </Button>
@@ -200,6 +400,7 @@ export default function AuditDetailPage() {
             <StatusIcon className={cn("w-4 h-4", audit.status === "running" && "animate-spin")} />
             <span className="font-medium">{status.label}</span>
           </div>
+          {live && <LiveIndicator size="sm" />}
           {audit.startedAt && (
             <div className="flex items-center gap-2 text-white/50">
               <Calendar className="w-4 h-4" />
@@ -224,6 +425,14 @@ export default function AuditDetailPage() {
               {audit.riskScore}% Score
             </div>
           )}
+          {audit.complianceScore !== null && (
+            <div
+              className="px-4 py-1.5 rounded-full bg-white/5 text-white/70 text-sm"
+              title={`${audit.passedChecks} passed, ${audit.failedChecks} failed, ${audit.skippedChecks} skipped, ${audit.erroredChecks} errored`}
+            >
+              {audit.complianceScore}% checks passed
+            </div>
+          )}
         </div>
       </GlassCard>
 
@@ -261,15 +470,54 @@ export default function AuditDetailPage() {
         </Link>
       </div>
 
+      {/* Regions */}
+      {audit.regionResults?.length > 0 && (
+        <GlassCard className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-white">Regions</h3>
+            <span className="text-sm text-white/40">
+              {audit.regionResults.filter((r) => r.status === "failed").length} of {audit.regionResults.length} failed
+            </span>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2">
+            {audit.regionResults.map((result) => (
+              <Link
+                key={result.id}
+                href={`/dashboard/findings?region=${result.region}`}
+                className="block"
+              >
+                <div
+                  className="flex items-center gap-2 p-3 rounded-lg border border-white/10 bg-white/5 hover:border-white/20 transition-all"
+                  title={result.errorMessage ?? undefined}
+                >
+                  {result.status === "failed" ? (
+                    <XCircle className="w-4 h-4 text-red-400 flex-shrink-0" />
+                  ) : result.erroredChecks > 0 ? (
+                    <AlertTriangle className="w-4 h-4 text-yellow-400 flex-shrink-0" />
+                  ) : (
+                    <CheckCircle className="w-4 h-4 text-green-400 flex-shrink-0" />
+                  )}
+                  <span className="text-sm font-mono text-white flex-1">{result.region}</span>
+                  <span className="text-xs text-white/40">{result.findings} findings</span>
+                </div>
+              </Link>
+            ))}
+          </div>
+        </GlassCard>
+      )}
+
       {/* Phases */}
       <GlassCard className="p-6">
         <div className="flex items-center justify-between mb-6">
           <div>
             <h3 className="text-lg font-semibold text-white">Audit Phases</h3>
-            <p className="text-sm text-white/40 mt-1">{audit.phases?.length || 0} phases completed</p>
+            <p className="text-sm text-white/40 mt-1">
+              {finishedPhases} of {audit.phases?.length || 0} phases finished
+              {failedPhases > 0 && `, ${failedPhases} failed`}
+            </p>
           </div>
           <Progress
-            value={100}
+            value={audit.phases?.length ? (finishedPhases / audit.phases.length) * 100 : 0}
             className="w-32 h-2 bg-white/10"
           />
         </div>
@@ -277,8 +525,11 @@ export default function AuditDetailPage() {
         <div className="space-y-2">
           {audit.phases?.map((phase) => {
             const isExpanded = expandedPhases.includes(phase.id);
-            const phaseFindings = audit.findings?.filter(f =>
-              f.findingId.startsWith(phase.name.split(" ")[0].replace(/[^A-Z]/g, ""))
+            const phaseStatus = phaseStatusConfig[phase.status as keyof typeof phaseStatusConfig] || phaseStatusConfig.pending;
+            const PhaseStatusIcon = phaseStatus.icon;
+            const phaseCheckIds = phase.checkResults.map((r) => r.checkId);
+            const phaseFindings = audit.findings?.filter((f) =>
+              phaseCheckIds.includes(f.findingId)
             ) || [];
 
             return (
@@ -309,6 +560,23 @@ export default function AuditDetailPage() {
                     </div>
                     <div className="flex items-center gap-4 mt-1">
                       <span className="text-xs text-white/40">{phase.findings} findings</span>
+                      {phase.checkResults.length > 0 && (
+                        <span className="text-xs text-white/40">
+                          {phase.passedChecks}/{phase.passedChecks + phase.failedChecks} checks passed
+                          {phase.skippedChecks > 0 && `, ${phase.skippedChecks} skipped`}
+                          {phase.erroredChecks > 0 && `, ${phase.erroredChecks} errored`}
+                        </span>
+                      )}
+                      {phase.errorMessage && (
+                        <span
+                          className={cn(
+                            "text-xs truncate",
+                            phase.status === "failed" ? "text-red-400/80" : "text-white/30"
+                          )}
+                        >
+                          {phase.errorMessage}
+                        </span>
+                      )}
                     </div>
                   </div>
 
@@ -336,9 +604,39 @@ export default function AuditDetailPage() {
                     )}
                   </div>
 
-                  <CheckCircle className="w-4 h-4 text-green-400" />
+                  <PhaseStatusIcon className={cn("w-4 h-4", phaseStatus.color)} />
                 </button>
 
+                {/* Result of every check that ran in this phase */}
+                {isExpanded && phase.checkResults.length > 0 && (
+                  <div className="px-4 pb-4 border-t border-white/5">
+                    <p className="mt-4 mb-2 text-xs text-white/40 uppercase tracking-wider">Check results</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-1">
+                      {phase.checkResults.map((result) => {
+                        const checkStatus = checkStatusConfig[result.status as keyof typeof checkStatusConfig] || checkStatusConfig.error;
+                        const CheckStatusIcon = checkStatus.icon;
+                        return (
+                          <div
+                            key={result.id}
+                            className="flex items-center gap-2 text-xs"
+                            title={result.message ?? checkStatus.label}
+                          >
+                            <CheckStatusIcon className={cn("w-3 h-3 flex-shrink-0", checkStatus.color)} />
+                            <span className="font-mono text-white/50">{result.checkId}</span>
+                            {result.region && (
+                              <span className="font-mono text-white/30">{result.region}</span>
+                            )}
+                            <span className="text-white/70 truncate">{checkTitles[result.checkId] ?? ""}</span>
+                            {result.findings > 0 && (
+                              <span className="text-white/40">({result.findings})</span>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
                 {/* Expanded findings */}
                 {isExpanded && phaseFindings.length > 0 && (
                   <div className="px-4 pb-4 border-t border-white/5">
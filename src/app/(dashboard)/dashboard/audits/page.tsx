@@ -1,7 +1,8 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { GlassCard } from "@/components/dashboard";
+import { useState, useEffect, useCallback } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { GlassCard, LiveIndicator, NewAuditDialog } from "@/components/dashboard";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
@@ -25,13 +26,17 @@ import {
   Calendar,
   Filter,
   RefreshCw,
+  GitCompare,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import Link from "next/link";
 import { format } from "date-fns";
+import { useAccountScope } from "@/components/providers/account-scope-provider";
 
 interface Audit {
   id: string;
+  accountId: string;
+  provider: string;
   status: string;
   riskScore: number | null;
   totalFindings: number;
@@ -43,10 +48,16 @@ interface Audit {
   errorMessage: string | null;
   startedAt: string | null;
   completedAt: string | null;
+  createdAt: string;
   account: {
     name: string;
     accountId: string;
   };
+  // Sent by the live stream
+  progress?: {
+    finished: number;
+    total: number;
+  };
 }
 
 const statusConfig = {
@@ -81,16 +92,22 @@ const statusConfig = {
 };
 
 export default function AuditsPage() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const [isNewAuditOpen, setIsNewAuditOpen] = useState(searchParams.get("new") === "true");
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
+  const { loading: scopeLoading, scopedAccountId } = useAccountScope();
+  const accountId = scopedAccountId();
   const [audits, setAudits] = useState<Audit[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [live, setLive] = useState(false);
 
-  const fetchAudits = async () => {
+  const fetchAudits = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await fetch("/api/audits");
+      const response = await fetch(accountId ? `/api/audits?accountId=${accountId}` : "/api/audits");
       if (!response.ok) {
         throw new Error("Failed to fetch audits");
       }
@@ -101,11 +118,35 @@ export default function AuditsPage() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [accountId]);
 
   useEffect(() => {
+    if (scopeLoading) return;
     fetchAudits();
-  }, []);
+  }, [scopeLoading, fetchAudits]);
+
+  // Apply status and progress changes, and new audits, as they happen
+  useEffect(() => {
+    const source = new EventSource("/api/audits/stream");
+
+    source.onopen = () => setLive(true);
+    source.onerror = () => setLive(false);
+
+    source.addEventListener("audit", (event) => {
+      const update: Audit = JSON.parse(event.data);
+      if (accountId && update.accountId !== accountId) return;
+      setAudits((prev) =>
+        prev.some((a) => a.id === update.id)
+          ? prev.map((a) => (a.id === update.id ? { ...a, ...update } : a))
+          : [update, ...prev]
+      );
+    });
+
+    return () => {
+      source.close();
+      setLive(false);
+    };
+  }, [accountId]);
 
   const filteredAudits = audits.filter((audit) => {
     const matchesSearch =
@@ -116,6 +157,20 @@ export default function AuditsPage() {
     return matchesSearch && matchesStatus;
   });
 
+  // Completed audits with an earlier completed audit of the same account to
+  // compare with; audits are listed newest first
+  const comparable = new Set(
+    audits
+      .filter(
+        (audit, i) =>
+          audit.status === "completed" &&
+          audits
+            .slice(i + 1)
+            .some((a) => a.accountId === audit.accountId && a.status === "completed")
+      )
+      .map((audit) => audit.id)
+  );
+
   if (loading) {
     return (
       <div className="space-y-6 animate-fade-in">
@@ -140,15 +195,19 @@ export default function AuditsPage() {
       {/* Page Header */}
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
         <div>
-          <h1 className="text-2xl font-bold text-white">Security Audits</h1>
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-bold text-white">Security Audits</h1>
+            {live && <LiveIndicator size="sm" />}
+          </div>
           <p className="text-white/50 mt-1">
             View and manage security audit history
           </p>
         </div>
-        <Button className="btn-gradient gap-2">
+        <Button className="btn-gradient gap-2" onClick={() => setIsNewAuditOpen(true)}>
           <Play className="w-4 h-4" />
           New Audit
         </Button>
+        <NewAuditDialog open={isNewAuditOpen} onOpenChange={setIsNewAuditOpen} />
       </div>
 
       {/* Filters */}
@@ -171,6 +230,7 @@ export default function AuditsPage() {
             <SelectItem value="all">All Status</SelectItem>
             <SelectItem value="completed">Completed</SelectItem>
             <SelectItem value="running">Running</SelectItem>
+            <SelectItem value="pending">Pending</SelectItem>
             <SelectItem value="failed">Failed</SelectItem>
           </SelectContent>
         </Select>
@@ -182,7 +242,9 @@ export default function AuditsPage() {
           const status = statusConfig[audit.status as keyof typeof statusConfig] || statusConfig.pending;
           const StatusIcon = status.icon;
           const totalFindings = audit.totalFindings;
-          const progress = audit.status === "completed" ? 100 : audit.status === "running" ? 60 : 0;
+          const progress = audit.progress?.total
+            ? (audit.progress.finished / audit.progress.total) * 100
+            : audit.status === "completed" ? 100 : audit.status === "running" ? 60 : 0;
 
           return (
             <Link key={audit.id} href={`/dashboard/audits/${audit.id}`}>
@@ -198,7 +260,7 @@ export default function AuditsPage() {
                         {audit.account.name}
                       </h3>
                       <p className="text-xs text-white/40 font-mono">
-                        {audit.account.accountId}
+                        {audit.provider} · {audit.account.accountId}
                       </p>
                     </div>
                   </div>
@@ -283,6 +345,21 @@ export default function AuditsPage() {
                       </div>
                     </div>
 
+                    {comparable.has(audit.id) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="gap-1.5 text-white/50 hover:text-white hover:bg-white/10"
+                        onClick={(e) => {
+                          e.preventDefault();
+                          router.push(`/dashboard/audits/${audit.id}/compare`);
+                        }}
+                      >
+                        <GitCompare className="w-4 h-4" />
+                        Compare
+                      </Button>
+                    )}
+
                     {/* Arrow */}
                     <ChevronRight className="w-5 h-5 text-white/20 group-hover:text-white/40 transition-colors" />
                   </div>
@@ -304,7 +381,7 @@ export default function AuditsPage() {
               : "Run your first security audit to get started"}
           </p>
           {!searchQuery && statusFilter === "all" && (
-            <Button className="btn-gradient gap-2">
+            <Button className="btn-gradient gap-2" onClick={() => setIsNewAuditOpen(true)}>
               <Play className="w-4 h-4" />
               Start Audit
             </Button>
@@ -1,10 +1,24 @@
 "use client";
 
-import { useEffect, useState, useMemo } from "react";
+import { useEffect, useState, useMemo, useCallback } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
-import { GlassCard } from "@/components/dashboard";
+import {
+  FindingAssignment,
+  FindingComments,
+  FindingLifecycle,
+  FindingTimeline,
+  GlassCard,
+  OverdueBadge,
+  PaginationControls,
+  RegressionBadge,
+  RiskAcceptanceRequest,
+  type FindingAssignmentInfo,
+  type FindingLifecycleInfo,
+} from "@/components/dashboard";
+import { useAccountScope } from "@/components/providers/account-scope-provider";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
@@ -47,6 +61,8 @@ import {
   Target,
   Lightbulb,
 } from "lucide-react";
+import { toast } from "sonner";
+import type { PaginatedResponse } from "@/types";
 
 // Azure icon component
 function AzureIcon({ className }: { className?: string }) {
@@ -57,7 +73,7 @@ function AzureIcon({ className }: { className?: string }) {
   );
 }
 
-interface Finding {
+interface Finding extends FindingLifecycleInfo, FindingAssignmentInfo {
   id: string;
   findingId: string;
   severity: string;
@@ -203,38 +219,68 @@ const parseRecommendationSteps = (recommendation: string | undefined): string[]
 };
 
 export default function AzureFindingsPage() {
+  const { loading: scopeLoading, scopedAccountId } = useAccountScope();
+  const accountId = scopedAccountId("AZURE");
   const searchParams = useSearchParams();
   const router = useRouter();
   const [findings, setFindings] = useState<Finding[]>([]);
+  const [pagination, setPagination] = useState<PaginatedResponse<Finding>["pagination"] | null>(null);
+  const [severityFacets, setSeverityFacets] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [page, setPage] = useState(1);
   const [severityFilter, setSeverityFilter] = useState<string>(
     searchParams.get("severity") || "all"
   );
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [selectedFinding, setSelectedFinding] = useState<Finding | null>(null);
   const [copied, setCopied] = useState(false);
+  const [statusComment, setStatusComment] = useState("");
+  const [historyVersion, setHistoryVersion] = useState(0);
+
+  // Back to the first page whenever the filters change
+  const filtersKey = [accountId, severityFilter, statusFilter, debouncedSearch].join("|");
+  const [pageFiltersKey, setPageFiltersKey] = useState(filtersKey);
+  if (pageFiltersKey !== filtersKey) {
+    setPageFiltersKey(filtersKey);
+    setPage(1);
+  }
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  const fetchFindings = useCallback(async () => {
+    const params = new URLSearchParams({ provider: "AZURE", page: String(page) });
+    if (accountId) params.set("accountId", accountId);
+    if (severityFilter !== "all") params.set("severity", severityFilter);
+    if (statusFilter !== "all") params.set("status", statusFilter);
+    if (debouncedSearch) params.set("q", debouncedSearch);
 
-  const fetchFindings = async () => {
     try {
-      setLoading(true);
-      const response = await fetch("/api/azure/findings");
+      const response = await fetch(`/api/findings?${params}`);
       if (!response.ok) {
         throw new Error("Failed to fetch findings");
       }
       const data = await response.json();
-      setFindings(data.findings);
+      setFindings(data.data);
+      setPagination(data.pagination);
+      setSeverityFacets(data.facets.severity);
+      setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred");
     } finally {
       setLoading(false);
     }
-  };
+  }, [accountId, page, severityFilter, statusFilter, debouncedSearch]);
 
   useEffect(() => {
+    if (scopeLoading) return;
     fetchFindings();
-  }, []);
+  }, [scopeLoading, fetchFindings]);
 
   useEffect(() => {
     const severity = searchParams.get("severity");
@@ -243,32 +289,15 @@ export default function AzureFindingsPage() {
     }
   }, [searchParams]);
 
-  const filteredFindings = useMemo(() => {
-    return findings.filter((finding) => {
-      const matchesSearch =
-        finding.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        finding.resource.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        finding.findingId.toLowerCase().includes(searchTerm.toLowerCase());
-
-      const matchesSeverity =
-        severityFilter === "all" || finding.severity === severityFilter;
-
-      const matchesStatus =
-        statusFilter === "all" || finding.status === statusFilter;
-
-      return matchesSearch && matchesSeverity && matchesStatus;
-    });
-  }, [findings, searchTerm, severityFilter, statusFilter]);
-
   const severityCounts = useMemo(() => {
     return {
-      all: findings.length,
-      CRITICAL: findings.filter((f) => f.severity === "CRITICAL").length,
-      HIGH: findings.filter((f) => f.severity === "HIGH").length,
-      MEDIUM: findings.filter((f) => f.severity === "MEDIUM").length,
-      LOW: findings.filter((f) => f.severity === "LOW").length,
+      all: Object.values(severityFacets).reduce((sum, n) => sum + n, 0),
+      CRITICAL: severityFacets.CRITICAL ?? 0,
+      HIGH: severityFacets.HIGH ?? 0,
+      MEDIUM: severityFacets.MEDIUM ?? 0,
+      LOW: severityFacets.LOW ?? 0,
     };
-  }, [findings]);
+  }, [severityFacets]);
 
   const handleCopyId = async (id: string) => {
     await navigator.clipboard.writeText(id);
@@ -278,21 +307,22 @@ export default function AzureFindingsPage() {
 
   const handleStatusUpdate = async (findingId: string, newStatus: string) => {
     try {
-      const response = await fetch(`/api/azure/findings/${findingId}`, {
+      const response = await fetch(`/api/findings/${findingId}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ status: newStatus, comment: statusComment }),
       });
+      const data = await response.json();
 
       if (response.ok) {
-        setFindings((prev) =>
-          prev.map((f) =>
-            f.id === findingId ? { ...f, status: newStatus } : f
-          )
-        );
+        fetchFindings();
         if (selectedFinding?.id === findingId) {
           setSelectedFinding({ ...selectedFinding, status: newStatus });
         }
+        setStatusComment("");
+        setHistoryVersion((v) => v + 1);
+      } else {
+        toast.error("Failed to update finding", { description: data.error });
       }
     } catch (err) {
       console.error("Failed to update status:", err);
@@ -342,7 +372,7 @@ export default function AzureFindingsPage() {
           <div>
             <h1 className="text-2xl font-bold text-white">Azure Security Findings</h1>
             <p className="text-white/50">
-              {filteredFindings.length} findings across your Azure subscription
+              {pagination?.total ?? 0} findings across your Azure subscription
             </p>
           </div>
         </div>
@@ -402,6 +432,8 @@ export default function AzureFindingsPage() {
               <SelectItem value="open">Open</SelectItem>
               <SelectItem value="resolved">Resolved</SelectItem>
               <SelectItem value="ignored">Ignored</SelectItem>
+              <SelectItem value="accepted">Accepted</SelectItem>
+              <SelectItem value="false_positive">False Positive</SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -409,7 +441,7 @@ export default function AzureFindingsPage() {
 
       {/* Findings List */}
       <div className="space-y-3">
-        {filteredFindings.length === 0 ? (
+        {findings.length === 0 ? (
           <GlassCard className="p-12 text-center">
             <CheckCircle className="w-12 h-12 text-green-400 mx-auto mb-4" />
             <h3 className="text-lg font-semibold text-white mb-2">
@@ -420,7 +452,7 @@ export default function AzureFindingsPage() {
             </p>
           </GlassCard>
         ) : (
-          filteredFindings.map((finding) => {
+          findings.map((finding) => {
             const config = severityConfig[finding.severity as keyof typeof severityConfig] || severityConfig.LOW;
             const SeverityIcon = config.icon;
             const CategoryIcon = getCategoryIcon(finding.findingId);
@@ -452,6 +484,8 @@ export default function AzureFindingsPage() {
                           <code className="text-xs text-cyan-400 font-mono">
                             {finding.findingId}
                           </code>
+                          {finding.regression && <RegressionBadge />}
+                          <OverdueBadge finding={finding} />
                         </div>
 
                         {/* Title */}
@@ -491,7 +525,7 @@ export default function AzureFindingsPage() {
                             }
                           `}
                         >
-                          {finding.status}
+                          {finding.status.replace("_", " ")}
                         </Badge>
                       </div>
                     </div>
@@ -514,10 +548,17 @@ export default function AzureFindingsPage() {
             );
           })
         )}
+        {pagination && <PaginationControls pagination={pagination} onPageChange={setPage} />}
       </div>
 
       {/* Finding Detail Modal */}
-      <Dialog open={!!selectedFinding} onOpenChange={() => setSelectedFinding(null)}>
+      <Dialog
+        open={!!selectedFinding}
+        onOpenChange={() => {
+          setSelectedFinding(null);
+          setStatusComment("");
+        }}
+      >
         <DialogContent className="max-w-2xl bg-[#0c0118] border-white/10 max-h-[90vh] overflow-y-auto">
           {selectedFinding && (() => {
             const config = severityConfig[selectedFinding.severity as keyof typeof severityConfig] || severityConfig.LOW;
@@ -580,7 +621,7 @@ export default function AzureFindingsPage() {
                         }
                       `}
                     >
-                      {selectedFinding.status}
+                      {selectedFinding.status.replace("_", " ")}
                     </Badge>
                   </div>
 
@@ -606,6 +647,18 @@ export default function AzureFindingsPage() {
                     </div>
                   )}
 
+                  <FindingLifecycle finding={selectedFinding} />
+
+                  <FindingAssignment
+                    findingId={selectedFinding.id}
+                    finding={selectedFinding}
+                    onAssigned={(assignment) => {
+                      setSelectedFinding((prev) => prev && { ...prev, ...assignment });
+                      setHistoryVersion((v) => v + 1);
+                      fetchFindings();
+                    }}
+                  />
+
                   {/* Resource Details */}
                   <div className="p-4 rounded-xl bg-white/5 border border-white/10">
                     <h4 className="text-sm font-medium text-white/40 uppercase tracking-wide mb-3 flex items-center gap-2">
@@ -652,8 +705,20 @@ export default function AzureFindingsPage() {
                     </div>
                   </div>
 
+                  <FindingTimeline findingId={selectedFinding.id} refreshKey={historyVersion} />
+
+                  <FindingComments findingId={selectedFinding.id} />
+
                   {/* Action Buttons */}
-                  <div className="flex flex-wrap gap-3 pt-4 border-t border-white/10">
+                  <div className="pt-4 border-t border-white/10">
+                    <Textarea
+                      placeholder="Add a comment. Required to ignore a finding or mark it a false positive."
+                      value={statusComment}
+                      onChange={(e) => setStatusComment(e.target.value)}
+                      className="bg-white/5 border-white/10 text-white min-h-[72px]"
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-3">
                     <Button
                       variant="outline"
                       className="gap-2 flex-1 sm:flex-none"
@@ -681,12 +746,21 @@ export default function AzureFindingsPage() {
                           variant="outline"
                           className="gap-2 flex-1 sm:flex-none border-yellow-500/30 text-yellow-400 hover:bg-yellow-500/10"
                           onClick={() => handleStatusUpdate(selectedFinding.id, "ignored")}
+                          disabled={!statusComment.trim()}
                         >
                           Ignore
                         </Button>
+                        <Button
+                          variant="outline"
+                          className="gap-2 flex-1 sm:flex-none border-purple-500/30 text-purple-400 hover:bg-purple-500/10"
+                          onClick={() => handleStatusUpdate(selectedFinding.id, "false_positive")}
+                          disabled={!statusComment.trim()}
+                        >
+                          False Positive
+                        </Button>
                       </>
                     )}
-                    {selectedFinding.status !== "open" && (
+                    {selectedFinding.status !== "open" && selectedFinding.status !== "accepted" && (
                       <Button
                         variant="outline"
                         className="gap-2 flex-1 sm:flex-none"
@@ -696,6 +770,11 @@ export default function AzureFindingsPage() {
                       </Button>
                     )}
                   </div>
+                  <RiskAcceptanceRequest
+                    findingId={selectedFinding.id}
+                    disabled={selectedFinding.status === "accepted"}
+                    onRequested={() => setHistoryVersion((v) => v + 1)}
+                  />
                 </div>
               </>
             );
@@ -72,7 +72,7 @@ interface DashboardData {
   subscriptions: Array<{
     id: string;
     name: string;
-    subscriptionId: string;
+    accountId: string;
   }>;
 }
 
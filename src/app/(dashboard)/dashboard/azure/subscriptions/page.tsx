@@ -1,7 +1,14 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { GlassCard } from "@/components/dashboard";
+import {
+  AccountMembers,
+  AuditSchedules,
+  GlassCard,
+  VerificationBadge,
+  type AccountMemberInfo,
+  type AuditScheduleInfo,
+} from "@/components/dashboard";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -33,6 +40,7 @@ import {
   Clock,
   ExternalLink,
   Key,
+  ShieldCheck,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -44,6 +52,7 @@ import {
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { format } from "date-fns";
+import type { VerificationStatus } from "@/types";
 
 // Azure Icon
 function AzureIcon({ className }: { className?: string }) {
@@ -57,12 +66,15 @@ function AzureIcon({ className }: { className?: string }) {
 interface AzureSubscription {
   id: string;
   name: string;
-  subscriptionId: string;
+  accountId: string;
   tenantId: string | null;
   region: string;
   isActive: boolean;
   lastScanAt: string | null;
   healthScore: number | null;
+  verificationStatus: VerificationStatus;
+  verificationError: string | null;
+  verifiedAt: string | null;
   audits: Array<{
     id: string;
     status: string;
@@ -74,6 +86,8 @@ interface AzureSubscription {
     low: number;
     completedAt: string | null;
   }>;
+  schedules: AuditScheduleInfo[];
+  members: AccountMemberInfo[];
   _count: {
     audits: number;
   };
@@ -145,7 +159,7 @@ export default function AzureSubscriptionsPage() {
   const filteredSubscriptions = subscriptions.filter(
     (sub) =>
       sub.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      sub.subscriptionId.includes(searchQuery)
+      sub.accountId.includes(searchQuery)
   );
 
   const handleAddSubscription = async (e: React.FormEvent) => {
@@ -205,6 +219,46 @@ export default function AzureSubscriptionsPage() {
     }
   };
 
+  const handleVerify = async (id: string) => {
+    try {
+      const response = await fetch(`/api/azure/subscriptions/${id}/verify`, { method: "POST" });
+      const data = await response.json();
+
+      if (response.ok && data.verificationStatus === "verified") {
+        toast.success("Credentials verified");
+      } else {
+        toast.error("Verification failed", {
+          description: data.verificationError || data.error,
+        });
+      }
+      fetchSubscriptions();
+    } catch {
+      toast.error("Verification failed");
+    }
+  };
+
+  const handleRunAudit = async (id: string) => {
+    try {
+      const response = await fetch("/api/audits", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ accountId: id }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success("Audit started", {
+          description: "Findings appear here once the scan completes",
+        });
+        fetchSubscriptions();
+      } else {
+        toast.error("Failed to start audit", { description: data.error });
+      }
+    } catch {
+      toast.error("Failed to start audit");
+    }
+  };
+
   const formatLastScan = (lastScanAt: string | null) => {
     if (!lastScanAt) return "Never";
     return format(new Date(lastScanAt), "MMM d, h:mm a");
@@ -401,7 +455,7 @@ export default function AzureSubscriptionsPage() {
                   <div>
                     <h3 className="font-semibold text-white">{subscription.name}</h3>
                     <p className="text-xs text-white/40 font-mono truncate max-w-[150px]">
-                      {subscription.subscriptionId}
+                      {subscription.accountId}
                     </p>
                   </div>
                 </div>
@@ -412,10 +466,14 @@ export default function AzureSubscriptionsPage() {
                     </Button>
                   </DropdownMenuTrigger>
                   <DropdownMenuContent align="end">
-                    <DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleRunAudit(subscription.id)}>
                       <Play className="w-4 h-4 mr-2" />
                       Run Audit
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleVerify(subscription.id)}>
+                      <ShieldCheck className="w-4 h-4 mr-2" />
+                      Re-verify Credentials
+                    </DropdownMenuItem>
                     <DropdownMenuItem>
                       <ExternalLink className="w-4 h-4 mr-2" />
                       View in Azure Portal
@@ -437,7 +495,7 @@ export default function AzureSubscriptionsPage() {
               </div>
 
               {/* Status & Region */}
-              <div className="flex items-center gap-3 mb-4">
+              <div className="flex flex-wrap items-center gap-3 mb-4">
                 <div
                   className={cn(
                     "flex items-center gap-1.5 px-2 py-1 rounded-full text-xs font-medium",
@@ -449,6 +507,11 @@ export default function AzureSubscriptionsPage() {
                   {statusKey}
                 </div>
                 <span className="text-xs text-white/40">{subscription.region}</span>
+                <VerificationBadge
+                  status={subscription.verificationStatus}
+                  verifiedAt={subscription.verifiedAt}
+                  error={subscription.verificationError}
+                />
               </div>
 
               {/* Findings Summary */}
@@ -479,6 +542,21 @@ export default function AzureSubscriptionsPage() {
                 </div>
               </div>
 
+              {/* Schedules */}
+              <AuditSchedules
+                provider="AZURE"
+                accountId={subscription.id}
+                schedules={subscription.schedules ?? []}
+                onChange={fetchSubscriptions}
+              />
+
+              {/* Sharing */}
+              <AccountMembers
+                accountId={subscription.id}
+                members={subscription.members ?? []}
+                onChange={fetchSubscriptions}
+              />
+
               {/* Footer */}
               <div className="flex items-center justify-between pt-4 border-t border-white/10">
                 <div className="flex items-center gap-2">
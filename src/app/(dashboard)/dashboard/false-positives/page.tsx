@@ -0,0 +1,186 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { GlassCard, SeverityBadge } from "@/components/dashboard";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Ban, RefreshCw } from "lucide-react";
+import { useAccountScope } from "@/components/providers/account-scope-provider";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import type { Severity } from "@/types";
+
+interface CheckStats {
+  checkId: string;
+  title: string;
+  provider: string;
+  severity: string;
+  findings: number;
+  falsePositives: number;
+  rate: number;
+  markedByUsers: number;
+}
+
+const ALL_PROVIDERS = "all";
+
+// Checks flagged this often are likely to need tuning
+const NOISY_RATE = 0.25;
+
+function RateBar({ rate }: { rate: number }) {
+  return (
+    <div className="flex items-center gap-2">
+      <div className="h-1.5 w-24 rounded-full bg-white/10 overflow-hidden">
+        <div
+          className={cn("h-full rounded-full", rate >= NOISY_RATE ? "bg-orange-400" : "bg-white/40")}
+          style={{ width: `${Math.round(rate * 100)}%` }}
+        />
+      </div>
+      <span className={cn("text-sm", rate >= NOISY_RATE ? "text-orange-400" : "text-white/60")}>
+        {Math.round(rate * 100)}%
+      </span>
+    </div>
+  );
+}
+
+export default function FalsePositivesPage() {
+  const { selectedAccount } = useAccountScope();
+  const [checks, setChecks] = useState<CheckStats[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [provider, setProvider] = useState(ALL_PROVIDERS);
+
+  const fetchStats = useCallback(async () => {
+    try {
+      const params = new URLSearchParams();
+      if (provider !== ALL_PROVIDERS) params.set("provider", provider);
+      if (selectedAccount) params.set("accountId", selectedAccount.id);
+
+      const response = await fetch(`/api/checks/false-positives?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setChecks(data.checks || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch false positive stats:", error);
+      toast.error("Failed to load false positive stats");
+    } finally {
+      setLoading(false);
+    }
+  }, [provider, selectedAccount]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  if (loading) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div>
+          <Skeleton className="h-8 w-48 bg-white/10" />
+          <Skeleton className="h-4 w-64 mt-2 bg-white/10" />
+        </div>
+        <Skeleton className="h-96 bg-white/10 rounded-2xl" />
+      </div>
+    );
+  }
+
+  const flagged = checks.filter((check) => check.falsePositives > 0);
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-white">False Positives</h1>
+          <p className="text-white/50 mt-1">
+            Checks whose findings are marked false positive most often
+            {selectedAccount ? ` in ${selectedAccount.name}` : ""}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={provider} onValueChange={setProvider}>
+            <SelectTrigger className="w-[150px] bg-white/5 border-white/10">
+              <SelectValue placeholder="Provider" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_PROVIDERS}>All Clouds</SelectItem>
+              <SelectItem value="AWS">AWS</SelectItem>
+              <SelectItem value="GCP">GCP</SelectItem>
+              <SelectItem value="AZURE">Azure</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            className="bg-white/5 border-white/10 gap-2"
+            onClick={() => fetchStats()}
+          >
+            <RefreshCw className="w-4 h-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <GlassCard className="p-0 overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="border-white/10 hover:bg-transparent">
+              <TableHead className="text-white/50">Check</TableHead>
+              <TableHead className="text-white/50">Severity</TableHead>
+              <TableHead className="text-white/50">False Positives</TableHead>
+              <TableHead className="text-white/50">Rate</TableHead>
+              <TableHead className="text-white/50">Times Marked</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {flagged.map((check) => (
+              <TableRow key={check.checkId} className="border-white/5 hover:bg-white/5">
+                <TableCell className="max-w-md">
+                  <p className="text-sm font-medium text-white truncate" title={check.title}>
+                    {check.title}
+                  </p>
+                  <p className="text-xs text-white/40 font-mono mt-0.5">
+                    {check.checkId} · {check.provider}
+                  </p>
+                </TableCell>
+                <TableCell>
+                  <SeverityBadge severity={check.severity as Severity} size="sm" />
+                </TableCell>
+                <TableCell className="text-sm text-white/60">
+                  {check.falsePositives} of {check.findings}
+                </TableCell>
+                <TableCell>
+                  <RateBar rate={check.rate} />
+                </TableCell>
+                <TableCell className="text-sm text-white/60">{check.markedByUsers}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {flagged.length === 0 && (
+          <div className="text-center py-12">
+            <Ban className="w-12 h-12 text-white/20 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-white mb-2">No false positives</h3>
+            <p className="text-white/50">
+              Findings marked false positive from the findings pages are counted here per check
+            </p>
+          </div>
+        )}
+      </GlassCard>
+    </div>
+  );
+}
@@ -1,10 +1,23 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useSearchParams } from "next/navigation";
-import { GlassCard } from "@/components/dashboard";
+import {
+  FindingAssignment,
+  FindingComments,
+  FindingLifecycle,
+  FindingTimeline,
+  GlassCard,
+  OverdueBadge,
+  PaginationControls,
+  RegressionBadge,
+  RiskAcceptanceRequest,
+  type FindingAssignmentInfo,
+  type FindingLifecycleInfo,
+} from "@/components/dashboard";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Select,
@@ -46,12 +59,16 @@ import {
   Key,
   ShieldAlert,
   Info,
+  ShieldCheck,
+  Ban,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import Link from "next/link";
+import { useAccountScope } from "@/components/providers/account-scope-provider";
+import type { PaginatedResponse } from "@/types";
 
-interface Finding {
+interface Finding extends FindingLifecycleInfo, FindingAssignmentInfo {
   id: string;
   findingId: string;
   severity: string;
@@ -64,7 +81,11 @@ interface Finding {
   status: string;
 }
 
-const severityOrder = { CRITICAL: 0, HIGH: 1, MEDIUM: 2, LOW: 3 };
+interface FindingFacets {
+  severity: Record<string, number>;
+  status: Record<string, number>;
+  regions: string[];
+}
 
 const severityConfig = {
   CRITICAL: { color: "text-red-400", bg: "bg-red-500/10", border: "border-red-500/20", label: "Critical" },
@@ -77,6 +98,8 @@ const statusConfig = {
   open: { color: "text-red-400", bg: "bg-red-500/10", icon: AlertTriangle, label: "Open" },
   resolved: { color: "text-green-400", bg: "bg-green-500/10", icon: CheckCircle, label: "Resolved" },
   ignored: { color: "text-white/40", bg: "bg-white/5", icon: XCircle, label: "Ignored" },
+  accepted: { color: "text-cyan-400", bg: "bg-cyan-500/10", icon: ShieldCheck, label: "Accepted" },
+  false_positive: { color: "text-purple-400", bg: "bg-purple-500/10", icon: Ban, label: "False Positive" },
 };
 
 // Get category icon based on finding ID prefix
@@ -185,25 +208,56 @@ const parseRecommendationSteps = (recommendation: string | undefined, findingId:
 };
 
 export default function FindingsPage() {
+  const { loading: scopeLoading, scopedAccountId } = useAccountScope();
+  const accountId = scopedAccountId("AWS");
   const searchParams = useSearchParams();
   const initialSeverity = searchParams.get("severity") || "all";
   const initialStatus = searchParams.get("status") || "all";
+  const initialRegion = searchParams.get("region") || "all";
 
   const [findings, setFindings] = useState<Finding[]>([]);
+  const [pagination, setPagination] = useState<PaginatedResponse<Finding>["pagination"] | null>(null);
+  const [facets, setFacets] = useState<FindingFacets | null>(null);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [severityFilter, setSeverityFilter] = useState(initialSeverity);
   const [statusFilter, setStatusFilter] = useState(initialStatus);
+  const [regionFilter, setRegionFilter] = useState(initialRegion);
+  const [page, setPage] = useState(1);
   const [selectedFinding, setSelectedFinding] = useState<Finding | null>(null);
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [statusComment, setStatusComment] = useState("");
+  const [historyVersion, setHistoryVersion] = useState(0);
+
+  // Back to the first page whenever the filters change
+  const filtersKey = [accountId, severityFilter, statusFilter, regionFilter, debouncedSearch].join("|");
+  const [pageFiltersKey, setPageFiltersKey] = useState(filtersKey);
+  if (pageFiltersKey !== filtersKey) {
+    setPageFiltersKey(filtersKey);
+    setPage(1);
+  }
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const fetchFindings = useCallback(async () => {
+    const params = new URLSearchParams({ provider: "AWS", page: String(page) });
+    if (accountId) params.set("accountId", accountId);
+    if (severityFilter !== "all") params.set("severity", severityFilter);
+    if (statusFilter !== "all") params.set("status", statusFilter);
+    if (regionFilter !== "all") params.set("region", regionFilter);
+    if (debouncedSearch) params.set("q", debouncedSearch);
 
-  const fetchFindings = async () => {
     try {
-      setLoading(true);
-      const response = await fetch("/api/findings");
+      const response = await fetch(`/api/findings?${params}`);
       if (response.ok) {
         const data = await response.json();
-        setFindings(data.findings || []);
+        setFindings(data.data || []);
+        setPagination(data.pagination);
+        setFacets(data.facets);
       }
     } catch (error) {
       console.error("Failed to fetch findings:", error);
@@ -211,38 +265,30 @@ export default function FindingsPage() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [accountId, page, severityFilter, statusFilter, regionFilter, debouncedSearch]);
 
   useEffect(() => {
+    if (scopeLoading) return;
     fetchFindings();
-  }, []);
+  }, [scopeLoading, fetchFindings]);
 
   // Update filters when URL params change
   useEffect(() => {
     const severity = searchParams.get("severity");
     const status = searchParams.get("status");
+    const region = searchParams.get("region");
     if (severity) setSeverityFilter(severity);
     if (status) setStatusFilter(status);
+    if (region) setRegionFilter(region);
   }, [searchParams]);
 
-  const filteredFindings = findings
-    .filter((finding) => {
-      const matchesSearch =
-        finding.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        finding.findingId.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        finding.resource.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        (finding.description?.toLowerCase().includes(searchQuery.toLowerCase()) ?? false);
-      const matchesSeverity =
-        severityFilter === "all" || finding.severity === severityFilter;
-      const matchesStatus =
-        statusFilter === "all" || finding.status === statusFilter;
-      return matchesSearch && matchesSeverity && matchesStatus;
-    })
-    .sort((a, b) => {
-      const aOrder = severityOrder[a.severity as keyof typeof severityOrder] ?? 4;
-      const bOrder = severityOrder[b.severity as keyof typeof severityOrder] ?? 4;
-      return aOrder - bOrder;
-    });
+  // Regions present in the findings, plus one selected through the URL
+  const regions = [
+    ...new Set([
+      ...(facets?.regions ?? []),
+      ...(regionFilter !== "all" ? [regionFilter] : []),
+    ]),
+  ].sort();
 
   const copyToClipboard = (text: string, id: string) => {
     navigator.clipboard.writeText(text);
@@ -256,30 +302,34 @@ export default function FindingsPage() {
       const response = await fetch(`/api/findings/${findingId}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ status: newStatus, comment: statusComment }),
       });
+      const data = await response.json();
 
       if (response.ok) {
-        setFindings(findings.map(f =>
-          f.id === findingId ? { ...f, status: newStatus } : f
-        ));
+        fetchFindings();
         toast.success(`Finding marked as ${newStatus}`);
-        setSelectedFinding(null);
+        setSelectedFinding((prev) => prev && { ...prev, status: newStatus });
+        setStatusComment("");
+        setHistoryVersion((v) => v + 1);
+      } else {
+        toast.error("Failed to update finding", { description: data.error });
       }
     } catch (error) {
       toast.error("Failed to update finding");
     }
   };
 
-  // Stats counts
+  // Stats counts across all findings in scope, whatever the filters
+  const severityCount = (severity: string) => facets?.severity[severity] ?? 0;
   const stats = {
-    total: findings.length,
-    critical: findings.filter(f => f.severity === "CRITICAL").length,
-    high: findings.filter(f => f.severity === "HIGH").length,
-    medium: findings.filter(f => f.severity === "MEDIUM").length,
-    low: findings.filter(f => f.severity === "LOW").length,
-    open: findings.filter(f => f.status === "open").length,
-    resolved: findings.filter(f => f.status === "resolved").length,
+    total: Object.values(facets?.severity ?? {}).reduce((sum, n) => sum + n, 0),
+    critical: severityCount("CRITICAL"),
+    high: severityCount("HIGH"),
+    medium: severityCount("MEDIUM"),
+    low: severityCount("LOW"),
+    open: facets?.status.open ?? 0,
+    resolved: facets?.status.resolved ?? 0,
   };
 
   if (loading) {
@@ -312,7 +362,7 @@ export default function FindingsPage() {
           <div>
             <h1 className="text-2xl font-bold text-white">Security Findings</h1>
             <p className="text-white/50 mt-1">
-              {filteredFindings.length} of {findings.length} findings
+              {pagination?.total ?? 0} of {stats.total} findings
             </p>
           </div>
         </div>
@@ -443,6 +493,22 @@ export default function FindingsPage() {
               <SelectItem value="open">Open</SelectItem>
               <SelectItem value="resolved">Resolved</SelectItem>
               <SelectItem value="ignored">Ignored</SelectItem>
+              <SelectItem value="accepted">Accepted</SelectItem>
+              <SelectItem value="false_positive">False Positive</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={regionFilter} onValueChange={setRegionFilter}>
+            <SelectTrigger className="w-[160px] bg-white/5 border-white/10 text-white">
+              <Globe className="w-4 h-4 mr-2 text-white/40" />
+              <SelectValue placeholder="Region" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Regions</SelectItem>
+              {regions.map((region) => (
+                <SelectItem key={region} value={region}>
+                  {region}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -450,18 +516,18 @@ export default function FindingsPage() {
 
       {/* Findings List */}
       <div className="space-y-3">
-        {filteredFindings.length === 0 ? (
+        {findings.length === 0 ? (
           <GlassCard className="p-12 text-center">
             <Shield className="w-12 h-12 text-white/20 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-white mb-2">No findings found</h3>
             <p className="text-white/50">
-              {searchQuery || severityFilter !== "all" || statusFilter !== "all"
+              {searchQuery || severityFilter !== "all" || statusFilter !== "all" || regionFilter !== "all"
                 ? "Try adjusting your filters"
                 : "Great job! No security findings detected."}
             </p>
           </GlassCard>
         ) : (
-          filteredFindings.map((finding) => {
+          findings.map((finding) => {
             const config = severityConfig[finding.severity as keyof typeof severityConfig] || severityConfig.MEDIUM;
             const status = statusConfig[finding.status as keyof typeof statusConfig] || statusConfig.open;
             const StatusIcon = status.icon;
@@ -502,6 +568,8 @@ export default function FindingsPage() {
                               {finding.region}
                             </span>
                           )}
+                          {finding.regression && <RegressionBadge />}
+                          <OverdueBadge finding={finding} />
                         </div>
                         <h3 className="text-sm font-semibold text-white leading-tight">
                           {finding.title}
@@ -553,10 +621,17 @@ export default function FindingsPage() {
             );
           })
         )}
+        {pagination && <PaginationControls pagination={pagination} onPageChange={setPage} />}
       </div>
 
       {/* Finding Detail Modal - Comprehensive View */}
-      <Dialog open={!!selectedFinding} onOpenChange={() => setSelectedFinding(null)}>
+      <Dialog
+        open={!!selectedFinding}
+        onOpenChange={() => {
+          setSelectedFinding(null);
+          setStatusComment("");
+        }}
+      >
         <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto bg-background border-white/10">
           {selectedFinding && (() => {
             const config = severityConfig[selectedFinding.severity as keyof typeof severityConfig] || severityConfig.MEDIUM;
@@ -622,6 +697,18 @@ export default function FindingsPage() {
                     </div>
                   </div>
 
+                  <FindingLifecycle finding={selectedFinding} />
+
+                  <FindingAssignment
+                    findingId={selectedFinding.id}
+                    finding={selectedFinding}
+                    onAssigned={(assignment) => {
+                      setSelectedFinding((prev) => prev && { ...prev, ...assignment });
+                      setHistoryVersion((v) => v + 1);
+                      fetchFindings();
+                    }}
+                  />
+
                   {/* Resource Details */}
                   <div className="space-y-3">
                     <h4 className="text-sm font-semibold text-white flex items-center gap-2">
@@ -758,35 +845,61 @@ export default function FindingsPage() {
                     </div>
                   </div>
 
+                  <FindingTimeline findingId={selectedFinding.id} refreshKey={historyVersion} />
+
+                  <FindingComments findingId={selectedFinding.id} />
+
                   {/* Actions */}
-                  <div className="flex gap-3 pt-4 border-t border-white/10">
-                    <Button
-                      className="flex-1 bg-green-500/20 hover:bg-green-500/30 text-green-400 border border-green-500/30"
-                      onClick={() => updateFindingStatus(selectedFinding.id, "resolved")}
-                      disabled={selectedFinding.status === "resolved"}
-                    >
-                      <CheckCircle className="w-4 h-4 mr-2" />
-                      Mark as Resolved
-                    </Button>
-                    <Button
-                      variant="outline"
-                      className="flex-1 bg-white/5 border-white/10 text-white/70"
-                      onClick={() => updateFindingStatus(selectedFinding.id, "ignored")}
-                      disabled={selectedFinding.status === "ignored"}
-                    >
-                      <XCircle className="w-4 h-4 mr-2" />
-                      Ignore Finding
-                    </Button>
-                    {selectedFinding.status !== "open" && (
+                  <div className="space-y-3 pt-4 border-t border-white/10">
+                    <Textarea
+                      placeholder="Add a comment. Required to ignore a finding or mark it a false positive."
+                      value={statusComment}
+                      onChange={(e) => setStatusComment(e.target.value)}
+                      className="bg-white/5 border-white/10 text-white min-h-[72px]"
+                    />
+                    <div className="flex gap-3">
+                      <Button
+                        className="flex-1 bg-green-500/20 hover:bg-green-500/30 text-green-400 border border-green-500/30"
+                        onClick={() => updateFindingStatus(selectedFinding.id, "resolved")}
+                        disabled={selectedFinding.status === "resolved"}
+                      >
+                        <CheckCircle className="w-4 h-4 mr-2" />
+                        Mark as Resolved
+                      </Button>
                       <Button
                         variant="outline"
                         className="flex-1 bg-white/5 border-white/10 text-white/70"
-                        onClick={() => updateFindingStatus(selectedFinding.id, "open")}
+                        onClick={() => updateFindingStatus(selectedFinding.id, "ignored")}
+                        disabled={selectedFinding.status === "ignored" || !statusComment.trim()}
                       >
-                        <RefreshCw className="w-4 h-4 mr-2" />
-                        Reopen
+                        <XCircle className="w-4 h-4 mr-2" />
+                        Ignore Finding
                       </Button>
-                    )}
+                      {selectedFinding.status !== "open" && selectedFinding.status !== "accepted" && (
+                        <Button
+                          variant="outline"
+                          className="flex-1 bg-white/5 border-white/10 text-white/70"
+                          onClick={() => updateFindingStatus(selectedFinding.id, "open")}
+                        >
+                          <RefreshCw className="w-4 h-4 mr-2" />
+                          Reopen
+                        </Button>
+                      )}
+                    </div>
+                    <Button
+                      variant="outline"
+                      className="w-full bg-white/5 border-white/10 text-white/70"
+                      onClick={() => updateFindingStatus(selectedFinding.id, "false_positive")}
+                      disabled={selectedFinding.status === "false_positive" || !statusComment.trim()}
+                    >
+                      <Ban className="w-4 h-4 mr-2" />
+                      Mark as False Positive
+                    </Button>
+                    <RiskAcceptanceRequest
+                      findingId={selectedFinding.id}
+                      disabled={selectedFinding.status === "accepted"}
+                      onRequested={() => setHistoryVersion((v) => v + 1)}
+                    />
                   </div>
                 </div>
               </>
@@ -1,10 +1,23 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useSearchParams } from "next/navigation";
-import { GlassCard } from "@/components/dashboard";
+import {
+  FindingAssignment,
+  FindingComments,
+  FindingLifecycle,
+  FindingTimeline,
+  GlassCard,
+  OverdueBadge,
+  PaginationControls,
+  RegressionBadge,
+  RiskAcceptanceRequest,
+  type FindingAssignmentInfo,
+  type FindingLifecycleInfo,
+} from "@/components/dashboard";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Select,
@@ -43,12 +56,16 @@ import {
   Database,
   Globe,
   Info,
+  ShieldCheck,
+  Ban,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import Link from "next/link";
+import { useAccountScope } from "@/components/providers/account-scope-provider";
+import type { PaginatedResponse } from "@/types";
 
-interface Finding {
+interface Finding extends FindingLifecycleInfo, FindingAssignmentInfo {
   id: string;
   findingId: string;
   severity: string;
@@ -61,7 +78,10 @@ interface Finding {
   status: string;
 }
 
-const severityOrder = { CRITICAL: 0, HIGH: 1, MEDIUM: 2, LOW: 3 };
+interface FindingFacets {
+  severity: Record<string, number>;
+  status: Record<string, number>;
+}
 
 const severityConfig = {
   CRITICAL: { color: "text-red-400", bg: "bg-red-500/10", border: "border-red-500/20", label: "Critical" },
@@ -74,6 +94,8 @@ const statusConfig = {
   open: { color: "text-red-400", bg: "bg-red-500/10", icon: AlertTriangle, label: "Open" },
   resolved: { color: "text-green-400", bg: "bg-green-500/10", icon: CheckCircle, label: "Resolved" },
   ignored: { color: "text-white/40", bg: "bg-white/5", icon: XCircle, label: "Ignored" },
+  accepted: { color: "text-cyan-400", bg: "bg-cyan-500/10", icon: ShieldCheck, label: "Accepted" },
+  false_positive: { color: "text-purple-400", bg: "bg-purple-500/10", icon: Ban, label: "False Positive" },
 };
 
 const getCategoryIcon = (findingId: string) => {
@@ -126,24 +148,52 @@ const parseRecommendationSteps = (recommendation: string | undefined): string[]
 };
 
 export default function GcpFindingsPage() {
+  const { loading: scopeLoading, scopedAccountId } = useAccountScope();
+  const accountId = scopedAccountId("GCP");
   const searchParams = useSearchParams();
   const initialSeverity = searchParams.get("severity") || "all";
 
   const [findings, setFindings] = useState<Finding[]>([]);
+  const [pagination, setPagination] = useState<PaginatedResponse<Finding>["pagination"] | null>(null);
+  const [facets, setFacets] = useState<FindingFacets | null>(null);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [severityFilter, setSeverityFilter] = useState(initialSeverity);
   const [statusFilter, setStatusFilter] = useState("all");
+  const [page, setPage] = useState(1);
   const [selectedFinding, setSelectedFinding] = useState<Finding | null>(null);
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [statusComment, setStatusComment] = useState("");
+  const [historyVersion, setHistoryVersion] = useState(0);
+
+  // Back to the first page whenever the filters change
+  const filtersKey = [accountId, severityFilter, statusFilter, debouncedSearch].join("|");
+  const [pageFiltersKey, setPageFiltersKey] = useState(filtersKey);
+  if (pageFiltersKey !== filtersKey) {
+    setPageFiltersKey(filtersKey);
+    setPage(1);
+  }
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const fetchFindings = useCallback(async () => {
+    const params = new URLSearchParams({ provider: "GCP", page: String(page) });
+    if (accountId) params.set("accountId", accountId);
+    if (severityFilter !== "all") params.set("severity", severityFilter);
+    if (statusFilter !== "all") params.set("status", statusFilter);
+    if (debouncedSearch) params.set("q", debouncedSearch);
 
-  const fetchFindings = async () => {
     try {
-      setLoading(true);
-      const response = await fetch("/api/gcp/findings");
+      const response = await fetch(`/api/findings?${params}`);
       if (response.ok) {
         const data = await response.json();
-        setFindings(data.findings || []);
+        setFindings(data.data || []);
+        setPagination(data.pagination);
+        setFacets(data.facets);
       }
     } catch (error) {
       console.error("Failed to fetch findings:", error);
@@ -151,33 +201,18 @@ export default function GcpFindingsPage() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [accountId, page, severityFilter, statusFilter, debouncedSearch]);
 
   useEffect(() => {
+    if (scopeLoading) return;
     fetchFindings();
-  }, []);
+  }, [scopeLoading, fetchFindings]);
 
   useEffect(() => {
     const severity = searchParams.get("severity");
     if (severity) setSeverityFilter(severity);
   }, [searchParams]);
 
-  const filteredFindings = findings
-    .filter((finding) => {
-      const matchesSearch =
-        finding.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        finding.findingId.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        finding.resource.toLowerCase().includes(searchQuery.toLowerCase());
-      const matchesSeverity = severityFilter === "all" || finding.severity === severityFilter;
-      const matchesStatus = statusFilter === "all" || finding.status === statusFilter;
-      return matchesSearch && matchesSeverity && matchesStatus;
-    })
-    .sort((a, b) => {
-      const aOrder = severityOrder[a.severity as keyof typeof severityOrder] ?? 4;
-      const bOrder = severityOrder[b.severity as keyof typeof severityOrder] ?? 4;
-      return aOrder - bOrder;
-    });
-
   const copyToClipboard = (text: string, id: string) => {
     navigator.clipboard.writeText(text);
     setCopiedId(id);
@@ -187,27 +222,33 @@ export default function GcpFindingsPage() {
 
   const updateFindingStatus = async (findingId: string, newStatus: string) => {
     try {
-      const response = await fetch(`/api/gcp/findings/${findingId}`, {
+      const response = await fetch(`/api/findings/${findingId}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ status: newStatus, comment: statusComment }),
       });
+      const data = await response.json();
       if (response.ok) {
-        setFindings(findings.map(f => f.id === findingId ? { ...f, status: newStatus } : f));
+        fetchFindings();
         toast.success(`Finding marked as ${newStatus}`);
-        setSelectedFinding(null);
+        setSelectedFinding((prev) => prev && { ...prev, status: newStatus });
+        setStatusComment("");
+        setHistoryVersion((v) => v + 1);
+      } else {
+        toast.error("Failed to update finding", { description: data.error });
       }
     } catch (error) {
       toast.error("Failed to update finding");
     }
   };
 
+  const severityCount = (severity: string) => facets?.severity[severity] ?? 0;
   const stats = {
-    total: findings.length,
-    critical: findings.filter(f => f.severity === "CRITICAL").length,
-    high: findings.filter(f => f.severity === "HIGH").length,
-    medium: findings.filter(f => f.severity === "MEDIUM").length,
-    low: findings.filter(f => f.severity === "LOW").length,
+    total: Object.values(facets?.severity ?? {}).reduce((sum, n) => sum + n, 0),
+    critical: severityCount("CRITICAL"),
+    high: severityCount("HIGH"),
+    medium: severityCount("MEDIUM"),
+    low: severityCount("LOW"),
   };
 
   if (loading) {
@@ -238,7 +279,7 @@ export default function GcpFindingsPage() {
             </div>
             <div>
               <h1 className="text-2xl font-bold text-white">GCP Security Findings</h1>
-              <p className="text-white/50 mt-1">{filteredFindings.length} of {findings.length} findings</p>
+              <p className="text-white/50 mt-1">{pagination?.total ?? 0} of {stats.total} findings</p>
             </div>
           </div>
         </div>
@@ -311,6 +352,8 @@ export default function GcpFindingsPage() {
               <SelectItem value="open">Open</SelectItem>
               <SelectItem value="resolved">Resolved</SelectItem>
               <SelectItem value="ignored">Ignored</SelectItem>
+              <SelectItem value="accepted">Accepted</SelectItem>
+              <SelectItem value="false_positive">False Positive</SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -318,14 +361,14 @@ export default function GcpFindingsPage() {
 
       {/* Findings List */}
       <div className="space-y-3">
-        {filteredFindings.length === 0 ? (
+        {findings.length === 0 ? (
           <GlassCard className="p-12 text-center">
             <Shield className="w-12 h-12 text-white/20 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-white mb-2">No findings found</h3>
             <p className="text-white/50">Try adjusting your filters</p>
           </GlassCard>
         ) : (
-          filteredFindings.map((finding) => {
+          findings.map((finding) => {
             const config = severityConfig[finding.severity as keyof typeof severityConfig] || severityConfig.MEDIUM;
             const status = statusConfig[finding.status as keyof typeof statusConfig] || statusConfig.open;
             const StatusIcon = status.icon;
@@ -355,6 +398,8 @@ export default function GcpFindingsPage() {
                           {finding.region && (
                             <span className="text-xs text-white/30 px-1.5 py-0.5 bg-white/5 rounded">{finding.region}</span>
                           )}
+                          {finding.regression && <RegressionBadge />}
+                          <OverdueBadge finding={finding} />
                         </div>
                         <h3 className="text-sm font-semibold text-white">{finding.title}</h3>
                       </div>
@@ -389,10 +434,17 @@ export default function GcpFindingsPage() {
             );
           })
         )}
+        {pagination && <PaginationControls pagination={pagination} onPageChange={setPage} />}
       </div>
 
       {/* Detail Modal */}
-      <Dialog open={!!selectedFinding} onOpenChange={() => setSelectedFinding(null)}>
+      <Dialog
+        open={!!selectedFinding}
+        onOpenChange={() => {
+          setSelectedFinding(null);
+          setStatusComment("");
+        }}
+      >
         <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto bg-background border-white/10">
           {selectedFinding && (() => {
             const config = severityConfig[selectedFinding.severity as keyof typeof severityConfig] || severityConfig.MEDIUM;
@@ -449,6 +501,18 @@ export default function GcpFindingsPage() {
                     </div>
                   </div>
 
+                  <FindingLifecycle finding={selectedFinding} />
+
+                  <FindingAssignment
+                    findingId={selectedFinding.id}
+                    finding={selectedFinding}
+                    onAssigned={(assignment) => {
+                      setSelectedFinding((prev) => prev && { ...prev, ...assignment });
+                      setHistoryVersion((v) => v + 1);
+                      fetchFindings();
+                    }}
+                  />
+
                   {/* Resource */}
                   <div className="space-y-3">
                     <h4 className="text-sm font-semibold text-white flex items-center gap-2">
@@ -528,25 +592,51 @@ export default function GcpFindingsPage() {
                     </div>
                   </div>
 
+                  <FindingTimeline findingId={selectedFinding.id} refreshKey={historyVersion} />
+
+                  <FindingComments findingId={selectedFinding.id} />
+
                   {/* Actions */}
-                  <div className="flex gap-3 pt-4 border-t border-white/10">
-                    <Button
-                      className="flex-1 bg-green-500/20 hover:bg-green-500/30 text-green-400 border border-green-500/30"
-                      onClick={() => updateFindingStatus(selectedFinding.id, "resolved")}
-                      disabled={selectedFinding.status === "resolved"}
-                    >
-                      <CheckCircle className="w-4 h-4 mr-2" />
-                      Mark as Resolved
-                    </Button>
+                  <div className="space-y-3 pt-4 border-t border-white/10">
+                    <Textarea
+                      placeholder="Add a comment. Required to ignore a finding or mark it a false positive."
+                      value={statusComment}
+                      onChange={(e) => setStatusComment(e.target.value)}
+                      className="bg-white/5 border-white/10 text-white min-h-[72px]"
+                    />
+                    <div className="flex gap-3">
+                      <Button
+                        className="flex-1 bg-green-500/20 hover:bg-green-500/30 text-green-400 border border-green-500/30"
+                        onClick={() => updateFindingStatus(selectedFinding.id, "resolved")}
+                        disabled={selectedFinding.status === "resolved"}
+                      >
+                        <CheckCircle className="w-4 h-4 mr-2" />
+                        Mark as Resolved
+                      </Button>
+                      <Button
+                        variant="outline"
+                        className="flex-1 bg-white/5 border-white/10 text-white/70"
+                        onClick={() => updateFindingStatus(selectedFinding.id, "ignored")}
+                        disabled={selectedFinding.status === "ignored" || !statusComment.trim()}
+                      >
+                        <XCircle className="w-4 h-4 mr-2" />
+                        Ignore Finding
+                      </Button>
+                    </div>
                     <Button
                       variant="outline"
-                      className="flex-1 bg-white/5 border-white/10 text-white/70"
-                      onClick={() => updateFindingStatus(selectedFinding.id, "ignored")}
-                      disabled={selectedFinding.status === "ignored"}
+                      className="w-full bg-white/5 border-white/10 text-white/70"
+                      onClick={() => updateFindingStatus(selectedFinding.id, "false_positive")}
+                      disabled={selectedFinding.status === "false_positive" || !statusComment.trim()}
                     >
-                      <XCircle className="w-4 h-4 mr-2" />
-                      Ignore Finding
+                      <Ban className="w-4 h-4 mr-2" />
+                      Mark as False Positive
                     </Button>
+                    <RiskAcceptanceRequest
+                      findingId={selectedFinding.id}
+                      disabled={selectedFinding.status === "accepted"}
+                      onRequested={() => setHistoryVersion((v) => v + 1)}
+                    />
                   </div>
                 </div>
               </>
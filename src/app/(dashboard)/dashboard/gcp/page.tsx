@@ -63,7 +63,7 @@ interface DashboardData {
   projects: Array<{
     id: string;
     name: string;
-    projectId: string;
+    accountId: string;
   }>;
 }
 
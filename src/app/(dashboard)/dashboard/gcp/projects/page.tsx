@@ -1,7 +1,14 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { GlassCard } from "@/components/dashboard";
+import {
+  AccountMembers,
+  AuditSchedules,
+  GlassCard,
+  VerificationBadge,
+  type AccountMemberInfo,
+  type AuditScheduleInfo,
+} from "@/components/dashboard";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -33,6 +40,7 @@ import {
   Clock,
   ExternalLink,
   FileKey,
+  ShieldCheck,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -44,6 +52,7 @@ import {
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { format } from "date-fns";
+import type { VerificationStatus } from "@/types";
 
 // GCP Icon
 function GcpIcon({ className }: { className?: string }) {
@@ -57,12 +66,15 @@ function GcpIcon({ className }: { className?: string }) {
 interface GcpProject {
   id: string;
   name: string;
-  projectId: string;
+  accountId: string;
   projectNumber: string | null;
   region: string;
   isActive: boolean;
   lastScanAt: string | null;
   healthScore: number | null;
+  verificationStatus: VerificationStatus;
+  verificationError: string | null;
+  verifiedAt: string | null;
   audits: Array<{
     id: string;
     status: string;
@@ -74,6 +86,8 @@ interface GcpProject {
     low: number;
     completedAt: string | null;
   }>;
+  schedules: AuditScheduleInfo[];
+  members: AccountMemberInfo[];
   _count: {
     audits: number;
   };
@@ -142,7 +156,7 @@ export default function GcpProjectsPage() {
   const filteredProjects = projects.filter(
     (project) =>
       project.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      project.projectId.includes(searchQuery)
+      project.accountId.includes(searchQuery)
   );
 
   const handleAddProject = async (e: React.FormEvent) => {
@@ -194,6 +208,46 @@ export default function GcpProjectsPage() {
     }
   };
 
+  const handleVerify = async (id: string) => {
+    try {
+      const response = await fetch(`/api/gcp/projects/${id}/verify`, { method: "POST" });
+      const data = await response.json();
+
+      if (response.ok && data.verificationStatus === "verified") {
+        toast.success("Credentials verified");
+      } else {
+        toast.error("Verification failed", {
+          description: data.verificationError || data.error,
+        });
+      }
+      fetchProjects();
+    } catch {
+      toast.error("Verification failed");
+    }
+  };
+
+  const handleRunAudit = async (id: string) => {
+    try {
+      const response = await fetch("/api/audits", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ accountId: id }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success("Audit started", {
+          description: "Findings appear here once the scan completes",
+        });
+        fetchProjects();
+      } else {
+        toast.error("Failed to start audit", { description: data.error });
+      }
+    } catch {
+      toast.error("Failed to start audit");
+    }
+  };
+
   const formatLastScan = (lastScanAt: string | null) => {
     if (!lastScanAt) return "Never";
     return format(new Date(lastScanAt), "MMM d, h:mm a");
@@ -375,7 +429,7 @@ export default function GcpProjectsPage() {
                   <div>
                     <h3 className="font-semibold text-white">{project.name}</h3>
                     <p className="text-xs text-white/40 font-mono">
-                      {project.projectId}
+                      {project.accountId}
                     </p>
                   </div>
                 </div>
@@ -386,10 +440,14 @@ export default function GcpProjectsPage() {
                     </Button>
                   </DropdownMenuTrigger>
                   <DropdownMenuContent align="end">
-                    <DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleRunAudit(project.id)}>
                       <Play className="w-4 h-4 mr-2" />
                       Run Audit
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleVerify(project.id)}>
+                      <ShieldCheck className="w-4 h-4 mr-2" />
+                      Re-verify Credentials
+                    </DropdownMenuItem>
                     <DropdownMenuItem>
                       <ExternalLink className="w-4 h-4 mr-2" />
                       View in GCP Console
@@ -411,7 +469,7 @@ export default function GcpProjectsPage() {
               </div>
 
               {/* Status & Region */}
-              <div className="flex items-center gap-3 mb-4">
+              <div className="flex flex-wrap items-center gap-3 mb-4">
                 <div
                   className={cn(
                     "flex items-center gap-1.5 px-2 py-1 rounded-full text-xs font-medium",
@@ -423,6 +481,11 @@ export default function GcpProjectsPage() {
                   {statusKey}
                 </div>
                 <span className="text-xs text-white/40">{project.region}</span>
+                <VerificationBadge
+                  status={project.verificationStatus}
+                  verifiedAt={project.verifiedAt}
+                  error={project.verificationError}
+                />
               </div>
 
               {/* Findings Summary */}
@@ -453,6 +516,21 @@ export default function GcpProjectsPage() {
                 </div>
               </div>
 
+              {/* Schedules */}
+              <AuditSchedules
+                provider="GCP"
+                accountId={project.id}
+                schedules={project.schedules ?? []}
+                onChange={fetchProjects}
+              />
+
+              {/* Sharing */}
+              <AccountMembers
+                accountId={project.id}
+                members={project.members ?? []}
+                onChange={fetchProjects}
+              />
+
               {/* Footer */}
               <div className="flex items-center justify-between pt-4 border-t border-white/10">
                 <div className="flex items-center gap-2">
@@ -0,0 +1,264 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { GlassCard } from "@/components/dashboard";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Ban,
+  CheckCircle,
+  Clock,
+  Download,
+  Filter,
+  ListChecks,
+  Loader2,
+  RefreshCw,
+  XCircle,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+
+interface Job {
+  id: string;
+  type: string;
+  status: string;
+  payload: { auditId?: string; cloudProvider?: string };
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  runAt: string;
+  lockedBy: string | null;
+  heartbeatAt: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+const typeLabels: Record<string, string> = {
+  "audit.run": "Audit",
+  "report.render": "Report",
+  "notification.audit-alert": "Audit Alert",
+};
+
+const statusConfig = {
+  queued: { icon: Clock, color: "text-white/50", bg: "bg-white/5", label: "Queued", animate: false },
+  running: { icon: Loader2, color: "text-blue-400", bg: "bg-blue-500/10", label: "Running", animate: true },
+  completed: { icon: CheckCircle, color: "text-green-400", bg: "bg-green-500/10", label: "Completed", animate: false },
+  failed: { icon: XCircle, color: "text-red-400", bg: "bg-red-500/10", label: "Failed", animate: false },
+  cancelled: { icon: Ban, color: "text-white/30", bg: "bg-white/5", label: "Cancelled", animate: false },
+};
+
+export default function JobsPage() {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("all");
+
+  const fetchJobs = async (status: string) => {
+    try {
+      const response = await fetch(`/api/jobs?status=${status}`);
+      if (response.ok) {
+        const data = await response.json();
+        setJobs(data.jobs || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch jobs:", error);
+      toast.error("Failed to load jobs");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchJobs(statusFilter);
+  }, [statusFilter]);
+
+  const cancelJob = async (jobId: string) => {
+    const response = await fetch(`/api/jobs/${jobId}`, { method: "DELETE" });
+    if (response.ok) {
+      toast.success("Job cancelled");
+      fetchJobs(statusFilter);
+    } else {
+      const data = await response.json();
+      toast.error("Failed to cancel job", { description: data.error });
+    }
+  };
+
+  const downloadReport = async (jobId: string) => {
+    const response = await fetch(`/api/jobs/${jobId}`);
+    if (!response.ok) {
+      toast.error("Failed to download report");
+      return;
+    }
+    const { job } = await response.json();
+    const report = job.result as { filename: string; contentType: string; content: string };
+    const url = URL.createObjectURL(new Blob([report.content], { type: report.contentType }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = report.filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div>
+          <Skeleton className="h-8 w-48 bg-white/10" />
+          <Skeleton className="h-4 w-64 mt-2 bg-white/10" />
+        </div>
+        <Skeleton className="h-96 bg-white/10 rounded-2xl" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Background Jobs</h1>
+          <p className="text-white/50 mt-1">
+            Audits, reports and alert deliveries processed by the job worker
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[160px] bg-white/5 border-white/10 text-white">
+              <Filter className="w-4 h-4 mr-2 text-white/40" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Status</SelectItem>
+              <SelectItem value="queued">Queued</SelectItem>
+              <SelectItem value="running">Running</SelectItem>
+              <SelectItem value="completed">Completed</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+              <SelectItem value="cancelled">Cancelled</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            className="bg-white/5 border-white/10 gap-2"
+            onClick={() => fetchJobs(statusFilter)}
+          >
+            <RefreshCw className="w-4 h-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <GlassCard className="p-0 overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="border-white/10 hover:bg-transparent">
+              <TableHead className="text-white/50">Job</TableHead>
+              <TableHead className="text-white/50">Status</TableHead>
+              <TableHead className="text-white/50">Attempts</TableHead>
+              <TableHead className="text-white/50">Created</TableHead>
+              <TableHead className="text-white/50">Details</TableHead>
+              <TableHead className="text-white/50 text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {jobs.map((job) => {
+              const status = statusConfig[job.status as keyof typeof statusConfig] || statusConfig.queued;
+              const StatusIcon = status.icon;
+              const isRetrying = job.status === "queued" && job.attempts > 0;
+
+              return (
+                <TableRow key={job.id} className="border-white/5 hover:bg-white/5">
+                  <TableCell>
+                    <p className="text-sm font-medium text-white">
+                      {typeLabels[job.type] || job.type}
+                    </p>
+                    <p className="text-xs text-white/30 font-mono">{job.id}</p>
+                  </TableCell>
+                  <TableCell>
+                    <div
+                      className={cn(
+                        "inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium",
+                        status.bg,
+                        status.color
+                      )}
+                    >
+                      <StatusIcon className={cn("w-3 h-3", status.animate && "animate-spin")} />
+                      {isRetrying ? "Retrying" : status.label}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-white/60">
+                    {job.attempts} / {job.maxAttempts}
+                  </TableCell>
+                  <TableCell className="text-sm text-white/60">
+                    {formatDistanceToNow(new Date(job.createdAt), { addSuffix: true })}
+                  </TableCell>
+                  <TableCell className="max-w-xs">
+                    {job.lastError ? (
+                      <p className="text-xs text-red-400 truncate">{job.lastError}</p>
+                    ) : job.status === "running" && job.heartbeatAt ? (
+                      <p className="text-xs text-white/40">
+                        Heartbeat {formatDistanceToNow(new Date(job.heartbeatAt), { addSuffix: true })}
+                      </p>
+                    ) : isRetrying || job.status === "queued" ? (
+                      <p className="text-xs text-white/40">
+                        Runs {formatDistanceToNow(new Date(job.runAt), { addSuffix: true })}
+                      </p>
+                    ) : null}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {job.status === "queued" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-400 hover:bg-red-500/10"
+                        onClick={() => cancelJob(job.id)}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                    {job.status === "completed" && job.type === "report.render" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="gap-1 hover:bg-white/10"
+                        onClick={() => downloadReport(job.id)}
+                      >
+                        <Download className="w-4 h-4" />
+                        Download
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {jobs.length === 0 && (
+          <div className="text-center py-12">
+            <ListChecks className="w-12 h-12 text-white/20 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-white mb-2">No jobs found</h3>
+            <p className="text-white/50">
+              Jobs appear here when you start an audit, export a report or send alerts
+            </p>
+          </div>
+        )}
+      </GlassCard>
+    </div>
+  );
+}
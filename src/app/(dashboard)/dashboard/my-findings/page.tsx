@@ -0,0 +1,195 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { FindingsTable, GlassCard, SeverityBadge, type FindingAssignmentInfo } from "@/components/dashboard";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AtSign, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import type { PaginatedResponse, Severity } from "@/types";
+
+interface AssignedFinding extends FindingAssignmentInfo {
+  id: string;
+  findingId: string;
+  severity: string;
+  title: string;
+  description?: string;
+  resource: string;
+  resourceArn?: string;
+  region?: string;
+  recommendation?: string;
+}
+
+interface Mention {
+  id: string;
+  body: string;
+  createdAt: string;
+  author: { name: string | null; email: string } | null;
+  finding: { id: string; title: string; severity: Severity; provider: string } | null;
+  account: { name: string };
+}
+
+// Findings assigned to the user across all accounts and clouds, most severe
+// and soonest due first
+export default function MyFindingsPage() {
+  const [findings, setFindings] = useState<AssignedFinding[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState("open");
+  const [mentions, setMentions] = useState<Mention[]>([]);
+
+  const fetchFindings = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ assignee: "me", sort: "dueAt", limit: "200" });
+      if (filter === "open") params.set("status", "open");
+      if (filter === "overdue") params.set("overdue", "true");
+
+      const response = await fetch(`/api/findings?${params}`);
+      if (response.ok) {
+        const data: PaginatedResponse<AssignedFinding> = await response.json();
+        setFindings(data.data || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch assigned findings:", error);
+      toast.error("Failed to load your findings");
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  const fetchMentions = useCallback(async () => {
+    try {
+      const response = await fetch("/api/comments/mentions");
+      if (response.ok) {
+        const data = await response.json();
+        setMentions(data.mentions || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch mentions:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchFindings();
+  }, [fetchFindings]);
+
+  useEffect(() => {
+    fetchMentions();
+  }, [fetchMentions]);
+
+  const handleResolve = async (finding: { id: string }) => {
+    try {
+      const response = await fetch(`/api/findings/${finding.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: "resolved" }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success("Finding marked as resolved");
+        fetchFindings();
+      } else {
+        toast.error("Failed to update finding", { description: data.error });
+      }
+    } catch {
+      toast.error("Failed to update finding");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div>
+          <Skeleton className="h-8 w-48 bg-white/10" />
+          <Skeleton className="h-4 w-64 mt-2 bg-white/10" />
+        </div>
+        <Skeleton className="h-96 bg-white/10 rounded-2xl" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-white">My Findings</h1>
+          <p className="text-white/50 mt-1">Findings assigned to you and comments mentioning you</p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={filter} onValueChange={setFilter}>
+            <SelectTrigger className="w-[150px] bg-white/5 border-white/10">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="overdue">Overdue</SelectItem>
+              <SelectItem value="all">All Statuses</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            className="bg-white/5 border-white/10 gap-2"
+            onClick={() => {
+              fetchFindings();
+              fetchMentions();
+            }}
+          >
+            <RefreshCw className="w-4 h-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <FindingsTable findings={findings} title="Assigned to Me" onResolve={handleResolve} />
+
+      <GlassCard className="p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <AtSign className="w-5 h-5 text-primary" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-white">Mentions</h3>
+            <p className="text-xs text-white/40">Recent finding comments that mention you</p>
+          </div>
+        </div>
+
+        {mentions.length === 0 ? (
+          <p className="text-white/40 text-sm text-center py-4">No one has mentioned you yet</p>
+        ) : (
+          <div className="space-y-3">
+            {mentions.map((mention) => (
+              <div key={mention.id} className="bg-white/5 rounded-xl p-4 space-y-2">
+                <div className="flex items-center gap-2 text-xs">
+                  {mention.finding && <SeverityBadge severity={mention.finding.severity} size="sm" />}
+                  <span className="text-white font-medium truncate">
+                    {mention.finding?.title ?? "A deleted finding"}
+                  </span>
+                  <span className="text-white/40 flex-shrink-0">
+                    {mention.account.name}
+                    {mention.finding && ` (${mention.finding.provider})`}
+                  </span>
+                </div>
+                <p className="text-sm text-white/70 whitespace-pre-wrap break-words line-clamp-3">
+                  {mention.body}
+                </p>
+                <p className="text-xs text-white/40">
+                  {mention.author?.name || mention.author?.email || "A deleted user"},{" "}
+                  {formatDistanceToNow(new Date(mention.createdAt), { addSuffix: true })}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </GlassCard>
+    </div>
+  );
+}
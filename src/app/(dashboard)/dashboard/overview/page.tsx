@@ -0,0 +1,287 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { GlassCard, SeverityStatsRow, SecurityScore } from "@/components/dashboard";
+import { ProviderTrendChart, SeverityDistributionChart } from "@/components/charts";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertTriangle, ArrowRight, Globe, RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import type { CloudProvider } from "@/types";
+
+interface SeverityTotals {
+  totalFindings: number;
+  critical: number;
+  high: number;
+  medium: number;
+  low: number;
+  riskScore: number | null;
+  environments: number;
+  scannedEnvironments: number;
+  lastScanAt: string | null;
+}
+
+interface OverviewData {
+  stats: SeverityTotals;
+  providers: Array<SeverityTotals & { provider: CloudProvider }>;
+  worstEnvironments: Array<{
+    id: string;
+    provider: CloudProvider;
+    name: string;
+    accountId: string;
+    auditId: string;
+    riskScore: number | null;
+    totalFindings: number;
+    critical: number;
+    high: number;
+    completedAt: string;
+  }>;
+  trend: Array<{
+    date: string;
+    AWS: number;
+    GCP: number;
+    AZURE: number;
+  }>;
+}
+
+const providerConfig: Record<CloudProvider, { label: string; environment: string; color: string; bg: string; href: string }> = {
+  AWS: {
+    label: "AWS",
+    environment: "accounts",
+    color: "text-orange-400",
+    bg: "bg-orange-500/10",
+    href: "/dashboard",
+  },
+  GCP: {
+    label: "GCP",
+    environment: "projects",
+    color: "text-blue-400",
+    bg: "bg-blue-500/10",
+    href: "/dashboard/gcp",
+  },
+  AZURE: {
+    label: "Azure",
+    environment: "subscriptions",
+    color: "text-cyan-400",
+    bg: "bg-cyan-500/10",
+    href: "/dashboard/azure",
+  },
+};
+
+const scoreColor = (score: number | null) => {
+  if (score === null) return "text-white/40";
+  if (score >= 80) return "text-green-400";
+  if (score >= 60) return "text-yellow-400";
+  if (score >= 40) return "text-orange-400";
+  return "text-red-400";
+};
+
+export default function OverviewPage() {
+  const [data, setData] = useState<OverviewData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOverview = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch("/api/overview");
+      if (!response.ok) {
+        throw new Error("Failed to fetch overview");
+      }
+      setData(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchOverview();
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div>
+          <Skeleton className="h-8 w-48 bg-white/10" />
+          <Skeleton className="h-4 w-64 mt-2 bg-white/10" />
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+          {[...Array(5)].map((_, i) => (
+            <Skeleton key={i} className="h-32 bg-white/10 rounded-2xl" />
+          ))}
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-40 bg-white/10 rounded-2xl" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[400px] text-center">
+        <AlertTriangle className="w-12 h-12 text-red-400 mb-4" />
+        <h2 className="text-xl font-semibold text-white mb-2">Failed to load overview</h2>
+        <p className="text-white/50 mb-4">{error}</p>
+        <Button onClick={fetchOverview} className="gap-2">
+          <RefreshCw className="w-4 h-4" />
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  const { stats } = data;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-xl bg-primary/10">
+            <Globe className="w-6 h-6 text-primary" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-white">Multi-Cloud Overview</h1>
+            <p className="text-white/50 mt-1">
+              Latest audit of {stats.scannedEnvironments} of {stats.environments} environments
+              {stats.lastScanAt && (
+                <> · last scan {formatDistanceToNow(new Date(stats.lastScanAt), { addSuffix: true })}</>
+              )}
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" className="gap-2 bg-white/5 border-white/10" onClick={fetchOverview}>
+          <RefreshCw className="w-4 h-4" />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Combined severity totals */}
+      <SeverityStatsRow
+        critical={stats.critical}
+        high={stats.high}
+        medium={stats.medium}
+        low={stats.low}
+        total={stats.totalFindings}
+      />
+
+      {/* Per-provider breakdown */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {data.providers.map((p) => {
+          const config = providerConfig[p.provider];
+          return (
+            <Link key={p.provider} href={config.href} className="block">
+              <GlassCard className="p-5 group cursor-pointer hover:scale-[1.02] transition-all">
+                <div className="flex items-start justify-between mb-4">
+                  <div>
+                    <p className={cn("text-sm font-semibold", config.color)}>{config.label}</p>
+                    <p className="text-xs text-white/40 mt-1">
+                      {p.scannedEnvironments} of {p.environments} {config.environment} scanned
+                    </p>
+                  </div>
+                  <div className={cn("px-3 py-1.5 rounded-lg text-center", config.bg)}>
+                    <p className={cn("text-2xl font-bold", scoreColor(p.riskScore))}>
+                      {p.riskScore ?? "—"}
+                    </p>
+                    <p className="text-[10px] text-white/40 uppercase tracking-wider">Score</p>
+                  </div>
+                </div>
+                <div className="grid grid-cols-4 gap-2 text-center text-xs">
+                  <div>
+                    <p className="text-lg font-semibold text-red-400">{p.critical}</p>
+                    <p className="text-white/40">Critical</p>
+                  </div>
+                  <div>
+                    <p className="text-lg font-semibold text-orange-400">{p.high}</p>
+                    <p className="text-white/40">High</p>
+                  </div>
+                  <div>
+                    <p className="text-lg font-semibold text-yellow-400">{p.medium}</p>
+                    <p className="text-white/40">Medium</p>
+                  </div>
+                  <div>
+                    <p className="text-lg font-semibold text-green-400">{p.low}</p>
+                    <p className="text-white/40">Low</p>
+                  </div>
+                </div>
+              </GlassCard>
+            </Link>
+          );
+        })}
+      </div>
+
+      {/* Charts Row */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <ProviderTrendChart data={data.trend} />
+        </div>
+        <div>
+          <SeverityDistributionChart
+            critical={stats.critical}
+            high={stats.high}
+            medium={stats.medium}
+            low={stats.low}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Worst-scoring environments */}
+        <GlassCard className="p-6 lg:col-span-2">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-white">Needs Attention</h3>
+              <p className="text-sm text-white/40 mt-1">Lowest-scoring environments</p>
+            </div>
+          </div>
+          {data.worstEnvironments.length === 0 ? (
+            <p className="text-white/40 text-sm text-center py-8">
+              No completed audits yet
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {data.worstEnvironments.map((env) => {
+                const config = providerConfig[env.provider];
+                return (
+                  <Link key={env.id} href={`/dashboard/audits/${env.auditId}`}>
+                    <div className="flex items-center gap-4 p-3 rounded-lg bg-white/5 hover:bg-white/10 transition-all cursor-pointer group">
+                      <span className={cn("text-xs font-semibold px-2 py-1 rounded", config.bg, config.color)}>
+                        {config.label}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-white/80 font-medium truncate group-hover:text-white">
+                          {env.name}
+                        </p>
+                        <p className="text-xs text-white/40 truncate">
+                          {env.accountId} · scanned {formatDistanceToNow(new Date(env.completedAt), { addSuffix: true })}
+                        </p>
+                      </div>
+                      <div className="text-right text-xs">
+                        <p className="text-red-400">{env.critical} critical</p>
+                        <p className="text-orange-400">{env.high} high</p>
+                      </div>
+                      <p className={cn("text-2xl font-bold w-12 text-right", scoreColor(env.riskScore))}>
+                        {env.riskScore ?? "—"}
+                      </p>
+                      <ArrowRight className="w-4 h-4 text-white/20 group-hover:text-primary transition-colors" />
+                    </div>
+                  </Link>
+                );
+              })}
+            </div>
+          )}
+        </GlassCard>
+
+        <SecurityScore score={stats.riskScore ?? 0} />
+      </div>
+    </div>
+  );
+}
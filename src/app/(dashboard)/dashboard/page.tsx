@@ -1,11 +1,12 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useState, useCallback } from "react";
 import {
   SeverityStatsRow,
   ActivityFeed,
   PhaseSummary,
   SecurityScore,
+  SlaCompliance,
   QuickActions,
   GlassCard,
 } from "@/components/dashboard";
@@ -18,6 +19,7 @@ import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Play, Sparkles, AlertTriangle, ArrowRight, RefreshCw } from "lucide-react";
 import Link from "next/link";
+import { useAccountScope } from "@/components/providers/account-scope-provider";
 
 interface DashboardData {
   stats: {
@@ -27,6 +29,8 @@ interface DashboardData {
     medium: number;
     low: number;
     riskScore: number;
+    complianceScore: number | null;
+    previousComplianceScore: number | null;
     accountName: string;
     lastScanAt: string | null;
   };
@@ -40,6 +44,10 @@ interface DashboardData {
     high: number;
     medium: number;
     low: number;
+    passedChecks?: number;
+    failedChecks?: number;
+    skippedChecks?: number;
+    erroredChecks?: number;
   }>;
   findings: Array<{
     id: string;
@@ -69,14 +77,18 @@ interface DashboardData {
 }
 
 export default function DashboardPage() {
+  const { loading: scopeLoading, scopedAccountId } = useAccountScope();
+  const accountId = scopedAccountId();
   const [data, setData] = useState<DashboardData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const fetchDashboardData = async () => {
+  const fetchDashboardData = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await fetch("/api/dashboard");
+      const response = await fetch(
+        accountId ? `/api/dashboard?accountId=${accountId}` : "/api/dashboard"
+      );
       if (!response.ok) {
         throw new Error("Failed to fetch dashboard data");
       }
@@ -87,11 +99,12 @@ export default function DashboardPage() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [accountId]);
 
   useEffect(() => {
+    if (scopeLoading) return;
     fetchDashboardData();
-  }, []);
+  }, [scopeLoading, fetchDashboardData]);
 
   const criticalFindings = data?.findings.filter(f => f.severity === "CRITICAL") || [];
 
@@ -245,7 +258,13 @@ export default function DashboardPage() {
           </GlassCard>
 
           {/* Security Score */}
-          <SecurityScore score={data?.stats.riskScore || 0} previousScore={(data?.stats.riskScore || 0) - 5} />
+          <SecurityScore
+            score={data?.stats.complianceScore ?? 0}
+            previousScore={data?.stats.previousComplianceScore ?? undefined}
+          />
+
+          {/* SLA Compliance */}
+          <SlaCompliance accountId={accountId} />
 
           {/* Critical Alerts */}
           <GlassCard className="p-6">
@@ -0,0 +1,426 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { GlassCard } from "@/components/dashboard";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { BellRing, Loader2, RefreshCw, ShieldCheck } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import { addDays, format, formatDistanceToNow } from "date-fns";
+import type { RiskAcceptanceStatus } from "@/types";
+
+interface Person {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface RiskAcceptance {
+  id: string;
+  status: RiskAcceptanceStatus;
+  justification: string;
+  expiresAt: string;
+  reviewAt: string;
+  decisionComment: string | null;
+  decidedAt: string | null;
+  reviewedAt: string | null;
+  checkId: string;
+  title: string;
+  severity: string;
+  resource: string;
+  createdAt: string;
+  account: { name: string; provider: string; accountId: string };
+  requester: Person;
+  approver: Person | null;
+}
+
+type Action = "approve" | "reject" | "renew" | "revoke";
+
+const severityConfig = {
+  CRITICAL: { color: "text-red-400", bg: "bg-red-500/10" },
+  HIGH: { color: "text-orange-400", bg: "bg-orange-500/10" },
+  MEDIUM: { color: "text-yellow-400", bg: "bg-yellow-500/10" },
+  LOW: { color: "text-green-400", bg: "bg-green-500/10" },
+};
+
+const statusConfig = {
+  pending: { color: "text-blue-400", bg: "bg-blue-500/10", label: "Awaiting approval" },
+  approved: { color: "text-cyan-400", bg: "bg-cyan-500/10", label: "Accepted" },
+  rejected: { color: "text-red-400", bg: "bg-red-500/10", label: "Rejected" },
+  expired: { color: "text-white/40", bg: "bg-white/5", label: "Expired" },
+  revoked: { color: "text-white/40", bg: "bg-white/5", label: "Revoked" },
+  resolved: { color: "text-green-400", bg: "bg-green-500/10", label: "Finding resolved" },
+};
+
+const actionConfig = {
+  approve: { title: "Approve Risk Acceptance", button: "Approve", done: "Risk accepted" },
+  reject: { title: "Reject Risk Acceptance", button: "Reject", done: "Acceptance rejected" },
+  renew: { title: "Renew Risk Acceptance", button: "Renew", done: "Acceptance renewed" },
+  revoke: { title: "Revoke Risk Acceptance", button: "Revoke", done: "Acceptance revoked" },
+};
+
+function personLabel(person: Person | null) {
+  return person ? person.name || person.email : "A deleted user";
+}
+
+// End of the chosen day in the user's timezone
+function endOfDayIso(date: string) {
+  return date ? new Date(`${date}T23:59:59`).toISOString() : null;
+}
+
+function isReviewDue(acceptance: RiskAcceptance) {
+  return acceptance.status === "approved" && new Date(acceptance.reviewAt) <= new Date();
+}
+
+export default function RiskRegisterPage() {
+  const [acceptances, setAcceptances] = useState<RiskAcceptance[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<{ action: Action; acceptance: RiskAcceptance } | null>(null);
+  const [comment, setComment] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [reviewAt, setReviewAt] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchAcceptances = useCallback(async () => {
+    try {
+      const response = await fetch("/api/risk-acceptances");
+      if (response.ok) {
+        const data = await response.json();
+        setAcceptances(data.acceptances || []);
+        setUserId(data.userId);
+      }
+    } catch (error) {
+      console.error("Failed to fetch risk acceptances:", error);
+      toast.error("Failed to load the risk register");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAcceptances();
+  }, [fetchAcceptances]);
+
+  const openAction = (action: Action, acceptance: RiskAcceptance) => {
+    setPendingAction({ action, acceptance });
+    setComment("");
+    setExpiresAt(format(addDays(new Date(), 90), "yyyy-MM-dd"));
+    setReviewAt("");
+  };
+
+  const submitAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingAction) return;
+    const { action, acceptance } = pendingAction;
+
+    try {
+      setSubmitting(true);
+      const response = await fetch(`/api/risk-acceptances/${acceptance.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          comment,
+          ...(action === "renew" && {
+            expiresAt: endOfDayIso(expiresAt),
+            reviewAt: endOfDayIso(reviewAt),
+          }),
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(actionConfig[action].done);
+        setPendingAction(null);
+        fetchAcceptances();
+      } else {
+        toast.error(`Failed to ${action} the acceptance`, { description: data.error });
+      }
+    } catch {
+      toast.error(`Failed to ${action} the acceptance`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const register = acceptances.filter((a) => a.status === "approved");
+  const awaitingMe = acceptances.filter((a) => a.status === "pending" && a.approver?.id === userId);
+  const reviewsDue = register.filter((a) => isReviewDue(a) && a.approver?.id === userId);
+  const history = acceptances.filter((a) => a.status !== "approved" && !awaitingMe.includes(a));
+
+  const renderRow = (acceptance: RiskAcceptance) => {
+    const severity = severityConfig[acceptance.severity as keyof typeof severityConfig] || severityConfig.MEDIUM;
+    const status = statusConfig[acceptance.status] || statusConfig.pending;
+    const isApprover = acceptance.approver?.id === userId;
+    const expires = new Date(acceptance.expiresAt);
+    const reviewDue = isReviewDue(acceptance);
+
+    return (
+      <div key={acceptance.id} className="p-4 rounded-xl bg-white/5 space-y-3">
+        <div className="flex flex-col md:flex-row md:items-start gap-3">
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className={cn("px-2 py-0.5 rounded text-xs font-medium", severity.bg, severity.color)}>
+                {acceptance.severity}
+              </span>
+              <span className="text-xs text-white/40 font-mono">{acceptance.checkId}</span>
+              <span className={cn("px-2 py-0.5 rounded-full text-xs font-medium", status.bg, status.color)}>
+                {status.label}
+              </span>
+              {reviewDue && (
+                <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-500/10 text-yellow-400">
+                  <BellRing className="w-3 h-3" />
+                  Review due
+                </span>
+              )}
+            </div>
+            <p className="text-sm font-medium text-white">{acceptance.title}</p>
+            <p className="text-xs text-white/40 font-mono truncate" title={acceptance.resource}>
+              {acceptance.resource}
+            </p>
+            <p className="text-xs text-white/40">
+              {acceptance.account.name} ({acceptance.account.provider}) · requested by{" "}
+              {personLabel(acceptance.requester)} · approver {personLabel(acceptance.approver)}
+            </p>
+          </div>
+          <div className="text-xs text-white/50 md:text-right space-y-1 flex-shrink-0">
+            <p title={format(expires, "PPpp")}>
+              {expires > new Date() ? "Expires" : "Expired"} {formatDistanceToNow(expires, { addSuffix: true })}
+            </p>
+            {acceptance.status === "approved" && (
+              <p title={format(new Date(acceptance.reviewAt), "PPpp")}>
+                Review {formatDistanceToNow(new Date(acceptance.reviewAt), { addSuffix: true })}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <p className="text-sm text-white/60 bg-white/5 rounded-lg px-3 py-2 whitespace-pre-wrap">
+          {acceptance.justification}
+        </p>
+        {acceptance.decisionComment && (
+          <p className="text-sm text-white/50 whitespace-pre-wrap">
+            <span className="text-white/70">{personLabel(acceptance.approver)}:</span>{" "}
+            {acceptance.decisionComment}
+          </p>
+        )}
+
+        {(acceptance.status === "pending" || acceptance.status === "approved") && (
+          <div className="flex flex-wrap gap-2">
+            {isApprover && acceptance.status === "pending" && (
+              <>
+                <Button
+                  size="sm"
+                  className="bg-green-500/20 hover:bg-green-500/30 text-green-400 border border-green-500/30"
+                  onClick={() => openAction("approve", acceptance)}
+                >
+                  Approve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="bg-white/5 border-white/10 text-red-400"
+                  onClick={() => openAction("reject", acceptance)}
+                >
+                  Reject
+                </Button>
+              </>
+            )}
+            {isApprover && acceptance.status === "approved" && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="bg-white/5 border-white/10"
+                onClick={() => openAction("renew", acceptance)}
+              >
+                Review and Renew
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              className="text-white/50 hover:bg-white/10"
+              onClick={() => openAction("revoke", acceptance)}
+            >
+              {acceptance.status === "pending" ? "Withdraw" : "Revoke"}
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderList = (items: RiskAcceptance[], empty: string) =>
+    items.length === 0 ? (
+      <p className="text-sm text-white/40 py-8 text-center">{empty}</p>
+    ) : (
+      items.map(renderRow)
+    );
+
+  if (loading) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div>
+          <Skeleton className="h-8 w-48 bg-white/10" />
+          <Skeleton className="h-4 w-64 mt-2 bg-white/10" />
+        </div>
+        <Skeleton className="h-96 bg-white/10 rounded-2xl" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Risk Register</h1>
+          <p className="text-white/50 mt-1">
+            Accepted risks are left out of the security score until they expire
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          className="bg-white/5 border-white/10 gap-2"
+          onClick={() => fetchAcceptances()}
+        >
+          <RefreshCw className="w-4 h-4" />
+          Refresh
+        </Button>
+      </div>
+
+      {reviewsDue.length > 0 && (
+        <GlassCard className="p-4 border-yellow-500/20">
+          <p className="text-sm text-yellow-400 flex items-center gap-2">
+            <BellRing className="w-4 h-4" />
+            {reviewsDue.length} accepted risk{reviewsDue.length === 1 ? " is" : "s are"} due for your review
+          </p>
+        </GlassCard>
+      )}
+
+      <GlassCard className="p-6">
+        <Tabs defaultValue={awaitingMe.length > 0 ? "approval" : "register"}>
+          <TabsList className="bg-white/5 flex-wrap h-auto">
+            <TabsTrigger value="register" className="data-[state=active]:bg-primary/20">
+              Accepted Risks
+              <span className="ml-2 text-white/40">{register.length}</span>
+            </TabsTrigger>
+            <TabsTrigger value="approval" className="data-[state=active]:bg-primary/20">
+              Awaiting My Approval
+              <span className="ml-2 text-white/40">{awaitingMe.length}</span>
+            </TabsTrigger>
+            <TabsTrigger value="history" className="data-[state=active]:bg-primary/20">
+              Requests & History
+              <span className="ml-2 text-white/40">{history.length}</span>
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="register" className="mt-4 space-y-3">
+            {register.length === 0 ? (
+              <div className="text-center py-12">
+                <ShieldCheck className="w-12 h-12 text-white/20 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-white mb-2">No accepted risks</h3>
+                <p className="text-white/50">
+                  Request risk acceptance from the details of a finding
+                </p>
+              </div>
+            ) : (
+              register.map(renderRow)
+            )}
+          </TabsContent>
+          <TabsContent value="approval" className="mt-4 space-y-3">
+            {renderList(awaitingMe, "No requests are waiting for your approval")}
+          </TabsContent>
+          <TabsContent value="history" className="mt-4 space-y-3">
+            {renderList(history, "No other requests")}
+          </TabsContent>
+        </Tabs>
+      </GlassCard>
+
+      <Dialog open={pendingAction !== null} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <DialogContent className="sm:max-w-[480px] bg-[#1a0a2e] border-white/10">
+          {pendingAction && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="text-white">{actionConfig[pendingAction.action].title}</DialogTitle>
+                <DialogDescription className="text-white/50">
+                  {pendingAction.acceptance.checkId}: {pendingAction.acceptance.title}
+                </DialogDescription>
+              </DialogHeader>
+
+              <form onSubmit={submitAction} className="space-y-4 mt-4">
+                {pendingAction.action === "renew" && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label className="text-white/70">Expires on</Label>
+                      <Input
+                        type="date"
+                        className="bg-white/5 border-white/10 text-white"
+                        value={expiresAt}
+                        onChange={(e) => setExpiresAt(e.target.value)}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label className="text-white/70">Review on</Label>
+                      <Input
+                        type="date"
+                        className="bg-white/5 border-white/10 text-white"
+                        value={reviewAt}
+                        onChange={(e) => setReviewAt(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label className="text-white/70">
+                    {pendingAction.action === "reject" ? "Reason" : "Comment"}
+                  </Label>
+                  <Textarea
+                    placeholder={
+                      pendingAction.action === "reject"
+                        ? "Why the risk cannot be accepted"
+                        : "Optional"
+                    }
+                    className="bg-white/5 border-white/10 text-white"
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    required={pendingAction.action === "reject"}
+                  />
+                </div>
+
+                <div className="flex gap-3 pt-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="flex-1 bg-white/5 border-white/10"
+                    onClick={() => setPendingAction(null)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button type="submit" className="flex-1 btn-gradient gap-2" disabled={submitting}>
+                    {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                    {actionConfig[pendingAction.action].button}
+                  </Button>
+                </div>
+              </form>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
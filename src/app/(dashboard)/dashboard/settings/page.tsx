@@ -29,6 +29,7 @@ import {
   Sun,
   Moon,
   Monitor,
+  CalendarClock,
 } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
@@ -37,11 +38,27 @@ const settingsSections = [
   { id: "profile", label: "Profile", icon: User },
   { id: "notifications", label: "Notifications", icon: Bell },
   { id: "integrations", label: "Integrations", icon: Webhook },
+  { id: "sla", label: "SLA Policy", icon: CalendarClock },
   { id: "security", label: "Security", icon: Shield },
   { id: "api", label: "API Keys", icon: Key },
   { id: "appearance", label: "Appearance", icon: Palette },
 ];
 
+// Hours to fix a finding of each severity, stored per severity in the settings
+const slaFields = [
+  { key: "slaCriticalHours", label: "Critical", color: "text-red-400" },
+  { key: "slaHighHours", label: "High", color: "text-orange-400" },
+  { key: "slaMediumHours", label: "Medium", color: "text-yellow-400" },
+  { key: "slaLowHours", label: "Low", color: "text-green-400" },
+] as const;
+
+type SlaSettings = Record<(typeof slaFields)[number]["key"], number>;
+
+function formatHours(hours: number) {
+  if (!Number.isFinite(hours) || hours <= 0) return "";
+  return hours % 24 === 0 ? `${hours / 24} day${hours === 24 ? "" : "s"}` : `${hours} hours`;
+}
+
 export default function SettingsPage() {
   const { data: session } = useSession();
   const { theme, setTheme, resolvedTheme } = useTheme();
@@ -68,6 +85,13 @@ export default function SettingsPage() {
     slackWebhookUrl: "",
     slackEnabled: false,
   });
+  const [slaSettings, setSlaSettings] = useState<SlaSettings>({
+    slaCriticalHours: 24,
+    slaHighHours: 168,
+    slaMediumHours: 720,
+    slaLowHours: 2160,
+  });
+  const [savingSla, setSavingSla] = useState(false);
   const [loadingSettings, setLoadingSettings] = useState(true);
   const [savingSettings, setSavingSettings] = useState(false);
   const [testingWebhook, setTestingWebhook] = useState(false);
@@ -88,6 +112,12 @@ export default function SettingsPage() {
               slackWebhookUrl: data.settings.slackWebhookUrl || "",
               slackEnabled: data.settings.slackEnabled || false,
             });
+            setSlaSettings({
+              slaCriticalHours: data.settings.slaCriticalHours,
+              slaHighHours: data.settings.slaHighHours,
+              slaMediumHours: data.settings.slaMediumHours,
+              slaLowHours: data.settings.slaLowHours,
+            });
           }
         }
       } catch (error) {
@@ -126,6 +156,29 @@ export default function SettingsPage() {
     }
   };
 
+  const handleSaveSla = async () => {
+    setSavingSla(true);
+    try {
+      const response = await fetch("/api/settings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(slaSettings),
+      });
+
+      if (response.ok) {
+        toast.success("SLA policy saved successfully!");
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to save SLA policy");
+      }
+    } catch (error) {
+      console.error("Failed to save SLA policy:", error);
+      toast.error("Failed to save SLA policy");
+    } finally {
+      setSavingSla(false);
+    }
+  };
+
   const handleTestWebhook = async () => {
     if (!spikeSettings.spikeWebhookUrl) {
       toast.error("Please enter a Spike.sh webhook URL first");
@@ -331,6 +384,49 @@ export default function SettingsPage() {
             </GlassCard>
           )}
 
+          {/* SLA Policy Section */}
+          {activeSection === "sla" && (
+            <GlassCard className="p-6">
+              <h2 className="text-lg font-semibold text-white mb-2">SLA Policy</h2>
+              <p className="text-sm text-white/40 mb-6">
+                Hours to fix a finding once an audit raises it. New findings are due by the SLA of
+                their severity; a finding&apos;s due date can still be changed by hand.
+              </p>
+
+              <div className="space-y-4">
+                {slaFields.map((field) => (
+                  <div key={field.key} className="flex items-center justify-between gap-4">
+                    <Label className={cn("font-medium w-24", field.color)}>{field.label}</Label>
+                    <div className="flex items-center gap-3 flex-1 justify-end">
+                      <span className="text-sm text-white/40">{formatHours(slaSettings[field.key])}</span>
+                      <Input
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={slaSettings[field.key]}
+                        onChange={(e) =>
+                          setSlaSettings({ ...slaSettings, [field.key]: Number(e.target.value) })
+                        }
+                        className="w-28 bg-white/5 border-white/10 text-white"
+                        disabled={loadingSettings}
+                      />
+                      <span className="text-sm text-white/40">hours</span>
+                    </div>
+                  </div>
+                ))}
+
+                <Button
+                  className="btn-gradient gap-2"
+                  onClick={handleSaveSla}
+                  disabled={savingSla || loadingSettings}
+                >
+                  {savingSla ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                  Save SLA Policy
+                </Button>
+              </div>
+            </GlassCard>
+          )}
+
           {/* Integrations Section */}
           {activeSection === "integrations" && (
             <GlassCard className="p-6">
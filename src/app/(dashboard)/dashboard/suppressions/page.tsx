@@ -0,0 +1,461 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { GlassCard } from "@/components/dashboard";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { EyeOff, Loader2, Pencil, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { useAccountScope } from "@/components/providers/account-scope-provider";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import { format, formatDistanceToNow } from "date-fns";
+
+interface SuppressionRule {
+  id: string;
+  accountId: string | null;
+  checkId: string | null;
+  region: string | null;
+  resourcePattern: string | null;
+  tagKey: string | null;
+  tagValue: string | null;
+  justification: string;
+  owner: string;
+  expiresAt: string | null;
+  expiredAt: string | null;
+  createdAt: string;
+  account: { name: string; provider: string } | null;
+  suppressedFindings: number;
+}
+
+const ALL_ACCOUNTS = "all";
+
+const emptyForm = () => ({
+  accountId: ALL_ACCOUNTS,
+  checkId: "",
+  region: "",
+  resourcePattern: "",
+  tagKey: "",
+  tagValue: "",
+  owner: "",
+  justification: "",
+  expiresAt: "",
+});
+
+type RuleForm = ReturnType<typeof emptyForm>;
+
+function toForm(rule: SuppressionRule): RuleForm {
+  return {
+    accountId: rule.accountId ?? ALL_ACCOUNTS,
+    checkId: rule.checkId ?? "",
+    region: rule.region ?? "",
+    resourcePattern: rule.resourcePattern ?? "",
+    tagKey: rule.tagKey ?? "",
+    tagValue: rule.tagValue ?? "",
+    owner: rule.owner,
+    justification: rule.justification,
+    expiresAt: rule.expiresAt ? format(new Date(rule.expiresAt), "yyyy-MM-dd") : "",
+  };
+}
+
+function conditions(rule: SuppressionRule) {
+  return [
+    rule.checkId && { label: "Check", value: rule.checkId },
+    rule.region && { label: "Region", value: rule.region },
+    rule.resourcePattern && { label: "Resource", value: rule.resourcePattern },
+    rule.tagKey && { label: "Tag", value: rule.tagValue ? `${rule.tagKey}=${rule.tagValue}` : rule.tagKey },
+  ].filter((c): c is { label: string; value: string } => Boolean(c));
+}
+
+function ExpiryStatus({ rule }: { rule: SuppressionRule }) {
+  if (!rule.expiresAt) {
+    return <span className="text-sm text-white/40">Never expires</span>;
+  }
+
+  const expiresAt = new Date(rule.expiresAt);
+  const expired = expiresAt <= new Date();
+
+  return (
+    <div title={format(expiresAt, "PPpp")}>
+      <span
+        className={cn(
+          "inline-flex px-2.5 py-1 rounded-full text-xs font-medium",
+          expired ? "bg-white/5 text-white/40" : "bg-yellow-500/10 text-yellow-400"
+        )}
+      >
+        {expired ? "Expired" : "Active"}
+      </span>
+      <p className="text-xs text-white/40 mt-1">
+        {expired ? "Expired" : "Expires"} {formatDistanceToNow(expiresAt, { addSuffix: true })}
+      </p>
+    </div>
+  );
+}
+
+export default function SuppressionsPage() {
+  const { accounts } = useAccountScope();
+  const [rules, setRules] = useState<SuppressionRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<RuleForm>(emptyForm);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch("/api/suppressions");
+      if (response.ok) {
+        const data = await response.json();
+        setRules(data.rules || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch suppression rules:", error);
+      toast.error("Failed to load suppression rules");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const openDialog = (rule?: SuppressionRule) => {
+    setEditingId(rule?.id ?? null);
+    setFormData(rule ? toForm(rule) : emptyForm());
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      const response = await fetch(editingId ? `/api/suppressions/${editingId}` : "/api/suppressions", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...formData,
+          accountId: formData.accountId === ALL_ACCOUNTS ? null : formData.accountId,
+          // End of the chosen day in the user's timezone
+          expiresAt: formData.expiresAt
+            ? new Date(`${formData.expiresAt}T23:59:59`).toISOString()
+            : null,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        const changes = [
+          data.suppressed > 0 && `${data.suppressed} finding(s) ignored`,
+          data.reopened > 0 && `${data.reopened} finding(s) reopened`,
+        ].filter(Boolean);
+        toast.success(editingId ? "Suppression rule updated" : "Suppression rule created", {
+          description: changes.length > 0 ? changes.join(", ") : "No current findings changed",
+        });
+        setDialogOpen(false);
+        fetchRules();
+      } else {
+        toast.error("Failed to save suppression rule", { description: data.error });
+      }
+    } catch {
+      toast.error("Failed to save suppression rule");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (rule: SuppressionRule) => {
+    const response = await fetch(`/api/suppressions/${rule.id}`, { method: "DELETE" });
+    const data = await response.json();
+    if (response.ok) {
+      toast.success("Suppression rule removed", {
+        description: data.reopened > 0 ? `${data.reopened} finding(s) reopened` : undefined,
+      });
+      fetchRules();
+    } else {
+      toast.error("Failed to remove suppression rule", { description: data.error });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div>
+          <Skeleton className="h-8 w-48 bg-white/10" />
+          <Skeleton className="h-4 w-64 mt-2 bg-white/10" />
+        </div>
+        <Skeleton className="h-96 bg-white/10 rounded-2xl" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Suppression Rules</h1>
+          <p className="text-white/50 mt-1">
+            Ignore known exceptions in every audit until the rule expires
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="bg-white/5 border-white/10 gap-2"
+            onClick={() => fetchRules()}
+          >
+            <RefreshCw className="w-4 h-4" />
+            Refresh
+          </Button>
+          <Button className="btn-gradient gap-2" onClick={() => openDialog()}>
+            <Plus className="w-4 h-4" />
+            New Rule
+          </Button>
+        </div>
+      </div>
+
+      <GlassCard className="p-0 overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="border-white/10 hover:bg-transparent">
+              <TableHead className="text-white/50">Matches</TableHead>
+              <TableHead className="text-white/50">Justification</TableHead>
+              <TableHead className="text-white/50">Owner</TableHead>
+              <TableHead className="text-white/50">Expiry</TableHead>
+              <TableHead className="text-white/50">Ignored</TableHead>
+              <TableHead className="text-white/50 text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.map((rule) => (
+              <TableRow key={rule.id} className="border-white/5 hover:bg-white/5">
+                <TableCell className="max-w-xs">
+                  <p className="text-sm font-medium text-white truncate">
+                    {rule.account ? `${rule.account.name} (${rule.account.provider})` : "All accounts"}
+                  </p>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {conditions(rule).map((condition) => (
+                      <span
+                        key={condition.label}
+                        className="px-2 py-0.5 rounded bg-white/5 text-xs text-white/60 font-mono"
+                        title={condition.label}
+                      >
+                        {condition.value}
+                      </span>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="max-w-sm">
+                  <p className="text-sm text-white/60 line-clamp-2" title={rule.justification}>
+                    {rule.justification}
+                  </p>
+                </TableCell>
+                <TableCell className="text-sm text-white/60">{rule.owner}</TableCell>
+                <TableCell>
+                  <ExpiryStatus rule={rule} />
+                </TableCell>
+                <TableCell className="text-sm text-white/60">
+                  {rule.suppressedFindings} finding{rule.suppressedFindings === 1 ? "" : "s"}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 hover:bg-white/10"
+                    title="Edit rule"
+                    onClick={() => openDialog(rule)}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-white/40 hover:text-red-400 hover:bg-red-500/10"
+                    title="Remove rule"
+                    onClick={() => handleDelete(rule)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {rules.length === 0 && (
+          <div className="text-center py-12">
+            <EyeOff className="w-12 h-12 text-white/20 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-white mb-2">No suppression rules</h3>
+            <p className="text-white/50">
+              Add a rule to ignore findings by check, account, region, resource or tag
+            </p>
+          </div>
+        )}
+      </GlassCard>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[520px] bg-[#1a0a2e] border-white/10">
+          <DialogHeader>
+            <DialogTitle className="text-white">
+              {editingId ? "Edit Suppression Rule" : "New Suppression Rule"}
+            </DialogTitle>
+            <DialogDescription className="text-white/50">
+              Open findings matching every condition set are ignored now and in later audits
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+            <div className="space-y-2">
+              <Label className="text-white/70">Account</Label>
+              <Select
+                value={formData.accountId}
+                onValueChange={(v) => setFormData({ ...formData, accountId: v })}
+              >
+                <SelectTrigger className="bg-white/5 border-white/10 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_ACCOUNTS}>All accounts</SelectItem>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name} ({account.provider})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label className="text-white/70">Check ID</Label>
+                <Input
+                  placeholder="S3-H01"
+                  className="bg-white/5 border-white/10 text-white font-mono"
+                  value={formData.checkId}
+                  onChange={(e) => setFormData({ ...formData, checkId: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white/70">Region</Label>
+                <Input
+                  placeholder="us-east-1"
+                  className="bg-white/5 border-white/10 text-white"
+                  value={formData.region}
+                  onChange={(e) => setFormData({ ...formData, region: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-white/70">Resource pattern</Label>
+              <Input
+                placeholder="arn:aws:s3:::public-assets-*"
+                className="bg-white/5 border-white/10 text-white font-mono"
+                value={formData.resourcePattern}
+                onChange={(e) => setFormData({ ...formData, resourcePattern: e.target.value })}
+              />
+              <p className="text-xs text-white/40">
+                Matched on the resource name, ARN, GCP path or Azure ID. Use * as a wildcard.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label className="text-white/70">Tag key</Label>
+                <Input
+                  placeholder="environment"
+                  className="bg-white/5 border-white/10 text-white"
+                  value={formData.tagKey}
+                  onChange={(e) => setFormData({ ...formData, tagKey: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white/70">Tag value</Label>
+                <Input
+                  placeholder="Any value"
+                  className="bg-white/5 border-white/10 text-white"
+                  value={formData.tagValue}
+                  onChange={(e) => setFormData({ ...formData, tagValue: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label className="text-white/70">Owner</Label>
+                <Input
+                  placeholder="platform-team@example.com"
+                  className="bg-white/5 border-white/10 text-white"
+                  value={formData.owner}
+                  onChange={(e) => setFormData({ ...formData, owner: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white/70">Expires on</Label>
+                <Input
+                  type="date"
+                  className="bg-white/5 border-white/10 text-white"
+                  value={formData.expiresAt}
+                  onChange={(e) => setFormData({ ...formData, expiresAt: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-white/70">Justification</Label>
+              <Textarea
+                placeholder="Why these findings are an accepted exception"
+                className="bg-white/5 border-white/10 text-white"
+                value={formData.justification}
+                onChange={(e) => setFormData({ ...formData, justification: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="flex gap-3 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1 bg-white/5 border-white/10"
+                onClick={() => setDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" className="flex-1 btn-gradient gap-2" disabled={submitting}>
+                {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                {editingId ? "Save Rule" : "Create Rule"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
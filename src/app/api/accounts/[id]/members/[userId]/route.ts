@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { removeAccountMember } from "@/lib/accounts";
+
+// DELETE stop sharing a cloud account with a member
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id, userId } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    // Only the owner stops sharing an account
+    const account = await prisma.cloudAccount.findFirst({
+      where: { id, userId: user.id, members: { some: { id: userId } } },
+      select: { id: true },
+    });
+
+    if (!account) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    await removeAccountMember(account, userId, user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Account members API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
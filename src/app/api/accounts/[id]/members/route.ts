@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { AccountMemberError, addAccountMember } from "@/lib/accounts";
+
+// POST share a cloud account of any provider with a user by email address
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    // Only the owner shares an account
+    const account = await prisma.cloudAccount.findFirst({
+      where: { id, userId: user.id },
+      select: { id: true, userId: true },
+    });
+
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    try {
+      const member = await addAccountMember(account, body.email);
+      return NextResponse.json({ member }, { status: 201 });
+    } catch (error) {
+      if (error instanceof AccountMemberError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error("Account members API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
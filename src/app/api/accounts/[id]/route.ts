@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { isAwsRegion, parseRegionList } from "@/lib/aws";
+
+// PATCH update an AWS account's name, status or scan regions
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { name, region, isActive, scanAllRegions } = body;
+    const regions = body.regions === undefined ? undefined : parseRegionList(body.regions);
+
+    if (regions === null || (region !== undefined && !isAwsRegion(region))) {
+      return NextResponse.json({ error: "Invalid AWS region" }, { status: 400 });
+    }
+
+    const account = await prisma.cloudAccount.updateMany({
+      where: {
+        id,
+        provider: "AWS",
+        userId: user.id,
+      },
+      data: {
+        ...(name && { name }),
+        ...(region && { region }),
+        ...(regions && { regions }),
+        ...(scanAllRegions !== undefined && { scanAllRegions: scanAllRegions === true }),
+        ...(isActive !== undefined && { isActive }),
+      },
+    });
+
+    if (account.count === 0) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Account API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { clearAwsCredentialCache, generateExternalId, verifyAwsAccount } from "@/lib/aws";
+import { verificationUpdate } from "@/lib/verification";
+
+// POST re-check an AWS account's stored credentials
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    let account = await prisma.cloudAccount.findFirst({
+      where: { id, provider: "AWS", userId: user.id },
+    });
+
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    // Role-based accounts added before external IDs were generated get one
+    // now; verification fails until the role's trust policy requires it
+    if (account.authMethod !== "keys" && !account.externalId) {
+      account = await prisma.cloudAccount.update({
+        where: { id },
+        data: { externalId: generateExternalId() },
+      });
+    }
+
+    clearAwsCredentialCache(account.id);
+    const verification = await verifyAwsAccount(account);
+
+    const updated = await prisma.cloudAccount.update({
+      where: { id },
+      data: verificationUpdate(verification),
+      select: {
+        externalId: true,
+        verificationStatus: true,
+        verificationError: true,
+        verifiedAt: true,
+      },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Verify account error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
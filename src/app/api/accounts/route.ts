@@ -1,9 +1,15 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { accountAccessWhere, accountMemberSelect } from "@/lib/accounts";
 import { prisma } from "@/lib/db";
+import { generateExternalId, isAwsRegion, parseRegionList, verifyAwsAccount } from "@/lib/aws";
+import { encryptSecret, maskCloudAccount } from "@/lib/secrets";
+import { verificationUpdate, type CredentialVerification } from "@/lib/verification";
 
-export async function GET() {
+// GET the user's cloud accounts, optionally for one provider. With
+// shared=true, accounts shared with the user are listed too and flagged.
+export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
 
@@ -19,8 +25,14 @@ export async function GET() {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
-    const accounts = await prisma.awsAccount.findMany({
-      where: { userId: user.id },
+    const provider = request.nextUrl.searchParams.get("provider");
+    const includeShared = request.nextUrl.searchParams.get("shared") === "true";
+
+    const accounts = await prisma.cloudAccount.findMany({
+      where: {
+        ...(includeShared ? accountAccessWhere(user.id) : { userId: user.id }),
+        ...(provider && { provider }),
+      },
       include: {
         audits: {
           orderBy: { createdAt: "desc" },
@@ -37,6 +49,13 @@ export async function GET() {
             completedAt: true,
           },
         },
+        schedules: {
+          orderBy: { createdAt: "asc" },
+        },
+        members: {
+          select: accountMemberSelect,
+          orderBy: { email: "asc" },
+        },
         _count: {
           select: { audits: true },
         },
@@ -44,7 +63,12 @@ export async function GET() {
       orderBy: { createdAt: "desc" },
     });
 
-    return NextResponse.json({ accounts });
+    return NextResponse.json({
+      accounts: accounts.map((account) => ({
+        ...maskCloudAccount(account),
+        shared: account.userId !== user.id,
+      })),
+    });
   } catch (error) {
     console.error("Accounts API error:", error);
     return NextResponse.json(
@@ -54,6 +78,9 @@ export async function GET() {
   }
 }
 
+// POST connect a new AWS account. Role-based accounts are created
+// unverified with a generated external ID, which the role's trust policy
+// must require before the account can be verified.
 export async function POST(request: Request) {
   try {
     const session = await getServerSession(authOptions);
@@ -72,6 +99,8 @@ export async function POST(request: Request) {
 
     const body = await request.json();
     const { name, accountId, region, accessKeyId, secretAccessKey, roleArn } = body;
+    const authMethod = body.authMethod === "keys" ? "keys" : "role";
+    const regions = parseRegionList(body.regions ?? []);
 
     if (!name || !accountId) {
       return NextResponse.json(
@@ -80,19 +109,64 @@ export async function POST(request: Request) {
       );
     }
 
-    const account = await prisma.awsAccount.create({
+    if (authMethod === "role" && !roleArn) {
+      return NextResponse.json(
+        { error: "Role ARN is required" },
+        { status: 400 }
+      );
+    }
+
+    if (authMethod === "keys" && (!accessKeyId || !secretAccessKey)) {
+      return NextResponse.json(
+        { error: "Access Key ID and Secret Access Key are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!regions || (region && !isAwsRegion(region))) {
+      return NextResponse.json(
+        { error: "Invalid AWS region" },
+        { status: 400 }
+      );
+    }
+
+    const credentials = {
+      authMethod,
+      region: region || "us-east-1",
+      roleArn: authMethod === "role" ? roleArn : null,
+      externalId: authMethod === "role" ? generateExternalId() : null,
+      accessKeyId: authMethod === "keys" ? accessKeyId : null,
+      secretAccessKey: authMethod === "keys" ? encryptSecret(secretAccessKey) : null,
+    };
+
+    // Refuse access keys that don't work or belong to a different account.
+    // A role can't trust the external ID before it has been shown to the
+    // user, so it is verified once the trust policy is updated.
+    let verification: CredentialVerification | undefined;
+    if (authMethod === "keys") {
+      verification = await verifyAwsAccount({ id: "", accountId, ...credentials });
+      if (!verification.verified) {
+        return NextResponse.json(
+          { error: `Credential verification failed: ${verification.error}` },
+          { status: 422 }
+        );
+      }
+    }
+
+    const account = await prisma.cloudAccount.create({
       data: {
+        provider: "AWS",
         name,
         accountId,
-        region: region || "us-east-1",
-        accessKeyId,
-        secretAccessKey,
-        roleArn,
+        ...credentials,
+        regions,
+        scanAllRegions: body.scanAllRegions === true,
+        ...(verification && verificationUpdate(verification)),
         userId: user.id,
       },
     });
 
-    return NextResponse.json({ account }, { status: 201 });
+    return NextResponse.json({ account: maskCloudAccount(account) }, { status: 201 });
   } catch (error) {
     console.error("Create account error:", error);
     return NextResponse.json(
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { readAttachment } from "@/lib/comments";
+import { findingAccessWhere } from "@/lib/findings";
+
+// Shown in the browser; anything else is downloaded so that uploaded HTML or
+// SVG never runs in the app's origin
+const INLINE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+// GET the file of an attachment on a finding the user can see
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const attachment = await prisma.findingAttachment.findUnique({
+      where: { id },
+      include: { comment: { select: { accountId: true, fingerprint: true } } },
+    });
+
+    const finding =
+      attachment &&
+      (await prisma.finding.findFirst({
+        where: {
+          fingerprint: attachment.comment.fingerprint,
+          audit: { accountId: attachment.comment.accountId },
+          ...findingAccessWhere(user.id),
+        },
+        select: { id: true },
+      }));
+
+    if (!attachment || !finding) {
+      return NextResponse.json({ error: "Attachment not found" }, { status: 404 });
+    }
+
+    const data = await readAttachment(attachment);
+    const inline = INLINE_TYPES.includes(attachment.contentType);
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        "Content-Type": inline ? attachment.contentType : "application/octet-stream",
+        "Content-Length": String(data.length),
+        "Content-Disposition": `${inline ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        "X-Content-Type-Options": "nosniff",
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Attachment API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { cancelQueuedAuditJobs } from "@/lib/jobs";
+import { cancelAudit } from "@/lib/scanner";
+
+// POST cancel a pending or running audit
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const existingAudit = await prisma.audit.findFirst({
+      where: {
+        id,
+        account: { userId: user.id },
+      },
+    });
+
+    if (!existingAudit) {
+      return NextResponse.json({ error: "Audit not found" }, { status: 404 });
+    }
+
+    if (existingAudit.status !== "pending" && existingAudit.status !== "running") {
+      return NextResponse.json(
+        { error: "Only pending or running audits can be cancelled" },
+        { status: 409 }
+      );
+    }
+
+    const audit = await cancelAudit(id);
+    await cancelQueuedAuditJobs(id);
+
+    return NextResponse.json({ audit });
+  } catch (error) {
+    console.error("Cancel audit error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
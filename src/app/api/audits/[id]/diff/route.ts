@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { accountAccessWhere } from "@/lib/accounts";
+import { prisma } from "@/lib/db";
+import { AuditDiffError, diffAudits, findPreviousAudit } from "@/lib/findings";
+
+// GET the changes between an audit and a baseline audit of the same account,
+// by default the previous completed one
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const audit = await prisma.audit.findFirst({
+      where: {
+        id,
+        account: accountAccessWhere(user.id),
+      },
+      select: { id: true, accountId: true, createdAt: true },
+    });
+
+    if (!audit) {
+      return NextResponse.json({ error: "Audit not found" }, { status: 404 });
+    }
+
+    const baselineId = request.nextUrl.searchParams.get("baseline");
+    const baseline = baselineId
+      ? await prisma.audit.findFirst({
+          where: {
+            id: baselineId,
+            account: accountAccessWhere(user.id),
+          },
+          select: { id: true },
+        })
+      : await findPreviousAudit(audit);
+
+    if (!baseline) {
+      return NextResponse.json(
+        {
+          error: baselineId
+            ? "Baseline audit not found"
+            : "No earlier completed audit of this account to compare with",
+        },
+        { status: 404 }
+      );
+    }
+
+    const diff = await diffAudits(audit.id, baseline.id);
+
+    return NextResponse.json({ diff });
+  } catch (error) {
+    if (error instanceof AuditDiffError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Audit diff API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
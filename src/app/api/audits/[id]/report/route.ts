@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { accountAccessWhere } from "@/lib/accounts";
+import { prisma } from "@/lib/db";
+import { enqueueJob } from "@/lib/jobs";
+
+// POST queue a Markdown report for an audit
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const audit = await prisma.audit.findFirst({
+      where: {
+        id,
+        account: accountAccessWhere(user.id),
+      },
+    });
+
+    if (!audit) {
+      return NextResponse.json({ error: "Audit not found" }, { status: 404 });
+    }
+
+    const job = await enqueueJob("report.render", { auditId: id }, { userId: user.id });
+
+    return NextResponse.json({ jobId: job.id }, { status: 202 });
+  } catch (error) {
+    console.error("Audit report error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { auditConcurrencyKey, enqueueJob } from "@/lib/jobs";
+import { retryAudit } from "@/lib/scanner";
+import { isVerified, UNVERIFIED_ACCOUNT_ERROR } from "@/lib/verification";
+
+// POST re-run only the failed phases of a finished audit
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const existingAudit = await prisma.audit.findFirst({
+      where: {
+        id,
+        account: { userId: user.id },
+      },
+      include: {
+        account: { select: { verificationStatus: true } },
+        phases: {
+          where: { status: "failed" },
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!existingAudit) {
+      return NextResponse.json({ error: "Audit not found" }, { status: 404 });
+    }
+
+    if (existingAudit.status !== "completed" && existingAudit.status !== "failed") {
+      return NextResponse.json(
+        { error: "Only finished audits can be retried" },
+        { status: 409 }
+      );
+    }
+
+    // Re-running an older audit would mark the findings of newer audits as
+    // not latest and resolve findings they still see
+    const newestAudit = await prisma.audit.findFirst({
+      where: { accountId: existingAudit.accountId },
+      orderBy: { createdAt: "desc" },
+      select: { id: true },
+    });
+
+    if (newestAudit?.id !== existingAudit.id) {
+      return NextResponse.json(
+        { error: "Only the account's most recent audit can be retried" },
+        { status: 409 }
+      );
+    }
+
+    if (!isVerified(existingAudit.account)) {
+      return NextResponse.json({ error: UNVERIFIED_ACCOUNT_ERROR }, { status: 400 });
+    }
+
+    if (existingAudit.phases.length === 0) {
+      return NextResponse.json(
+        { error: "Audit has no failed phases" },
+        { status: 400 }
+      );
+    }
+
+    const phasesRetried = await retryAudit(id);
+
+    const job = await enqueueJob(
+      "audit.run",
+      { auditId: id },
+      { userId: user.id, concurrencyKey: auditConcurrencyKey(existingAudit.accountId) }
+    );
+
+    return NextResponse.json({ auditId: id, jobId: job.id, phasesRetried });
+  } catch (error) {
+    console.error("Retry audit error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { accountAccessWhere } from "@/lib/accounts";
 import { prisma } from "@/lib/db";
 
 export async function GET(
@@ -26,9 +27,7 @@ export async function GET(
     const audit = await prisma.audit.findFirst({
       where: {
         id,
-        account: {
-          userId: user.id,
-        },
+        account: accountAccessWhere(user.id),
       },
       include: {
         account: {
@@ -39,6 +38,14 @@ export async function GET(
         },
         phases: {
           orderBy: { phaseNumber: "asc" },
+          include: {
+            checkResults: {
+              orderBy: [{ checkId: "asc" }, { region: "asc" }],
+            },
+          },
+        },
+        regionResults: {
+          orderBy: { region: "asc" },
         },
         findings: {
           orderBy: [
@@ -53,9 +60,12 @@ export async function GET(
             description: true,
             resource: true,
             resourceArn: true,
+            resourcePath: true,
+            resourceId: true,
             region: true,
             recommendation: true,
             status: true,
+            createdAt: true,
           },
         },
       },
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { accountAccessWhere } from "@/lib/accounts";
+import { prisma } from "@/lib/db";
+import { sseResponse, streamAuditEvents } from "@/lib/audit-stream";
+
+// GET stream phase transitions, totals and new findings of an audit as
+// server-sent events. ?since= limits findings to those created after it.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const audit = await prisma.audit.findFirst({
+      where: { id, account: accountAccessWhere(user.id) },
+      select: { id: true },
+    });
+
+    if (!audit) {
+      return NextResponse.json({ error: "Audit not found" }, { status: 404 });
+    }
+
+    const sinceParam = request.nextUrl.searchParams.get("since");
+    const since = sinceParam ? new Date(sinceParam) : null;
+    if (since && Number.isNaN(since.getTime())) {
+      return NextResponse.json({ error: "Invalid since" }, { status: 400 });
+    }
+
+    return sseResponse(streamAuditEvents(audit.id, since, request.signal), request.signal);
+  } catch (error) {
+    console.error("Audit stream error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
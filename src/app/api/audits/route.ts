@@ -1,9 +1,15 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { accountAccessWhere } from "@/lib/accounts";
 import { prisma } from "@/lib/db";
+import { auditConcurrencyKey, enqueueJob } from "@/lib/jobs";
+import { createAudit, getPhases } from "@/lib/scanner";
+import { isVerified, UNVERIFIED_ACCOUNT_ERROR } from "@/lib/verification";
+import type { CloudProvider } from "@/types";
 
-export async function GET() {
+// GET audits across the user's cloud accounts, optionally for one provider or account
+export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
 
@@ -19,11 +25,14 @@ export async function GET() {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
+    const provider = request.nextUrl.searchParams.get("provider");
+    const accountId = request.nextUrl.searchParams.get("accountId");
+
     const audits = await prisma.audit.findMany({
       where: {
-        account: {
-          userId: user.id,
-        },
+        ...(provider && { provider }),
+        ...(accountId && { accountId }),
+        account: accountAccessWhere(user.id),
       },
       include: {
         account: {
@@ -51,3 +60,83 @@ export async function GET() {
     );
   }
 }
+
+// POST start a new audit for one of the user's cloud accounts
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { accountId, phases } = body as { accountId?: string; phases?: number[] };
+
+    if (!accountId) {
+      return NextResponse.json(
+        { error: "Account ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const account = await prisma.cloudAccount.findFirst({
+      where: { id: accountId, userId: user.id },
+    });
+
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    if (!isVerified(account)) {
+      return NextResponse.json({ error: UNVERIFIED_ACCOUNT_ERROR }, { status: 400 });
+    }
+
+    const validPhases = getPhases(account.provider as CloudProvider).map((p) => p.number);
+    if (
+      phases !== undefined &&
+      (!Array.isArray(phases) || phases.some((p) => !validPhases.includes(p)))
+    ) {
+      return NextResponse.json({ error: "Invalid phases" }, { status: 400 });
+    }
+
+    const activeAudit = await prisma.audit.findFirst({
+      where: {
+        accountId: account.id,
+        status: { in: ["pending", "running"] },
+      },
+    });
+
+    if (activeAudit) {
+      return NextResponse.json(
+        { error: "An audit is already running for this account", auditId: activeAudit.id },
+        { status: 409 }
+      );
+    }
+
+    const audit = await createAudit(account.id, phases);
+
+    // Picked up by the job worker; progress is tracked on the audit and phase rows
+    const job = await enqueueJob(
+      "audit.run",
+      { auditId: audit.id },
+      { userId: user.id, concurrencyKey: auditConcurrencyKey(account.id) }
+    );
+
+    return NextResponse.json({ auditId: audit.id, jobId: job.id, audit }, { status: 201 });
+  } catch (error) {
+    console.error("Create audit error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { accountAccessWhere } from "@/lib/accounts";
 import { prisma } from "@/lib/db";
 
 export async function GET() {
@@ -20,12 +21,12 @@ export async function GET() {
     }
 
     // Get Azure subscriptions
-    const subscriptions = await prisma.azureSubscription.findMany({
-      where: { userId: user.id, isActive: true },
+    const subscriptions = await prisma.cloudAccount.findMany({
+      where: { ...accountAccessWhere(user.id), provider: "AZURE", isActive: true },
       select: {
         id: true,
         name: true,
-        subscriptionId: true,
+        accountId: true,
         region: true,
         healthScore: true,
         lastScanAt: true,
@@ -33,15 +34,16 @@ export async function GET() {
     });
 
     // Get latest audit
-    const latestAudit = await prisma.azureAudit.findFirst({
+    const latestAudit = await prisma.audit.findFirst({
       where: {
-        subscription: { userId: user.id },
+        provider: "AZURE",
+        account: accountAccessWhere(user.id),
         status: "completed",
       },
       orderBy: { completedAt: "desc" },
       include: {
-        subscription: {
-          select: { name: true, subscriptionId: true },
+        account: {
+          select: { name: true, accountId: true },
         },
         phases: {
           orderBy: { phaseNumber: "asc" },
@@ -65,9 +67,10 @@ export async function GET() {
     });
 
     // Get historical audits
-    const historicalAudits = await prisma.azureAudit.findMany({
+    const historicalAudits = await prisma.audit.findMany({
       where: {
-        subscription: { userId: user.id },
+        provider: "AZURE",
+        account: accountAccessWhere(user.id),
         status: "completed",
       },
       orderBy: { completedAt: "asc" },
@@ -90,7 +93,7 @@ export async function GET() {
           medium: latestAudit.medium,
           low: latestAudit.low,
           riskScore: latestAudit.riskScore || 0,
-          subscriptionName: latestAudit.subscription.name,
+          subscriptionName: latestAudit.account.name,
           lastScanAt: latestAudit.completedAt?.toISOString() || null,
         }
       : {
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { encryptSecret, maskCloudAccount } from "@/lib/secrets";
 
 // GET a single Azure subscription
 export async function GET(
@@ -24,9 +25,10 @@ export async function GET(
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
-    const subscription = await prisma.azureSubscription.findFirst({
+    const subscription = await prisma.cloudAccount.findFirst({
       where: {
         id,
+        provider: "AZURE",
         userId: user.id,
       },
       include: {
@@ -41,7 +43,7 @@ export async function GET(
       return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
     }
 
-    return NextResponse.json({ subscription });
+    return NextResponse.json({ subscription: maskCloudAccount(subscription) });
   } catch (error) {
     console.error("Azure Subscription API error:", error);
     return NextResponse.json(
@@ -74,10 +76,13 @@ export async function PATCH(
 
     const body = await request.json();
     const { name, region, tenantId, clientId, clientSecret, isActive } = body;
+    const credentialsChanged =
+      tenantId !== undefined || clientId !== undefined || clientSecret !== undefined;
 
-    const subscription = await prisma.azureSubscription.updateMany({
+    const subscription = await prisma.cloudAccount.updateMany({
       where: {
         id,
+        provider: "AZURE",
         userId: user.id,
       },
       data: {
@@ -85,7 +90,10 @@ export async function PATCH(
         ...(region && { region }),
         ...(tenantId !== undefined && { tenantId }),
         ...(clientId !== undefined && { clientId }),
-        ...(clientSecret !== undefined && { clientSecret }),
+        ...(clientSecret !== undefined && {
+          clientSecret: clientSecret ? encryptSecret(clientSecret) : null,
+        }),
+        ...(credentialsChanged && { verificationStatus: "unverified", verificationError: null }),
         ...(isActive !== undefined && { isActive }),
       },
     });
@@ -125,9 +133,10 @@ export async function DELETE(
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
-    const subscription = await prisma.azureSubscription.deleteMany({
+    const subscription = await prisma.cloudAccount.deleteMany({
       where: {
         id,
+        provider: "AZURE",
         userId: user.id,
       },
     });
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { hasAzureCredentials, verifyAzureSubscription } from "@/lib/azure";
+import { verificationUpdate } from "@/lib/verification";
+
+// POST re-check an Azure subscription's service principal
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const subscription = await prisma.cloudAccount.findFirst({
+      where: { id, provider: "AZURE", userId: user.id },
+    });
+
+    if (!subscription) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+    }
+
+    if (!hasAzureCredentials(subscription)) {
+      return NextResponse.json(
+        { error: "Subscription has no service principal configured" },
+        { status: 400 }
+      );
+    }
+
+    const verification = await verifyAzureSubscription({
+      ...subscription,
+      subscriptionId: subscription.accountId,
+    });
+
+    const updated = await prisma.cloudAccount.update({
+      where: { id },
+      data: verificationUpdate(verification),
+      select: {
+        verificationStatus: true,
+        verificationError: true,
+        verifiedAt: true,
+      },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Verify Azure subscription error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
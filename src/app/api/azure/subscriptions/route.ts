@@ -1,7 +1,11 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { accountMemberSelect } from "@/lib/accounts";
 import { prisma } from "@/lib/db";
+import { hasAzureCredentials, verifyAzureSubscription } from "@/lib/azure";
+import { encryptSecret, maskCloudAccount } from "@/lib/secrets";
+import { verificationUpdate } from "@/lib/verification";
 
 // GET all Azure subscriptions for the current user
 export async function GET() {
@@ -20,8 +24,8 @@ export async function GET() {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
-    const subscriptions = await prisma.azureSubscription.findMany({
-      where: { userId: user.id },
+    const subscriptions = await prisma.cloudAccount.findMany({
+      where: { userId: user.id, provider: "AZURE" },
       include: {
         audits: {
           orderBy: { createdAt: "desc" },
@@ -38,6 +42,13 @@ export async function GET() {
             completedAt: true,
           },
         },
+        schedules: {
+          orderBy: { createdAt: "asc" },
+        },
+        members: {
+          select: accountMemberSelect,
+          orderBy: { email: "asc" },
+        },
         _count: {
           select: { audits: true },
         },
@@ -45,7 +56,7 @@ export async function GET() {
       orderBy: { createdAt: "desc" },
     });
 
-    return NextResponse.json({ subscriptions });
+    return NextResponse.json({ subscriptions: subscriptions.map(maskCloudAccount) });
   } catch (error) {
     console.error("Azure Subscriptions API error:", error);
     return NextResponse.json(
@@ -83,11 +94,12 @@ export async function POST(request: Request) {
     }
 
     // Check if subscription already exists for this user
-    const existingSubscription = await prisma.azureSubscription.findUnique({
+    const existingSubscription = await prisma.cloudAccount.findUnique({
       where: {
-        userId_subscriptionId: {
+        userId_provider_accountId: {
           userId: user.id,
-          subscriptionId,
+          provider: "AZURE",
+          accountId: subscriptionId,
         },
       },
     });
@@ -99,19 +111,47 @@ export async function POST(request: Request) {
       );
     }
 
-    const subscription = await prisma.azureSubscription.create({
+    const credentials = {
+      tenantId: tenantId || null,
+      clientId: clientId || null,
+      clientSecret: clientSecret ? encryptSecret(clientSecret) : null,
+    };
+    const hasCredentials = hasAzureCredentials(credentials);
+
+    if (!hasCredentials && (clientId || clientSecret)) {
+      return NextResponse.json(
+        { error: "Tenant ID, Client ID and Client Secret are required together" },
+        { status: 400 }
+      );
+    }
+
+    // Refuse a service principal that doesn't work or can't see the subscription
+    const verification = hasCredentials
+      ? await verifyAzureSubscription({ subscriptionId, ...credentials })
+      : null;
+    if (verification && !verification.verified) {
+      return NextResponse.json(
+        { error: `Credential verification failed: ${verification.error}` },
+        { status: 422 }
+      );
+    }
+
+    const subscription = await prisma.cloudAccount.create({
       data: {
+        provider: "AZURE",
         name,
-        subscriptionId,
-        tenantId: tenantId || null,
-        clientId: clientId || null,
-        clientSecret: clientSecret || null,
+        accountId: subscriptionId,
+        ...credentials,
+        ...(verification && verificationUpdate(verification)),
         region: region || "eastus",
         userId: user.id,
       },
     });
 
-    return NextResponse.json({ subscription }, { status: 201 });
+    return NextResponse.json(
+      { subscription: maskCloudAccount(subscription) },
+      { status: 201 }
+    );
   } catch (error) {
     console.error("Azure Subscriptions API error:", error);
     return NextResponse.json(
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { accountAccessWhere } from "@/lib/accounts";
+import { prisma } from "@/lib/db";
+import { getFalsePositiveStats } from "@/lib/findings";
+import type { CloudProvider } from "@/types";
+
+const PROVIDERS: CloudProvider[] = ["AWS", "GCP", "AZURE"];
+
+// GET false positive counts per check over the user's current findings,
+// optionally for one provider or account
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const provider = searchParams.get("provider")?.toUpperCase();
+    const accountId = searchParams.get("accountId");
+
+    if (provider && !PROVIDERS.includes(provider as CloudProvider)) {
+      return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+    }
+
+    const checks = await getFalsePositiveStats({
+      ...(provider && { provider }),
+      audit: { account: accountAccessWhere(user.id), ...(accountId && { accountId }) },
+    });
+
+    return NextResponse.json({ checks });
+  } catch (error) {
+    console.error("False positive stats API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
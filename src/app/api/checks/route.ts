@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getPhases } from "@/lib/scanner";
+import type { CloudProvider } from "@/types";
+
+const PROVIDERS: CloudProvider[] = ["AWS", "GCP", "AZURE"];
+
+// GET registered checks grouped by phase for a cloud provider
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const provider = (request.nextUrl.searchParams.get("provider") ?? "AWS").toUpperCase();
+
+    if (!PROVIDERS.includes(provider as CloudProvider)) {
+      return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+    }
+
+    return NextResponse.json({ phases: getPhases(provider as CloudProvider) });
+  } catch (error) {
+    console.error("Checks API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,9 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { listMentions } from "@/lib/comments";
 
+// GET recent comments mentioning the user
 export async function GET() {
   try {
     const session = await getServerSession(authOptions);
@@ -19,31 +21,11 @@ export async function GET() {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
-    const findings = await prisma.gcpFinding.findMany({
-      where: {
-        audit: {
-          project: { userId: user.id },
-        },
-      },
-      orderBy: [{ severity: "asc" }, { createdAt: "desc" }],
-      select: {
-        id: true,
-        findingId: true,
-        severity: true,
-        title: true,
-        description: true,
-        resource: true,
-        resourcePath: true,
-        region: true,
-        recommendation: true,
-        status: true,
-        createdAt: true,
-      },
-    });
+    const mentions = await listMentions(user.id);
 
-    return NextResponse.json({ findings });
+    return NextResponse.json({ mentions });
   } catch (error) {
-    console.error("GCP Findings API error:", error);
+    console.error("Mentions API error:", error);
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
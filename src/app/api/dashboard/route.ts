@@ -1,9 +1,91 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
+import type { Audit, Phase } from "@prisma/client";
 import { authOptions } from "@/lib/auth";
+import { accountAccessWhere } from "@/lib/accounts";
 import { prisma } from "@/lib/db";
+import { calculateComplianceScore, sumCheckCounts } from "@/lib/scanner";
+import { maskCloudAccount } from "@/lib/secrets";
 
-export async function GET() {
+// Audits shown in the trend chart
+const HISTORY_LENGTH = 7;
+
+// When phases of several audits share a name, the merged row shows the
+// status earliest in this list
+const PHASE_STATUS_PRIORITY = ["running", "failed", "pending", "completed", "skipped"];
+
+type AuditTotals = Pick<
+  Audit,
+  | "totalFindings"
+  | "critical"
+  | "high"
+  | "medium"
+  | "low"
+  | "riskScore"
+  | "complianceScore"
+  | "passedChecks"
+  | "failedChecks"
+  | "skippedChecks"
+  | "erroredChecks"
+>;
+
+/**
+ * Sum the latest audits of several accounts. The risk score is their
+ * average; the compliance score is recomputed from the summed check counts.
+ */
+function sumAudits(audits: AuditTotals[]) {
+  const scored = audits.filter((a) => a.riskScore !== null);
+  const evaluated = audits.filter((a) => a.complianceScore !== null);
+
+  return {
+    totalFindings: audits.reduce((sum, a) => sum + a.totalFindings, 0),
+    critical: audits.reduce((sum, a) => sum + a.critical, 0),
+    high: audits.reduce((sum, a) => sum + a.high, 0),
+    medium: audits.reduce((sum, a) => sum + a.medium, 0),
+    low: audits.reduce((sum, a) => sum + a.low, 0),
+    riskScore:
+      scored.length > 0
+        ? Math.round(scored.reduce((sum, a) => sum + a.riskScore!, 0) / scored.length)
+        : 0,
+    complianceScore: calculateComplianceScore(sumCheckCounts(evaluated)),
+  };
+}
+
+/**
+ * Merge the phases of several audits by name, so the same area of different
+ * accounts is shown as one row
+ */
+function mergePhases(phases: Phase[]): Phase[] {
+  const merged = new Map<string, Phase>();
+
+  for (const phase of phases) {
+    const existing = merged.get(phase.name);
+    if (!existing) {
+      merged.set(phase.name, { ...phase });
+      continue;
+    }
+
+    const rank = (status: string) => PHASE_STATUS_PRIORITY.indexOf(status);
+    merged.set(phase.name, {
+      ...existing,
+      status: rank(phase.status) < rank(existing.status) ? phase.status : existing.status,
+      findings: existing.findings + phase.findings,
+      critical: existing.critical + phase.critical,
+      high: existing.high + phase.high,
+      medium: existing.medium + phase.medium,
+      low: existing.low + phase.low,
+      passedChecks: existing.passedChecks + phase.passedChecks,
+      failedChecks: existing.failedChecks + phase.failedChecks,
+      skippedChecks: existing.skippedChecks + phase.skippedChecks,
+      erroredChecks: existing.erroredChecks + phase.erroredChecks,
+    });
+  }
+
+  return [...merged.values()].sort((a, b) => a.phaseNumber - b.phaseNumber);
+}
+
+// GET dashboard data for one cloud account, or all of them when no accountId is given
+export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
 
@@ -13,91 +95,118 @@ export async function GET() {
 
     const user = await prisma.user.findUnique({
       where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const accounts = await prisma.cloudAccount.findMany({
+      where: accountAccessWhere(user.id),
+      orderBy: { createdAt: "asc" },
       include: {
-        awsAccounts: {
-          include: {
-            audits: {
-              orderBy: { createdAt: "desc" },
-              take: 1,
-            },
-          },
+        audits: {
+          orderBy: { createdAt: "desc" },
+          take: 1,
+          select: { id: true },
         },
       },
     });
 
-    if (!user) {
-      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    const accountId = request.nextUrl.searchParams.get("accountId");
+    const scopedAccounts = accountId
+      ? accounts.filter((a) => a.id === accountId)
+      : accounts;
+
+    if (accountId && scopedAccounts.length === 0) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
     }
 
-    // Get the first AWS account for this user
-    const firstAccount = user.awsAccounts[0];
+    const scopedIds = scopedAccounts.map((a) => a.id);
+    const latestAuditIds = scopedAccounts.flatMap((a) => a.audits.map((audit) => audit.id));
 
-    // Get latest AWS audit for dashboard stats
-    const latestAudit = firstAccount ? await prisma.awsAudit.findFirst({
-      where: {
-        accountId: firstAccount.id,
-      },
-      orderBy: { createdAt: "desc" },
+    // Latest audit of each account in scope for dashboard stats
+    const latestAudits = await prisma.audit.findMany({
+      where: { id: { in: latestAuditIds } },
       include: {
-        account: true,
         phases: {
           orderBy: { phaseNumber: "asc" },
         },
-        findings: {
-          orderBy: [
-            { severity: "asc" },
-            { createdAt: "desc" },
-          ],
-          select: {
-            id: true,
-            findingId: true,
-            severity: true,
-            title: true,
-            description: true,
-            resource: true,
-            resourceArn: true,
-            region: true,
-            recommendation: true,
-            status: true,
-            createdAt: true,
-          },
-        },
       },
-    }) : null;
+    });
 
-    // Get historical audit data for charts (last 7 audits)
-    const historicalAudits = firstAccount ? await prisma.awsAudit.findMany({
-      where: {
-        accountId: firstAccount.id,
-        status: "completed",
-      },
-      orderBy: { completedAt: "desc" },
-      take: 7,
+    const findings = await prisma.finding.findMany({
+      where: { auditId: { in: latestAuditIds } },
+      orderBy: [
+        { severity: "asc" },
+        { createdAt: "desc" },
+      ],
       select: {
         id: true,
-        critical: true,
-        high: true,
-        medium: true,
-        low: true,
-        totalFindings: true,
-        riskScore: true,
-        completedAt: true,
-        account: {
-          select: {
-            name: true,
+        provider: true,
+        findingId: true,
+        severity: true,
+        title: true,
+        description: true,
+        resource: true,
+        resourceArn: true,
+        resourcePath: true,
+        resourceId: true,
+        region: true,
+        recommendation: true,
+        status: true,
+        createdAt: true,
+      },
+    });
+
+    // The last completed audits of each account, enough to rebuild the
+    // combined totals after each of the last HISTORY_LENGTH audits
+    const completedAudits = (
+      await prisma.cloudAccount.findMany({
+        where: { id: { in: scopedIds } },
+        select: {
+          audits: {
+            where: { status: "completed" },
+            orderBy: { completedAt: "desc" },
+            take: HISTORY_LENGTH + 1,
+            include: {
+              account: {
+                select: {
+                  name: true,
+                },
+              },
+            },
           },
         },
-      },
-    }) : [];
+      })
+    )
+      .flatMap((a) => a.audits)
+      .sort((a, b) => (a.completedAt?.getTime() ?? 0) - (b.completedAt?.getTime() ?? 0));
+
+    // Each point holds the latest completed audit of every account as of the
+    // audit that produced it; for a single account that is the audit itself
+    const latestByAccount = new Map<string, (typeof completedAudits)[number]>();
+    const historicalAudits = completedAudits
+      .map((audit) => {
+        latestByAccount.set(audit.accountId, audit);
+        return {
+          id: audit.id,
+          ...sumAudits([...latestByAccount.values()]),
+          completedAt: audit.completedAt,
+          account: audit.account,
+        };
+      })
+      .slice(-HISTORY_LENGTH);
 
-    // Recent findings (last 10)
-    const recentFindings = firstAccount ? await prisma.awsFinding.findMany({
+    // Most recently raised findings (last 10), once each
+    const recentFindings = await prisma.finding.findMany({
       where: {
+        latest: true,
         audit: {
-          accountId: firstAccount.id,
+          accountId: { in: scopedIds },
         },
       },
-      orderBy: { createdAt: "desc" },
+      orderBy: { firstSeenAt: "desc" },
       take: 10,
       include: {
         audit: {
@@ -106,27 +215,42 @@ export async function GET() {
           },
         },
       },
-    }) : [];
+    });
+
+    // Compare against the totals before the latest audits completed
+    const previousAudit = [...historicalAudits]
+      .reverse()
+      .find((a) => !latestAuditIds.includes(a.id));
+
+    const completedAt = latestAudits
+      .map((a) => a.completedAt)
+      .reduce<Date | null>((latest, d) => (d && (!latest || d > latest) ? d : latest), null);
 
     // Calculate stats
     const stats = {
-      totalFindings: latestAudit?.totalFindings || 0,
-      critical: latestAudit?.critical || 0,
-      high: latestAudit?.high || 0,
-      medium: latestAudit?.medium || 0,
-      low: latestAudit?.low || 0,
-      riskScore: latestAudit?.riskScore || 0,
-      accountName: latestAudit?.account?.name || "No accounts",
-      lastScanAt: latestAudit?.completedAt || null,
+      ...sumAudits(latestAudits),
+      previousComplianceScore: previousAudit?.complianceScore ?? null,
+      accountName: accountId
+        ? scopedAccounts[0].name
+        : scopedAccounts.length > 0
+          ? "All accounts"
+          : "No accounts",
+      lastScanAt: completedAt,
     };
 
     return NextResponse.json({
       stats,
-      phases: latestAudit?.phases || [],
-      findings: latestAudit?.findings || [],
-      historicalAudits: historicalAudits.reverse(),
-      recentActivity: recentFindings,
-      accounts: user.awsAccounts,
+      phases:
+        latestAudits.length === 1
+          ? latestAudits[0].phases
+          : mergePhases(latestAudits.flatMap((a) => a.phases)),
+      findings,
+      historicalAudits,
+      recentActivity: recentFindings.map(({ audit: { account, ...audit }, ...finding }) => ({
+        ...finding,
+        audit: { ...audit, account: maskCloudAccount(account) },
+      })),
+      accounts: accounts.map(maskCloudAccount),
     });
   } catch (error) {
     console.error("Dashboard API error:", error);
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import {
+  CommentError,
+  createComment,
+  listComments,
+  MAX_COMMENT_REQUEST_BYTES,
+} from "@/lib/comments";
+import { findingAccessWhere } from "@/lib/findings";
+
+async function findAccessibleFinding(id: string, userId: string) {
+  const finding = await prisma.finding.findFirst({
+    where: {
+      id,
+      ...findingAccessWhere(userId),
+    },
+    select: {
+      id: true,
+      fingerprint: true,
+      audit: { select: { accountId: true } },
+    },
+  });
+  return finding && { id: finding.id, fingerprint: finding.fingerprint, accountId: finding.audit.accountId };
+}
+
+// GET the comment threads of a finding across the audits that raised it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const finding = await findAccessibleFinding(id, user.id);
+
+    if (!finding) {
+      return NextResponse.json({ error: "Finding not found" }, { status: 404 });
+    }
+
+    const comments = await listComments(finding);
+
+    return NextResponse.json({ comments });
+  } catch (error) {
+    console.error("Finding comments API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST a comment or reply on a finding as multipart form data: body,
+// parentId and files. The body is buffered to be parsed, so its declared
+// length is checked against the attachment limits first.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const finding = await findAccessibleFinding(id, user.id);
+
+    if (!finding) {
+      return NextResponse.json({ error: "Finding not found" }, { status: 404 });
+    }
+
+    const contentLength = Number(request.headers.get("content-length"));
+    if (!contentLength) {
+      return NextResponse.json({ error: "Content-Length is required" }, { status: 411 });
+    }
+    if (contentLength > MAX_COMMENT_REQUEST_BYTES) {
+      return NextResponse.json(
+        { error: `Comments and their attachments are limited to ${MAX_COMMENT_REQUEST_BYTES / 1024 / 1024} MB` },
+        { status: 413 }
+      );
+    }
+
+    let form: FormData;
+    try {
+      form = await request.formData();
+    } catch {
+      return NextResponse.json({ error: "Expected a multipart form body" }, { status: 400 });
+    }
+    const parentId = form.get("parentId");
+
+    try {
+      const comment = await createComment({
+        finding,
+        authorId: user.id,
+        body: form.get("body"),
+        parentId: typeof parentId === "string" ? parentId : null,
+        files: form.getAll("files").filter((file): file is File => file instanceof File),
+      });
+      return NextResponse.json({ comment }, { status: 201 });
+    } catch (error) {
+      if (error instanceof CommentError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error("Finding comments API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
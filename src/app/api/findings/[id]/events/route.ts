@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { findingAccessWhere, listFindingEvents } from "@/lib/findings";
+
+// GET the history of a finding across the audits that raised it, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const finding = await prisma.finding.findFirst({
+      where: {
+        id,
+        ...findingAccessWhere(user.id),
+      },
+      select: {
+        fingerprint: true,
+        audit: { select: { accountId: true } },
+      },
+    });
+
+    if (!finding) {
+      return NextResponse.json({ error: "Finding not found" }, { status: 404 });
+    }
+
+    const events = await listFindingEvents({
+      fingerprint: finding.fingerprint,
+      accountId: finding.audit.accountId,
+    });
+
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error("Finding events API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
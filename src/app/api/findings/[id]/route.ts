@@ -2,7 +2,16 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
-
+import {
+  findingAccessWhere,
+  findingAssigneeSelect,
+  FindingAssignmentError,
+  FindingStatusError,
+  updateFinding,
+} from "@/lib/findings";
+import { maskCloudAccount } from "@/lib/secrets";
+
+// GET a finding with its audit, account, phase and assignee
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -26,11 +35,7 @@ export async function GET(
     const finding = await prisma.finding.findFirst({
       where: {
         id,
-        audit: {
-          account: {
-            userId: user.id,
-          },
-        },
+        ...findingAccessWhere(user.id),
       },
       include: {
         audit: {
@@ -39,6 +44,7 @@ export async function GET(
           },
         },
         phase: true,
+        assignee: { select: findingAssigneeSelect },
       },
     });
 
@@ -46,7 +52,11 @@ export async function GET(
       return NextResponse.json({ error: "Finding not found" }, { status: 404 });
     }
 
-    return NextResponse.json({ finding });
+    const { audit: { account, ...audit }, ...rest } = finding;
+
+    return NextResponse.json({
+      finding: { ...rest, audit: { ...audit, account: maskCloudAccount(account) } },
+    });
   } catch (error) {
     console.error("Finding API error:", error);
     return NextResponse.json(
@@ -56,6 +66,9 @@ export async function GET(
   }
 }
 
+// PATCH set the status of a finding, with a comment that is required when
+// ignoring it or marking it a false positive, and/or assign it and move its
+// due date
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -76,15 +89,11 @@ export async function PATCH(
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
-    // Verify the finding belongs to the user
+    // Verify the finding belongs or is assigned to the user
     const existingFinding = await prisma.finding.findFirst({
       where: {
         id,
-        audit: {
-          account: {
-            userId: user.id,
-          },
-        },
+        ...findingAccessWhere(user.id),
       },
     });
 
@@ -93,18 +102,17 @@ export async function PATCH(
     }
 
     const body = await request.json();
-    const { status } = body;
-
-    if (!status || !["open", "resolved", "ignored"].includes(status)) {
-      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    const { status, comment, assigneeEmail, dueAt } = body;
+
+    try {
+      const finding = await updateFinding(id, user.id, { status, comment, assigneeEmail, dueAt });
+      return NextResponse.json({ finding });
+    } catch (error) {
+      if (error instanceof FindingStatusError || error instanceof FindingAssignmentError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
     }
-
-    const finding = await prisma.finding.update({
-      where: { id },
-      data: { status },
-    });
-
-    return NextResponse.json({ finding });
   } catch (error) {
     console.error("Finding update error:", error);
     return NextResponse.json(
@@ -1,9 +1,18 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import {
+  FindingQueryError,
+  findFindingsPage,
+  getFindingFacets,
+  parseFindingQuery,
+  type FindingQuery,
+} from "@/lib/findings";
 
-export async function GET() {
+// GET one page of findings from the user's audits, filtered and sorted by the
+// query parameters, with facet counts for filter controls
+export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
 
@@ -19,45 +28,22 @@ export async function GET() {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
-    // Get all findings from user's audits
-    const findings = await prisma.finding.findMany({
-      where: {
-        audit: {
-          account: {
-            userId: user.id,
-          },
-        },
-      },
-      orderBy: [
-        { severity: "asc" },
-        { createdAt: "desc" },
-      ],
-      select: {
-        id: true,
-        findingId: true,
-        severity: true,
-        title: true,
-        description: true,
-        resource: true,
-        resourceArn: true,
-        region: true,
-        recommendation: true,
-        status: true,
-        createdAt: true,
-        audit: {
-          select: {
-            account: {
-              select: {
-                name: true,
-                accountId: true,
-              },
-            },
-          },
-        },
-      },
-    });
+    let query: FindingQuery;
+    try {
+      query = parseFindingQuery(request.nextUrl.searchParams, user.id);
+    } catch (error) {
+      if (error instanceof FindingQueryError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const [page, facets] = await Promise.all([
+      findFindingsPage(query),
+      getFindingFacets(query.scope),
+    ]);
 
-    return NextResponse.json({ findings });
+    return NextResponse.json({ ...page, facets });
   } catch (error) {
     console.error("Findings API error:", error);
     return NextResponse.json(
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { accountAccessWhere } from "@/lib/accounts";
 import { prisma } from "@/lib/db";
 
 export async function GET() {
@@ -20,12 +21,12 @@ export async function GET() {
     }
 
     // Get GCP projects
-    const projects = await prisma.gcpProject.findMany({
-      where: { userId: user.id, isActive: true },
+    const projects = await prisma.cloudAccount.findMany({
+      where: { ...accountAccessWhere(user.id), provider: "GCP", isActive: true },
       select: {
         id: true,
         name: true,
-        projectId: true,
+        accountId: true,
         region: true,
         healthScore: true,
         lastScanAt: true,
@@ -33,15 +34,16 @@ export async function GET() {
     });
 
     // Get latest audit for each project
-    const latestAudit = await prisma.gcpAudit.findFirst({
+    const latestAudit = await prisma.audit.findFirst({
       where: {
-        project: { userId: user.id },
+        provider: "GCP",
+        account: accountAccessWhere(user.id),
         status: "completed",
       },
       orderBy: { completedAt: "desc" },
       include: {
-        project: {
-          select: { name: true, projectId: true },
+        account: {
+          select: { name: true, accountId: true },
         },
         phases: {
           orderBy: { phaseNumber: "asc" },
@@ -65,9 +67,10 @@ export async function GET() {
     });
 
     // Get historical audits for trend chart
-    const historicalAudits = await prisma.gcpAudit.findMany({
+    const historicalAudits = await prisma.audit.findMany({
       where: {
-        project: { userId: user.id },
+        provider: "GCP",
+        account: accountAccessWhere(user.id),
         status: "completed",
       },
       orderBy: { completedAt: "asc" },
@@ -90,7 +93,7 @@ export async function GET() {
           medium: latestAudit.medium,
           low: latestAudit.low,
           riskScore: latestAudit.riskScore || 0,
-          projectName: latestAudit.project.name,
+          projectName: latestAudit.account.name,
           lastScanAt: latestAudit.completedAt?.toISOString() || null,
         }
       : {
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { encryptSecret, maskCloudAccount } from "@/lib/secrets";
 
 // GET a single GCP project
 export async function GET(
@@ -24,9 +25,10 @@ export async function GET(
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
-    const project = await prisma.gcpProject.findFirst({
+    const project = await prisma.cloudAccount.findFirst({
       where: {
         id,
+        provider: "GCP",
         userId: user.id,
       },
       include: {
@@ -41,7 +43,7 @@ export async function GET(
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
     }
 
-    return NextResponse.json({ project });
+    return NextResponse.json({ project: maskCloudAccount(project) });
   } catch (error) {
     console.error("GCP Project API error:", error);
     return NextResponse.json(
@@ -75,15 +77,20 @@ export async function PATCH(
     const body = await request.json();
     const { name, region, serviceAccountKey, isActive } = body;
 
-    const project = await prisma.gcpProject.updateMany({
+    const project = await prisma.cloudAccount.updateMany({
       where: {
         id,
+        provider: "GCP",
         userId: user.id,
       },
       data: {
         ...(name && { name }),
         ...(region && { region }),
-        ...(serviceAccountKey !== undefined && { serviceAccountKey }),
+        ...(serviceAccountKey !== undefined && {
+          serviceAccountKey: serviceAccountKey ? encryptSecret(serviceAccountKey) : null,
+          verificationStatus: "unverified",
+          verificationError: null,
+        }),
         ...(isActive !== undefined && { isActive }),
       },
     });
@@ -123,9 +130,10 @@ export async function DELETE(
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
-    const project = await prisma.gcpProject.deleteMany({
+    const project = await prisma.cloudAccount.deleteMany({
       where: {
         id,
+        provider: "GCP",
         userId: user.id,
       },
     });
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { verifyGcpProject } from "@/lib/gcp";
+import { verificationUpdate } from "@/lib/verification";
+
+// POST re-check a GCP project's service account key
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const project = await prisma.cloudAccount.findFirst({
+      where: { id, provider: "GCP", userId: user.id },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    if (!project.serviceAccountKey) {
+      return NextResponse.json(
+        { error: "Project has no service account key configured" },
+        { status: 400 }
+      );
+    }
+
+    const verification = await verifyGcpProject({
+      projectId: project.accountId,
+      projectNumber: project.projectNumber,
+      serviceAccountKey: project.serviceAccountKey,
+    });
+
+    const updated = await prisma.cloudAccount.update({
+      where: { id },
+      data: {
+        ...verificationUpdate(verification),
+        ...(!project.projectNumber &&
+          verification.projectNumber && { projectNumber: verification.projectNumber }),
+      },
+      select: {
+        verificationStatus: true,
+        verificationError: true,
+        verifiedAt: true,
+      },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Verify GCP project error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
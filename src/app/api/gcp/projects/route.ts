@@ -1,7 +1,11 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { accountMemberSelect } from "@/lib/accounts";
 import { prisma } from "@/lib/db";
+import { verifyGcpProject } from "@/lib/gcp";
+import { encryptSecret, maskCloudAccount } from "@/lib/secrets";
+import { verificationUpdate } from "@/lib/verification";
 
 // GET all GCP projects for the current user
 export async function GET() {
@@ -20,8 +24,8 @@ export async function GET() {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
-    const projects = await prisma.gcpProject.findMany({
-      where: { userId: user.id },
+    const projects = await prisma.cloudAccount.findMany({
+      where: { userId: user.id, provider: "GCP" },
       include: {
         audits: {
           orderBy: { createdAt: "desc" },
@@ -38,6 +42,13 @@ export async function GET() {
             completedAt: true,
           },
         },
+        schedules: {
+          orderBy: { createdAt: "asc" },
+        },
+        members: {
+          select: accountMemberSelect,
+          orderBy: { email: "asc" },
+        },
         _count: {
           select: { audits: true },
         },
@@ -45,7 +56,7 @@ export async function GET() {
       orderBy: { createdAt: "desc" },
     });
 
-    return NextResponse.json({ projects });
+    return NextResponse.json({ projects: projects.map(maskCloudAccount) });
   } catch (error) {
     console.error("GCP Projects API error:", error);
     return NextResponse.json(
@@ -83,11 +94,12 @@ export async function POST(request: Request) {
     }
 
     // Check if project already exists for this user
-    const existingProject = await prisma.gcpProject.findUnique({
+    const existingProject = await prisma.cloudAccount.findUnique({
       where: {
-        userId_projectId: {
+        userId_provider_accountId: {
           userId: user.id,
-          projectId,
+          provider: "GCP",
+          accountId: projectId,
         },
       },
     });
@@ -99,18 +111,33 @@ export async function POST(request: Request) {
       );
     }
 
-    const project = await prisma.gcpProject.create({
+    const encryptedKey = serviceAccountKey ? encryptSecret(serviceAccountKey) : null;
+
+    // Refuse a key that doesn't work or can't see the project
+    const verification = encryptedKey
+      ? await verifyGcpProject({ projectId, projectNumber, serviceAccountKey: encryptedKey })
+      : null;
+    if (verification && !verification.verified) {
+      return NextResponse.json(
+        { error: `Credential verification failed: ${verification.error}` },
+        { status: 422 }
+      );
+    }
+
+    const project = await prisma.cloudAccount.create({
       data: {
+        provider: "GCP",
         name,
-        projectId,
-        projectNumber: projectNumber || null,
+        accountId: projectId,
+        projectNumber: projectNumber || verification?.projectNumber || null,
         region: region || "us-central1",
-        serviceAccountKey: serviceAccountKey || null,
+        serviceAccountKey: encryptedKey,
+        ...(verification && verificationUpdate(verification)),
         userId: user.id,
       },
     });
 
-    return NextResponse.json({ project }, { status: 201 });
+    return NextResponse.json({ project: maskCloudAccount(project) }, { status: 201 });
   } catch (error) {
     console.error("GCP Projects API error:", error);
     return NextResponse.json(
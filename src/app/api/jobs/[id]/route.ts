@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import type { JobPayloads } from "@/lib/jobs";
+import { cancelAudit } from "@/lib/scanner";
+
+// GET a single job including its result
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const job = await prisma.job.findFirst({
+      where: { id, userId: user.id },
+    });
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error("Job API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE cancel a job that has not started yet
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const job = await prisma.job.findFirst({
+      where: { id, userId: user.id },
+    });
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const cancelled = await prisma.job.updateMany({
+      where: { id, status: "queued" },
+      data: { status: "cancelled", completedAt: new Date() },
+    });
+
+    if (cancelled.count === 0) {
+      return NextResponse.json(
+        { error: "Only queued jobs can be cancelled" },
+        { status: 409 }
+      );
+    }
+
+    // The audit would otherwise stay pending forever
+    if (job.type === "audit.run") {
+      const { auditId } = job.payload as JobPayloads["audit.run"];
+      await cancelAudit(auditId);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Job API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
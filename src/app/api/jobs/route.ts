@@ -1,9 +1,10 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 
-export async function GET() {
+// GET the current user's background jobs, newest first
+export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
 
@@ -19,31 +20,35 @@ export async function GET() {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
-    const findings = await prisma.azureFinding.findMany({
+    const status = request.nextUrl.searchParams.get("status");
+
+    const jobs = await prisma.job.findMany({
       where: {
-        audit: {
-          subscription: { userId: user.id },
-        },
+        userId: user.id,
+        ...(status && status !== "all" && { status }),
       },
-      orderBy: [{ severity: "asc" }, { createdAt: "desc" }],
+      orderBy: { createdAt: "desc" },
+      take: 100,
       select: {
         id: true,
-        findingId: true,
-        severity: true,
-        title: true,
-        description: true,
-        resource: true,
-        resourceId: true,
-        region: true,
-        recommendation: true,
+        type: true,
         status: true,
+        payload: true,
+        attempts: true,
+        maxAttempts: true,
+        lastError: true,
+        runAt: true,
+        lockedBy: true,
+        heartbeatAt: true,
+        startedAt: true,
+        completedAt: true,
         createdAt: true,
       },
     });
 
-    return NextResponse.json({ findings });
+    return NextResponse.json({ jobs });
   } catch (error) {
-    console.error("Azure Findings API error:", error);
+    console.error("Jobs API error:", error);
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
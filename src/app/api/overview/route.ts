@@ -0,0 +1,193 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { format, startOfDay, subDays } from "date-fns";
+import { authOptions } from "@/lib/auth";
+import { accountAccessWhere } from "@/lib/accounts";
+import { prisma } from "@/lib/db";
+import type { CloudProvider } from "@/types";
+
+const PROVIDERS: CloudProvider[] = ["AWS", "GCP", "AZURE"];
+
+// Days covered by the cross-cloud trend chart
+const TREND_DAYS = 30;
+
+// Environments listed as needing attention
+const WORST_ENVIRONMENTS = 5;
+
+const auditSelect = {
+  id: true,
+  totalFindings: true,
+  critical: true,
+  high: true,
+  medium: true,
+  low: true,
+  riskScore: true,
+  completedAt: true,
+} as const;
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+}
+
+// GET aggregate the latest completed audit of every cloud account
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const trendStart = startOfDay(subDays(new Date(), TREND_DAYS - 1));
+
+    const accounts = await prisma.cloudAccount.findMany({
+      where: { ...accountAccessWhere(user.id), isActive: true },
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        provider: true,
+        name: true,
+        accountId: true,
+        lastScanAt: true,
+        audits: {
+          where: { status: "completed" },
+          orderBy: { completedAt: "desc" },
+          take: 1,
+          select: auditSelect,
+        },
+      },
+    });
+
+    // Completed audits inside the trend window, plus the last one before it
+    // per account so the first day starts from the right baseline
+    const [windowAudits, baselineAudits] = await Promise.all([
+      prisma.audit.findMany({
+        where: {
+          account: { ...accountAccessWhere(user.id), isActive: true },
+          status: "completed",
+          completedAt: { gte: trendStart },
+        },
+        orderBy: { completedAt: "asc" },
+        select: { accountId: true, provider: true, totalFindings: true, completedAt: true },
+      }),
+      prisma.audit.findMany({
+        where: {
+          account: { ...accountAccessWhere(user.id), isActive: true },
+          status: "completed",
+          completedAt: { lt: trendStart },
+        },
+        orderBy: { completedAt: "desc" },
+        distinct: ["accountId"],
+        select: { accountId: true, provider: true, totalFindings: true, completedAt: true },
+      }),
+    ]);
+
+    const environments = accounts.map(({ audits, ...account }) => ({
+      ...account,
+      latestAudit: audits[0] ?? null,
+    }));
+    const scanned = environments.flatMap(({ latestAudit, ...account }) =>
+      latestAudit ? [{ ...account, latestAudit }] : []
+    );
+
+    // Audits without a risk score are left out of the average
+    const sumAudits = (items: typeof scanned) => ({
+      totalFindings: items.reduce((sum, e) => sum + e.latestAudit.totalFindings, 0),
+      critical: items.reduce((sum, e) => sum + e.latestAudit.critical, 0),
+      high: items.reduce((sum, e) => sum + e.latestAudit.high, 0),
+      medium: items.reduce((sum, e) => sum + e.latestAudit.medium, 0),
+      low: items.reduce((sum, e) => sum + e.latestAudit.low, 0),
+      riskScore: average(
+        items.flatMap((e) => (e.latestAudit.riskScore === null ? [] : [e.latestAudit.riskScore]))
+      ),
+    });
+
+    const lastScanAt = (items: typeof scanned) =>
+      items
+        .map((e) => e.latestAudit.completedAt)
+        .reduce<Date | null>((latest, d) => (d && (!latest || d > latest) ? d : latest), null);
+
+    const stats = {
+      ...sumAudits(scanned),
+      environments: environments.length,
+      scannedEnvironments: scanned.length,
+      lastScanAt: lastScanAt(scanned),
+    };
+
+    const providers = PROVIDERS.map((provider) => {
+      const inProvider = scanned.filter((e) => e.provider === provider);
+      return {
+        provider,
+        ...sumAudits(inProvider),
+        environments: environments.filter((e) => e.provider === provider).length,
+        scannedEnvironments: inProvider.length,
+        lastScanAt: lastScanAt(inProvider),
+      };
+    });
+
+    // Unscored environments come last
+    const worstEnvironments = [...scanned]
+      .sort(
+        (a, b) =>
+          (a.latestAudit.riskScore ?? Infinity) - (b.latestAudit.riskScore ?? Infinity) ||
+          b.latestAudit.critical - a.latestAudit.critical
+      )
+      .slice(0, WORST_ENVIRONMENTS)
+      .map((e) => ({
+        id: e.id,
+        provider: e.provider,
+        name: e.name,
+        accountId: e.accountId,
+        auditId: e.latestAudit.id,
+        riskScore: e.latestAudit.riskScore,
+        totalFindings: e.latestAudit.totalFindings,
+        critical: e.latestAudit.critical,
+        high: e.latestAudit.high,
+        completedAt: e.latestAudit.completedAt,
+      }));
+
+    // Open findings per provider at the end of each day, taking the latest
+    // audit of every account completed by then
+    const latestByAccount = new Map(baselineAudits.map((a) => [a.accountId, a]));
+    let next = 0;
+    const trend = Array.from({ length: TREND_DAYS }, (_, i) => {
+      const day = subDays(new Date(), TREND_DAYS - 1 - i);
+      const dayEnd = startOfDay(subDays(day, -1));
+
+      while (next < windowAudits.length && windowAudits[next].completedAt! < dayEnd) {
+        latestByAccount.set(windowAudits[next].accountId, windowAudits[next]);
+        next++;
+      }
+
+      const point: Record<string, string | number> = { date: format(day, "MMM d") };
+      for (const provider of PROVIDERS) {
+        point[provider] = [...latestByAccount.values()]
+          .filter((a) => a.provider === provider)
+          .reduce((sum, a) => sum + a.totalFindings, 0);
+      }
+      return point;
+    });
+
+    return NextResponse.json({
+      stats,
+      providers,
+      worstEnvironments,
+      trend,
+    });
+  } catch (error) {
+    console.error("Overview API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import {
+  decideRiskAcceptance,
+  endRiskAcceptance,
+  parseAcceptanceDates,
+  renewRiskAcceptance,
+  RiskAcceptanceError,
+} from "@/lib/risk";
+
+const ACTIONS = ["approve", "reject", "renew", "revoke"];
+
+// PATCH act on a risk acceptance: the approver approves, rejects or renews
+// it after review; the requester, the approver or the account owner revokes it
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const acceptance = await prisma.riskAcceptance.findFirst({
+      where: {
+        id,
+        OR: [{ requesterId: user.id }, { approverId: user.id }, { account: { userId: user.id } }],
+      },
+    });
+
+    if (!acceptance) {
+      return NextResponse.json({ error: "Risk acceptance not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { action, comment } = body;
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+    }
+
+    if (action !== "revoke" && acceptance.approverId !== user.id) {
+      return NextResponse.json(
+        { error: "Only the designated approver can do this" },
+        { status: 403 }
+      );
+    }
+
+    try {
+      const updated =
+        action === "renew"
+          ? await renewRiskAcceptance(acceptance, parseAcceptanceDates(body), comment)
+          : action === "revoke"
+            ? await endRiskAcceptance(acceptance, "revoked", user.id, comment)
+            : await decideRiskAcceptance(acceptance, user.id, action === "approve", comment);
+
+      return NextResponse.json({ acceptance: updated });
+    } catch (error) {
+      if (error instanceof RiskAcceptanceError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error("Update risk acceptance error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
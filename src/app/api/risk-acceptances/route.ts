@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { accountAccessWhere } from "@/lib/accounts";
+import { prisma } from "@/lib/db";
+import { requestRiskAcceptance, riskAcceptanceInclude, RiskAcceptanceError } from "@/lib/risk";
+
+// GET the risk acceptances the user requested or was asked to approve
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const acceptances = await prisma.riskAcceptance.findMany({
+      where: {
+        OR: [{ requesterId: user.id }, { approverId: user.id }, { account: accountAccessWhere(user.id) }],
+      },
+      include: riskAcceptanceInclude,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ acceptances, userId: user.id });
+  } catch (error) {
+    console.error("Risk acceptances API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST request acceptance of the risk of a finding from a designated approver
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const { findingId, approverEmail, justification, expiresAt, reviewAt } = await request.json();
+
+    const finding = await prisma.finding.findFirst({
+      where: { id: findingId, audit: { account: accountAccessWhere(user.id) } },
+      select: { id: true },
+    });
+
+    if (!finding) {
+      return NextResponse.json({ error: "Finding not found" }, { status: 404 });
+    }
+
+    try {
+      const acceptance = await requestRiskAcceptance({
+        findingId: finding.id,
+        requesterId: user.id,
+        approverEmail,
+        justification,
+        expiresAt,
+        reviewAt,
+      });
+      return NextResponse.json({ acceptance }, { status: 201 });
+    } catch (error) {
+      if (error instanceof RiskAcceptanceError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error("Request risk acceptance error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
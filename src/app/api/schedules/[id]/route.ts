@@ -0,0 +1,137 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { getPhases } from "@/lib/scanner";
+import { CronError, nextCronRun } from "@/lib/schedules";
+import type { CloudProvider } from "@/types";
+
+// PATCH update a schedule, or pause and resume it
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const existing = await prisma.auditSchedule.findFirst({
+      where: { id, userId: user.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { name, phases } = body;
+    const cron: unknown = body.cron ?? existing.cron;
+    const timezone: unknown = body.timezone ?? existing.timezone;
+    const isPaused: unknown = body.isPaused ?? existing.isPaused;
+
+    if (
+      (name !== undefined && typeof name !== "string") ||
+      typeof cron !== "string" ||
+      typeof timezone !== "string" ||
+      typeof isPaused !== "boolean"
+    ) {
+      return NextResponse.json(
+        { error: "Name, cron expression and timezone must be strings and isPaused a boolean" },
+        { status: 400 }
+      );
+    }
+
+    // No phases selected means every phase
+    const validPhases = getPhases(existing.provider as CloudProvider).map((p) => p.number);
+    if (
+      phases !== undefined &&
+      (!Array.isArray(phases) || phases.some((p) => !validPhases.includes(p)))
+    ) {
+      return NextResponse.json({ error: "Invalid phases" }, { status: 400 });
+    }
+
+    // Paused schedules have no next run; resuming starts from now
+    let nextRunAt: Date | null = null;
+    try {
+      const next = nextCronRun(cron, timezone);
+      if (!isPaused) nextRunAt = next;
+    } catch (error) {
+      if (error instanceof CronError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const schedule = await prisma.auditSchedule.update({
+      where: { id },
+      data: {
+        ...(name && { name }),
+        ...(phases !== undefined && { phases }),
+        cron,
+        timezone,
+        isPaused,
+        nextRunAt,
+        ...(!isPaused && existing.isPaused && { lastError: null }),
+      },
+    });
+
+    return NextResponse.json({ schedule });
+  } catch (error) {
+    console.error("Schedule API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE a schedule
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const schedule = await prisma.auditSchedule.deleteMany({
+      where: { id, userId: user.id },
+    });
+
+    if (schedule.count === 0) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Schedule API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { getPhases } from "@/lib/scanner";
+import { CronError, nextCronRun } from "@/lib/schedules";
+import type { CloudProvider } from "@/types";
+
+// GET the user's audit schedules, optionally for one provider
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const provider = request.nextUrl.searchParams.get("provider");
+
+    const schedules = await prisma.auditSchedule.findMany({
+      where: {
+        userId: user.id,
+        ...(provider && { provider }),
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({ schedules });
+  } catch (error) {
+    console.error("Schedules API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST create a recurring audit schedule for an account, project or subscription
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { name, accountId, cron, timezone = "UTC", phases = [] } = body;
+
+    if (!name || !accountId || !cron) {
+      return NextResponse.json(
+        { error: "Name, account and cron expression are required" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof name !== "string" || typeof cron !== "string" || typeof timezone !== "string") {
+      return NextResponse.json(
+        { error: "Name, cron expression and timezone must be strings" },
+        { status: 400 }
+      );
+    }
+
+    const account = await prisma.cloudAccount.findFirst({
+      where: { id: accountId, userId: user.id },
+    });
+
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    // No phases selected means every phase
+    const validPhases = getPhases(account.provider as CloudProvider).map((p) => p.number);
+    if (!Array.isArray(phases) || phases.some((p) => !validPhases.includes(p))) {
+      return NextResponse.json({ error: "Invalid phases" }, { status: 400 });
+    }
+
+    let nextRunAt: Date;
+    try {
+      nextRunAt = nextCronRun(cron, timezone);
+    } catch (error) {
+      if (error instanceof CronError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const schedule = await prisma.auditSchedule.create({
+      data: {
+        name,
+        provider: account.provider,
+        cron,
+        timezone,
+        phases,
+        nextRunAt,
+        accountId: account.id,
+        userId: user.id,
+      },
+    });
+
+    return NextResponse.json({ schedule }, { status: 201 });
+  } catch (error) {
+    console.error("Create schedule error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
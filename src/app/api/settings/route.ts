@@ -1,7 +1,9 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { accountAccessWhere } from "@/lib/accounts";
 import { prisma } from "@/lib/db";
+import { DEFAULT_SLA_POLICY, parseSlaSettings, SlaPolicyError } from "@/lib/sla";
 
 // GET user settings
 export async function GET() {
@@ -31,6 +33,11 @@ export async function GET() {
       slackEnabled: false,
       emailAlerts: true,
       alertThreshold: "CRITICAL",
+      selectedAccountId: null,
+      slaCriticalHours: DEFAULT_SLA_POLICY.CRITICAL,
+      slaHighHours: DEFAULT_SLA_POLICY.HIGH,
+      slaMediumHours: DEFAULT_SLA_POLICY.MEDIUM,
+      slaLowHours: DEFAULT_SLA_POLICY.LOW,
     };
 
     return NextResponse.json({ settings });
@@ -70,8 +77,30 @@ export async function POST(request: Request) {
       slackEnabled,
       emailAlerts,
       alertThreshold,
+      selectedAccountId,
     } = body;
 
+    let slaSettings;
+    try {
+      slaSettings = parseSlaSettings(body);
+    } catch (error) {
+      if (error instanceof SlaPolicyError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    // null selects all accounts; a given account must be one the user can see
+    if (selectedAccountId) {
+      const account = await prisma.cloudAccount.findFirst({
+        where: { id: selectedAccountId, ...accountAccessWhere(user.id) },
+      });
+
+      if (!account) {
+        return NextResponse.json({ error: "Account not found" }, { status: 404 });
+      }
+    }
+
     const settings = await prisma.userSettings.upsert({
       where: { userId: user.id },
       update: {
@@ -83,6 +112,8 @@ export async function POST(request: Request) {
         slackEnabled: slackEnabled ?? undefined,
         emailAlerts: emailAlerts ?? undefined,
         alertThreshold: alertThreshold ?? undefined,
+        selectedAccountId,
+        ...slaSettings,
       },
       create: {
         userId: user.id,
@@ -94,6 +125,8 @@ export async function POST(request: Request) {
         slackEnabled: slackEnabled || false,
         emailAlerts: emailAlerts ?? true,
         alertThreshold: alertThreshold || "CRITICAL",
+        selectedAccountId: selectedAccountId || null,
+        ...slaSettings,
       },
     });
 
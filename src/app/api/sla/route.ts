@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { accountAccessWhere } from "@/lib/accounts";
+import { prisma } from "@/lib/db";
+import { getSlaCompliance } from "@/lib/sla";
+
+// GET SLA breach rates of the user's current findings per severity and
+// account, optionally for one account
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const accountId = request.nextUrl.searchParams.get("accountId");
+    const compliance = await getSlaCompliance({
+      audit: { account: accountAccessWhere(user.id), ...(accountId && { accountId }) },
+    });
+
+    return NextResponse.json({ compliance });
+  } catch (error) {
+    console.error("SLA API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
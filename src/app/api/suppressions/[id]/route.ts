@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import {
+  deleteSuppressionRule,
+  isRuleActive,
+  parseSuppressionRule,
+  SuppressionRuleError,
+  syncRuleFindings,
+} from "@/lib/suppressions";
+
+// PATCH update a suppression rule and apply the change to the current
+// findings. Extending an expired rule suppresses its findings again.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const existing = await prisma.suppressionRule.findFirst({
+      where: { id, userId: user.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Suppression rule not found" }, { status: 404 });
+    }
+
+    let fields;
+    try {
+      fields = parseSuppressionRule(await request.json(), existing);
+    } catch (error) {
+      if (error instanceof SuppressionRuleError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    if (fields.accountId && fields.accountId !== existing.accountId) {
+      const account = await prisma.cloudAccount.findFirst({
+        where: { id: fields.accountId, userId: user.id },
+      });
+
+      if (!account) {
+        return NextResponse.json({ error: "Account not found" }, { status: 404 });
+      }
+    }
+
+    const rule = await prisma.suppressionRule.update({
+      where: { id },
+      data: {
+        ...fields,
+        expiredAt: isRuleActive(fields) ? null : existing.expiredAt,
+      },
+    });
+    const { suppressed, reopened } = await syncRuleFindings(rule);
+
+    return NextResponse.json({ rule, suppressed, reopened });
+  } catch (error) {
+    console.error("Update suppression rule error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE a suppression rule, reopening the findings it ignored
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const rule = await prisma.suppressionRule.findFirst({
+      where: { id, userId: user.id },
+    });
+
+    if (!rule) {
+      return NextResponse.json({ error: "Suppression rule not found" }, { status: 404 });
+    }
+
+    const reopened = await deleteSuppressionRule(rule);
+
+    return NextResponse.json({ success: true, reopened });
+  } catch (error) {
+    console.error("Delete suppression rule error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { parseSuppressionRule, SuppressionRuleError, syncRuleFindings } from "@/lib/suppressions";
+
+// GET the user's suppression rules with the number of findings each ignores
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const rules = await prisma.suppressionRule.findMany({
+      where: { userId: user.id },
+      include: {
+        account: { select: { name: true, provider: true } },
+        _count: { select: { findings: { where: { latest: true } } } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({
+      rules: rules.map(({ _count, ...rule }) => ({ ...rule, suppressedFindings: _count.findings })),
+    });
+  } catch (error) {
+    console.error("Suppression rules API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST create a suppression rule and apply it to the current findings
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    let fields;
+    try {
+      fields = parseSuppressionRule(await request.json());
+    } catch (error) {
+      if (error instanceof SuppressionRuleError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    if (fields.accountId) {
+      const account = await prisma.cloudAccount.findFirst({
+        where: { id: fields.accountId, userId: user.id },
+      });
+
+      if (!account) {
+        return NextResponse.json({ error: "Account not found" }, { status: 404 });
+      }
+    }
+
+    const rule = await prisma.suppressionRule.create({
+      data: { ...fields, userId: user.id },
+    });
+    const { suppressed } = await syncRuleFindings(rule);
+
+    return NextResponse.json({ rule, suppressed }, { status: 201 });
+  } catch (error) {
+    console.error("Create suppression rule error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
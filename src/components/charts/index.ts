@@ -1,3 +1,4 @@
 export { FindingsTrendChart } from "./findings-trend-chart";
 export { SeverityDistributionChart } from "./severity-distribution-chart";
 export { TopResourcesChart } from "./top-resources-chart";
+export { ProviderTrendChart } from "./provider-trend-chart";
@@ -0,0 +1,135 @@
+"use client";
+
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { GlassCard } from "@/components/dashboard/glass-card";
+
+interface ProviderTrendPoint {
+  date: string;
+  AWS: number;
+  GCP: number;
+  AZURE: number;
+}
+
+interface ProviderTrendChartProps {
+  data?: ProviderTrendPoint[];
+}
+
+const providers = [
+  { key: "AWS", name: "AWS", color: "#FB923C" },
+  { key: "GCP", name: "GCP", color: "#60A5FA" },
+  { key: "AZURE", name: "Azure", color: "#22D3EE" },
+];
+
+interface TooltipEntry {
+  name: string;
+  value: number;
+  color: string;
+}
+
+interface CustomTooltipProps {
+  active?: boolean;
+  payload?: TooltipEntry[];
+  label?: string;
+}
+
+const CustomTooltip = ({ active, payload, label }: CustomTooltipProps) => {
+  if (active && payload && payload.length) {
+    return (
+      <div className="bg-[#1a0a2e]/95 backdrop-blur-sm border border-white/10 rounded-lg p-3 shadow-xl">
+        <p className="text-white/60 text-xs mb-2">{label}</p>
+        {payload.map((entry, index) => (
+          <div key={index} className="flex items-center gap-2 text-sm">
+            <span
+              className="w-2 h-2 rounded-full"
+              style={{ backgroundColor: entry.color }}
+            />
+            <span className="text-white/70">{entry.name}:</span>
+            <span className="text-white font-medium">{entry.value}</span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+  return null;
+};
+
+export function ProviderTrendChart({ data = [] }: ProviderTrendChartProps) {
+  return (
+    <GlassCard className="p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Cross-Cloud Trend</h3>
+          <p className="text-sm text-white/40 mt-1">Open findings over the last {data.length} days</p>
+        </div>
+        <div className="flex items-center gap-4">
+          {providers.map((item) => (
+            <div key={item.key} className="flex items-center gap-1.5">
+              <span
+                className="w-2 h-2 rounded-full"
+                style={{ backgroundColor: item.color }}
+              />
+              <span className="text-xs text-white/50">{item.name}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="h-[300px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart
+            data={data}
+            margin={{ top: 10, right: 10, left: -20, bottom: 0 }}
+          >
+            <defs>
+              {providers.map((item) => (
+                <linearGradient key={item.key} id={`${item.key}Gradient`} x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor={item.color} stopOpacity={0.3} />
+                  <stop offset="95%" stopColor={item.color} stopOpacity={0} />
+                </linearGradient>
+              ))}
+            </defs>
+            <CartesianGrid
+              strokeDasharray="3 3"
+              stroke="rgba(255,255,255,0.05)"
+              vertical={false}
+            />
+            <XAxis
+              dataKey="date"
+              axisLine={false}
+              tickLine={false}
+              tick={{ fill: "rgba(255,255,255,0.4)", fontSize: 12 }}
+            />
+            <YAxis
+              axisLine={false}
+              tickLine={false}
+              allowDecimals={false}
+              tick={{ fill: "rgba(255,255,255,0.4)", fontSize: 12 }}
+            />
+            <Tooltip content={<CustomTooltip />} />
+            {providers.map((item) => (
+              <Area
+                key={item.key}
+                type="stepAfter"
+                dataKey={item.key}
+                name={item.name}
+                stackId="providers"
+                stroke={item.color}
+                strokeWidth={2}
+                fill={`url(#${item.key}Gradient)`}
+                dot={false}
+                activeDot={{ r: 4, fill: item.color }}
+              />
+            ))}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+    </GlassCard>
+  );
+}
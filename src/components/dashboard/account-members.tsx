@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, Plus, Trash2, UserRound } from "lucide-react";
+import { toast } from "sonner";
+
+export interface AccountMemberInfo {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface AccountMembersProps {
+  accountId: string;
+  members: AccountMemberInfo[];
+  onChange: () => void;
+}
+
+// Users the account is shared with, who can be assigned and mentioned on its
+// findings
+export function AccountMembers({ accountId, members, onChange }: AccountMembersProps) {
+  const [adding, setAdding] = useState(false);
+  const [email, setEmail] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      const response = await fetch(`/api/accounts/${accountId}/members`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(`Shared with ${data.member.name || data.member.email}`);
+        setEmail("");
+        setAdding(false);
+        onChange();
+      } else {
+        toast.error("Failed to share account", { description: data.error });
+      }
+    } catch {
+      toast.error("Failed to share account");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRemove = async (member: AccountMemberInfo) => {
+    const response = await fetch(`/api/accounts/${accountId}/members/${member.id}`, {
+      method: "DELETE",
+    });
+    if (response.ok) {
+      toast.success(`Stopped sharing with ${member.name || member.email}`);
+      onChange();
+    } else {
+      toast.error("Failed to remove member");
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs text-white/40 uppercase tracking-wider">Shared with</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          title="Share account"
+          onClick={() => setAdding(!adding)}
+        >
+          <Plus className="w-3 h-3" />
+        </Button>
+      </div>
+
+      {adding && (
+        <form onSubmit={handleAdd} className="flex gap-2 mb-2">
+          <Input
+            type="email"
+            placeholder="teammate@example.com"
+            className="h-8 bg-white/5 border-white/10 text-white text-xs"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+          <Button type="submit" size="sm" className="btn-gradient h-8" disabled={submitting}>
+            {submitting ? <Loader2 className="w-3 h-3 animate-spin" /> : "Share"}
+          </Button>
+        </form>
+      )}
+
+      {members.length === 0 ? (
+        <p className="text-xs text-white/30">Only you can see this account</p>
+      ) : (
+        <div className="space-y-1">
+          {members.map((member) => (
+            <div
+              key={member.id}
+              className="flex items-center gap-2 p-2 rounded-lg bg-white/5 text-xs"
+            >
+              <UserRound className="w-3 h-3 flex-shrink-0 text-primary" />
+              <div className="flex-1 min-w-0">
+                <p className="text-white/80 truncate" title={member.email}>
+                  {member.name || member.email}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-white/30 hover:text-red-400"
+                title="Stop sharing"
+                onClick={() => handleRemove(member)}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, CalendarClock, Loader2, Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import { format, formatDistanceToNow } from "date-fns";
+import type { CloudProvider } from "@/types";
+
+export interface AuditScheduleInfo {
+  id: string;
+  name: string;
+  cron: string;
+  timezone: string;
+  phases: number[];
+  isPaused: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastError: string | null;
+}
+
+interface PhaseOption {
+  number: number;
+  name: string;
+}
+
+interface AuditSchedulesProps {
+  provider: CloudProvider;
+  accountId: string;
+  schedules: AuditScheduleInfo[];
+  onChange: () => void;
+}
+
+const presets = [
+  { value: "0 2 * * *", label: "Nightly at 02:00" },
+  { value: "0 * * * *", label: "Hourly" },
+  { value: "0 3 * * 1", label: "Weekly on Monday at 03:00" },
+  { value: "0 4 1 * *", label: "Monthly on the 1st at 04:00" },
+];
+
+const emptyForm = () => ({
+  name: "",
+  cron: presets[0].value,
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  phases: [] as number[],
+});
+
+export function AuditSchedules({ provider, accountId, schedules, onChange }: AuditSchedulesProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [phases, setPhases] = useState<PhaseOption[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!dialogOpen) return;
+
+    const fetchPhases = async () => {
+      try {
+        const response = await fetch(`/api/checks?provider=${provider}`);
+        if (response.ok) {
+          const data = await response.json();
+          setPhases(data.phases || []);
+        }
+      } catch (error) {
+        console.error("Failed to fetch checks:", error);
+      }
+    };
+
+    fetchPhases();
+  }, [dialogOpen, provider]);
+
+  const togglePhase = (phaseNumber: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      phases: prev.phases.includes(phaseNumber)
+        ? prev.phases.filter((n) => n !== phaseNumber)
+        : [...prev.phases, phaseNumber].sort((a, b) => a - b),
+    }));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      const response = await fetch("/api/schedules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...formData, accountId }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success("Schedule created", {
+          description: `Next run ${format(new Date(data.schedule.nextRunAt), "MMM d, h:mm a")}`,
+        });
+        setDialogOpen(false);
+        setFormData(emptyForm());
+        onChange();
+      } else {
+        toast.error("Failed to create schedule", { description: data.error });
+      }
+    } catch {
+      toast.error("Failed to create schedule");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleTogglePaused = async (schedule: AuditScheduleInfo) => {
+    const response = await fetch(`/api/schedules/${schedule.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ isPaused: !schedule.isPaused }),
+    });
+    if (response.ok) {
+      toast.success(schedule.isPaused ? "Schedule resumed" : "Schedule paused");
+      onChange();
+    } else {
+      const data = await response.json();
+      toast.error("Failed to update schedule", { description: data.error });
+    }
+  };
+
+  const handleDelete = async (schedule: AuditScheduleInfo) => {
+    const response = await fetch(`/api/schedules/${schedule.id}`, { method: "DELETE" });
+    if (response.ok) {
+      toast.success("Schedule removed");
+      onChange();
+    } else {
+      toast.error("Failed to remove schedule");
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs text-white/40 uppercase tracking-wider">Schedules</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          title="Add schedule"
+          onClick={() => setDialogOpen(true)}
+        >
+          <Plus className="w-3 h-3" />
+        </Button>
+      </div>
+
+      {schedules.length === 0 ? (
+        <p className="text-xs text-white/30">Audits run only when started by hand</p>
+      ) : (
+        <div className="space-y-1">
+          {schedules.map((schedule) => (
+            <div
+              key={schedule.id}
+              className="flex items-center gap-2 p-2 rounded-lg bg-white/5 text-xs"
+            >
+              <CalendarClock
+                className={cn("w-3 h-3 flex-shrink-0", schedule.isPaused ? "text-white/30" : "text-primary")}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-white/80 truncate" title={`${schedule.cron} (${schedule.timezone})`}>
+                  {schedule.name}
+                </p>
+                <p className="text-white/40">
+                  {schedule.isPaused || !schedule.nextRunAt
+                    ? "Paused"
+                    : `Next run ${formatDistanceToNow(new Date(schedule.nextRunAt), { addSuffix: true })}`}
+                </p>
+              </div>
+              {schedule.lastError && (
+                <span title={schedule.lastError}>
+                  <AlertTriangle className="w-3 h-3 text-yellow-400" />
+                </span>
+              )}
+              <Switch
+                checked={!schedule.isPaused}
+                onCheckedChange={() => handleTogglePaused(schedule)}
+                title={schedule.isPaused ? "Resume" : "Pause"}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-white/30 hover:text-red-400"
+                title="Remove schedule"
+                onClick={() => handleDelete(schedule)}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[480px] bg-[#1a0a2e] border-white/10">
+          <DialogHeader>
+            <DialogTitle className="text-white">New Audit Schedule</DialogTitle>
+            <DialogDescription className="text-white/50">
+              Run audits automatically on a cron schedule
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleCreate} className="space-y-4 mt-4">
+            <div className="space-y-2">
+              <Label className="text-white/70">Name</Label>
+              <Input
+                placeholder="Nightly full scan"
+                className="bg-white/5 border-white/10 text-white"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-white/70">Schedule</Label>
+              <Select
+                value={presets.some((p) => p.value === formData.cron) ? formData.cron : "custom"}
+                onValueChange={(v) => v !== "custom" && setFormData({ ...formData, cron: v })}
+              >
+                <SelectTrigger className="bg-white/5 border-white/10 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {presets.map((preset) => (
+                    <SelectItem key={preset.value} value={preset.value}>
+                      {preset.label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="custom">Custom</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="minute hour day month weekday"
+                className="bg-white/5 border-white/10 text-white font-mono"
+                value={formData.cron}
+                onChange={(e) => setFormData({ ...formData, cron: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-white/70">Timezone</Label>
+              <Input
+                placeholder="UTC"
+                className="bg-white/5 border-white/10 text-white"
+                value={formData.timezone}
+                onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+                required
+              />
+            </div>
+
+            {phases.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-white/70">Phases</Label>
+                <div className="max-h-40 overflow-y-auto space-y-1 pr-2">
+                  {phases.map((phase) => (
+                    <label
+                      key={phase.number}
+                      className="flex items-center gap-3 p-1.5 rounded hover:bg-white/5 cursor-pointer text-sm text-white/80"
+                    >
+                      <Checkbox
+                        checked={formData.phases.includes(phase.number)}
+                        onCheckedChange={() => togglePhase(phase.number)}
+                      />
+                      {phase.name}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-white/40">Every phase runs when none are selected.</p>
+              </div>
+            )}
+
+            <div className="flex gap-3 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1 bg-white/5 border-white/10"
+                onClick={() => setDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" className="flex-1 btn-gradient gap-2" disabled={submitting}>
+                {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                Create Schedule
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
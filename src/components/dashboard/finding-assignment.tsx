@@ -0,0 +1,209 @@
+"use client";
+
+import { useState } from "react";
+import { useSession } from "next-auth/react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CalendarClock, Loader2, UserRound } from "lucide-react";
+import { toast } from "sonner";
+import { format, formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+
+export interface FindingAssignmentInfo {
+  status: string;
+  dueAt: string | null;
+  assignee: {
+    id: string;
+    name: string | null;
+    email: string;
+  } | null;
+}
+
+interface FindingAssignmentProps {
+  findingId: string;
+  finding: FindingAssignmentInfo;
+  // Called with the new assignee and due date once saved
+  onAssigned?: (assignment: Pick<FindingAssignmentInfo, "assignee" | "dueAt">) => void;
+}
+
+type DueInfo = { status: string; dueAt?: string | null };
+
+export function isOverdue(finding: DueInfo) {
+  return finding.status === "open" && !!finding.dueAt && new Date(finding.dueAt) < new Date();
+}
+
+// Marks an open finding past its due date
+export function OverdueBadge({
+  finding,
+  className,
+}: {
+  finding: DueInfo;
+  className?: string;
+}) {
+  if (!isOverdue(finding)) return null;
+
+  const dueAt = new Date(finding.dueAt!);
+  return (
+    <span
+      className={cn(
+        "flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-medium bg-red-500/10 text-red-400",
+        className
+      )}
+      title={`Due ${format(dueAt, "PPpp")}`}
+    >
+      <CalendarClock className="w-3 h-3" />
+      Overdue
+    </span>
+  );
+}
+
+// Assignee and due date of a finding, editable in place
+export function FindingAssignment({ findingId, finding, onAssigned }: FindingAssignmentProps) {
+  const { data: session } = useSession();
+  const myEmail = session?.user?.email;
+  const [editing, setEditing] = useState(false);
+  const [assigneeEmail, setAssigneeEmail] = useState("");
+  const [dueDate, setDueDate] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const dueAt = finding.dueAt ? new Date(finding.dueAt) : null;
+
+  const startEditing = () => {
+    setAssigneeEmail(finding.assignee?.email ?? "");
+    setDueDate(dueAt ? format(dueAt, "yyyy-MM-dd") : "");
+    setEditing(true);
+  };
+
+  const save = async (changes: { assigneeEmail?: string; dueAt?: string | null }) => {
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/findings/${findingId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success("Assignment updated");
+        setEditing(false);
+        onAssigned?.({ assignee: data.finding.assignee, dueAt: data.finding.dueAt });
+      } else {
+        toast.error("Failed to update assignment", { description: data.error });
+      }
+    } catch {
+      toast.error("Failed to update assignment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const changes: { assigneeEmail?: string; dueAt?: string | null } = {};
+    if (assigneeEmail.trim() !== (finding.assignee?.email ?? "")) {
+      changes.assigneeEmail = assigneeEmail.trim();
+    }
+    if (dueDate !== (dueAt ? format(dueAt, "yyyy-MM-dd") : "")) {
+      // End of the chosen day in the user's timezone; empty restores the SLA
+      changes.dueAt = dueDate ? new Date(`${dueDate}T23:59:59`).toISOString() : null;
+    }
+    if (Object.keys(changes).length === 0) {
+      setEditing(false);
+      return;
+    }
+    save(changes);
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-semibold text-white flex items-center gap-2">
+        <UserRound className="w-4 h-4 text-white/40" />
+        Assignment
+        <OverdueBadge finding={finding} />
+      </h4>
+
+      {editing ? (
+        <form onSubmit={handleSubmit} className="space-y-3 bg-white/5 rounded-xl p-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label className="text-white/70">Assignee email</Label>
+              <Input
+                type="email"
+                placeholder="Unassigned"
+                className="bg-white/5 border-white/10 text-white"
+                value={assigneeEmail}
+                onChange={(e) => setAssigneeEmail(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-white/70">Due on</Label>
+              <Input
+                type="date"
+                className="bg-white/5 border-white/10 text-white"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-white/40">Clear the due date to restore the one set by the SLA policy.</p>
+          <div className="flex gap-3">
+            <Button
+              type="button"
+              variant="outline"
+              className="flex-1 bg-white/5 border-white/10"
+              onClick={() => setEditing(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" className="flex-1 btn-gradient gap-2" disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <div className="grid grid-cols-2 gap-3 bg-white/5 rounded-xl p-4">
+          <div>
+            <p className="text-xs text-white/40 uppercase">Assignee</p>
+            <p className="text-sm text-white/80 truncate" title={finding.assignee?.email}>
+              {finding.assignee ? finding.assignee.name || finding.assignee.email : "Unassigned"}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-white/40 uppercase">Due</p>
+            <p
+              className={cn("text-sm", isOverdue(finding) ? "text-red-400" : "text-white/80")}
+              title={dueAt ? format(dueAt, "PPpp") : undefined}
+            >
+              {dueAt ? formatDistanceToNow(dueAt, { addSuffix: true }) : "No due date"}
+            </p>
+          </div>
+          <div className="col-span-2 flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="bg-white/5 border-white/10 text-white/70"
+              onClick={startEditing}
+            >
+              Edit
+            </Button>
+            {myEmail && finding.assignee?.email !== myEmail && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="bg-white/5 border-white/10 text-white/70 gap-2"
+                onClick={() => save({ assigneeEmail: myEmail })}
+                disabled={saving}
+              >
+                {saving && <Loader2 className="w-3 h-3 animate-spin" />}
+                Assign to me
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
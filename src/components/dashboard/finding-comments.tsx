@@ -0,0 +1,368 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useSession } from "next-auth/react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { FileText, ImageIcon, Loader2, MessageSquare, Paperclip, Reply, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { format, formatDistanceToNow } from "date-fns";
+import { MENTION_PATTERN } from "@/lib/comments/mentions";
+import { cn } from "@/lib/utils";
+
+interface CommentUser {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface CommentAttachment {
+  id: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+}
+
+interface Comment {
+  id: string;
+  body: string;
+  deletedAt: string | null;
+  createdAt: string;
+  author: CommentUser | null;
+  mentions: CommentUser[];
+  attachments: CommentAttachment[];
+  replies?: Comment[];
+}
+
+interface FindingCommentsProps {
+  findingId: string;
+}
+
+// Same limits as the server, to fail early
+const MAX_ATTACHMENTS = 5;
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Comment text with @mentions of known users highlighted
+function CommentBody({ comment }: { comment: Comment }) {
+  const mentioned = new Set(comment.mentions.map((u) => u.email.toLowerCase()));
+  const parts = comment.body.split(new RegExp(MENTION_PATTERN.source, "g"));
+
+  return (
+    <p className="text-sm text-white/70 whitespace-pre-wrap break-words">
+      {/* Splitting on the pattern alternates text and captured email addresses */}
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <span
+            key={i}
+            className={mentioned.has(part.toLowerCase()) ? "text-primary font-medium" : undefined}
+          >
+            @{part}
+          </span>
+        ) : (
+          part
+        )
+      )}
+    </p>
+  );
+}
+
+function AttachmentLink({ attachment }: { attachment: CommentAttachment }) {
+  const Icon = attachment.contentType.startsWith("image/") ? ImageIcon : FileText;
+
+  return (
+    <a
+      href={`/api/attachments/${attachment.id}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-center gap-2 px-2 py-1 rounded-lg bg-white/5 border border-white/10 text-xs text-white/70 hover:text-white hover:bg-white/10 transition-colors max-w-full"
+    >
+      <Icon className="w-3.5 h-3.5 flex-shrink-0 text-white/40" />
+      <span className="truncate">{attachment.fileName}</span>
+      <span className="text-white/30 flex-shrink-0">{formatSize(attachment.size)}</span>
+    </a>
+  );
+}
+
+function CommentComposer({
+  findingId,
+  parentId,
+  placeholder,
+  onPosted,
+  onCancel,
+}: {
+  findingId: string;
+  parentId?: string;
+  placeholder: string;
+  onPosted: () => void;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [posting, setPosting] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const addFiles = (selected: FileList | null) => {
+    const added = Array.from(selected ?? []);
+    const tooLarge = added.find((file) => file.size > MAX_ATTACHMENT_BYTES);
+    if (tooLarge) {
+      toast.error(`${tooLarge.name} is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`);
+      return;
+    }
+    if (files.length + added.length > MAX_ATTACHMENTS) {
+      toast.error(`At most ${MAX_ATTACHMENTS} files can be attached to a comment`);
+      return;
+    }
+    setFiles([...files, ...added]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const form = new FormData();
+    form.set("body", body);
+    if (parentId) form.set("parentId", parentId);
+    files.forEach((file) => form.append("files", file));
+
+    try {
+      setPosting(true);
+      const response = await fetch(`/api/findings/${findingId}/comments`, {
+        method: "POST",
+        body: form,
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setBody("");
+        setFiles([]);
+        onPosted();
+      } else {
+        toast.error("Failed to post comment", { description: data.error });
+      }
+    } catch {
+      toast.error("Failed to post comment");
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        placeholder={placeholder}
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        className="bg-white/5 border-white/10 text-white min-h-[64px]"
+      />
+      {files.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {files.map((file, i) => (
+            <span
+              key={`${file.name}-${i}`}
+              className="flex items-center gap-1.5 px-2 py-1 rounded-lg bg-white/5 border border-white/10 text-xs text-white/70"
+            >
+              <Paperclip className="w-3 h-3 text-white/40" />
+              <span className="truncate max-w-[160px]">{file.name}</span>
+              <button
+                type="button"
+                className="text-white/40 hover:text-white"
+                onClick={() => setFiles(files.filter((_, j) => j !== i))}
+                title="Remove file"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center gap-2">
+        <input
+          ref={fileInput}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            addFiles(e.target.files);
+            e.target.value = "";
+          }}
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="text-white/50 hover:text-white hover:bg-white/10 gap-1.5"
+          onClick={() => fileInput.current?.click()}
+        >
+          <Paperclip className="w-4 h-4" />
+          Attach
+        </Button>
+        <div className="flex-1" />
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" className="text-white/50" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button
+          type="submit"
+          size="sm"
+          className="btn-gradient gap-2"
+          disabled={posting || (!body.trim() && files.length === 0)}
+        >
+          {posting && <Loader2 className="w-3 h-3 animate-spin" />}
+          {parentId ? "Reply" : "Comment"}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+// Discussion of a finding with @mentions and evidence files, shared by all
+// the audits that raised it
+export function FindingComments({ findingId }: FindingCommentsProps) {
+  const { data: session } = useSession();
+  // Comments with the finding they were loaded for, so a stale thread is not
+  // shown while another finding loads
+  const [loaded, setLoaded] = useState<{ findingId: string; comments: Comment[] } | null>(null);
+  const [version, setVersion] = useState(0);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchComments = async () => {
+      try {
+        const response = await fetch(`/api/findings/${findingId}/comments`);
+        if (response.ok) {
+          const data = await response.json();
+          if (!cancelled) setLoaded({ findingId, comments: data.comments || [] });
+        }
+      } catch (error) {
+        console.error("Failed to fetch comments:", error);
+      }
+    };
+
+    fetchComments();
+    return () => {
+      cancelled = true;
+    };
+  }, [findingId, version]);
+
+  const comments = loaded?.findingId === findingId ? loaded.comments : null;
+  const reload = () => setVersion((v) => v + 1);
+
+  const handleDelete = async (comment: Comment) => {
+    try {
+      const response = await fetch(`/api/comments/${comment.id}`, { method: "DELETE" });
+      if (response.ok) {
+        toast.success("Comment deleted");
+        reload();
+      } else {
+        const data = await response.json();
+        toast.error("Failed to delete comment", { description: data.error });
+      }
+    } catch {
+      toast.error("Failed to delete comment");
+    }
+  };
+
+  const renderComment = (comment: Comment, isReply: boolean) => {
+    const createdAt = new Date(comment.createdAt);
+    const isMine = !!session?.user?.email && comment.author?.email === session.user.email;
+
+    return (
+      <div key={comment.id} className={cn("space-y-2", isReply && "pl-4 border-l border-white/10")}>
+        <div className="flex items-center gap-2 text-xs">
+          <span className="text-white font-medium">
+            {comment.author ? comment.author.name || comment.author.email : "A deleted user"}
+          </span>
+          <span className="text-white/40" title={format(createdAt, "PPpp")}>
+            {formatDistanceToNow(createdAt, { addSuffix: true })}
+          </span>
+          <div className="flex-1" />
+          {!isReply && !comment.deletedAt && (
+            <button
+              className="flex items-center gap-1 text-white/40 hover:text-white"
+              onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+            >
+              <Reply className="w-3 h-3" />
+              Reply
+            </button>
+          )}
+          {isMine && !comment.deletedAt && (
+            <button
+              className="text-white/40 hover:text-red-400"
+              onClick={() => handleDelete(comment)}
+              title="Delete comment"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+        {comment.deletedAt ? (
+          <p className="text-sm text-white/30 italic">This comment was deleted</p>
+        ) : (
+          <>
+            {comment.body && <CommentBody comment={comment} />}
+            {comment.attachments.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {comment.attachments.map((attachment) => (
+                  <AttachmentLink key={attachment.id} attachment={attachment} />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-semibold text-white flex items-center gap-2">
+        <MessageSquare className="w-4 h-4 text-white/40" />
+        Comments
+        {comments && comments.length > 0 && (
+          <span className="text-xs text-white/40 font-normal">{comments.length}</span>
+        )}
+      </h4>
+
+      {comments === null ? (
+        <p className="text-sm text-white/40">Loading...</p>
+      ) : (
+        <div className="space-y-4">
+          {comments.map((comment) => (
+            <div key={comment.id} className="space-y-3 bg-white/5 rounded-xl p-4">
+              {renderComment(comment, false)}
+              {comment.replies?.map((reply) => renderComment(reply, true))}
+              {replyingTo === comment.id && (
+                <div className="pl-4 border-l border-white/10">
+                  <CommentComposer
+                    findingId={findingId}
+                    parentId={comment.id}
+                    placeholder="Reply to the thread"
+                    onPosted={() => {
+                      setReplyingTo(null);
+                      reload();
+                    }}
+                    onCancel={() => setReplyingTo(null)}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+
+          <CommentComposer
+            findingId={findingId}
+            placeholder="Discuss this finding. Mention teammates with @email and attach screenshots or CLI output."
+            onPosted={reload}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
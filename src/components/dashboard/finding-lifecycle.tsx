@@ -0,0 +1,64 @@
+"use client";
+
+import { format, formatDistanceToNow } from "date-fns";
+import { History, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface FindingLifecycleInfo {
+  firstSeenAt: string;
+  lastSeenAt: string;
+  occurrences: number;
+  regression: boolean;
+}
+
+// Marks a finding raised again after it was resolved
+export function RegressionBadge({ className }: { className?: string }) {
+  return (
+    <span
+      className={cn(
+        "flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-medium bg-purple-500/10 text-purple-400",
+        className
+      )}
+      title="Raised again after it was resolved"
+    >
+      <RotateCcw className="w-3 h-3" />
+      Regression
+    </span>
+  );
+}
+
+// When a finding was first and last raised and by how many audits
+export function FindingLifecycle({ finding }: { finding: FindingLifecycleInfo }) {
+  const firstSeen = new Date(finding.firstSeenAt);
+  const lastSeen = new Date(finding.lastSeenAt);
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-semibold text-white flex items-center gap-2">
+        <History className="w-4 h-4 text-white/40" />
+        History
+        {finding.regression && <RegressionBadge />}
+      </h4>
+      <div className="grid grid-cols-3 gap-3 bg-white/5 rounded-xl p-4">
+        <div>
+          <p className="text-xs text-white/40 uppercase">First seen</p>
+          <p className="text-sm text-white/80" title={format(firstSeen, "PPpp")}>
+            {formatDistanceToNow(firstSeen, { addSuffix: true })}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-white/40 uppercase">Last seen</p>
+          <p className="text-sm text-white/80" title={format(lastSeen, "PPpp")}>
+            {formatDistanceToNow(lastSeen, { addSuffix: true })}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-white/40 uppercase">Occurrences</p>
+          <p className="text-sm text-white/80">
+            {finding.occurrences} {finding.occurrences === 1 ? "audit" : "audits"}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import {
+  Activity,
+  CalendarClock,
+  CheckCircle,
+  EyeOff,
+  RotateCcw,
+  ShieldCheck,
+  ShieldQuestion,
+  ShieldX,
+  UserRound,
+  UserRoundPlus,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { FindingEventType } from "@/types";
+
+interface FindingEvent {
+  id: string;
+  type: FindingEventType;
+  fromStatus: string | null;
+  toStatus: string | null;
+  comment: string | null;
+  createdAt: string;
+  actor: {
+    name: string | null;
+    email: string;
+  } | null;
+  suppressionRule: {
+    id: string;
+    owner: string;
+  } | null;
+  assignee: {
+    name: string | null;
+    email: string;
+  } | null;
+  dueAt: string | null;
+}
+
+interface FindingTimelineProps {
+  findingId: string;
+  // Change to reload, e.g. after the status was changed
+  refreshKey?: number;
+}
+
+const eventConfig: Record<FindingEventType, { icon: typeof Activity; color: string; bg: string }> = {
+  status_changed: { icon: UserRound, color: "text-blue-400", bg: "bg-blue-500/10" },
+  auto_resolved: { icon: CheckCircle, color: "text-green-400", bg: "bg-green-500/10" },
+  regressed: { icon: RotateCcw, color: "text-purple-400", bg: "bg-purple-500/10" },
+  suppressed: { icon: EyeOff, color: "text-white/60", bg: "bg-white/10" },
+  unsuppressed: { icon: RotateCcw, color: "text-yellow-400", bg: "bg-yellow-500/10" },
+  acceptance_requested: { icon: ShieldQuestion, color: "text-blue-400", bg: "bg-blue-500/10" },
+  risk_accepted: { icon: ShieldCheck, color: "text-cyan-400", bg: "bg-cyan-500/10" },
+  acceptance_rejected: { icon: ShieldX, color: "text-red-400", bg: "bg-red-500/10" },
+  acceptance_expired: { icon: ShieldX, color: "text-yellow-400", bg: "bg-yellow-500/10" },
+  acceptance_revoked: { icon: ShieldX, color: "text-yellow-400", bg: "bg-yellow-500/10" },
+  assigned: { icon: UserRoundPlus, color: "text-blue-400", bg: "bg-blue-500/10" },
+  due_date_changed: { icon: CalendarClock, color: "text-blue-400", bg: "bg-blue-500/10" },
+};
+
+function statusLabel(status: string | null) {
+  return status ? status.replace("_", " ") : "unknown";
+}
+
+function describe(event: FindingEvent) {
+  const actor = (
+    <span className="text-white">{event.actor?.name || event.actor?.email || "A deleted user"}</span>
+  );
+
+  switch (event.type) {
+    case "auto_resolved":
+      return "Resolved by an audit that no longer detected it";
+    case "regressed":
+      return "Reopened by an audit that detected it again after it was resolved";
+    case "suppressed":
+      return event.suppressionRule
+        ? `Ignored by a suppression rule owned by ${event.suppressionRule.owner}`
+        : "Ignored by a suppression rule that was since deleted";
+    case "unsuppressed":
+      return "Reopened after its suppression rule stopped applying";
+    case "acceptance_requested":
+      return <>{actor} requested acceptance of the risk</>;
+    case "risk_accepted":
+      return <>{actor} approved acceptance of the risk</>;
+    case "acceptance_rejected":
+      return <>{actor} rejected acceptance of the risk</>;
+    case "acceptance_expired":
+      return "The risk acceptance expired";
+    case "acceptance_revoked":
+      return <>{actor} revoked acceptance of the risk</>;
+    case "assigned":
+      return event.assignee ? (
+        <>
+          {actor} assigned it to{" "}
+          <span className="text-white">{event.assignee.name || event.assignee.email}</span>
+        </>
+      ) : (
+        <>{actor} unassigned it</>
+      );
+    case "due_date_changed":
+      return (
+        <>
+          {actor} set the due date to{" "}
+          <span className="text-white">{event.dueAt ? format(new Date(event.dueAt), "PP") : "none"}</span>
+        </>
+      );
+    default:
+      return (
+        <>
+          {actor} changed the status from <span className="capitalize">{statusLabel(event.fromStatus)}</span> to{" "}
+          <span className="capitalize">{statusLabel(event.toStatus)}</span>
+        </>
+      );
+  }
+}
+
+// Status changes and assignments of a finding across all the audits that raised it
+export function FindingTimeline({ findingId, refreshKey = 0 }: FindingTimelineProps) {
+  const [events, setEvents] = useState<FindingEvent[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchEvents = async () => {
+      try {
+        const response = await fetch(`/api/findings/${findingId}/events`);
+        if (response.ok) {
+          const data = await response.json();
+          if (!cancelled) setEvents(data.events || []);
+        }
+      } catch (error) {
+        console.error("Failed to fetch finding history:", error);
+      }
+    };
+
+    fetchEvents();
+    return () => {
+      cancelled = true;
+    };
+  }, [findingId, refreshKey]);
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-semibold text-white flex items-center gap-2">
+        <Activity className="w-4 h-4 text-white/40" />
+        Activity
+      </h4>
+      {events === null ? (
+        <p className="text-sm text-white/40">Loading...</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-white/40">No status changes yet</p>
+      ) : (
+        <ol className="space-y-4">
+          {events.map((event, i) => {
+            const config = eventConfig[event.type] ?? eventConfig.status_changed;
+            const Icon = config.icon;
+            const createdAt = new Date(event.createdAt);
+
+            return (
+              <li key={event.id} className="relative flex gap-3">
+                {i < events.length - 1 && (
+                  <span className="absolute left-3.5 top-8 bottom-[-1rem] w-px bg-white/10" />
+                )}
+                <div className={cn("p-1.5 rounded-full h-fit", config.bg)}>
+                  <Icon className={cn("w-4 h-4", config.color)} />
+                </div>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="text-sm text-white/70">{describe(event)}</p>
+                  <p className="text-xs text-white/40" title={format(createdAt, "PPpp")}>
+                    {formatDistanceToNow(createdAt, { addSuffix: true })}
+                  </p>
+                  {event.comment && (
+                    <p className="text-sm text-white/60 bg-white/5 rounded-lg px-3 py-2 whitespace-pre-wrap">
+                      {event.comment}
+                    </p>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
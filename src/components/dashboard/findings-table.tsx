@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { GlassCard } from "./glass-card";
+import { OverdueBadge, isOverdue, type FindingAssignmentInfo } from "./finding-assignment";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -22,6 +23,7 @@ import {
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
+import { format, formatDistanceToNow } from "date-fns";
 
 interface Finding {
   id: string;
@@ -34,10 +36,15 @@ interface Finding {
   region?: string;
   recommendation?: string;
   status: string;
+  dueAt?: string | null;
+  assignee?: FindingAssignmentInfo["assignee"];
 }
 
 interface FindingsTableProps {
   findings?: Finding[];
+  title?: string;
+  // Marks a finding resolved from its expanded row
+  onResolve?: (finding: Finding) => void;
 }
 
 const severityOrder = { CRITICAL: 0, HIGH: 1, MEDIUM: 2, LOW: 3 };
@@ -49,7 +56,7 @@ const severityConfig = {
   LOW: { color: "text-green-400", bg: "bg-green-500/10", border: "border-green-500/20" },
 };
 
-export function FindingsTable({ findings = [] }: FindingsTableProps) {
+export function FindingsTable({ findings = [], title = "Security Findings", onResolve }: FindingsTableProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [severityFilter, setSeverityFilter] = useState("all");
   const [expandedFinding, setExpandedFinding] = useState<string | null>(null);
@@ -70,6 +77,7 @@ export function FindingsTable({ findings = [] }: FindingsTableProps) {
       const bOrder = severityOrder[b.severity as keyof typeof severityOrder] ?? 4;
       return aOrder - bOrder;
     });
+  const overdueCount = filteredFindings.filter(isOverdue).length;
 
   const copyToClipboard = (text: string, id: string) => {
     navigator.clipboard.writeText(text);
@@ -82,9 +90,10 @@ export function FindingsTable({ findings = [] }: FindingsTableProps) {
     <GlassCard className="p-6">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
         <div>
-          <h3 className="text-lg font-semibold text-white">Security Findings</h3>
+          <h3 className="text-lg font-semibold text-white">{title}</h3>
           <p className="text-sm text-white/40 mt-1">
             {filteredFindings.length} findings found
+            {overdueCount > 0 && <span className="text-red-400">, {overdueCount} overdue</span>}
           </p>
         </div>
         <div className="flex gap-3">
@@ -168,6 +177,8 @@ export function FindingsTable({ findings = [] }: FindingsTableProps) {
                     {finding.title}
                   </span>
 
+                  <OverdueBadge finding={finding} />
+
                   {/* Resource */}
                   <span className="text-xs text-white/40 font-mono truncate max-w-[200px] hidden lg:block">
                     {finding.resource}
@@ -200,6 +211,29 @@ export function FindingsTable({ findings = [] }: FindingsTableProps) {
                         </div>
                       </div>
 
+                      {/* Assignment */}
+                      {(finding.assignee || finding.dueAt) && (
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <label className="text-xs text-white/40 uppercase tracking-wide">Assignee</label>
+                            <p className="text-sm text-white/70 mt-1">
+                              {finding.assignee ? finding.assignee.name || finding.assignee.email : "Unassigned"}
+                            </p>
+                          </div>
+                          {finding.dueAt && (
+                            <div>
+                              <label className="text-xs text-white/40 uppercase tracking-wide">Due</label>
+                              <p
+                                className="text-sm text-white/70 mt-1"
+                                title={format(new Date(finding.dueAt), "PPpp")}
+                              >
+                                {formatDistanceToNow(new Date(finding.dueAt), { addSuffix: true })}
+                              </p>
+                            </div>
+                          )}
+                        </div>
+                      )}
+
                       {/* Region */}
                       {finding.region && (
                         <div>
@@ -228,7 +262,13 @@ export function FindingsTable({ findings = [] }: FindingsTableProps) {
 
                       {/* Actions */}
                       <div className="flex gap-2 pt-2">
-                        <Button variant="outline" size="sm" className="bg-white/5 border-white/10 text-white/70">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="bg-white/5 border-white/10 text-white/70"
+                          onClick={() => onResolve?.(finding)}
+                          disabled={finding.status === "resolved"}
+                        >
                           Mark as Resolved
                         </Button>
                         <Button variant="outline" size="sm" className="bg-white/5 border-white/10 text-white/70">
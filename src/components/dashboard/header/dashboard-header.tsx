@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useSession, signOut } from "next-auth/react";
 import { Button } from "@/components/ui/button";
 import {
@@ -22,8 +22,10 @@ import {
   LogOut,
   Menu,
   Loader2,
+  Layers,
 } from "lucide-react";
 import { LiveIndicator } from "@/components/dashboard/live-indicator";
+import { useAccountScope } from "@/components/providers/account-scope-provider";
 import { cn } from "@/lib/utils";
 import Link from "next/link";
 
@@ -32,40 +34,25 @@ interface DashboardHeaderProps {
   isSidebarCollapsed: boolean;
 }
 
-interface AwsAccount {
-  id: string;
-  name: string;
-  accountId: string;
-  lastScanAt: string | null;
-}
+const providerLabels = {
+  AWS: "AWS",
+  GCP: "GCP",
+  AZURE: "Azure",
+};
 
 export function DashboardHeader({ onMenuClick, isSidebarCollapsed }: DashboardHeaderProps) {
   const { data: session } = useSession();
-  const [accounts, setAccounts] = useState<AwsAccount[]>([]);
-  const [selectedAccount, setSelectedAccount] = useState<AwsAccount | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { accounts, selectedAccount, loading, selectAccount } = useAccountScope();
   const [notifications] = useState(3);
 
-  useEffect(() => {
-    const fetchAccounts = async () => {
-      try {
-        const response = await fetch("/api/accounts");
-        if (response.ok) {
-          const data = await response.json();
-          setAccounts(data.accounts || []);
-          if (data.accounts && data.accounts.length > 0) {
-            setSelectedAccount(data.accounts[0]);
-          }
-        }
-      } catch (error) {
-        console.error("Failed to fetch accounts:", error);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchAccounts();
-  }, []);
+  // With all accounts selected, the most recent scan of any of them
+  const lastScanAt = selectedAccount
+    ? selectedAccount.lastScanAt
+    : accounts
+        .map((a) => a.lastScanAt)
+        .filter((d): d is string => Boolean(d))
+        .sort()
+        .pop() ?? null;
 
   const userInitials = session?.user?.name
     ?.split(" ")
@@ -119,7 +106,7 @@ export function DashboardHeader({ onMenuClick, isSidebarCollapsed }: DashboardHe
                   <Cloud className="w-4 h-4 text-primary" />
                 )}
                 <span className="font-medium">
-                  {selectedAccount?.name || "No accounts"}
+                  {selectedAccount?.name || (accounts.length > 0 ? "All accounts" : "No accounts")}
                 </span>
                 {selectedAccount && (
                   <span className="text-xs text-white/40 hidden sm:inline">
@@ -130,29 +117,43 @@ export function DashboardHeader({ onMenuClick, isSidebarCollapsed }: DashboardHe
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="start" className="w-64">
-              <DropdownMenuLabel>AWS Accounts</DropdownMenuLabel>
+              <DropdownMenuLabel>Cloud Accounts</DropdownMenuLabel>
               <DropdownMenuSeparator />
               {accounts.length === 0 ? (
                 <DropdownMenuItem disabled className="text-white/40">
                   No accounts connected
                 </DropdownMenuItem>
               ) : (
-                accounts.map((account) => (
+                <>
                   <DropdownMenuItem
-                    key={account.id}
-                    onClick={() => setSelectedAccount(account)}
-                    className={cn(
-                      "cursor-pointer",
-                      selectedAccount?.id === account.id && "bg-primary/10"
-                    )}
+                    onClick={() => selectAccount(null)}
+                    className={cn("cursor-pointer", !selectedAccount && "bg-primary/10")}
                   >
-                    <Cloud className="w-4 h-4 mr-2 text-primary" />
+                    <Layers className="w-4 h-4 mr-2 text-primary" />
                     <div className="flex flex-col">
-                      <span className="font-medium">{account.name}</span>
-                      <span className="text-xs text-white/40">{account.accountId}</span>
+                      <span className="font-medium">All accounts</span>
+                      <span className="text-xs text-white/40">{accounts.length} connected</span>
                     </div>
                   </DropdownMenuItem>
-                ))
+                  {accounts.map((account) => (
+                    <DropdownMenuItem
+                      key={account.id}
+                      onClick={() => selectAccount(account.id)}
+                      className={cn(
+                        "cursor-pointer",
+                        selectedAccount?.id === account.id && "bg-primary/10"
+                      )}
+                    >
+                      <Cloud className="w-4 h-4 mr-2 text-primary" />
+                      <div className="flex flex-col">
+                        <span className="font-medium">{account.name}</span>
+                        <span className="text-xs text-white/40">
+                          {providerLabels[account.provider]} · {account.accountId}
+                        </span>
+                      </div>
+                    </DropdownMenuItem>
+                  ))}
+                </>
               )}
               <DropdownMenuSeparator />
               <Link href="/dashboard/accounts">
@@ -168,7 +169,7 @@ export function DashboardHeader({ onMenuClick, isSidebarCollapsed }: DashboardHe
           <div className="hidden md:flex items-center gap-2 px-3 py-1.5 rounded-full bg-white/5 border border-white/10">
             <LiveIndicator />
             <span className="text-xs text-white/50">
-              Last scan: {selectedAccount ? formatLastScan(selectedAccount.lastScanAt) : "Never"}
+              Last scan: {formatLastScan(lastScanAt)}
             </span>
           </div>
         </div>
@@ -18,5 +18,20 @@ export { StatsCard, SeverityStatsRow } from "./stats-card";
 export { ActivityFeed } from "./activity-feed";
 export { PhaseSummary } from "./phase-summary";
 export { SecurityScore } from "./security-score";
+export { SlaCompliance } from "./sla-compliance";
 export { QuickActions } from "./quick-actions";
 export { FindingsTable } from "./findings-table";
+export { NewAuditDialog } from "./new-audit-dialog";
+export { VerificationBadge } from "./verification-badge";
+export { AuditSchedules } from "./audit-schedules";
+export { AccountMembers } from "./account-members";
+export { PaginationControls } from "./pagination-controls";
+export { FindingLifecycle, RegressionBadge } from "./finding-lifecycle";
+export { FindingTimeline } from "./finding-timeline";
+export { FindingAssignment, OverdueBadge, isOverdue } from "./finding-assignment";
+export { FindingComments } from "./finding-comments";
+export { RiskAcceptanceRequest } from "./risk-acceptance-request";
+export type { AuditScheduleInfo } from "./audit-schedules";
+export type { AccountMemberInfo } from "./account-members";
+export type { FindingLifecycleInfo } from "./finding-lifecycle";
+export type { FindingAssignmentInfo } from "./finding-assignment";
@@ -13,6 +13,12 @@ import {
   Settings,
   LogOut,
   HelpCircle,
+  ListChecks,
+  Globe,
+  EyeOff,
+  ShieldCheck,
+  Ban,
+  UserRound,
 } from "lucide-react";
 
 interface MobileSidebarProps {
@@ -21,10 +27,16 @@ interface MobileSidebarProps {
 }
 
 const navItems = [
+  { title: "Overview", href: "/dashboard/overview", icon: Globe },
   { title: "Dashboard", href: "/dashboard", icon: LayoutDashboard },
   { title: "AWS Accounts", href: "/dashboard/accounts", icon: Cloud },
   { title: "Audits", href: "/dashboard/audits", icon: Shield },
+  { title: "My Findings", href: "/dashboard/my-findings", icon: UserRound },
   { title: "Reports", href: "/dashboard/reports", icon: FileText },
+  { title: "Risk Register", href: "/dashboard/risk-register", icon: ShieldCheck },
+  { title: "Suppressions", href: "/dashboard/suppressions", icon: EyeOff },
+  { title: "False Positives", href: "/dashboard/false-positives", icon: Ban },
+  { title: "Jobs", href: "/dashboard/jobs", icon: ListChecks },
   { title: "Settings", href: "/dashboard/settings", icon: Settings },
   { title: "Help", href: "/dashboard/help", icon: HelpCircle },
 ];
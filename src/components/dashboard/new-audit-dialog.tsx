@@ -0,0 +1,231 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Play } from "lucide-react";
+import { toast } from "sonner";
+import type { CloudProvider } from "@/types";
+
+interface AccountOption {
+  id: string;
+  provider: CloudProvider;
+  name: string;
+  accountId: string;
+}
+
+interface PhaseOption {
+  number: number;
+  name: string;
+  checks: Array<{ id: string; title: string }>;
+}
+
+interface NewAuditDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultAccountId?: string;
+}
+
+export function NewAuditDialog({ open, onOpenChange, defaultAccountId }: NewAuditDialogProps) {
+  const router = useRouter();
+  const [accounts, setAccounts] = useState<AccountOption[]>([]);
+  const [accountId, setAccountId] = useState(defaultAccountId || "");
+  const [phases, setPhases] = useState<PhaseOption[]>([]);
+  const [selectedPhases, setSelectedPhases] = useState<number[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const provider = accounts.find((a) => a.id === accountId)?.provider;
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchAccounts = async () => {
+      try {
+        const response = await fetch("/api/accounts");
+        if (response.ok) {
+          const data = await response.json();
+          const list: AccountOption[] = data.accounts || [];
+          setAccounts(list);
+          setAccountId((current) => current || list[0]?.id || "");
+        }
+      } catch (error) {
+        console.error("Failed to fetch accounts:", error);
+      }
+    };
+
+    fetchAccounts();
+  }, [open]);
+
+  // Each provider has its own phase catalog
+  useEffect(() => {
+    if (!open || !provider) return;
+
+    const fetchPhases = async () => {
+      try {
+        const response = await fetch(`/api/checks?provider=${provider}`);
+        if (response.ok) {
+          const data = await response.json();
+          const list: PhaseOption[] = data.phases || [];
+          setPhases(list);
+          setSelectedPhases(list.map((p) => p.number));
+        }
+      } catch (error) {
+        console.error("Failed to fetch checks:", error);
+      }
+    };
+
+    fetchPhases();
+  }, [open, provider]);
+
+  const allSelected = phases.length > 0 && selectedPhases.length === phases.length;
+  const selectedChecks = phases
+    .filter((p) => selectedPhases.includes(p.number))
+    .reduce((sum, p) => sum + p.checks.length, 0);
+
+  const togglePhase = (phaseNumber: number) => {
+    setSelectedPhases((prev) =>
+      prev.includes(phaseNumber)
+        ? prev.filter((n) => n !== phaseNumber)
+        : [...prev, phaseNumber].sort((a, b) => a - b)
+    );
+  };
+
+  const handleStart = async () => {
+    try {
+      setSubmitting(true);
+      const response = await fetch("/api/audits", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          accountId,
+          phases: allSelected ? undefined : selectedPhases,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success("Audit started", {
+          description: `Running ${selectedChecks} checks in ${selectedPhases.length} phases`,
+        });
+        onOpenChange(false);
+        router.push(`/dashboard/audits/${data.auditId}`);
+      } else {
+        toast.error("Failed to start audit", { description: data.error });
+      }
+    } catch {
+      toast.error("Failed to start audit");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] bg-[#1a0a2e] border-white/10">
+        <DialogHeader>
+          <DialogTitle className="text-white">New Security Audit</DialogTitle>
+          <DialogDescription className="text-white/50">
+            Choose a cloud account and the phases to run
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 mt-4">
+          {/* Account */}
+          <div className="space-y-2">
+            <Label className="text-white/70">Cloud Account</Label>
+            <Select value={accountId} onValueChange={setAccountId}>
+              <SelectTrigger className="bg-white/5 border-white/10 text-white">
+                <SelectValue placeholder="Select an account" />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name} ({account.provider} {account.accountId})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Phases */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-white/70">Phases</Label>
+              <button
+                type="button"
+                className="text-xs text-primary hover:underline"
+                onClick={() =>
+                  setSelectedPhases(allSelected ? [] : phases.map((p) => p.number))
+                }
+              >
+                {allSelected ? "Clear all" : "Select all"}
+              </button>
+            </div>
+            <div className="max-h-64 overflow-y-auto space-y-1 pr-2">
+              {phases.map((phase) => (
+                <label
+                  key={phase.number}
+                  className="flex items-center gap-3 p-2 rounded-lg hover:bg-white/5 cursor-pointer"
+                >
+                  <Checkbox
+                    checked={selectedPhases.includes(phase.number)}
+                    onCheckedChange={() => togglePhase(phase.number)}
+                  />
+                  <span className="text-xs text-white/40 font-mono">
+                    #{phase.number.toString().padStart(2, "0")}
+                  </span>
+                  <span className="text-sm text-white flex-1">{phase.name}</span>
+                  <span
+                    className="text-xs text-white/40"
+                    title={phase.checks.map((c) => `${c.id}: ${c.title}`).join("\n")}
+                  >
+                    {phase.checks.length} checks
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="flex-1 bg-white/5 border-white/10"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              className="flex-1 btn-gradient gap-2"
+              disabled={!accountId || selectedPhases.length === 0 || submitting}
+              onClick={handleStart}
+            >
+              {submitting ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Play className="w-4 h-4" />
+              )}
+              Start Audit
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
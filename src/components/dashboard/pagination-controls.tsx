@@ -0,0 +1,52 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import type { PaginatedResponse } from "@/types";
+
+interface PaginationControlsProps {
+  pagination: PaginatedResponse<unknown>["pagination"];
+  onPageChange: (page: number) => void;
+}
+
+export function PaginationControls({ pagination, onPageChange }: PaginationControlsProps) {
+  const { page, limit, total, totalPages } = pagination;
+
+  if (totalPages <= 1) return null;
+
+  const first = (page - 1) * limit + 1;
+  const last = Math.min(page * limit, total);
+
+  return (
+    <div className="flex items-center justify-between pt-2">
+      <p className="text-sm text-white/40">
+        Showing {first}–{last} of {total}
+      </p>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="bg-white/5 border-white/10 gap-1"
+          disabled={page <= 1}
+          onClick={() => onPageChange(page - 1)}
+        >
+          <ChevronLeft className="w-4 h-4" />
+          Previous
+        </Button>
+        <span className="text-sm text-white/50">
+          Page {page} of {totalPages}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          className="bg-white/5 border-white/10 gap-1"
+          disabled={page >= totalPages}
+          onClick={() => onPageChange(page + 1)}
+        >
+          Next
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
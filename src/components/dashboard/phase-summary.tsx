@@ -27,6 +27,11 @@ interface PhaseFromAPI {
   high: number;
   medium: number;
   low: number;
+  // Only reported by scanners that record per-check results
+  passedChecks?: number;
+  failedChecks?: number;
+  skippedChecks?: number;
+  erroredChecks?: number;
 }
 
 interface PhaseSummaryProps {
@@ -43,6 +48,7 @@ interface PhaseData {
   low: number;
   checksRun: number;
   totalChecks: number;
+  passedChecks?: number;
 }
 
 // Sample data fallback
@@ -82,17 +88,29 @@ export function PhaseSummary({ phases: apiPhases }: PhaseSummaryProps) {
 
   // Transform API phases to component format
   const phases: PhaseData[] = apiPhases && apiPhases.length > 0
-    ? apiPhases.map((p) => ({
-        id: p.phaseNumber,
-        name: p.name,
-        status: (p.status === "completed" ? "completed" : p.status === "running" ? "in_progress" : "pending") as "completed" | "in_progress" | "pending",
-        critical: p.critical,
-        high: p.high,
-        medium: p.medium,
-        low: p.low,
-        checksRun: p.findings,
-        totalChecks: p.findings || 10,
-      }))
+    ? apiPhases.map((p) => {
+        const base = {
+          id: p.phaseNumber,
+          name: p.name,
+          status: (p.status === "completed" ? "completed" : p.status === "running" ? "in_progress" : "pending") as "completed" | "in_progress" | "pending",
+          critical: p.critical,
+          high: p.high,
+          medium: p.medium,
+          low: p.low,
+        };
+
+        if (p.passedChecks === undefined) {
+          return { ...base, checksRun: p.findings, totalChecks: p.findings || 10 };
+        }
+
+        return {
+          ...base,
+          checksRun: p.passedChecks + (p.failedChecks ?? 0),
+          totalChecks:
+            p.passedChecks + (p.failedChecks ?? 0) + (p.skippedChecks ?? 0) + (p.erroredChecks ?? 0),
+          passedChecks: p.passedChecks,
+        };
+      })
     : samplePhases;
 
   const togglePhase = (id: number) => {
@@ -135,7 +153,10 @@ export function PhaseSummary({ phases: apiPhases }: PhaseSummaryProps) {
           const StatusIcon = config.icon;
           const isExpanded = expandedPhases.includes(phase.id);
           const totalFindings = phase.critical + phase.high + phase.medium + phase.low;
-          const progress = (phase.checksRun / phase.totalChecks) * 100;
+          // Pass rate of the evaluated checks when known, otherwise checks run
+          const progress = phase.passedChecks !== undefined
+            ? phase.checksRun > 0 ? (phase.passedChecks / phase.checksRun) * 100 : 0
+            : phase.totalChecks > 0 ? (phase.checksRun / phase.totalChecks) * 100 : 0;
 
           return (
             <div
@@ -178,7 +199,9 @@ export function PhaseSummary({ phases: apiPhases }: PhaseSummaryProps) {
                   {phase.status !== "pending" && (
                     <div className="flex items-center gap-4 mt-1">
                       <span className="text-xs text-white/40">
-                        {phase.checksRun}/{phase.totalChecks} checks
+                        {phase.passedChecks !== undefined
+                          ? `${phase.passedChecks}/${phase.checksRun} checks passed`
+                          : `${phase.checksRun}/${phase.totalChecks} checks`}
                       </span>
                       {totalFindings > 0 && (
                         <span className="text-xs text-white/40">
@@ -234,7 +257,7 @@ export function PhaseSummary({ phases: apiPhases }: PhaseSummaryProps) {
                   <div className="mt-4">
                     {/* Progress */}
                     <div className="flex items-center justify-between text-xs text-white/40 mb-2">
-                      <span>Progress</span>
+                      <span>{phase.passedChecks !== undefined ? "Pass rate" : "Progress"}</span>
                       <span>{Math.round(progress)}%</span>
                     </div>
                     <Progress value={progress} className="h-1.5 bg-white/10" />
@@ -17,7 +17,7 @@ const actions = [
     icon: Play,
     label: "Run Full Audit",
     description: "Start a comprehensive security scan",
-    href: "/dashboard/audits",
+    href: "/dashboard/audits?new=true",
     primary: true,
   },
   {
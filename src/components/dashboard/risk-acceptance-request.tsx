@@ -0,0 +1,169 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, ShieldQuestion } from "lucide-react";
+import { toast } from "sonner";
+import { addDays, format } from "date-fns";
+
+interface RiskAcceptanceRequestProps {
+  findingId: string;
+  disabled?: boolean;
+  // Called once the request was sent, e.g. to reload the finding's history
+  onRequested?: () => void;
+}
+
+const emptyForm = () => ({
+  approverEmail: "",
+  justification: "",
+  expiresAt: format(addDays(new Date(), 90), "yyyy-MM-dd"),
+  reviewAt: "",
+});
+
+// End of the chosen day in the user's timezone
+function endOfDayIso(date: string) {
+  return date ? new Date(`${date}T23:59:59`).toISOString() : null;
+}
+
+// Button asking a designated approver to accept the risk of a finding
+export function RiskAcceptanceRequest({ findingId, disabled, onRequested }: RiskAcceptanceRequestProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      const response = await fetch("/api/risk-acceptances", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          findingId,
+          approverEmail: formData.approverEmail,
+          justification: formData.justification,
+          expiresAt: endOfDayIso(formData.expiresAt),
+          reviewAt: endOfDayIso(formData.reviewAt),
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success("Risk acceptance requested", {
+          description: `Awaiting approval from ${formData.approverEmail}`,
+        });
+        setDialogOpen(false);
+        setFormData(emptyForm());
+        onRequested?.();
+      } else {
+        toast.error("Failed to request risk acceptance", { description: data.error });
+      }
+    } catch {
+      toast.error("Failed to request risk acceptance");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className="w-full bg-white/5 border-white/10 text-white/70"
+        onClick={() => setDialogOpen(true)}
+        disabled={disabled}
+      >
+        <ShieldQuestion className="w-4 h-4 mr-2" />
+        Request Risk Acceptance
+      </Button>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[480px] bg-[#1a0a2e] border-white/10">
+          <DialogHeader>
+            <DialogTitle className="text-white">Request Risk Acceptance</DialogTitle>
+            <DialogDescription className="text-white/50">
+              Once approved the finding is accepted and left out of the security score until the
+              acceptance expires
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+            <div className="space-y-2">
+              <Label className="text-white/70">Approver email</Label>
+              <Input
+                type="email"
+                placeholder="security-lead@example.com"
+                className="bg-white/5 border-white/10 text-white"
+                value={formData.approverEmail}
+                onChange={(e) => setFormData({ ...formData, approverEmail: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label className="text-white/70">Expires on</Label>
+                <Input
+                  type="date"
+                  className="bg-white/5 border-white/10 text-white"
+                  value={formData.expiresAt}
+                  onChange={(e) => setFormData({ ...formData, expiresAt: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white/70">Review on</Label>
+                <Input
+                  type="date"
+                  className="bg-white/5 border-white/10 text-white"
+                  value={formData.reviewAt}
+                  onChange={(e) => setFormData({ ...formData, reviewAt: e.target.value })}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-white/40">
+              Without a review date the approver is reminded two weeks before expiry.
+            </p>
+
+            <div className="space-y-2">
+              <Label className="text-white/70">Justification</Label>
+              <Textarea
+                placeholder="Why the risk is acceptable and what mitigates it"
+                className="bg-white/5 border-white/10 text-white"
+                value={formData.justification}
+                onChange={(e) => setFormData({ ...formData, justification: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="flex gap-3 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1 bg-white/5 border-white/10"
+                onClick={() => setDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" className="flex-1 btn-gradient gap-2" disabled={submitting}>
+                {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                Send Request
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
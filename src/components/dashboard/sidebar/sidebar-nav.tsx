@@ -16,6 +16,12 @@ import {
   LogOut,
   HelpCircle,
   Server,
+  ListChecks,
+  Globe,
+  EyeOff,
+  ShieldCheck,
+  Ban,
+  UserRound,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { signOut } from "next-auth/react";
@@ -134,11 +140,41 @@ const navSections: NavSection[] = [
 ];
 
 const bottomNavItems = [
+  {
+    title: "Overview",
+    href: "/dashboard/overview",
+    icon: Globe,
+  },
+  {
+    title: "My Findings",
+    href: "/dashboard/my-findings",
+    icon: UserRound,
+  },
   {
     title: "Reports",
     href: "/dashboard/reports",
     icon: FileText,
   },
+  {
+    title: "Risk Register",
+    href: "/dashboard/risk-register",
+    icon: ShieldCheck,
+  },
+  {
+    title: "Suppressions",
+    href: "/dashboard/suppressions",
+    icon: EyeOff,
+  },
+  {
+    title: "False Positives",
+    href: "/dashboard/false-positives",
+    icon: Ban,
+  },
+  {
+    title: "Jobs",
+    href: "/dashboard/jobs",
+    icon: ListChecks,
+  },
   {
     title: "Settings",
     href: "/dashboard/settings",
@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CalendarClock } from "lucide-react";
+import { GlassCard } from "./glass-card";
+import { cn } from "@/lib/utils";
+
+interface SlaBreakdown {
+  key: string;
+  label: string;
+  tracked: number;
+  breached: number;
+  overdue: number;
+  rate: number;
+}
+
+interface SlaComplianceData {
+  total: SlaBreakdown;
+  bySeverity: SlaBreakdown[];
+  byAccount: SlaBreakdown[];
+}
+
+interface SlaComplianceProps {
+  // Limit to one cloud account; all accounts when unset
+  accountId?: string | null;
+}
+
+const severityColors: Record<string, string> = {
+  CRITICAL: "bg-red-400",
+  HIGH: "bg-orange-400",
+  MEDIUM: "bg-yellow-400",
+  LOW: "bg-green-400",
+};
+
+function percent(rate: number) {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function BreachRow({ breakdown, color }: { breakdown: SlaBreakdown; color: string }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-white/70 truncate" title={breakdown.label}>
+          {breakdown.label}
+        </span>
+        <span className="text-white/50 flex-shrink-0 ml-2">
+          {breakdown.tracked === 0 ? "-" : `${percent(breakdown.rate)} of ${breakdown.tracked}`}
+        </span>
+      </div>
+      <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+        <div className={cn("h-full rounded-full", color)} style={{ width: percent(breakdown.rate) }} />
+      </div>
+    </div>
+  );
+}
+
+// Share of findings fixed late or still open past their SLA due date
+export function SlaCompliance({ accountId }: SlaComplianceProps) {
+  const [data, setData] = useState<SlaComplianceData | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchCompliance = async () => {
+      try {
+        const response = await fetch(accountId ? `/api/sla?accountId=${accountId}` : "/api/sla");
+        if (response.ok) {
+          const result = await response.json();
+          if (!cancelled) setData(result.compliance);
+        }
+      } catch (error) {
+        console.error("Failed to fetch SLA compliance:", error);
+      }
+    };
+
+    fetchCompliance();
+    return () => {
+      cancelled = true;
+    };
+  }, [accountId]);
+
+  return (
+    <GlassCard className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <CalendarClock className="w-5 h-5 text-primary" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-white">SLA Compliance</h3>
+            <p className="text-xs text-white/40">Breach rate of findings with a due date</p>
+          </div>
+        </div>
+        {data && data.total.overdue > 0 && (
+          <span className="text-xs px-2 py-1 rounded-full bg-red-500/10 text-red-400 font-medium">
+            {data.total.overdue} overdue
+          </span>
+        )}
+      </div>
+
+      {!data ? (
+        <p className="text-white/40 text-sm text-center py-4">Loading...</p>
+      ) : data.total.tracked === 0 ? (
+        <p className="text-white/40 text-sm text-center py-4">No findings with a due date yet</p>
+      ) : (
+        <div className="space-y-5">
+          <div className="flex items-baseline gap-2">
+            <span
+              className={cn(
+                "text-3xl font-bold",
+                data.total.rate > 0.2 ? "text-red-400" : data.total.rate > 0 ? "text-yellow-400" : "text-green-400"
+              )}
+            >
+              {percent(data.total.rate)}
+            </span>
+            <span className="text-sm text-white/50">
+              {data.total.breached} of {data.total.tracked} breached
+            </span>
+          </div>
+
+          <div className="space-y-3">
+            <p className="text-xs text-white/40 uppercase">By severity</p>
+            {data.bySeverity.map((breakdown) => (
+              <BreachRow
+                key={breakdown.key}
+                breakdown={breakdown}
+                color={severityColors[breakdown.key] ?? "bg-white/40"}
+              />
+            ))}
+          </div>
+
+          {data.byAccount.length > 1 && (
+            <div className="space-y-3">
+              <p className="text-xs text-white/40 uppercase">By account</p>
+              {data.byAccount.slice(0, 5).map((breakdown) => (
+                <BreachRow key={breakdown.key} breakdown={breakdown} color="bg-primary" />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </GlassCard>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { format } from "date-fns";
+import { ShieldAlert, ShieldCheck, ShieldQuestion } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { VerificationStatus } from "@/types";
+
+interface VerificationBadgeProps {
+  status: VerificationStatus;
+  verifiedAt: string | null;
+  error?: string | null;
+  className?: string;
+}
+
+const verificationConfig = {
+  verified: { label: "Verified", icon: ShieldCheck, color: "text-green-400", bg: "bg-green-500/10" },
+  failed: { label: "Verification failed", icon: ShieldAlert, color: "text-red-400", bg: "bg-red-500/10" },
+  unverified: { label: "Unverified", icon: ShieldQuestion, color: "text-white/40", bg: "bg-white/5" },
+};
+
+export function VerificationBadge({ status, verifiedAt, error, className }: VerificationBadgeProps) {
+  const config = verificationConfig[status] ?? verificationConfig.unverified;
+  const Icon = config.icon;
+  const lastVerified = verifiedAt ? format(new Date(verifiedAt), "MMM d, h:mm a") : null;
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-1.5 px-2 py-1 rounded-full text-xs font-medium",
+        config.bg,
+        config.color,
+        className
+      )}
+      title={[error, lastVerified && `Last verified ${lastVerified}`].filter(Boolean).join("\n")}
+    >
+      <Icon className="w-3 h-3" />
+      {config.label}
+      {status === "verified" && lastVerified && (
+        <span className="text-white/40 font-normal">{lastVerified}</span>
+      )}
+    </div>
+  );
+}
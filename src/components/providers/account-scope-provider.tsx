@@ -0,0 +1,101 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { toast } from "sonner";
+import type { CloudProvider } from "@/types";
+
+export interface ScopeAccount {
+  id: string;
+  provider: CloudProvider;
+  name: string;
+  accountId: string;
+  lastScanAt: string | null;
+}
+
+interface AccountScope {
+  accounts: ScopeAccount[];
+  // null when all accounts are selected
+  selectedAccount: ScopeAccount | null;
+  loading: boolean;
+  selectAccount: (accountId: string | null) => void;
+  // The selected account ID for pages of one provider: null when all
+  // accounts are selected or the selected account belongs to another cloud
+  scopedAccountId: (provider?: CloudProvider) => string | null;
+}
+
+const AccountScopeContext = createContext<AccountScope | null>(null);
+
+// Keeps the account the dashboard is scoped to, persisted in the user's settings
+export function AccountScopeProvider({ children }: { children: React.ReactNode }) {
+  const [accounts, setAccounts] = useState<ScopeAccount[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchScope = async () => {
+      try {
+        const [accountsResponse, settingsResponse] = await Promise.all([
+          fetch("/api/accounts?shared=true"),
+          fetch("/api/settings"),
+        ]);
+        if (accountsResponse.ok) {
+          const data = await accountsResponse.json();
+          setAccounts(data.accounts || []);
+        }
+        if (settingsResponse.ok) {
+          const data = await settingsResponse.json();
+          setSelectedId(data.settings?.selectedAccountId ?? null);
+        }
+      } catch (error) {
+        console.error("Failed to fetch account scope:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchScope();
+  }, []);
+
+  const selectedAccount = accounts.find((a) => a.id === selectedId) ?? null;
+
+  const selectAccount = useCallback((accountId: string | null) => {
+    setSelectedId(accountId);
+
+    fetch("/api/settings", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ selectedAccountId: accountId }),
+    })
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      })
+      .catch((error) => {
+        console.error("Failed to save selected account:", error);
+        toast.error("Failed to remember the selected account");
+      });
+  }, []);
+
+  const scopedAccountId = useCallback(
+    (provider?: CloudProvider) =>
+      selectedAccount && (!provider || selectedAccount.provider === provider)
+        ? selectedAccount.id
+        : null,
+    [selectedAccount]
+  );
+
+  return (
+    <AccountScopeContext.Provider
+      value={{ accounts, selectedAccount, loading, selectAccount, scopedAccountId }}
+    >
+      {children}
+    </AccountScopeContext.Provider>
+  );
+}
+
+export function useAccountScope(): AccountScope {
+  const scope = useContext(AccountScopeContext);
+  if (!scope) {
+    throw new Error("useAccountScope must be used within an AccountScopeProvider");
+  }
+  return scope;
+}
@@ -0,0 +1,8 @@
+// Runs once when the server starts. Cloud secrets can't be saved or read
+// without the master keys, so the server refuses to start without them.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { assertSecretsConfigured } = await import("@/lib/secrets");
+    assertSecretsConfigured();
+  }
+}
@@ -0,0 +1,8 @@
+export {
+  accountAccessWhere,
+  accountMemberSelect,
+  addAccountMember,
+  findAccountUsers,
+  removeAccountMember,
+  AccountMemberError,
+} from "./members";
@@ -0,0 +1,106 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+
+export class AccountMemberError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AccountMemberError";
+  }
+}
+
+export const accountMemberSelect = {
+  id: true,
+  name: true,
+  email: true,
+} satisfies Prisma.UserSelect;
+
+// Cloud accounts a user can see: those they own and those shared with them
+export function accountAccessWhere(userId: string): Prisma.CloudAccountWhereInput {
+  return { OR: [{ userId }, { members: { some: { id: userId } } }] };
+}
+
+/**
+ * The owner and members of a cloud account with one of the given email
+ * addresses, matched case-insensitively. Other users are left out whether or
+ * not they exist.
+ */
+export function findAccountUsers(accountId: string, emails: string[]) {
+  if (emails.length === 0) return Promise.resolve([]);
+  return prisma.user.findMany({
+    where: {
+      email: { in: emails, mode: "insensitive" },
+      OR: [
+        { cloudAccounts: { some: { id: accountId } } },
+        { sharedAccounts: { some: { id: accountId } } },
+      ],
+    },
+    select: accountMemberSelect,
+  });
+}
+
+/**
+ * Share a cloud account with a registered user by email address
+ */
+export async function addAccountMember(
+  account: { id: string; userId: string },
+  email: unknown
+) {
+  if (typeof email !== "string" || !email.trim()) {
+    throw new AccountMemberError("An email address is required");
+  }
+
+  const user = await prisma.user.findFirst({
+    where: { email: { equals: email.trim(), mode: "insensitive" } },
+    select: { id: true },
+  });
+  if (!user) {
+    throw new AccountMemberError("Members need to sign in once before an account can be shared with them");
+  }
+  if (user.id === account.userId) {
+    throw new AccountMemberError("The owner already has access to the account");
+  }
+
+  await prisma.cloudAccount.update({
+    where: { id: account.id },
+    data: { members: { connect: { id: user.id } } },
+  });
+  return prisma.user.findUniqueOrThrow({ where: { id: user.id }, select: accountMemberSelect });
+}
+
+/**
+ * Stop sharing a cloud account with a member. The findings of the account
+ * assigned to them are unassigned, since they can no longer see them.
+ */
+export async function removeAccountMember(
+  account: { id: string },
+  memberId: string,
+  actorId: string
+) {
+  const assigned = await prisma.finding.findMany({
+    where: { assigneeId: memberId, audit: { accountId: account.id } },
+    select: { id: true, fingerprint: true, latest: true },
+  });
+
+  await prisma.$transaction([
+    prisma.cloudAccount.update({
+      where: { id: account.id },
+      data: { members: { disconnect: { id: memberId } } },
+    }),
+    prisma.finding.updateMany({
+      where: { id: { in: assigned.map((f) => f.id) } },
+      data: { assigneeId: null },
+    }),
+    prisma.findingEvent.createMany({
+      data: assigned
+        .filter((f) => f.latest)
+        .map((f) => ({
+          type: "assigned",
+          assigneeId: null,
+          fingerprint: f.fingerprint,
+          accountId: account.id,
+          findingId: f.id,
+          actorId,
+        })),
+    }),
+  ]);
+}
@@ -0,0 +1,151 @@
+import type { Audit, Phase } from "@prisma/client";
+import { accountAccessWhere } from "@/lib/accounts";
+import { prisma } from "@/lib/db";
+import { sleep, type SseEvent } from "./sse";
+
+// The worker runs in another process, so changes are picked up by polling
+// the audit rows on the server and pushed to the browser as they appear
+const AUDIT_POLL_MS = 1000;
+const LIST_POLL_MS = 2000;
+
+// Changes shortly before a list stream connects are sent again, so none
+// made between the page's fetch and the connection are lost
+const LIST_OVERLAP_MS = 10_000;
+
+const FINISHED_STATUSES = ["completed", "failed"];
+
+const findingSelect = {
+  id: true,
+  findingId: true,
+  severity: true,
+  title: true,
+  description: true,
+  resource: true,
+  resourceArn: true,
+  resourcePath: true,
+  resourceId: true,
+  region: true,
+  recommendation: true,
+  status: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Audit totals plus how many of its phases have finished
+ */
+export function auditSummary<T extends Audit>(audit: T, phases: Pick<Phase, "status">[]) {
+  return {
+    ...audit,
+    progress: {
+      finished: phases.filter((p) => p.status !== "pending" && p.status !== "running").length,
+      total: phases.length,
+    },
+  };
+}
+
+/**
+ * Events for one audit: "audit" with its totals whenever they change,
+ * "phase" on each phase transition, "findings" with findings created after
+ * `since`, and "done" once the audit and all its phases have finished
+ */
+export async function* streamAuditEvents(
+  auditId: string,
+  since: Date | null,
+  signal: AbortSignal
+): AsyncGenerator<SseEvent> {
+  let auditVersion = 0;
+  const phaseVersions = new Map<string, number>();
+  let findingsCursor = since ?? new Date(0);
+
+  while (!signal.aborted) {
+    const audit = await prisma.audit.findUnique({
+      where: { id: auditId },
+      include: {
+        phases: {
+          orderBy: { phaseNumber: "asc" },
+          include: {
+            checkResults: {
+              orderBy: [{ checkId: "asc" }, { region: "asc" }],
+            },
+          },
+        },
+      },
+    });
+    if (!audit) return;
+
+    const { phases, ...totals } = audit;
+
+    if (totals.updatedAt.getTime() !== auditVersion) {
+      auditVersion = totals.updatedAt.getTime();
+      yield { event: "audit", data: auditSummary(totals, phases) };
+    }
+
+    for (const phase of phases) {
+      if (phaseVersions.get(phase.id) !== phase.updatedAt.getTime()) {
+        phaseVersions.set(phase.id, phase.updatedAt.getTime());
+        yield { event: "phase", data: phase };
+      }
+    }
+
+    // Findings of a phase share one transaction timestamp
+    const findings = await prisma.finding.findMany({
+      where: { auditId, createdAt: { gt: findingsCursor } },
+      orderBy: { createdAt: "asc" },
+      select: findingSelect,
+    });
+    if (findings.length > 0) {
+      findingsCursor = findings[findings.length - 1].createdAt;
+      yield { event: "findings", data: findings };
+    }
+
+    // A cancelled audit finishes before the phase in progress does
+    if (
+      FINISHED_STATUSES.includes(audit.status) &&
+      !phases.some((p) => p.status === "running")
+    ) {
+      yield { event: "done", data: { status: audit.status } };
+      return;
+    }
+
+    await sleep(AUDIT_POLL_MS, signal);
+  }
+}
+
+/**
+ * "audit" events for every audit of the user's accounts that changes, or
+ * whose phases change, while the stream is open, including new audits
+ */
+export async function* streamAuditListEvents(
+  userId: string,
+  signal: AbortSignal
+): AsyncGenerator<SseEvent> {
+  let cursor = new Date(Date.now() - LIST_OVERLAP_MS);
+
+  while (!signal.aborted) {
+    const audits = await prisma.audit.findMany({
+      where: {
+        account: accountAccessWhere(userId),
+        OR: [
+          { updatedAt: { gt: cursor } },
+          { phases: { some: { updatedAt: { gt: cursor } } } },
+        ],
+      },
+      orderBy: { updatedAt: "asc" },
+      include: {
+        account: { select: { name: true, accountId: true } },
+        phases: { select: { status: true, updatedAt: true } },
+      },
+    });
+
+    let latest = cursor;
+    for (const { phases, ...audit } of audits) {
+      for (const changedAt of [audit.updatedAt, ...phases.map((p) => p.updatedAt)]) {
+        if (changedAt > latest) latest = changedAt;
+      }
+      yield { event: "audit", data: auditSummary(audit, phases) };
+    }
+    cursor = latest;
+
+    await sleep(LIST_POLL_MS, signal);
+  }
+}
@@ -0,0 +1,3 @@
+export { sseResponse, sleep } from "./sse";
+export type { SseEvent } from "./sse";
+export { streamAuditEvents, streamAuditListEvents, auditSummary } from "./events";
@@ -0,0 +1,72 @@
+export interface SseEvent {
+  event: string;
+  data: unknown;
+}
+
+// Comment lines keep proxies from closing idle connections
+const HEARTBEAT_MS = 15_000;
+
+/**
+ * Resolve after ms, or straight away once the signal aborts. The abort
+ * listener is removed when the timer fires, so polling loops don't pile
+ * listeners up on a long-lived request.
+ */
+export function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) return resolve();
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Send the events of an async iterable as a text/event-stream response.
+ * Iteration stops when the client disconnects and aborts the request.
+ */
+export function sseResponse(events: AsyncIterable<SseEvent>, signal: AbortSignal): Response {
+  const encoder = new TextEncoder();
+
+  // Set once the client went away; the controller can't be used after that
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => {
+        if (!signal.aborted && !closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const heartbeat = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_MS);
+
+      try {
+        for await (const { event, data } of events) {
+          send(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        }
+      } catch (error) {
+        // The browser reconnects on its own once the stream closes
+        if (!signal.aborted) console.error("Event stream error:", error);
+      } finally {
+        clearInterval(heartbeat);
+        if (!signal.aborted && !closed) controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
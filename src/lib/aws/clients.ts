@@ -0,0 +1,47 @@
+import { EC2Client, type EC2ClientConfig } from "@aws-sdk/client-ec2";
+import { IAMClient } from "@aws-sdk/client-iam";
+import { S3Client } from "@aws-sdk/client-s3";
+import { STSClient } from "@aws-sdk/client-sts";
+import { awsCredentialProvider, type AwsCredentialSource } from "./credentials";
+import { getEndpointOverride } from "./endpoint";
+
+export interface AwsClients {
+  ec2: EC2Client;
+  iam: IAMClient;
+  s3: S3Client;
+  sts: STSClient;
+}
+
+interface ClientOptions {
+  region: string;
+  credentials?: EC2ClientConfig["credentials"];
+}
+
+function createAwsClients({ region, credentials }: ClientOptions): AwsClients {
+  const endpoint = getEndpointOverride();
+  const config = {
+    region,
+    credentials,
+    ...(endpoint && { endpoint }),
+  };
+
+  return {
+    ec2: new EC2Client(config),
+    iam: new IAMClient(config),
+    // Local stand-ins don't resolve virtual-hosted bucket names. Buckets
+    // outside the client's region are reached by following S3's redirects.
+    s3: new S3Client({ ...config, forcePathStyle: Boolean(endpoint), followRegionRedirects: true }),
+    sts: new STSClient(config),
+  };
+}
+
+/**
+ * Create clients for an AWS account, authenticated through the credential
+ * layer. All calls against customer accounts should use these clients.
+ */
+export function createAwsClientsForAccount(
+  account: AwsCredentialSource,
+  region = account.region
+): AwsClients {
+  return createAwsClients({ region, credentials: awsCredentialProvider(account) });
+}
@@ -0,0 +1,133 @@
+import { randomUUID } from "crypto";
+import { AssumeRoleCommand, STSClient } from "@aws-sdk/client-sts";
+import type { CloudAccount } from "@prisma/client";
+import { decryptSecret } from "@/lib/secrets";
+import { getEndpointOverride } from "./endpoint";
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  expiration?: Date;
+}
+
+export type AwsAuthMethod = "role" | "keys";
+
+export type AwsCredentialSource = Pick<
+  CloudAccount,
+  "id" | "authMethod" | "roleArn" | "externalId" | "accessKeyId" | "secretAccessKey" | "region"
+>;
+
+export class AwsCredentialError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AwsCredentialError";
+  }
+}
+
+const SESSION_NAME = "cloudguard-audit";
+const SESSION_DURATION_SECONDS = 3600;
+
+// Refresh cached sessions this long before they expire
+const EXPIRY_MARGIN_MS = 5 * 60_000;
+
+const sessionCache = new Map<string, AwsCredentials>();
+
+/**
+ * External ID for a new role-based account. It is generated here, stored
+ * with the account and never taken from the user, so that registering
+ * someone else's role ARN does not let the platform assume it.
+ */
+export function generateExternalId(): string {
+  return randomUUID();
+}
+
+function cacheKey(account: AwsCredentialSource): string {
+  return `${account.id}:${account.roleArn}:${account.externalId}`;
+}
+
+async function assumeRole(account: AwsCredentialSource, useCache: boolean): Promise<AwsCredentials> {
+  const key = cacheKey(account);
+  const cached = useCache ? sessionCache.get(key) : undefined;
+  if (cached?.expiration && cached.expiration.getTime() - EXPIRY_MARGIN_MS > Date.now()) {
+    return cached;
+  }
+
+  // The platform's own credentials (environment or instance role) are used
+  // to assume the customer's role
+  const endpoint = getEndpointOverride();
+  const sts = new STSClient({ region: account.region, ...(endpoint && { endpoint }) });
+
+  const { Credentials } = await sts.send(
+    new AssumeRoleCommand({
+      RoleArn: account.roleArn!,
+      RoleSessionName: SESSION_NAME,
+      DurationSeconds: SESSION_DURATION_SECONDS,
+      ExternalId: account.externalId!,
+    })
+  );
+
+  if (!Credentials?.AccessKeyId || !Credentials.SecretAccessKey) {
+    throw new AwsCredentialError(`AssumeRole returned no credentials for ${account.roleArn}`);
+  }
+
+  const credentials: AwsCredentials = {
+    accessKeyId: Credentials.AccessKeyId,
+    secretAccessKey: Credentials.SecretAccessKey,
+    sessionToken: Credentials.SessionToken,
+    expiration: Credentials.Expiration,
+  };
+  if (useCache) sessionCache.set(key, credentials);
+  return credentials;
+}
+
+/**
+ * Resolve credentials for an AWS account. Cross-account AssumeRole with the
+ * account's external ID is the default; long-lived access keys are only used
+ * when the account is explicitly configured with the "keys" auth method.
+ * Pass `useCache: false` to always assume the role afresh.
+ */
+export async function resolveAwsCredentials(
+  account: AwsCredentialSource,
+  { useCache = true }: { useCache?: boolean } = {}
+): Promise<AwsCredentials> {
+  if (account.authMethod === "keys") {
+    if (!account.accessKeyId || !account.secretAccessKey) {
+      throw new AwsCredentialError("Account is configured for access keys but none are stored");
+    }
+    return {
+      accessKeyId: account.accessKeyId,
+      secretAccessKey: decryptSecret(account.secretAccessKey),
+    };
+  }
+
+  if (!account.roleArn) {
+    throw new AwsCredentialError("Account has no role ARN configured");
+  }
+  if (!account.externalId) {
+    throw new AwsCredentialError("Account has no external ID; re-verify it to generate one");
+  }
+
+  return assumeRole(account, useCache);
+}
+
+/**
+ * Credential provider for AWS SDK clients. The SDK calls it again when the
+ * session nears expiry, which is served from the cache until then.
+ */
+export function awsCredentialProvider(account: AwsCredentialSource) {
+  return () => resolveAwsCredentials(account);
+}
+
+/**
+ * Drop cached sessions, e.g. after an account's role or external ID changes
+ */
+export function clearAwsCredentialCache(accountId?: string): void {
+  if (!accountId) {
+    sessionCache.clear();
+    return;
+  }
+  for (const key of sessionCache.keys()) {
+    if (key.startsWith(`${accountId}:`)) sessionCache.delete(key);
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Endpoint override used to point the scanner at a local AWS API
+ * stand-in such as LocalStack or moto (e.g. http://localhost:4566)
+ */
+export function getEndpointOverride(): string | undefined {
+  return process.env.AWS_ENDPOINT_URL || undefined;
+}
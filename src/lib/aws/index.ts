@@ -0,0 +1,13 @@
+export { createAwsClientsForAccount } from "./clients";
+export { getEndpointOverride } from "./endpoint";
+export type { AwsClients } from "./clients";
+export {
+  resolveAwsCredentials,
+  awsCredentialProvider,
+  clearAwsCredentialCache,
+  generateExternalId,
+  AwsCredentialError,
+} from "./credentials";
+export type { AwsCredentials, AwsCredentialSource, AwsAuthMethod } from "./credentials";
+export { verifyAwsAccount } from "./verify";
+export { isAwsRegion, parseRegionList, listEnabledRegions } from "./regions";
@@ -0,0 +1,30 @@
+import { DescribeRegionsCommand } from "@aws-sdk/client-ec2";
+import type { AwsClients } from "./clients";
+
+// e.g. us-east-1, eu-central-2, us-gov-west-1
+const REGION_PATTERN = /^[a-z]{2}(-gov)?-[a-z]+-\d+$/;
+
+export function isAwsRegion(value: unknown): value is string {
+  return typeof value === "string" && REGION_PATTERN.test(value);
+}
+
+/**
+ * Validate a region list from a request body. Returns the sorted, de-duplicated
+ * regions, or null when the value is not a list of region names.
+ */
+export function parseRegionList(value: unknown): string[] | null {
+  if (!Array.isArray(value) || !value.every(isAwsRegion)) return null;
+  return [...new Set(value)].sort();
+}
+
+/**
+ * Regions enabled for the account. Opt-in regions the account has not
+ * enabled are left out, since every call to them would fail.
+ */
+export async function listEnabledRegions(clients: AwsClients): Promise<string[]> {
+  const { Regions } = await clients.ec2.send(new DescribeRegionsCommand({ AllRegions: false }));
+  return (Regions ?? [])
+    .map((r) => r.RegionName)
+    .filter((name): name is string => Boolean(name))
+    .sort();
+}
@@ -0,0 +1,35 @@
+import { GetCallerIdentityCommand, STSClient } from "@aws-sdk/client-sts";
+import { verificationErrorMessage, type CredentialVerification } from "@/lib/verification";
+import { resolveAwsCredentials, type AwsCredentialSource } from "./credentials";
+import { getEndpointOverride } from "./endpoint";
+
+/**
+ * Check that an account's credentials work and belong to the AWS account ID
+ * the user entered, using STS GetCallerIdentity.
+ */
+export async function verifyAwsAccount(
+  account: AwsCredentialSource & { accountId: string }
+): Promise<CredentialVerification> {
+  try {
+    const credentials = await resolveAwsCredentials(account, { useCache: false });
+    const endpoint = getEndpointOverride();
+    const sts = new STSClient({
+      region: account.region,
+      credentials,
+      ...(endpoint && { endpoint }),
+    });
+
+    const identity = await sts.send(new GetCallerIdentityCommand({}));
+
+    if (identity.Account !== account.accountId) {
+      return {
+        verified: false,
+        error: `Credentials belong to AWS account ${identity.Account}, not ${account.accountId}`,
+      };
+    }
+
+    return { verified: true };
+  } catch (error) {
+    return { verified: false, error: verificationErrorMessage(error) };
+  }
+}
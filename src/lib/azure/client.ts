@@ -0,0 +1,73 @@
+import { getAzureAccessToken, type AzureCredentialSource } from "./credentials";
+import { azureArmUrl } from "./endpoint";
+
+export class AzureApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    // ARM error code, e.g. "AuthorizationFailed"
+    public code?: string
+  ) {
+    super(message);
+    this.name = "AzureApiError";
+  }
+}
+
+export interface AzureClient {
+  subscriptionId: string;
+  // GET an ARM path (or a full nextLink URL) at the given api-version
+  get<T>(path: string, apiVersion: string): Promise<T>;
+  // Follow nextLink and collect `value` from every page
+  list<T>(path: string, apiVersion: string): Promise<T[]>;
+}
+
+async function azureError(response: Response): Promise<AzureApiError> {
+  const data = await response.json().catch(() => ({}));
+  return new AzureApiError(
+    data.error?.message || `${response.status} ${response.statusText}`,
+    response.status,
+    data.error?.code
+  );
+}
+
+/**
+ * Azure Resource Manager client for a subscription, signed in as its
+ * stored service principal
+ */
+export function createAzureClient(
+  // accountId is the ID of the cloud account, tokens are cached per account
+  subscription: AzureCredentialSource & { accountId: string; subscriptionId: string }
+): AzureClient {
+  const fetchJson = async <T>(url: string): Promise<T> => {
+    const accessToken = await getAzureAccessToken(subscription, {
+      accountId: subscription.accountId,
+    });
+    const response = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
+    if (!response.ok) {
+      throw await azureError(response);
+    }
+    return response.json() as Promise<T>;
+  };
+
+  const get = <T>(path: string, apiVersion: string): Promise<T> => {
+    const url = new URL(path.startsWith("http") ? path : `${azureArmUrl()}${path}`);
+    url.searchParams.set("api-version", apiVersion);
+    return fetchJson<T>(url.toString());
+  };
+
+  return {
+    subscriptionId: subscription.subscriptionId,
+    get,
+    async list<T>(path: string, apiVersion: string) {
+      const items: T[] = [];
+      let page = await get<{ value?: T[]; nextLink?: string }>(path, apiVersion);
+      items.push(...(page.value ?? []));
+      // nextLink already carries the api-version and continuation token
+      while (page.nextLink) {
+        page = await fetchJson<{ value?: T[]; nextLink?: string }>(page.nextLink);
+        items.push(...(page.value ?? []));
+      }
+      return items;
+    },
+  };
+}
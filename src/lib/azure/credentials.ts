@@ -0,0 +1,85 @@
+import { createHash } from "crypto";
+import type { CloudAccount } from "@prisma/client";
+import { decryptSecret } from "@/lib/secrets";
+import { azureLoginUrl } from "./endpoint";
+
+export type AzureCredentialSource = Pick<CloudAccount, "tenantId" | "clientId" | "clientSecret">;
+
+export class AzureCredentialError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AzureCredentialError";
+  }
+}
+
+const ARM_SCOPE = "https://management.azure.com/.default";
+
+// Refresh cached tokens this long before they expire
+const EXPIRY_MARGIN_MS = 5 * 60_000;
+
+const tokenCache = new Map<string, { accessToken: string; expiresAt: number }>();
+
+/**
+ * Whether a subscription has a complete service principal configured
+ */
+export function hasAzureCredentials(source: AzureCredentialSource): boolean {
+  return Boolean(source.tenantId && source.clientId && source.clientSecret);
+}
+
+// Tokens are cached per cloud account and service principal, including its
+// secret, so credentials that only share the tenant and client IDs never
+// reuse another principal's token
+function cacheKey(accountId: string, source: AzureCredentialSource, clientSecret: string): string {
+  const secretHash = createHash("sha256").update(clientSecret).digest("hex");
+  return `${accountId}:${source.tenantId}:${source.clientId}:${secretHash}`;
+}
+
+/**
+ * Get an Azure Resource Manager access token for a service principal (with
+ * its stored, encrypted client secret) using the client credentials grant.
+ * With the ID of the cloud account it belongs to, the token is cached until
+ * shortly before it expires; without it a fresh token is always requested.
+ */
+export async function getAzureAccessToken(
+  source: AzureCredentialSource,
+  { accountId }: { accountId?: string } = {}
+): Promise<string> {
+  if (!hasAzureCredentials(source)) {
+    throw new AzureCredentialError("Tenant ID, client ID and client secret are required");
+  }
+
+  const clientSecret = decryptSecret(source.clientSecret!);
+  const key = accountId ? cacheKey(accountId, source, clientSecret) : undefined;
+  const cached = key ? tokenCache.get(key) : undefined;
+  if (cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+    return cached.accessToken;
+  }
+
+  const response = await fetch(
+    `${azureLoginUrl()}/${encodeURIComponent(source.tenantId!)}/oauth2/v2.0/token`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "client_credentials",
+        client_id: source.clientId!,
+        client_secret: clientSecret,
+        scope: ARM_SCOPE,
+      }),
+    }
+  );
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || !data.access_token) {
+    throw new AzureCredentialError(
+      `Token request failed: ${data.error_description || data.error || response.statusText}`
+    );
+  }
+
+  const token = {
+    accessToken: data.access_token as string,
+    expiresAt: Date.now() + (data.expires_in ?? 3600) * 1000,
+  };
+  if (key) tokenCache.set(key, token);
+  return token.accessToken;
+}
@@ -0,0 +1,19 @@
+const ARM_URL = "https://management.azure.com";
+const LOGIN_URL = "https://login.microsoftonline.com";
+
+/**
+ * Endpoint override used to point the scanner at a local Azure Resource
+ * Manager stand-in (e.g. http://localhost:4590). The stand-in also serves
+ * the token endpoint, so sign-in goes there too.
+ */
+export function getAzureEndpointOverride(): string | undefined {
+  return process.env.AZURE_ENDPOINT_URL?.replace(/\/$/, "") || undefined;
+}
+
+export function azureArmUrl(): string {
+  return getAzureEndpointOverride() ?? ARM_URL;
+}
+
+export function azureLoginUrl(): string {
+  return getAzureEndpointOverride() ?? LOGIN_URL;
+}
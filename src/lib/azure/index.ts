@@ -0,0 +1,6 @@
+export { getAzureAccessToken, hasAzureCredentials, AzureCredentialError } from "./credentials";
+export type { AzureCredentialSource } from "./credentials";
+export { createAzureClient, AzureApiError } from "./client";
+export type { AzureClient } from "./client";
+export { getAzureEndpointOverride, azureArmUrl, azureLoginUrl } from "./endpoint";
+export { verifyAzureSubscription } from "./verify";
@@ -0,0 +1,50 @@
+import { verificationErrorMessage, type CredentialVerification } from "@/lib/verification";
+import { getAzureAccessToken, type AzureCredentialSource } from "./credentials";
+import { azureArmUrl } from "./endpoint";
+
+const SUBSCRIPTIONS_API_VERSION = "2022-12-01";
+
+/**
+ * Check that a service principal can authenticate and read the subscription
+ * the user entered, and that the subscription lives in the given tenant.
+ */
+export async function verifyAzureSubscription(
+  subscription: AzureCredentialSource & { subscriptionId: string }
+): Promise<CredentialVerification> {
+  try {
+    const accessToken = await getAzureAccessToken(subscription);
+    const response = await fetch(
+      `${azureArmUrl()}/subscriptions/${encodeURIComponent(subscription.subscriptionId)}?api-version=${SUBSCRIPTIONS_API_VERSION}`,
+      { headers: { Authorization: `Bearer ${accessToken}` } }
+    );
+
+    if (response.status === 403 || response.status === 404) {
+      return {
+        verified: false,
+        error: `Service principal cannot access subscription ${subscription.subscriptionId}`,
+      };
+    }
+    if (!response.ok) {
+      return { verified: false, error: `Azure Resource Manager returned ${response.status}` };
+    }
+
+    const data: { subscriptionId?: string; tenantId?: string } = await response.json();
+
+    if (data.subscriptionId?.toLowerCase() !== subscription.subscriptionId.toLowerCase()) {
+      return {
+        verified: false,
+        error: `Credentials resolved subscription ${data.subscriptionId}, not ${subscription.subscriptionId}`,
+      };
+    }
+    if (data.tenantId?.toLowerCase() !== subscription.tenantId?.toLowerCase()) {
+      return {
+        verified: false,
+        error: `Subscription belongs to tenant ${data.tenantId}, not ${subscription.tenantId}`,
+      };
+    }
+
+    return { verified: true };
+  } catch (error) {
+    return { verified: false, error: verificationErrorMessage(error) };
+  }
+}
@@ -0,0 +1,227 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import type { FindingAttachment, FindingComment, Prisma } from "@prisma/client";
+import { accountAccessWhere, findAccountUsers } from "@/lib/accounts";
+import { prisma } from "@/lib/db";
+import { parseMentions } from "./mentions";
+import { getAttachmentStore } from "./storage";
+
+export class CommentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommentError";
+  }
+}
+
+export const MAX_COMMENT_LENGTH = 10_000;
+export const MAX_ATTACHMENTS = 5;
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Largest comment request body: every attachment at its limit, plus room
+// for the comment text and the multipart part headers
+export const MAX_COMMENT_REQUEST_BYTES = MAX_ATTACHMENTS * MAX_ATTACHMENT_BYTES + 1024 * 1024;
+
+const userSelect = { id: true, name: true, email: true } satisfies Prisma.UserSelect;
+
+const attachmentSelect = {
+  id: true,
+  fileName: true,
+  contentType: true,
+  size: true,
+  createdAt: true,
+} satisfies Prisma.FindingAttachmentSelect;
+
+const commentFields = {
+  author: { select: userSelect },
+  mentions: { select: userSelect },
+  attachments: { select: attachmentSelect, orderBy: { createdAt: "asc" } },
+} satisfies Prisma.FindingCommentInclude;
+
+export const commentInclude = {
+  ...commentFields,
+  replies: { include: commentFields, orderBy: { createdAt: "asc" } },
+} satisfies Prisma.FindingCommentInclude;
+
+interface CommentThread {
+  accountId: string;
+  fingerprint: string;
+}
+
+/**
+ * The comments on a finding across all its occurrences, oldest first, each
+ * with its replies
+ */
+export function listComments(thread: CommentThread) {
+  return prisma.findingComment.findMany({
+    where: { ...thread, parentId: null },
+    orderBy: { createdAt: "asc" },
+    include: commentInclude,
+  });
+}
+
+// A file name safe to send back in a Content-Disposition header
+function cleanFileName(name: string) {
+  const base = [...path.basename(name)]
+    .filter((char) => char >= " " && char !== '"' && char !== "\\")
+    .join("")
+    .trim();
+  return base.slice(0, 200) || "attachment";
+}
+
+function validateFiles(files: File[]) {
+  if (files.length > MAX_ATTACHMENTS) {
+    throw new CommentError(`At most ${MAX_ATTACHMENTS} files can be attached to a comment`);
+  }
+  const tooLarge = files.find((file) => file.size > MAX_ATTACHMENT_BYTES);
+  if (tooLarge) {
+    throw new CommentError(
+      `${tooLarge.name} is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`
+    );
+  }
+}
+
+/**
+ * Post a comment or a reply on a finding, with attachments. Replies to a
+ * reply join the thread of the comment it answers. Users with access to the
+ * finding's account mentioned by email address are linked to the comment.
+ */
+export async function createComment(input: {
+  finding: { id: string; fingerprint: string; accountId: string };
+  authorId: string;
+  body: unknown;
+  parentId?: string | null;
+  files?: File[];
+}) {
+  const body = typeof input.body === "string" ? input.body.trim() : "";
+  const files = input.files ?? [];
+  if (!body && files.length === 0) {
+    throw new CommentError("A comment needs text or an attachment");
+  }
+  if (body.length > MAX_COMMENT_LENGTH) {
+    throw new CommentError(`Comments are limited to ${MAX_COMMENT_LENGTH} characters`);
+  }
+  validateFiles(files);
+
+  const { accountId, fingerprint } = input.finding;
+
+  let parentId: string | null = null;
+  if (input.parentId) {
+    const parent = await prisma.findingComment.findFirst({
+      where: { id: input.parentId, accountId, fingerprint },
+      select: { id: true, parentId: true },
+    });
+    if (!parent) {
+      throw new CommentError("The comment replied to does not exist");
+    }
+    parentId = parent.parentId ?? parent.id;
+  }
+
+  // Only users who can see the finding are mentioned; other addresses are
+  // left as text whether or not they belong to a user
+  const mentioned = (await findAccountUsers(accountId, parseMentions(body)))
+    .filter((user) => user.id !== input.authorId)
+    .map((user) => ({ id: user.id }));
+
+  // Files are stored first and removed again if the comment is not saved
+  const store = getAttachmentStore();
+  const stored: Prisma.FindingAttachmentCreateWithoutCommentInput[] = [];
+  try {
+    for (const file of files) {
+      const storageKey = `${accountId}/${randomUUID()}`;
+      const contentType = file.type || "application/octet-stream";
+      await store.put(storageKey, Buffer.from(await file.arrayBuffer()), contentType);
+      stored.push({ fileName: cleanFileName(file.name), contentType, size: file.size, storageKey });
+    }
+
+    return await prisma.findingComment.create({
+      data: {
+        body,
+        fingerprint,
+        accountId,
+        findingId: input.finding.id,
+        authorId: input.authorId,
+        parentId,
+        mentions: { connect: mentioned },
+        attachments: { create: stored },
+      },
+      include: commentInclude,
+    });
+  } catch (error) {
+    await removeStoredFiles(stored);
+    throw error;
+  }
+}
+
+async function removeStoredFiles(attachments: Pick<FindingAttachment, "storageKey">[]) {
+  const store = getAttachmentStore();
+  await Promise.all(
+    attachments.map((a) =>
+      store.delete(a.storageKey).catch((error) => {
+        console.error(`Failed to remove attachment ${a.storageKey}:`, error);
+      })
+    )
+  );
+}
+
+/**
+ * Delete a comment of its author with its attachments. A comment with
+ * replies is blanked instead, so the thread still reads in order.
+ */
+export async function deleteComment(comment: FindingComment, userId: string) {
+  if (comment.authorId !== userId) {
+    throw new CommentError("Only the author can delete a comment");
+  }
+  if (comment.deletedAt) {
+    throw new CommentError("The comment is already deleted");
+  }
+
+  const [attachments, replies] = await Promise.all([
+    prisma.findingAttachment.findMany({
+      where: { commentId: comment.id },
+      select: { storageKey: true },
+    }),
+    prisma.findingComment.count({ where: { parentId: comment.id } }),
+  ]);
+
+  if (replies > 0) {
+    await prisma.$transaction([
+      prisma.findingAttachment.deleteMany({ where: { commentId: comment.id } }),
+      prisma.findingComment.update({
+        where: { id: comment.id },
+        data: { body: "", deletedAt: new Date(), mentions: { set: [] } },
+      }),
+    ]);
+  } else {
+    await prisma.findingComment.delete({ where: { id: comment.id } });
+  }
+  await removeStoredFiles(attachments);
+}
+
+// The content of an attachment from the attachment store
+export function readAttachment(attachment: Pick<FindingAttachment, "storageKey">) {
+  return getAttachmentStore().get(attachment.storageKey);
+}
+
+/**
+ * Recent comments mentioning a user on accounts they can still see, newest
+ * first, with the finding they were posted on
+ */
+export function listMentions(userId: string, take = 20) {
+  return prisma.findingComment.findMany({
+    where: {
+      mentions: { some: { id: userId } },
+      deletedAt: null,
+      account: accountAccessWhere(userId),
+    },
+    orderBy: { createdAt: "desc" },
+    take,
+    select: {
+      id: true,
+      body: true,
+      createdAt: true,
+      author: { select: userSelect },
+      finding: { select: { id: true, title: true, severity: true, provider: true } },
+      account: { select: { name: true } },
+    },
+  });
+}
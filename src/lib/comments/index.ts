@@ -0,0 +1,16 @@
+export {
+  listComments,
+  createComment,
+  deleteComment,
+  readAttachment,
+  listMentions,
+  commentInclude,
+  CommentError,
+  MAX_COMMENT_LENGTH,
+  MAX_ATTACHMENTS,
+  MAX_ATTACHMENT_BYTES,
+  MAX_COMMENT_REQUEST_BYTES,
+} from "./comments";
+export { parseMentions, MENTION_PATTERN } from "./mentions";
+export { getAttachmentStore, AttachmentStoreError } from "./storage";
+export type { AttachmentStore } from "./storage";
@@ -0,0 +1,8 @@
+// Users are mentioned by email address, e.g. "@alice@example.com please check"
+export const MENTION_PATTERN = /@([A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+
+// The distinct email addresses mentioned in a comment, lowercased
+export function parseMentions(body: string): string[] {
+  const emails = [...body.matchAll(MENTION_PATTERN)].map((match) => match[1].toLowerCase());
+  return [...new Set(emails)];
+}
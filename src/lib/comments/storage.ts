@@ -0,0 +1,95 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+
+export class AttachmentStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentStoreError";
+  }
+}
+
+// Where attachment files are kept, by key
+export interface AttachmentStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+function createLocalStore(dir: string): AttachmentStore {
+  const fileOf = (key: string) => path.join(dir, ...key.split("/"));
+
+  return {
+    async put(key, data) {
+      const file = fileOf(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+    },
+    get: (key) => readFile(fileOf(key)),
+    delete: (key) => rm(fileOf(key), { force: true }),
+  };
+}
+
+function createS3Store(bucket: string): AttachmentStore {
+  const endpoint = process.env.ATTACHMENT_S3_ENDPOINT || undefined;
+  const accessKeyId = process.env.ATTACHMENT_S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.ATTACHMENT_S3_SECRET_ACCESS_KEY;
+
+  const client = new S3Client({
+    region: process.env.ATTACHMENT_S3_REGION || "us-east-1",
+    // Without keys the default AWS credential chain is used
+    ...(accessKeyId && secretAccessKey && { credentials: { accessKeyId, secretAccessKey } }),
+    // S3-compatible stores such as MinIO don't resolve virtual-hosted bucket names
+    ...(endpoint && { endpoint, forcePathStyle: true }),
+  });
+
+  return {
+    async put(key, data, contentType) {
+      await client.send(
+        new PutObjectCommand({ Bucket: bucket, Key: key, Body: data, ContentType: contentType })
+      );
+    },
+    async get(key) {
+      const response = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+      if (!response.Body) {
+        throw new AttachmentStoreError(`Attachment ${key} is empty`);
+      }
+      return Buffer.from(await response.Body.transformToByteArray());
+    },
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+  };
+}
+
+let store: AttachmentStore | null = null;
+
+/**
+ * The attachment store configured by ATTACHMENT_STORAGE: "local" (default)
+ * keeps files under ATTACHMENT_DIR, "s3" in ATTACHMENT_S3_BUCKET of AWS S3 or
+ * of the S3-compatible store at ATTACHMENT_S3_ENDPOINT.
+ */
+export function getAttachmentStore(): AttachmentStore {
+  if (store) return store;
+
+  const kind = process.env.ATTACHMENT_STORAGE || "local";
+  if (kind === "local") {
+    store = createLocalStore(
+      process.env.ATTACHMENT_DIR || path.join(process.cwd(), "data", "attachments")
+    );
+  } else if (kind === "s3") {
+    const bucket = process.env.ATTACHMENT_S3_BUCKET;
+    if (!bucket) {
+      throw new AttachmentStoreError("ATTACHMENT_S3_BUCKET is not configured");
+    }
+    store = createS3Store(bucket);
+  } else {
+    throw new AttachmentStoreError(`Unknown ATTACHMENT_STORAGE "${kind}", expected local or s3`);
+  }
+  return store;
+}
@@ -0,0 +1,87 @@
+import type { Prisma } from "@prisma/client";
+import { accountAccessWhere, findAccountUsers } from "@/lib/accounts";
+import { loadSlaPolicy, slaDueDate } from "@/lib/sla";
+
+export class FindingAssignmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FindingAssignmentError";
+  }
+}
+
+export const findingAssigneeSelect = {
+  id: true,
+  name: true,
+  email: true,
+} satisfies Prisma.UserSelect;
+
+// Findings a user may see and triage: those of the cloud accounts they own
+// or that are shared with them
+export function findingAccessWhere(userId: string): Prisma.FindingWhereInput {
+  return { audit: { account: accountAccessWhere(userId) } };
+}
+
+// Only users who can see the finding's account can be assigned. The error is
+// the same whether or not a user with the email address exists.
+async function resolveAssignee(accountId: string, email: unknown): Promise<string | null> {
+  if (email === null || email === "") return null;
+  if (typeof email !== "string") {
+    throw new FindingAssignmentError("Invalid assignee");
+  }
+
+  const [assignee] = await findAccountUsers(accountId, [email.trim()]);
+  if (!assignee) {
+    throw new FindingAssignmentError("The assignee must have access to the finding's account");
+  }
+  return assignee.id;
+}
+
+function parseDueDate(value: unknown): Date {
+  const date = typeof value === "string" ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new FindingAssignmentError("Invalid due date");
+  }
+  return date;
+}
+
+/**
+ * Check an assignment of a finding to a user by email address, or its
+ * unassignment with an empty one, and a move of its due date, and return
+ * the update and history entries that record them without writing them. An
+ * empty due date restores the one set by the SLA policy. Later occurrences
+ * of the finding keep both.
+ */
+export async function planAssignment(
+  finding: {
+    severity: string;
+    assigneeId: string | null;
+    dueAt: Date | null;
+    firstSeenAt: Date;
+    audit: { accountId: string; account: { userId: string } };
+  },
+  input: { assigneeEmail?: unknown; dueAt?: unknown }
+) {
+  const data: Prisma.FindingUncheckedUpdateInput = {};
+  const events: { type: string; assigneeId?: string | null; dueAt?: Date }[] = [];
+
+  if (input.assigneeEmail !== undefined) {
+    const assigneeId = await resolveAssignee(finding.audit.accountId, input.assigneeEmail);
+    if (assigneeId !== finding.assigneeId) {
+      data.assigneeId = assigneeId;
+      events.push({ type: "assigned", assigneeId });
+    }
+  }
+
+  if (input.dueAt !== undefined) {
+    const dueAt =
+      input.dueAt === null || input.dueAt === ""
+        ? slaDueDate(await loadSlaPolicy(finding.audit.account.userId), finding.severity, finding.firstSeenAt)
+        : parseDueDate(input.dueAt);
+    if (dueAt.getTime() !== finding.dueAt?.getTime()) {
+      data.dueAt = dueAt;
+      events.push({ type: "due_date_changed", dueAt });
+    }
+  }
+
+  return { data, events };
+}
@@ -0,0 +1,206 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { loadEvaluatedChecks } from "@/lib/scanner";
+
+export class AuditDiffError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuditDiffError";
+  }
+}
+
+const SEVERITY_RANK: Record<string, number> = { CRITICAL: 0, HIGH: 1, MEDIUM: 2, LOW: 3 };
+
+const diffFindingSelect = {
+  id: true,
+  fingerprint: true,
+  findingId: true,
+  severity: true,
+  title: true,
+  resource: true,
+  region: true,
+  status: true,
+  regression: true,
+  phase: { select: { phaseNumber: true } },
+} satisfies Prisma.FindingSelect;
+
+const diffAuditInclude = {
+  account: { select: { name: true, accountId: true } },
+  phases: { orderBy: { phaseNumber: "asc" } },
+  findings: { select: diffFindingSelect },
+} satisfies Prisma.AuditInclude;
+
+type DiffAudit = Prisma.AuditGetPayload<{ include: typeof diffAuditInclude }>;
+type DiffFinding = Omit<DiffAudit["findings"][number], "phase"> & { phaseNumber: number | null };
+
+export interface SeverityChange extends DiffFinding {
+  previousSeverity: string;
+}
+
+// Counters compared per phase and for the whole audit
+const DELTA_FIELDS = [
+  "findings",
+  "critical",
+  "high",
+  "medium",
+  "low",
+  "passedChecks",
+  "failedChecks",
+] as const;
+type DeltaCounts = Record<(typeof DELTA_FIELDS)[number], number>;
+
+export interface PhaseDelta {
+  phaseNumber: number;
+  name: string;
+  status: string | null;
+  baselineStatus: string | null;
+  current: DeltaCounts;
+  baseline: DeltaCounts;
+  delta: DeltaCounts;
+}
+
+function pickCounts(source: Partial<DeltaCounts> | undefined): DeltaCounts {
+  return Object.fromEntries(DELTA_FIELDS.map((f) => [f, source?.[f] ?? 0])) as DeltaCounts;
+}
+
+function subtractCounts(a: DeltaCounts, b: DeltaCounts): DeltaCounts {
+  return Object.fromEntries(DELTA_FIELDS.map((f) => [f, a[f] - b[f]])) as DeltaCounts;
+}
+
+function bySeverity(a: { severity: string }, b: { severity: string }) {
+  return (SEVERITY_RANK[a.severity] ?? 4) - (SEVERITY_RANK[b.severity] ?? 4);
+}
+
+function summarise(audit: DiffAudit) {
+  return {
+    id: audit.id,
+    accountId: audit.accountId,
+    provider: audit.provider,
+    status: audit.status,
+    account: audit.account,
+    riskScore: audit.riskScore,
+    complianceScore: audit.complianceScore,
+    totalFindings: audit.totalFindings,
+    critical: audit.critical,
+    high: audit.high,
+    medium: audit.medium,
+    low: audit.low,
+    startedAt: audit.startedAt,
+    completedAt: audit.completedAt,
+  };
+}
+
+function flatten({ phase, ...finding }: DiffAudit["findings"][number]): DiffFinding {
+  return { ...finding, phaseNumber: phase?.phaseNumber ?? null };
+}
+
+/**
+ * The latest completed audit of the same account that started before the
+ * given one, the default baseline to compare it with
+ */
+export async function findPreviousAudit(audit: { id: string; accountId: string; createdAt: Date }) {
+  return prisma.audit.findFirst({
+    where: {
+      accountId: audit.accountId,
+      id: { not: audit.id },
+      status: "completed",
+      createdAt: { lt: audit.createdAt },
+    },
+    orderBy: { createdAt: "desc" },
+    select: { id: true },
+  });
+}
+
+/**
+ * Compare an audit with an earlier baseline audit of the same account.
+ * Findings are matched by fingerprint: new ones were only raised by the
+ * audit, fixed ones only by the baseline, and persisting ones by both, with
+ * those whose severity changed listed apart. Baseline findings whose check
+ * did not run in the audit are unchecked rather than fixed.
+ */
+export async function diffAudits(auditId: string, baselineId: string) {
+  if (auditId === baselineId) {
+    throw new AuditDiffError("An audit cannot be compared with itself");
+  }
+
+  const [audit, baseline] = await Promise.all([
+    prisma.audit.findUniqueOrThrow({ where: { id: auditId }, include: diffAuditInclude }),
+    prisma.audit.findUniqueOrThrow({ where: { id: baselineId }, include: diffAuditInclude }),
+  ]);
+
+  if (audit.accountId !== baseline.accountId) {
+    throw new AuditDiffError("Only audits of the same account can be compared");
+  }
+
+  const wasEvaluated = await loadEvaluatedChecks(auditId);
+  const current = audit.findings.map(flatten).sort(bySeverity);
+  const previous = baseline.findings.map(flatten).sort(bySeverity);
+  const previousByFingerprint = new Map(previous.map((f) => [f.fingerprint, f]));
+  const currentFingerprints = new Set(current.map((f) => f.fingerprint));
+
+  const added: DiffFinding[] = [];
+  const persisting: DiffFinding[] = [];
+  const severityChanged: SeverityChange[] = [];
+  for (const finding of current) {
+    const before = previousByFingerprint.get(finding.fingerprint);
+    if (!before) {
+      added.push(finding);
+    } else if (before.severity !== finding.severity) {
+      severityChanged.push({ ...finding, previousSeverity: before.severity });
+    } else {
+      persisting.push(finding);
+    }
+  }
+
+  const gone = previous.filter((f) => !currentFingerprints.has(f.fingerprint));
+  const fixed = gone.filter(wasEvaluated);
+  const unchecked = gone.filter((f) => !wasEvaluated(f));
+
+  const phaseNumbers = [
+    ...new Set([...audit.phases, ...baseline.phases].map((p) => p.phaseNumber)),
+  ].sort((a, b) => a - b);
+  const phases: PhaseDelta[] = phaseNumbers.map((phaseNumber) => {
+    const now = audit.phases.find((p) => p.phaseNumber === phaseNumber);
+    const before = baseline.phases.find((p) => p.phaseNumber === phaseNumber);
+    const currentCounts = pickCounts(now);
+    const baselineCounts = pickCounts(before);
+
+    return {
+      phaseNumber,
+      name: (now ?? before)!.name,
+      status: now?.status ?? null,
+      baselineStatus: before?.status ?? null,
+      current: currentCounts,
+      baseline: baselineCounts,
+      delta: subtractCounts(currentCounts, baselineCounts),
+    };
+  });
+
+  return {
+    audit: summarise(audit),
+    baseline: summarise(baseline),
+    summary: {
+      new: added.length,
+      fixed: fixed.length,
+      persisting: persisting.length,
+      severityChanged: severityChanged.length,
+      unchecked: unchecked.length,
+      riskScore:
+        audit.riskScore !== null && baseline.riskScore !== null
+          ? audit.riskScore - baseline.riskScore
+          : null,
+      complianceScore:
+        audit.complianceScore !== null && baseline.complianceScore !== null
+          ? audit.complianceScore - baseline.complianceScore
+          : null,
+      counts: subtractCounts(
+        pickCounts({ ...audit, findings: audit.totalFindings }),
+        pickCounts({ ...baseline, findings: baseline.totalFindings })
+      ),
+    },
+    findings: { new: added, fixed, persisting, severityChanged, unchecked },
+    phases,
+  };
+}
+
+export type AuditDiff = Awaited<ReturnType<typeof diffAudits>>;
@@ -0,0 +1,105 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import type { FindingStatus } from "@/types";
+
+export class FindingStatusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FindingStatusError";
+  }
+}
+
+export const FINDING_STATUSES: FindingStatus[] = ["open", "resolved", "ignored", "false_positive"];
+
+// Statuses that set a finding aside without fixing it need a justification
+export const JUSTIFIED_STATUSES: FindingStatus[] = ["ignored", "false_positive"];
+
+function statusLabel(status: string) {
+  return status.replace("_", " ");
+}
+
+// The trimmed comment of a request body, null when there is none
+function commentText(comment: unknown): string | null {
+  if (comment === undefined || comment === null) return null;
+  if (typeof comment !== "string") {
+    throw new FindingStatusError("The comment must be text");
+  }
+  return comment.trim() || null;
+}
+
+/**
+ * Check a status change of a finding on behalf of a user and return the
+ * update and the history entry that record it, without writing them
+ */
+export function planStatusChange(
+  finding: { status: string },
+  status: unknown,
+  comment?: unknown
+) {
+  if (status === "accepted") {
+    throw new FindingStatusError("Risks are accepted through an approved risk acceptance request");
+  }
+  if (typeof status !== "string" || !FINDING_STATUSES.includes(status as FindingStatus)) {
+    throw new FindingStatusError("Invalid status");
+  }
+
+  const justification = commentText(comment);
+  if (!justification && JUSTIFIED_STATUSES.includes(status as FindingStatus)) {
+    throw new FindingStatusError(
+      `A justification is required to mark a finding ${statusLabel(status)}`
+    );
+  }
+
+  if (finding.status === status) {
+    throw new FindingStatusError(`Finding is already ${statusLabel(status)}`);
+  }
+  if (finding.status === "accepted") {
+    throw new FindingStatusError("Revoke the risk acceptance of this finding to change its status");
+  }
+
+  const data = {
+    status,
+    resolvedAt: status === "resolved" ? new Date() : null,
+    // Triage by hand takes the finding out of the hands of suppression rules
+    suppressionRuleId: null,
+  } satisfies Prisma.FindingUncheckedUpdateInput;
+
+  const event = {
+    type: "status_changed",
+    fromStatus: finding.status,
+    toStatus: status,
+    comment: justification,
+  };
+
+  return { data, event };
+}
+
+/**
+ * The history of a finding across all its occurrences, newest first
+ */
+export async function listFindingEvents(finding: { fingerprint: string; accountId: string }) {
+  return prisma.findingEvent.findMany({
+    where: { accountId: finding.accountId, fingerprint: finding.fingerprint },
+    orderBy: { createdAt: "desc" },
+    include: {
+      actor: {
+        select: {
+          name: true,
+          email: true,
+        },
+      },
+      suppressionRule: {
+        select: {
+          id: true,
+          owner: true,
+        },
+      },
+      assignee: {
+        select: {
+          name: true,
+          email: true,
+        },
+      },
+    },
+  });
+}
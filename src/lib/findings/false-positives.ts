@@ -0,0 +1,64 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { getCheck } from "@/lib/scanner";
+
+export interface CheckFalsePositiveStats {
+  checkId: string;
+  title: string;
+  provider: string;
+  severity: string;
+  // Current findings of the check, whatever their status
+  findings: number;
+  falsePositives: number;
+  // Share of the findings marked a false positive, 0-1
+  rate: number;
+  // Times users marked a finding of the check a false positive
+  markedByUsers: number;
+}
+
+/**
+ * False positive counts per check over the current findings in scope,
+ * noisiest checks first, to spot checks that need tuning
+ */
+export async function getFalsePositiveStats(
+  scope: Prisma.FindingWhereInput
+): Promise<CheckFalsePositiveStats[]> {
+  const where = { AND: [scope, { latest: true }] };
+  const [byStatus, marked] = await Promise.all([
+    prisma.finding.groupBy({
+      by: ["findingId", "provider", "status"],
+      where,
+      _count: { _all: true },
+    }),
+    prisma.findingEvent.findMany({
+      where: { type: "status_changed", toStatus: "false_positive", finding: scope },
+      select: { finding: { select: { findingId: true } } },
+    }),
+  ]);
+
+  const stats = new Map<string, CheckFalsePositiveStats>();
+  for (const group of byStatus) {
+    const entry = stats.get(group.findingId) ?? {
+      checkId: group.findingId,
+      title: getCheck(group.findingId)?.title ?? group.findingId,
+      provider: group.provider,
+      severity: getCheck(group.findingId)?.severity ?? "MEDIUM",
+      findings: 0,
+      falsePositives: 0,
+      rate: 0,
+      markedByUsers: 0,
+    };
+    entry.findings += group._count._all;
+    if (group.status === "false_positive") entry.falsePositives += group._count._all;
+    stats.set(group.findingId, entry);
+  }
+
+  for (const event of marked) {
+    const entry = event.finding && stats.get(event.finding.findingId);
+    if (entry) entry.markedByUsers++;
+  }
+
+  return [...stats.values()]
+    .map((entry) => ({ ...entry, rate: entry.falsePositives / entry.findings }))
+    .sort((a, b) => b.falsePositives - a.falsePositives || b.rate - a.rate);
+}
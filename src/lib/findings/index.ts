@@ -0,0 +1,28 @@
+export {
+  parseFindingQuery,
+  findFindingsPage,
+  getFindingFacets,
+  findingListSelect,
+  FindingQueryError,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+} from "./query";
+export type { FindingQuery, FindingFacets, FindingListItem, FindingSortField } from "./query";
+export { diffAudits, findPreviousAudit, AuditDiffError } from "./diff";
+export type { AuditDiff, PhaseDelta, SeverityChange } from "./diff";
+export {
+  planStatusChange,
+  listFindingEvents,
+  FindingStatusError,
+  FINDING_STATUSES,
+  JUSTIFIED_STATUSES,
+} from "./events";
+export { getFalsePositiveStats } from "./false-positives";
+export type { CheckFalsePositiveStats } from "./false-positives";
+export {
+  planAssignment,
+  findingAccessWhere,
+  findingAssigneeSelect,
+  FindingAssignmentError,
+} from "./assignment";
+export { updateFinding } from "./update";
@@ -0,0 +1,311 @@
+import type { Prisma } from "@prisma/client";
+import { accountAccessWhere } from "@/lib/accounts";
+import { prisma } from "@/lib/db";
+import type { PaginatedResponse, Severity } from "@/types";
+import { findingAssigneeSelect } from "./assignment";
+
+export class FindingQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FindingQueryError";
+  }
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+// Most severe first
+const SEVERITIES: Severity[] = ["CRITICAL", "HIGH", "MEDIUM", "LOW"];
+
+const SORT_FIELDS = ["severity", "createdAt", "title", "findingId", "region", "resourceType", "status", "dueAt"] as const;
+export type FindingSortField = (typeof SORT_FIELDS)[number];
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fields returned for each finding in list views
+export const findingListSelect = {
+  id: true,
+  provider: true,
+  findingId: true,
+  severity: true,
+  title: true,
+  description: true,
+  resource: true,
+  resourceType: true,
+  resourceArn: true,
+  resourcePath: true,
+  resourceId: true,
+  region: true,
+  recommendation: true,
+  status: true,
+  fingerprint: true,
+  firstSeenAt: true,
+  lastSeenAt: true,
+  occurrences: true,
+  regression: true,
+  dueAt: true,
+  assignee: { select: findingAssigneeSelect },
+  createdAt: true,
+  audit: {
+    select: {
+      account: {
+        select: {
+          name: true,
+          accountId: true,
+          provider: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.FindingSelect;
+
+export type FindingListItem = Prisma.FindingGetPayload<{ select: typeof findingListSelect }>;
+
+export interface FindingQuery {
+  // All filters
+  where: Prisma.FindingWhereInput;
+  // Only the filters that pick the findings to list (user, provider, account,
+  // audit), which facets are counted over. Without an audit only the latest
+  // occurrence of each finding is listed.
+  scope: Prisma.FindingWhereInput;
+  sort: FindingSortField;
+  order: "asc" | "desc";
+  page: number;
+  limit: number;
+}
+
+export interface FindingFacets {
+  severity: Record<string, number>;
+  status: Record<string, number>;
+  regions: string[];
+  resourceTypes: string[];
+}
+
+// Comma-separated values, e.g. severity=CRITICAL,HIGH
+function parseList(params: URLSearchParams, name: string): string[] {
+  return (params.get(name) ?? "")
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function parseInteger(params: URLSearchParams, name: string, min: number, max?: number) {
+  const value = params.get(name);
+  if (value === null || value === "") return undefined;
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || (max !== undefined && number > max)) {
+    throw new FindingQueryError(
+      max === undefined
+        ? `${name} must be an integer of at least ${min}`
+        : `${name} must be an integer between ${min} and ${max}`
+    );
+  }
+  return number;
+}
+
+// A date-only upper bound covers the whole day
+function parseDate(params: URLSearchParams, name: string, endOfDay = false) {
+  const value = params.get(name);
+  if (!value) return undefined;
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new FindingQueryError(`Invalid ${name} date`);
+  }
+  return endOfDay && DATE_ONLY.test(value) ? new Date(date.getTime() + DAY_MS - 1) : date;
+}
+
+/**
+ * Build a findings query for one user from request query parameters:
+ * provider, accountId, auditId, severity, status, region, resourceType,
+ * phase (number), from and to (creation date), regression (true to list only
+ * regressions), overdue (true to list only open findings past their due
+ * date), assignee (me to list the findings assigned to the user, in any
+ * account), q (free text), sort, order, page and limit. List filters accept
+ * comma-separated values. Sorting by severity in descending order, the
+ * default, lists the most severe findings first.
+ */
+export function parseFindingQuery(params: URLSearchParams, userId: string): FindingQuery {
+  const provider = params.get("provider");
+  const accountId = params.get("accountId");
+  const auditId = params.get("auditId");
+  const q = params.get("q")?.trim();
+  const regression = params.get("regression") === "true";
+  const overdue = params.get("overdue") === "true";
+  const assignee = params.get("assignee");
+
+  const severity = parseList(params, "severity");
+  const status = parseList(params, "status");
+  const region = parseList(params, "region");
+  const resourceType = parseList(params, "resourceType");
+  const phase = parseInteger(params, "phase", 1);
+  const from = parseDate(params, "from");
+  const to = parseDate(params, "to", true);
+
+  if (assignee && assignee !== "me") {
+    throw new FindingQueryError("assignee must be me");
+  }
+
+  const invalidSeverity = severity.find((s) => !SEVERITIES.includes(s as Severity));
+  if (invalidSeverity) {
+    throw new FindingQueryError(`Invalid severity ${invalidSeverity}`);
+  }
+
+  const sort = (params.get("sort") || "severity") as FindingSortField;
+  if (!SORT_FIELDS.includes(sort)) {
+    throw new FindingQueryError(`sort must be one of ${SORT_FIELDS.join(", ")}`);
+  }
+
+  // Newest and most severe first unless asked otherwise; everything else
+  // ascending. Severity ascends from LOW to CRITICAL.
+  const order =
+    params.get("order") || (sort === "createdAt" || sort === "severity" ? "desc" : "asc");
+  if (order !== "asc" && order !== "desc") {
+    throw new FindingQueryError("order must be asc or desc");
+  }
+
+  const scope: Prisma.FindingWhereInput = {
+    ...(provider && { provider }),
+    ...(auditId ? { auditId } : { latest: true }),
+    ...(assignee && { assigneeId: userId }),
+    audit: {
+      ...(accountId && { accountId }),
+      account: accountAccessWhere(userId),
+    },
+  };
+
+  const where: Prisma.FindingWhereInput = {
+    ...scope,
+    ...(severity.length > 0 && { severity: { in: severity } }),
+    ...(status.length > 0 && { status: { in: status } }),
+    ...(region.length > 0 && { region: { in: region } }),
+    ...(resourceType.length > 0 && { resourceType: { in: resourceType } }),
+    ...(phase !== undefined && { phase: { phaseNumber: phase } }),
+    ...(regression && { regression: true }),
+    ...(overdue && { AND: [{ status: "open" }, { dueAt: { lt: new Date() } }] }),
+    ...((from || to) && {
+      createdAt: { ...(from && { gte: from }), ...(to && { lte: to }) },
+    }),
+    ...(q && {
+      OR: [
+        { title: { contains: q, mode: "insensitive" } },
+        { findingId: { contains: q, mode: "insensitive" } },
+        { resource: { contains: q, mode: "insensitive" } },
+        { description: { contains: q, mode: "insensitive" } },
+      ],
+    }),
+  };
+
+  return {
+    where,
+    scope,
+    sort,
+    order,
+    page: parseInteger(params, "page", 1) ?? 1,
+    limit: parseInteger(params, "limit", 1, MAX_PAGE_SIZE) ?? DEFAULT_PAGE_SIZE,
+  };
+}
+
+function paginated<T>(data: T[], total: number, page: number, limit: number): PaginatedResponse<T> {
+  return {
+    data,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
+
+/**
+ * Fetch one page of findings. Ties are broken by newest first so pages are
+ * stable.
+ */
+export async function findFindingsPage(query: FindingQuery): Promise<PaginatedResponse<FindingListItem>> {
+  const { where, sort, order, page, limit } = query;
+  const skip = (page - 1) * limit;
+
+  if (sort !== "severity") {
+    const [total, data] = await Promise.all([
+      prisma.finding.count({ where }),
+      prisma.finding.findMany({
+        where,
+        select: findingListSelect,
+        orderBy: [{ [sort]: order }, { createdAt: "desc" }, { id: "asc" }],
+        skip,
+        take: limit,
+      }),
+    ]);
+    return paginated(data, total, page, limit);
+  }
+
+  // Severity is stored as text, so the database cannot order it by rank.
+  // Walk the severities in rank order instead, skipping whole severities
+  // that lie before the requested page.
+  const counts = await prisma.finding.groupBy({
+    by: ["severity"],
+    where,
+    _count: { _all: true },
+  });
+  const countOf = (severity: string) =>
+    counts.find((c) => c.severity === severity)?._count._all ?? 0;
+  const total = counts.reduce((sum, c) => sum + c._count._all, 0);
+
+  const data: FindingListItem[] = [];
+  let offset = skip;
+  for (const severity of order === "desc" ? SEVERITIES : [...SEVERITIES].reverse()) {
+    if (data.length >= limit) break;
+
+    const count = countOf(severity);
+    if (offset >= count) {
+      offset -= count;
+      continue;
+    }
+
+    data.push(
+      ...(await prisma.finding.findMany({
+        where: { AND: [where, { severity }] },
+        select: findingListSelect,
+        orderBy: [{ createdAt: "desc" }, { id: "asc" }],
+        skip: offset,
+        take: limit - data.length,
+      }))
+    );
+    offset = 0;
+  }
+
+  return paginated(data, total, page, limit);
+}
+
+/**
+ * Count findings per severity and status and list the regions and resource
+ * types present, for filter controls
+ */
+export async function getFindingFacets(scope: Prisma.FindingWhereInput): Promise<FindingFacets> {
+  const [bySeverity, byStatus, regions, resourceTypes] = await Promise.all([
+    prisma.finding.groupBy({ by: ["severity"], where: scope, _count: { _all: true } }),
+    prisma.finding.groupBy({ by: ["status"], where: scope, _count: { _all: true } }),
+    prisma.finding.findMany({
+      where: { AND: [scope, { region: { not: null } }] },
+      distinct: ["region"],
+      select: { region: true },
+      orderBy: { region: "asc" },
+    }),
+    prisma.finding.findMany({
+      where: { AND: [scope, { resourceType: { not: null } }] },
+      distinct: ["resourceType"],
+      select: { resourceType: true },
+      orderBy: { resourceType: "asc" },
+    }),
+  ]);
+
+  return {
+    severity: Object.fromEntries(bySeverity.map((g) => [g.severity, g._count._all])),
+    status: Object.fromEntries(byStatus.map((g) => [g.status, g._count._all])),
+    regions: regions.map((r) => r.region!),
+    resourceTypes: resourceTypes.map((r) => r.resourceType!),
+  };
+}
@@ -0,0 +1,62 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { findingAssigneeSelect, FindingAssignmentError, planAssignment } from "./assignment";
+import { planStatusChange } from "./events";
+
+/**
+ * Change the status of a finding, assign it and move its due date on behalf
+ * of a user. Every change is checked before any is written, and they are
+ * written together with their history entries.
+ */
+export async function updateFinding(
+  findingId: string,
+  actorId: string,
+  input: { status?: unknown; comment?: unknown; assigneeEmail?: unknown; dueAt?: unknown }
+) {
+  const finding = await prisma.finding.findUniqueOrThrow({
+    where: { id: findingId },
+    select: {
+      status: true,
+      severity: true,
+      assigneeId: true,
+      dueAt: true,
+      firstSeenAt: true,
+      fingerprint: true,
+      audit: { select: { accountId: true, account: { select: { userId: true } } } },
+    },
+  });
+
+  const statusChange =
+    input.status !== undefined ? planStatusChange(finding, input.status, input.comment) : null;
+  const assignment =
+    input.assigneeEmail !== undefined || input.dueAt !== undefined
+      ? await planAssignment(finding, input)
+      : null;
+
+  const changes = [
+    ...(statusChange ? [statusChange.event] : []),
+    ...(assignment?.events ?? []),
+  ];
+  if (changes.length === 0) {
+    throw new FindingAssignmentError("Nothing to change");
+  }
+
+  const events: Prisma.FindingEventCreateManyInput[] = changes.map((change) => ({
+    ...change,
+    fingerprint: finding.fingerprint,
+    accountId: finding.audit.accountId,
+    findingId,
+    actorId,
+  }));
+
+  const [updated] = await prisma.$transaction([
+    prisma.finding.update({
+      where: { id: findingId },
+      data: { ...assignment?.data, ...statusChange?.data },
+      include: { assignee: { select: findingAssigneeSelect } },
+    }),
+    prisma.findingEvent.createMany({ data: events }),
+  ]);
+
+  return updated;
+}
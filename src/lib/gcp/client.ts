@@ -0,0 +1,94 @@
+import { getGcpAccessToken } from "./credentials";
+import { gcpServiceUrl, type GcpService } from "./endpoint";
+
+export class GcpApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    // Google error reason, e.g. "forbidden" or "notFound"
+    public reason?: string
+  ) {
+    super(message);
+    this.name = "GcpApiError";
+  }
+}
+
+export interface GcpRequestOptions {
+  method?: "GET" | "POST";
+  query?: Record<string, string | undefined>;
+  body?: unknown;
+}
+
+export interface GcpClient {
+  // Project ID as entered by the user, used to build request paths
+  projectId: string;
+  request<T>(service: GcpService, path: string, options?: GcpRequestOptions): Promise<T>;
+  // Follow nextPageToken and collect the items under `itemsKey` from every page
+  list<T>(service: GcpService, path: string, itemsKey: string, query?: Record<string, string>): Promise<T[]>;
+}
+
+async function gcpError(response: Response): Promise<GcpApiError> {
+  const data = await response.json().catch(() => ({}));
+  const error = data.error ?? {};
+  return new GcpApiError(
+    error.message || `${response.status} ${response.statusText}`,
+    response.status,
+    error.errors?.[0]?.reason ?? error.status
+  );
+}
+
+/**
+ * REST client for the Google APIs the scanner reads, authenticated with a
+ * project's stored service account key
+ */
+export function createGcpClient(project: {
+  // ID of the cloud account, tokens are cached per account
+  accountId: string;
+  projectId: string;
+  serviceAccountKey: string;
+}): GcpClient {
+  const request = async <T>(
+    service: GcpService,
+    path: string,
+    { method = "GET", query, body }: GcpRequestOptions = {}
+  ): Promise<T> => {
+    const accessToken = await getGcpAccessToken(project.serviceAccountKey, {
+      accountId: project.accountId,
+    });
+    const url = new URL(`${gcpServiceUrl(service)}${path}`);
+    for (const [name, value] of Object.entries(query ?? {})) {
+      if (value !== undefined) url.searchParams.set(name, value);
+    }
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        ...(body !== undefined && { "Content-Type": "application/json" }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw await gcpError(response);
+    }
+    return response.json() as Promise<T>;
+  };
+
+  return {
+    projectId: project.projectId,
+    request,
+    async list<T>(service: GcpService, path: string, itemsKey: string, query: Record<string, string> = {}) {
+      const items: T[] = [];
+      let pageToken: string | undefined;
+      do {
+        const page = await request<Record<string, unknown>>(service, path, {
+          query: { ...query, pageToken },
+        });
+        items.push(...((page[itemsKey] as T[] | undefined) ?? []));
+        pageToken = page.nextPageToken as string | undefined;
+      } while (pageToken);
+      return items;
+    },
+  };
+}
@@ -0,0 +1,123 @@
+import { createHash, createSign } from "crypto";
+import { decryptSecret } from "@/lib/secrets";
+import { GCP_TOKEN_URL, gcpTokenUrl } from "./endpoint";
+
+// Fields of a service account JSON key that are needed to authenticate
+export interface GcpServiceAccountKey {
+  type: string;
+  project_id?: string;
+  client_email: string;
+  private_key: string;
+}
+
+export class GcpCredentialError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GcpCredentialError";
+  }
+}
+
+const SCOPE = "https://www.googleapis.com/auth/cloud-platform";
+const TOKEN_LIFETIME_SECONDS = 3600;
+
+// Refresh cached tokens this long before they expire
+const EXPIRY_MARGIN_MS = 5 * 60_000;
+
+const tokenCache = new Map<string, { accessToken: string; expiresAt: number }>();
+
+/**
+ * Parse and sanity-check a service account JSON key
+ */
+export function parseServiceAccountKey(serviceAccountKey: string): GcpServiceAccountKey {
+  let key: Partial<GcpServiceAccountKey>;
+  try {
+    key = JSON.parse(serviceAccountKey);
+  } catch {
+    throw new GcpCredentialError("Service account key is not valid JSON");
+  }
+
+  if (key.type !== "service_account" || !key.client_email || !key.private_key) {
+    throw new GcpCredentialError("Service account key is missing client_email or private_key");
+  }
+
+  return key as GcpServiceAccountKey;
+}
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+// Self-signed JWT exchanged for an access token (OAuth 2.0 JWT bearer grant).
+// Its audience is Google's token endpoint, also when a stand-in relays it.
+function signAssertion(key: GcpServiceAccountKey): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+  const claims = base64url(
+    JSON.stringify({
+      iss: key.client_email,
+      scope: SCOPE,
+      aud: GCP_TOKEN_URL,
+      iat: now,
+      exp: now + TOKEN_LIFETIME_SECONDS,
+    })
+  );
+
+  const signer = createSign("RSA-SHA256");
+  signer.update(`${header}.${claims}`);
+  return `${header}.${claims}.${base64url(signer.sign(key.private_key))}`;
+}
+
+// Tokens are cached per cloud account and key, so a key that was replaced
+// (or that only shares the client_email) never reuses another key's token
+function cacheKey(accountId: string, decryptedKey: string): string {
+  return `${accountId}:${createHash("sha256").update(decryptedKey).digest("hex")}`;
+}
+
+/**
+ * Get an OAuth access token for a stored (encrypted) service account key.
+ * With the ID of the cloud account it belongs to, the token is cached until
+ * shortly before it expires; without it a fresh token is always requested.
+ */
+export async function getGcpAccessToken(
+  serviceAccountKey: string,
+  { accountId }: { accountId?: string } = {}
+): Promise<string> {
+  const decryptedKey = decryptSecret(serviceAccountKey);
+  const key = parseServiceAccountKey(decryptedKey);
+
+  const tokenKey = accountId ? cacheKey(accountId, decryptedKey) : undefined;
+  const cached = tokenKey ? tokenCache.get(tokenKey) : undefined;
+  if (cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+    return cached.accessToken;
+  }
+
+  let assertion: string;
+  try {
+    assertion = signAssertion(key);
+  } catch {
+    throw new GcpCredentialError("Service account private key could not be used for signing");
+  }
+
+  const response = await fetch(gcpTokenUrl(), {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+      assertion,
+    }),
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || !data.access_token) {
+    throw new GcpCredentialError(
+      `Token request failed: ${data.error_description || data.error || response.statusText}`
+    );
+  }
+
+  const token = {
+    accessToken: data.access_token as string,
+    expiresAt: Date.now() + (data.expires_in ?? TOKEN_LIFETIME_SECONDS) * 1000,
+  };
+  if (tokenKey) tokenCache.set(tokenKey, token);
+  return token.accessToken;
+}
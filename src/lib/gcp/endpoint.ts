@@ -0,0 +1,37 @@
+// Google API hosts used by the scanner, keyed by service name
+export const GCP_SERVICE_HOSTS = {
+  cloudresourcemanager: "https://cloudresourcemanager.googleapis.com",
+  iam: "https://iam.googleapis.com",
+  storage: "https://storage.googleapis.com",
+  compute: "https://compute.googleapis.com",
+  logging: "https://logging.googleapis.com",
+  sqladmin: "https://sqladmin.googleapis.com",
+} as const;
+
+export type GcpService = keyof typeof GCP_SERVICE_HOSTS;
+
+export const GCP_TOKEN_URL = "https://oauth2.googleapis.com/token";
+
+/**
+ * Endpoint override used to point the scanner at a local stand-in that
+ * replays recorded Google API responses (e.g. http://localhost:4580).
+ * Requests go to {override}/{service}/{path}.
+ */
+export function getGcpEndpointOverride(): string | undefined {
+  return process.env.GCP_ENDPOINT_URL || undefined;
+}
+
+/**
+ * OAuth token endpoint. The token_uri of a service account key is ignored,
+ * so a key can't make the server post signed assertions to a URL of its
+ * choosing; only the replay override serves tokens elsewhere.
+ */
+export function gcpTokenUrl(): string {
+  const override = getGcpEndpointOverride();
+  return override ? `${override.replace(/\/$/, "")}/token` : GCP_TOKEN_URL;
+}
+
+export function gcpServiceUrl(service: GcpService): string {
+  const override = getGcpEndpointOverride();
+  return override ? `${override.replace(/\/$/, "")}/${service}` : GCP_SERVICE_HOSTS[service];
+}
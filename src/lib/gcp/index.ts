@@ -0,0 +1,8 @@
+export { getGcpAccessToken, parseServiceAccountKey, GcpCredentialError } from "./credentials";
+export type { GcpServiceAccountKey } from "./credentials";
+export { createGcpClient, GcpApiError } from "./client";
+export type { GcpClient, GcpRequestOptions } from "./client";
+export { getGcpEndpointOverride, gcpServiceUrl, GCP_SERVICE_HOSTS } from "./endpoint";
+export type { GcpService } from "./endpoint";
+export { verifyGcpProject } from "./verify";
+export type { GcpProjectVerification } from "./verify";
@@ -0,0 +1,54 @@
+import { verificationErrorMessage, type CredentialVerification } from "@/lib/verification";
+import { getGcpAccessToken } from "./credentials";
+import { gcpServiceUrl } from "./endpoint";
+
+export interface GcpProjectVerification extends CredentialVerification {
+  projectNumber?: string;
+}
+
+/**
+ * Check that a service account key can authenticate and read the project the
+ * user entered, using the Resource Manager projects.get call.
+ */
+export async function verifyGcpProject(project: {
+  projectId: string;
+  projectNumber?: string | null;
+  serviceAccountKey: string;
+}): Promise<GcpProjectVerification> {
+  try {
+    const accessToken = await getGcpAccessToken(project.serviceAccountKey);
+    const response = await fetch(
+      `${gcpServiceUrl("cloudresourcemanager")}/v1/projects/${encodeURIComponent(project.projectId)}`,
+      { headers: { Authorization: `Bearer ${accessToken}` } }
+    );
+
+    if (response.status === 403 || response.status === 404) {
+      return {
+        verified: false,
+        error: `Service account cannot access project ${project.projectId}`,
+      };
+    }
+    if (!response.ok) {
+      return { verified: false, error: `Resource Manager returned ${response.status}` };
+    }
+
+    const data: { projectId?: string; projectNumber?: string } = await response.json();
+
+    if (data.projectId !== project.projectId) {
+      return {
+        verified: false,
+        error: `Credentials resolved project ${data.projectId}, not ${project.projectId}`,
+      };
+    }
+    if (project.projectNumber && data.projectNumber !== project.projectNumber) {
+      return {
+        verified: false,
+        error: `Project number is ${data.projectNumber}, not ${project.projectNumber}`,
+      };
+    }
+
+    return { verified: true, projectNumber: data.projectNumber };
+  } catch (error) {
+    return { verified: false, error: verificationErrorMessage(error) };
+  }
+}
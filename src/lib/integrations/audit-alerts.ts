@@ -0,0 +1,66 @@
+import { prisma } from "@/lib/db";
+import type { CloudProvider } from "@/types";
+import { sendAuditSummaryAlert, sendBulkSpikeAlerts } from "./spike";
+
+interface AuditAlertResult {
+  accountName: string;
+  summaryAlertSent: boolean;
+  individualAlerts: { sent: number; skipped: number };
+}
+
+/**
+ * Load an audit owned by the user together with its critical and high findings
+ */
+async function loadAuditForAlerts(userId: string, auditId: string, cloudProvider: CloudProvider) {
+  const audit = await prisma.audit.findFirst({
+    where: { id: auditId, provider: cloudProvider, account: { userId } },
+    include: {
+      account: true,
+      findings: { where: { severity: { in: ["CRITICAL", "HIGH"] } } },
+    },
+  });
+  return audit && { audit, accountName: audit.account.name, findings: audit.findings };
+}
+
+/**
+ * Check that an audit exists and belongs to the user
+ */
+export async function auditExistsForUser(
+  userId: string,
+  auditId: string,
+  cloudProvider: CloudProvider
+): Promise<boolean> {
+  return (await loadAuditForAlerts(userId, auditId, cloudProvider)) !== null;
+}
+
+/**
+ * Send the summary alert for an audit, and optionally one alert per
+ * critical/high finding. Returns null when the audit does not exist.
+ */
+export async function sendAuditAlerts(
+  userId: string,
+  auditId: string,
+  cloudProvider: CloudProvider,
+  sendIndividualAlerts = false
+): Promise<AuditAlertResult | null> {
+  const loaded = await loadAuditForAlerts(userId, auditId, cloudProvider);
+  if (!loaded) return null;
+
+  const { audit, accountName, findings } = loaded;
+
+  const summaryAlertSent = await sendAuditSummaryAlert(userId, cloudProvider, accountName, {
+    critical: audit.critical,
+    high: audit.high,
+    medium: audit.medium,
+    low: audit.low,
+    total: audit.totalFindings,
+  });
+
+  let individualAlerts = { sent: 0, skipped: 0 };
+
+  if (sendIndividualAlerts && findings.length > 0) {
+    individualAlerts = await sendBulkSpikeAlerts(userId, cloudProvider, accountName, findings);
+  }
+
+  return { accountName, summaryAlertSent, individualAlerts };
+}
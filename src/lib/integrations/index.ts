@@ -2,4 +2,6 @@ export {
   sendSpikeAlert,
   sendBulkSpikeAlerts,
   sendAuditSummaryAlert,
+  sendRiskReviewReminder,
 } from "./spike";
+export { sendAuditAlerts, auditExistsForUser } from "./audit-alerts";
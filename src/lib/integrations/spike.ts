@@ -35,6 +35,37 @@ function mapSeverityToPriority(severity: string): string {
   }
 }
 
+interface SpikeAlert {
+  title: string;
+  message: string;
+  status: "CRITICAL" | "WARNING";
+  priority: string;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Post an alert to a Spike.sh webhook. Returns false when Spike.sh rejects it.
+ */
+async function postSpikeAlert(webhookUrl: string, alert: SpikeAlert, kind: string): Promise<boolean> {
+  const response = await fetch(webhookUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      ...alert,
+      source: "CloudGuard Security Dashboard",
+      timestamp: new Date().toISOString(),
+    }),
+  });
+
+  if (!response.ok) {
+    console.error(`Spike.sh ${kind} failed:`, await response.text());
+    return false;
+  }
+  return true;
+}
+
 /**
  * Send a finding alert to Spike.sh if enabled
  */
@@ -66,38 +97,27 @@ export async function sendSpikeAlert(options: AlertOptions): Promise<boolean> {
       return false;
     }
 
-    // Construct the Spike.sh alert payload
-    const spikePayload = {
-      title: `[${cloudProvider}] ${severity}: ${finding.title}`,
-      message: finding.description || finding.title,
-      status: severity === "CRITICAL" ? "CRITICAL" : "WARNING",
-      priority: mapSeverityToPriority(severity),
-      source: "CloudGuard Security Dashboard",
-      timestamp: new Date().toISOString(),
-      metadata: {
-        severity: finding.severity,
-        cloudProvider,
-        resource: finding.resource,
-        resourceType: finding.resourceType,
-        region: finding.region,
-        accountName,
-        recommendation: finding.recommendation,
-      },
-    };
-
     // Send alert to Spike.sh
-    const response = await fetch(settings.spikeWebhookUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
+    const sent = await postSpikeAlert(
+      settings.spikeWebhookUrl,
+      {
+        title: `[${cloudProvider}] ${severity}: ${finding.title}`,
+        message: finding.description || finding.title,
+        status: severity === "CRITICAL" ? "CRITICAL" : "WARNING",
+        priority: mapSeverityToPriority(severity),
+        metadata: {
+          severity: finding.severity,
+          cloudProvider,
+          resource: finding.resource,
+          resourceType: finding.resourceType,
+          region: finding.region,
+          accountName,
+          recommendation: finding.recommendation,
+        },
       },
-      body: JSON.stringify(spikePayload),
-    });
-
-    if (!response.ok) {
-      console.error("Spike.sh alert failed:", await response.text());
-      return false;
-    }
+      "alert"
+    );
+    if (!sent) return false;
 
     console.log(`Spike.sh alert sent for ${severity} finding: ${finding.title}`);
     return true;
@@ -177,45 +197,86 @@ export async function sendAuditSummaryAlert(
       return false;
     }
 
-    const status = summary.critical > 0 ? "CRITICAL" : "WARNING";
-    const priority = summary.critical > 0 ? "P1" : "P2";
-
-    const spikePayload = {
-      title: `[${cloudProvider}] Audit Complete - ${summary.critical} Critical, ${summary.high} High findings`,
-      message: `Security audit completed for ${accountName}. Found ${summary.total} total findings: ${summary.critical} Critical, ${summary.high} High, ${summary.medium} Medium, ${summary.low} Low.`,
-      status,
-      priority,
-      source: "CloudGuard Security Dashboard",
-      timestamp: new Date().toISOString(),
-      metadata: {
-        cloudProvider,
-        accountName,
-        critical: summary.critical,
-        high: summary.high,
-        medium: summary.medium,
-        low: summary.low,
-        total: summary.total,
-        type: "audit_summary",
+    const sent = await postSpikeAlert(
+      settings.spikeWebhookUrl,
+      {
+        title: `[${cloudProvider}] Audit Complete - ${summary.critical} Critical, ${summary.high} High findings`,
+        message: `Security audit completed for ${accountName}. Found ${summary.total} total findings: ${summary.critical} Critical, ${summary.high} High, ${summary.medium} Medium, ${summary.low} Low.`,
+        status: summary.critical > 0 ? "CRITICAL" : "WARNING",
+        priority: summary.critical > 0 ? "P1" : "P2",
+        metadata: {
+          cloudProvider,
+          accountName,
+          critical: summary.critical,
+          high: summary.high,
+          medium: summary.medium,
+          low: summary.low,
+          total: summary.total,
+          type: "audit_summary",
+        },
       },
-    };
+      "summary alert"
+    );
+    if (!sent) return false;
 
-    const response = await fetch(settings.spikeWebhookUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(spikePayload),
+    console.log(`Spike.sh audit summary alert sent for ${accountName}`);
+    return true;
+  } catch (error) {
+    console.error("Error sending Spike.sh summary alert:", error);
+    return false;
+  }
+}
+
+/**
+ * Remind the approver of an accepted risk through Spike.sh that it is due
+ * for review
+ */
+export async function sendRiskReviewReminder(
+  userId: string,
+  cloudProvider: "AWS" | "GCP" | "AZURE",
+  accountName: string,
+  acceptance: {
+    checkId: string;
+    title: string;
+    severity: string;
+    resource: string;
+    expiresAt: Date;
+  }
+): Promise<boolean> {
+  try {
+    const settings = await prisma.userSettings.findUnique({
+      where: { userId },
     });
 
-    if (!response.ok) {
-      console.error("Spike.sh summary alert failed:", await response.text());
+    if (!settings?.spikeEnabled || !settings?.spikeWebhookUrl) {
       return false;
     }
 
-    console.log(`Spike.sh audit summary alert sent for ${accountName}`);
+    const sent = await postSpikeAlert(
+      settings.spikeWebhookUrl,
+      {
+        title: `[${cloudProvider}] Accepted risk due for review: ${acceptance.title}`,
+        message: `The accepted risk ${acceptance.checkId} on ${acceptance.resource} in ${accountName} is due for review. It expires on ${acceptance.expiresAt.toISOString().slice(0, 10)} unless it is renewed.`,
+        status: "WARNING",
+        priority: "P4",
+        metadata: {
+          cloudProvider,
+          accountName,
+          checkId: acceptance.checkId,
+          severity: acceptance.severity,
+          resource: acceptance.resource,
+          expiresAt: acceptance.expiresAt.toISOString(),
+          type: "risk_review",
+        },
+      },
+      "risk review reminder"
+    );
+    if (!sent) return false;
+
+    console.log(`Spike.sh risk review reminder sent for ${acceptance.checkId} in ${accountName}`);
     return true;
   } catch (error) {
-    console.error("Error sending Spike.sh summary alert:", error);
+    console.error("Error sending Spike.sh risk review reminder:", error);
     return false;
   }
 }
@@ -0,0 +1,67 @@
+import { prisma } from "@/lib/db";
+import { sendAuditAlerts } from "@/lib/integrations";
+import { renderAuditReport } from "@/lib/reports/markdown";
+import { runAudit } from "@/lib/scanner";
+import { enqueueJob, holdsLease } from "./queue";
+import type { CloudProvider, JobHandler, JobType } from "./types";
+
+type HandlerMap = { [T in JobType]: JobHandler<T> };
+
+export const JOB_HANDLERS: HandlerMap = {
+  "audit.run": {
+    async run({ auditId }, job) {
+      const audit = await prisma.audit.findUnique({ where: { id: auditId } });
+
+      // Cancelled or deleted before the job started
+      if (!audit || (audit.status !== "pending" && audit.status !== "running")) {
+        return { skipped: true };
+      }
+
+      // A worker that hung past its lease stops between phases once the
+      // job was handed to another attempt
+      const result = await runAudit(auditId, { leaseLost: async () => !(await holdsLease(job)) });
+
+      if (job.userId) {
+        await enqueueJob(
+          "notification.audit-alert",
+          { auditId, cloudProvider: audit.provider as CloudProvider },
+          { userId: job.userId }
+        );
+      }
+
+      return result;
+    },
+    async onFailed({ auditId }, error) {
+      // Unfinished phases fail with the audit so that it can be retried
+      await prisma.$transaction([
+        prisma.phase.updateMany({
+          where: { auditId, status: { in: ["pending", "running"] } },
+          data: { status: "failed", errorMessage: error, completedAt: new Date() },
+        }),
+        prisma.audit.updateMany({
+          where: { id: auditId, status: { in: ["pending", "running"] } },
+          data: { status: "failed", errorMessage: error, completedAt: new Date() },
+        }),
+      ]);
+    },
+  },
+
+  "report.render": {
+    async run({ auditId }) {
+      return renderAuditReport(auditId);
+    },
+  },
+
+  "notification.audit-alert": {
+    async run({ auditId, cloudProvider, sendIndividualAlerts }, job) {
+      if (!job.userId) {
+        throw new Error("Audit alert job has no user");
+      }
+      // Alerts are not sent twice by an attempt that lost its lease
+      if (!(await holdsLease(job))) {
+        return { skipped: true };
+      }
+      return sendAuditAlerts(job.userId, auditId, cloudProvider, sendIndividualAlerts);
+    },
+  },
+};
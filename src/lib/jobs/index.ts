@@ -0,0 +1,7 @@
+export {
+  enqueueJob,
+  auditConcurrencyKey,
+  cancelQueuedAuditJobs,
+} from "./queue";
+export { startWorker, DEFAULT_CONCURRENCY } from "./worker";
+export type { JobType, JobPayloads, CloudProvider } from "./types";
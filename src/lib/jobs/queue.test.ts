@@ -0,0 +1,118 @@
+import type { Job } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const { job: jobTable } = vi.hoisted(() => ({
+  job: { updateMany: vi.fn(), count: vi.fn() },
+}));
+
+vi.mock("@/lib/db", () => ({ prisma: { job: jobTable } }));
+
+import { backoffDelay, failJob, heartbeatJob, holdsLease, LEASE_MS } from "./queue";
+
+const NOW = new Date("2026-01-05T10:00:00Z");
+
+function runningJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: "job-1",
+    type: "audit.run",
+    status: "running",
+    payload: { auditId: "audit-1" },
+    result: null,
+    concurrencyKey: "audit:account-1",
+    attempts: 1,
+    maxAttempts: 3,
+    lastError: null,
+    runAt: NOW,
+    lockedBy: "worker-1",
+    lockedUntil: new Date(NOW.getTime() + LEASE_MS),
+    heartbeatAt: NOW,
+    userId: null,
+    startedAt: NOW,
+    completedAt: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  } as Job;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW });
+  jobTable.updateMany.mockResolvedValue({ count: 1 });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.resetAllMocks();
+});
+
+describe("backoffDelay", () => {
+  it("doubles from 30 seconds and caps at 30 minutes", () => {
+    expect([1, 2, 3, 4].map(backoffDelay)).toEqual([30_000, 60_000, 120_000, 240_000]);
+    expect(backoffDelay(20)).toBe(30 * 60_000);
+  });
+});
+
+describe("failJob", () => {
+  it("re-queues an attempt with backoff while attempts remain", async () => {
+    const exhausted = await failJob(runningJob({ attempts: 2 }), "worker-1", "boom");
+
+    expect(exhausted).toBe(false);
+    const [{ where, data }] = jobTable.updateMany.mock.calls[0];
+    expect(where).toMatchObject({ id: "job-1", status: "running", lockedBy: "worker-1", attempts: 2 });
+    expect(data).toMatchObject({ status: "queued", lastError: "boom", lockedBy: null });
+    expect(data.runAt).toEqual(new Date(NOW.getTime() + 60_000));
+  });
+
+  it("fails the job for good on its last attempt", async () => {
+    const exhausted = await failJob(runningJob({ attempts: 3 }), "worker-1", "boom");
+
+    expect(exhausted).toBe(true);
+    expect(jobTable.updateMany.mock.calls[0][0].data).toMatchObject({
+      status: "failed",
+      lastError: "boom",
+      completedAt: NOW,
+    });
+  });
+
+  it("leaves a job alone once another attempt holds it", async () => {
+    jobTable.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await failJob(runningJob({ attempts: 3 }), "worker-1", "boom")).toBe(false);
+  });
+
+  it("reclaims a job without a worker only while its lease is expired", async () => {
+    await failJob(runningJob({ attempts: 1 }), null, "Lease expired");
+
+    const { where } = jobTable.updateMany.mock.calls[0][0];
+    expect(where).toMatchObject({ id: "job-1", status: "running", lockedUntil: { lt: NOW } });
+    expect(where.OR).toEqual([
+      { heartbeatAt: null },
+      { heartbeatAt: { lt: new Date(NOW.getTime() - LEASE_MS) } },
+    ]);
+    expect(where).not.toHaveProperty("lockedBy");
+  });
+});
+
+describe("leases", () => {
+  it("extends the lease of a job the worker holds", async () => {
+    expect(await heartbeatJob("job-1", "worker-1")).toBe(true);
+    expect(jobTable.updateMany.mock.calls[0][0].data).toEqual({
+      heartbeatAt: NOW,
+      lockedUntil: new Date(NOW.getTime() + LEASE_MS),
+    });
+  });
+
+  it("reports a lease lost to another worker", async () => {
+    jobTable.updateMany.mockResolvedValue({ count: 0 });
+    expect(await heartbeatJob("job-1", "worker-1")).toBe(false);
+  });
+
+  it("only counts the attempt that claimed the job as holding it", async () => {
+    jobTable.count.mockResolvedValue(0);
+
+    expect(await holdsLease(runningJob({ attempts: 2 }))).toBe(false);
+    expect(jobTable.count).toHaveBeenCalledWith({
+      where: { id: "job-1", status: "running", lockedBy: "worker-1", attempts: 2 },
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { Prisma, type Job } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import type { EnqueueOptions, JobPayloads, JobType } from "./types";
+
+// How long a claimed job stays leased without a heartbeat
+export const LEASE_MS = 60_000;
+
+const BACKOFF_BASE_MS = 30_000;
+const BACKOFF_MAX_MS = 30 * 60_000;
+
+// Advisory lock serialising claims so concurrency keys are checked atomically
+const CLAIM_LOCK_ID = 72_431_001;
+
+/**
+ * Concurrency key allowing one audit at a time per cloud account
+ */
+export function auditConcurrencyKey(accountId: string): string {
+  return `audit:${accountId}`;
+}
+
+/**
+ * Delay before the next attempt: 30s, 1m, 2m, ... capped at 30 minutes
+ */
+export function backoffDelay(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS);
+}
+
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: EnqueueOptions = {}
+): Promise<Job> {
+  return prisma.job.create({
+    data: {
+      type,
+      payload: payload as Prisma.InputJsonObject,
+      userId: options.userId,
+      concurrencyKey: options.concurrencyKey,
+      maxAttempts: options.maxAttempts ?? 3,
+      runAt: options.runAt ?? new Date(),
+    },
+  });
+}
+
+/**
+ * Claim the next runnable job of one of the given types. A job is runnable
+ * when it is due and no other job with the same concurrency key is running.
+ */
+export async function claimJob(workerId: string, types: JobType[]): Promise<Job | null> {
+  if (types.length === 0) return null;
+
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(${CLAIM_LOCK_ID})`;
+
+    const jobs = await tx.$queryRaw<Job[]>`
+      UPDATE "Job"
+      SET "status" = 'running',
+          "attempts" = "attempts" + 1,
+          "lockedBy" = ${workerId},
+          "lockedUntil" = now() + ${`${LEASE_MS} milliseconds`}::interval,
+          "heartbeatAt" = now(),
+          "startedAt" = now(),
+          "updatedAt" = now()
+      WHERE "id" = (
+        SELECT j."id" FROM "Job" j
+        WHERE j."status" = 'queued'
+          AND j."runAt" <= now()
+          AND j."type" = ANY(${types})
+          AND (
+            j."concurrencyKey" IS NULL
+            OR NOT EXISTS (
+              SELECT 1 FROM "Job" r
+              WHERE r."concurrencyKey" = j."concurrencyKey" AND r."status" = 'running'
+            )
+          )
+        ORDER BY j."runAt" ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    return jobs[0] ?? null;
+  });
+}
+
+/**
+ * Extend the lease of a running job. Returns false when the worker no
+ * longer holds the job (lease expired and it was reclaimed).
+ */
+export async function heartbeatJob(jobId: string, workerId: string): Promise<boolean> {
+  const { count } = await prisma.job.updateMany({
+    where: { id: jobId, lockedBy: workerId, status: "running" },
+    data: {
+      heartbeatAt: new Date(),
+      lockedUntil: new Date(Date.now() + LEASE_MS),
+    },
+  });
+  return count > 0;
+}
+
+export async function completeJob(jobId: string, workerId: string, result: unknown): Promise<void> {
+  await prisma.job.updateMany({
+    where: { id: jobId, lockedBy: workerId, status: "running" },
+    data: {
+      status: "completed",
+      result: result === undefined ? Prisma.DbNull : (result as Prisma.InputJsonValue),
+      lastError: null,
+      lockedBy: null,
+      lockedUntil: null,
+      completedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Whether the attempt of a job a worker claimed still holds its lease, i.e.
+ * the job was not reclaimed and handed to another attempt in the meantime
+ */
+export async function holdsLease(job: Job): Promise<boolean> {
+  const count = await prisma.job.count({
+    where: { id: job.id, status: "running", lockedBy: job.lockedBy, attempts: job.attempts },
+  });
+  return count > 0;
+}
+
+// Running jobs whose lease ran out and whose worker has not sent a heartbeat
+// for a full lease, so it died or hung
+function expiredLeaseWhere(): Prisma.JobWhereInput {
+  const now = new Date();
+  return {
+    status: "running",
+    lockedUntil: { lt: now },
+    OR: [{ heartbeatAt: null }, { heartbeatAt: { lt: new Date(now.getTime() - LEASE_MS) } }],
+  };
+}
+
+/**
+ * Record a failed attempt. The job is re-queued with backoff until it runs
+ * out of attempts. Returns true when the job has failed permanently.
+ * Without a worker ID the job is reclaimed, which only happens while its
+ * lease is still expired.
+ */
+export async function failJob(job: Job, workerId: string | null, error: string): Promise<boolean> {
+  const exhausted = job.attempts >= job.maxAttempts;
+
+  const { count } = await prisma.job.updateMany({
+    where: {
+      id: job.id,
+      ...(workerId
+        ? { status: "running", lockedBy: workerId, attempts: job.attempts }
+        : expiredLeaseWhere()),
+    },
+    data: exhausted
+      ? {
+          status: "failed",
+          lastError: error,
+          lockedBy: null,
+          lockedUntil: null,
+          completedAt: new Date(),
+        }
+      : {
+          status: "queued",
+          lastError: error,
+          lockedBy: null,
+          lockedUntil: null,
+          runAt: new Date(Date.now() + backoffDelay(job.attempts)),
+        },
+  });
+
+  return exhausted && count > 0;
+}
+
+/**
+ * Find running jobs whose lease expired (their worker died or hung)
+ */
+export async function findExpiredJobs(): Promise<Job[]> {
+  return prisma.job.findMany({ where: expiredLeaseWhere() });
+}
+
+/**
+ * Cancel the queued (not yet started) job for an audit
+ */
+export async function cancelQueuedAuditJobs(auditId: string): Promise<number> {
+  const { count } = await prisma.job.updateMany({
+    where: {
+      type: { startsWith: "audit." },
+      status: "queued",
+      payload: { path: ["auditId"], equals: auditId },
+    },
+    data: { status: "cancelled", completedAt: new Date() },
+  });
+  return count;
+}
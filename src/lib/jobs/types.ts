@@ -0,0 +1,31 @@
+import type { Job } from "@prisma/client";
+import type { CloudProvider } from "@/types";
+
+export type { CloudProvider };
+
+// Payload accepted by each job type
+export interface JobPayloads {
+  "audit.run": { auditId: string };
+  "report.render": { auditId: string };
+  "notification.audit-alert": {
+    auditId: string;
+    cloudProvider: CloudProvider;
+    sendIndividualAlerts?: boolean;
+  };
+}
+
+export type JobType = keyof JobPayloads;
+
+export interface JobHandler<T extends JobType> {
+  // Return value is stored as the job result
+  run(payload: JobPayloads[T], job: Job): Promise<unknown>;
+  // Called once when the last attempt has failed
+  onFailed?(payload: JobPayloads[T], error: string): Promise<void>;
+}
+
+export interface EnqueueOptions {
+  userId?: string;
+  concurrencyKey?: string;
+  maxAttempts?: number;
+  runAt?: Date;
+}
@@ -0,0 +1,137 @@
+import type { Job } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const { queue, handler } = vi.hoisted(() => ({
+  queue: {
+    LEASE_MS: 60_000,
+    claimJob: vi.fn(),
+    completeJob: vi.fn(),
+    failJob: vi.fn(),
+    findExpiredJobs: vi.fn(),
+    heartbeatJob: vi.fn(),
+  },
+  handler: { run: vi.fn(), onFailed: vi.fn() },
+}));
+
+vi.mock("./queue", () => queue);
+vi.mock("./handlers", () => ({
+  JOB_HANDLERS: { "audit.run": handler, "report.render": handler, "notification.audit-alert": handler },
+}));
+
+import { startWorker, type Worker } from "./worker";
+
+function claimedJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: "job-1",
+    type: "audit.run",
+    status: "running",
+    payload: { auditId: "audit-1" },
+    attempts: 1,
+    maxAttempts: 3,
+    lockedBy: "worker-1",
+    ...overrides,
+  } as Job;
+}
+
+// Hand out the given jobs one per claim, then nothing
+function queueJobs(...jobs: Job[]) {
+  for (const job of jobs) queue.claimJob.mockResolvedValueOnce(job);
+  queue.claimJob.mockResolvedValue(null);
+}
+
+let worker: Worker | undefined;
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  queue.findExpiredJobs.mockResolvedValue([]);
+  queue.failJob.mockResolvedValue(false);
+});
+
+afterEach(async () => {
+  await worker?.stop();
+  worker = undefined;
+  vi.resetAllMocks();
+  vi.restoreAllMocks();
+});
+
+describe("startWorker", () => {
+  it("runs a claimed job and stores its result", async () => {
+    queueJobs(claimedJob());
+    handler.run.mockResolvedValue({ findings: 3 });
+
+    worker = startWorker({ workerId: "worker-1", pollIntervalMs: 10 });
+
+    await vi.waitFor(() =>
+      expect(queue.completeJob).toHaveBeenCalledWith("job-1", "worker-1", { findings: 3 })
+    );
+    expect(handler.run).toHaveBeenCalledWith({ auditId: "audit-1" }, claimedJob());
+    expect(queue.failJob).not.toHaveBeenCalled();
+  });
+
+  it("records a failed attempt without running the failure hook while attempts remain", async () => {
+    queueJobs(claimedJob());
+    handler.run.mockRejectedValue(new Error("throttled"));
+
+    worker = startWorker({ workerId: "worker-1", pollIntervalMs: 10 });
+
+    await vi.waitFor(() =>
+      expect(queue.failJob).toHaveBeenCalledWith(claimedJob(), "worker-1", "throttled")
+    );
+    expect(queue.completeJob).not.toHaveBeenCalled();
+    expect(handler.onFailed).not.toHaveBeenCalled();
+  });
+
+  it("runs the failure hook once the last attempt has failed", async () => {
+    queueJobs(claimedJob({ attempts: 3 }));
+    handler.run.mockRejectedValue(new Error("throttled"));
+    queue.failJob.mockResolvedValue(true);
+
+    worker = startWorker({ workerId: "worker-1", pollIntervalMs: 10 });
+
+    await vi.waitFor(() =>
+      expect(handler.onFailed).toHaveBeenCalledWith({ auditId: "audit-1" }, "throttled")
+    );
+  });
+
+  it("reclaims jobs whose lease expired as a failed attempt", async () => {
+    const expired = claimedJob({ lockedBy: "dead-worker" });
+    queue.findExpiredJobs.mockResolvedValueOnce([expired]).mockResolvedValue([]);
+    queueJobs();
+
+    worker = startWorker({ workerId: "worker-1", pollIntervalMs: 10 });
+
+    await vi.waitFor(() =>
+      expect(queue.failJob).toHaveBeenCalledWith(
+        expired,
+        null,
+        "Lease expired before the job finished"
+      )
+    );
+  });
+
+  it("claims only job types with free concurrency slots", async () => {
+    let finish: () => void = () => {};
+    queueJobs(claimedJob({ id: "job-1" }));
+    handler.run.mockReturnValue(new Promise<void>((resolve) => (finish = resolve)));
+
+    worker = startWorker({
+      workerId: "worker-1",
+      pollIntervalMs: 10,
+      concurrency: { "audit.run": 1 },
+    });
+
+    try {
+      await vi.waitFor(() =>
+        expect(queue.claimJob).toHaveBeenLastCalledWith("worker-1", [
+          "report.render",
+          "notification.audit-alert",
+        ])
+      );
+      expect(handler.run).toHaveBeenCalledTimes(1);
+    } finally {
+      finish();
+    }
+    await vi.waitFor(() => expect(queue.completeJob).toHaveBeenCalled());
+  });
+});
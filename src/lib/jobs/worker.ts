@@ -0,0 +1,135 @@
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import type { Job } from "@prisma/client";
+import { JOB_HANDLERS } from "./handlers";
+import {
+  LEASE_MS,
+  claimJob,
+  completeJob,
+  failJob,
+  findExpiredJobs,
+  heartbeatJob,
+} from "./queue";
+import type { JobType } from "./types";
+
+// Maximum jobs of each type a single worker runs at once
+export const DEFAULT_CONCURRENCY: Record<JobType, number> = {
+  "audit.run": 4,
+  "report.render": 2,
+  "notification.audit-alert": 4,
+};
+
+interface WorkerOptions {
+  workerId?: string;
+  pollIntervalMs?: number;
+  concurrency?: Partial<Record<JobType, number>>;
+}
+
+export interface Worker {
+  id: string;
+  stop(): Promise<void>;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function handleFailure(job: Job, workerId: string | null, error: string) {
+  const exhausted = await failJob(job, workerId, error);
+  if (!exhausted) return;
+
+  const handler = JOB_HANDLERS[job.type as JobType];
+  try {
+    await handler?.onFailed?.(job.payload as never, error);
+  } catch (hookError) {
+    console.error(`Job ${job.id} failure hook error:`, hookError);
+  }
+}
+
+/**
+ * Start polling the job queue. Jobs are leased to this worker and the
+ * lease is renewed by a heartbeat while the handler runs; jobs whose lease
+ * expires are treated as a failed attempt and retried with backoff.
+ */
+export function startWorker(options: WorkerOptions = {}): Worker {
+  const workerId = options.workerId ?? `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  const pollIntervalMs = options.pollIntervalMs ?? 2000;
+  const concurrency = { ...DEFAULT_CONCURRENCY, ...options.concurrency };
+
+  const running = new Map<string, Promise<void>>();
+  const runningByType = new Map<JobType, number>();
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const freeTypes = (): JobType[] =>
+    (Object.keys(concurrency) as JobType[]).filter(
+      (type) => (runningByType.get(type) ?? 0) < concurrency[type]
+    );
+
+  const execute = async (job: Job) => {
+    const type = job.type as JobType;
+    const handler = JOB_HANDLERS[type];
+
+    const heartbeat = setInterval(async () => {
+      try {
+        if (!(await heartbeatJob(job.id, workerId))) {
+          console.warn(`Worker ${workerId} lost lease on job ${job.id}`);
+        }
+      } catch (error) {
+        console.error(`Heartbeat failed for job ${job.id}:`, error);
+      }
+    }, LEASE_MS / 4);
+
+    try {
+      const result = await handler.run(job.payload as never, job);
+      await completeJob(job.id, workerId, result);
+    } catch (error) {
+      console.error(`Job ${job.id} (${job.type}) attempt ${job.attempts} failed:`, error);
+      await handleFailure(job, workerId, errorMessage(error));
+    } finally {
+      clearInterval(heartbeat);
+    }
+  };
+
+  const poll = async () => {
+    try {
+      for (const job of await findExpiredJobs()) {
+        console.warn(`Job ${job.id} lease expired, reclaiming`);
+        await handleFailure(job, null, "Lease expired before the job finished");
+      }
+
+      let types = freeTypes();
+      while (!stopped && types.length > 0) {
+        const job = await claimJob(workerId, types);
+        if (!job) break;
+
+        const type = job.type as JobType;
+        runningByType.set(type, (runningByType.get(type) ?? 0) + 1);
+        const promise = execute(job).finally(() => {
+          running.delete(job.id);
+          runningByType.set(type, (runningByType.get(type) ?? 1) - 1);
+        });
+        running.set(job.id, promise);
+
+        types = freeTypes();
+      }
+    } catch (error) {
+      console.error("Job worker poll failed:", error);
+    }
+
+    if (!stopped) {
+      timer = setTimeout(poll, pollIntervalMs);
+    }
+  };
+
+  poll();
+
+  return {
+    id: workerId,
+    async stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      await Promise.allSettled(running.values());
+    },
+  };
+}
@@ -0,0 +1,135 @@
+import { format } from "date-fns";
+import { prisma } from "@/lib/db";
+
+const SEVERITY_ORDER = ["CRITICAL", "HIGH", "MEDIUM", "LOW"];
+
+const ACCOUNT_LABELS: Record<string, string> = {
+  AWS: "Account",
+  GCP: "Project",
+  AZURE: "Subscription",
+};
+
+export interface RenderedReport {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+function person(user: { name: string | null; email: string } | null) {
+  return user ? user.name || user.email : "a deleted user";
+}
+
+// Table cell text; a pipe or line break would end the cell or the row
+function cell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+/**
+ * Render an audit of any provider as a Markdown report with an executive
+ * summary, phase results, the accepted risks of the audit's findings and
+ * findings grouped by severity
+ */
+export async function renderAuditReport(auditId: string): Promise<RenderedReport> {
+  const audit = await prisma.audit.findUniqueOrThrow({
+    where: { id: auditId },
+    include: {
+      account: true,
+      phases: { orderBy: { phaseNumber: "asc" } },
+      findings: true,
+    },
+  });
+
+  // The risk score leaves out the findings of the audit that are accepted
+  const acceptedFingerprints = audit.findings
+    .filter((f) => f.status === "accepted")
+    .map((f) => f.fingerprint);
+  const acceptedFindings = acceptedFingerprints.length;
+
+  // The latest approved acceptance of each accepted finding, including ones
+  // that have ended since the audit ran
+  const approvals = await prisma.riskAcceptance.findMany({
+    where: {
+      accountId: audit.accountId,
+      fingerprint: { in: acceptedFingerprints },
+      decidedAt: { not: null },
+      status: { notIn: ["pending", "rejected"] },
+    },
+    include: {
+      requester: { select: { name: true, email: true } },
+      approver: { select: { name: true, email: true } },
+    },
+    orderBy: { decidedAt: "desc" },
+  });
+  const acceptances = approvals
+    .filter((a, i) => approvals.findIndex((b) => b.fingerprint === a.fingerprint) === i)
+    .sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime());
+
+  const completedAt = audit.completedAt ?? audit.createdAt;
+  const lines: string[] = [
+    `# Security Audit Report - ${audit.account.name}`,
+    "",
+    `- **Provider:** ${audit.provider}`,
+    `- **${ACCOUNT_LABELS[audit.provider] ?? "Account"}:** ${audit.account.accountId}`,
+    `- **Status:** ${audit.status}`,
+    `- **Completed:** ${format(completedAt, "MMM d, yyyy h:mm a")}`,
+    `- **Risk score:** ${audit.riskScore ?? "N/A"}${acceptedFindings > 0 ? ` (${acceptedFindings} accepted risk${acceptedFindings === 1 ? "" : "s"} excluded)` : ""}`,
+    "",
+    "## Executive Summary",
+    "",
+    "| Critical | High | Medium | Low | Total |",
+    "| --- | --- | --- | --- | --- |",
+    `| ${audit.critical} | ${audit.high} | ${audit.medium} | ${audit.low} | ${audit.totalFindings} |`,
+    "",
+    "## Phases",
+    "",
+    "| # | Phase | Status | Findings |",
+    "| --- | --- | --- | --- |",
+    ...audit.phases.map(
+      (p) => `| ${p.phaseNumber} | ${cell(p.name)} | ${p.status} | ${p.findings} |`
+    ),
+  ];
+
+  if (acceptances.length > 0) {
+    lines.push(
+      "",
+      "## Accepted Risks",
+      "",
+      "| Check | Finding | Resource | Requested by | Approved by | Expires |",
+      "| --- | --- | --- | --- | --- | --- |",
+      ...acceptances.map(
+        (a) =>
+          `| ${cell(a.checkId)} | ${cell(a.title)} | ${cell(a.resource)} | ${cell(person(a.requester))} | ${cell(person(a.approver))} | ${format(a.expiresAt, "MMM d, yyyy")} |`
+      )
+    );
+    for (const acceptance of acceptances) {
+      lines.push("", `**${acceptance.checkId} justification:** ${acceptance.justification}`);
+    }
+  }
+
+  lines.push("", "## Findings");
+
+  for (const severity of SEVERITY_ORDER) {
+    const findings = audit.findings.filter((f) => f.severity === severity);
+    if (findings.length === 0) continue;
+
+    lines.push("", `### ${severity} (${findings.length})`);
+    for (const finding of findings) {
+      lines.push(
+        "",
+        `#### ${finding.findingId}: ${finding.title}`,
+        "",
+        `- **Resource:** ${finding.resourceArn ?? finding.resourcePath ?? finding.resourceId ?? finding.resource}`,
+        `- **Region:** ${finding.region ?? "global"}`,
+        `- **Status:** ${finding.status}`
+      );
+      if (finding.description) lines.push("", finding.description);
+      if (finding.recommendation) lines.push("", `**Recommendation:** ${finding.recommendation}`);
+    }
+  }
+
+  return {
+    filename: `audit-${audit.account.name}-${format(completedAt, "yyyy-MM-dd")}.md`,
+    contentType: "text/markdown",
+    content: lines.join("\n") + "\n",
+  };
+}
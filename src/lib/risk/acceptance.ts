@@ -0,0 +1,389 @@
+import type { Prisma, RiskAcceptance } from "@prisma/client";
+import { subDays } from "date-fns";
+import { findAccountUsers } from "@/lib/accounts";
+import { prisma } from "@/lib/db";
+import { sendRiskReviewReminder } from "@/lib/integrations";
+import { rescoreAudit } from "@/lib/scanner";
+import type { CloudProvider, FindingEventType } from "@/types";
+
+export class RiskAcceptanceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RiskAcceptanceError";
+  }
+}
+
+// Acceptances that still hold or may come to hold
+export const OPEN_ACCEPTANCE_STATUSES = ["pending", "approved"];
+
+// How long before expiry the approver is asked to review by default
+const DEFAULT_REVIEW_LEAD_DAYS = 14;
+
+export const riskAcceptanceInclude = {
+  account: { select: { name: true, provider: true, accountId: true } },
+  requester: { select: { id: true, name: true, email: true } },
+  approver: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.RiskAcceptanceInclude;
+
+interface AcceptanceDates {
+  expiresAt: Date;
+  reviewAt: Date;
+}
+
+// The trimmed comment of a request body, null when there is none
+function commentText(comment: unknown): string | null {
+  if (comment === undefined || comment === null) return null;
+  if (typeof comment !== "string") {
+    throw new RiskAcceptanceError("The comment must be text");
+  }
+  return comment.trim() || null;
+}
+
+function parseDate(value: unknown, label: string): Date | null {
+  if (value === undefined || value === null || value === "") return null;
+  const date = typeof value === "string" ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new RiskAcceptanceError(`Invalid ${label}`);
+  }
+  return date;
+}
+
+/**
+ * Validate the expiry and review dates of an acceptance. An acceptance must
+ * expire; without a review date the approver reviews it two weeks before it
+ * expires, or halfway through when it is shorter than that.
+ */
+export function parseAcceptanceDates(
+  body: { expiresAt?: unknown; reviewAt?: unknown },
+  now: Date = new Date()
+): AcceptanceDates {
+  const expiresAt = parseDate(body.expiresAt, "expiry date");
+  if (!expiresAt) {
+    throw new RiskAcceptanceError("An expiry date is required");
+  }
+  if (expiresAt <= now) {
+    throw new RiskAcceptanceError("The expiry date must be in the future");
+  }
+
+  let reviewAt = parseDate(body.reviewAt, "review date");
+  if (!reviewAt) {
+    const lead = subDays(expiresAt, DEFAULT_REVIEW_LEAD_DAYS);
+    reviewAt = lead > now ? lead : new Date((now.getTime() + expiresAt.getTime()) / 2);
+  }
+  if (reviewAt <= now || reviewAt > expiresAt) {
+    throw new RiskAcceptanceError("The review date must be between now and the expiry date");
+  }
+
+  return { expiresAt, reviewAt };
+}
+
+// The current occurrence of the finding an acceptance is about
+function findLatestOccurrence(acceptance: Pick<RiskAcceptance, "accountId" | "fingerprint">) {
+  return prisma.finding.findFirst({
+    where: { latest: true, fingerprint: acceptance.fingerprint, audit: { accountId: acceptance.accountId } },
+    select: { id: true, status: true, auditId: true },
+  });
+}
+
+function acceptanceEvent(
+  type: FindingEventType,
+  acceptance: Pick<RiskAcceptance, "accountId" | "fingerprint">,
+  actorId: string | null,
+  finding: { id: string; status: string } | null,
+  toStatus: string | null,
+  comment: string | null
+): Prisma.FindingEventCreateManyInput {
+  return {
+    type,
+    fromStatus: finding?.status ?? null,
+    toStatus: toStatus ?? finding?.status ?? null,
+    comment,
+    fingerprint: acceptance.fingerprint,
+    accountId: acceptance.accountId,
+    findingId: finding?.id,
+    actorId,
+  };
+}
+
+/**
+ * Ask a designated approver to accept the risk of a finding. Only one
+ * pending or approved acceptance may exist per finding.
+ */
+export async function requestRiskAcceptance(input: {
+  findingId: string;
+  requesterId: string;
+  approverEmail: unknown;
+  justification: unknown;
+  expiresAt?: unknown;
+  reviewAt?: unknown;
+}) {
+  const justification =
+    typeof input.justification === "string" ? input.justification.trim() : "";
+  if (!justification) {
+    throw new RiskAcceptanceError("A justification is required");
+  }
+  if (typeof input.approverEmail !== "string" || !input.approverEmail.trim()) {
+    throw new RiskAcceptanceError("An approver is required");
+  }
+  const dates = parseAcceptanceDates(input);
+
+  const finding = await prisma.finding.findUniqueOrThrow({
+    where: { id: input.findingId },
+    include: { audit: { select: { accountId: true } } },
+  });
+  const accountId = finding.audit.accountId;
+
+  // Only users who can see the finding's account may approve. The error is
+  // the same whether or not a user with the email address exists.
+  const [approver] = await findAccountUsers(accountId, [input.approverEmail.trim()]);
+  if (!approver) {
+    throw new RiskAcceptanceError("The approver must have access to the finding's account");
+  }
+  if (approver.id === input.requesterId) {
+    throw new RiskAcceptanceError("The approver must be someone other than the requester");
+  }
+
+  const existing = await prisma.riskAcceptance.findFirst({
+    where: { accountId, fingerprint: finding.fingerprint, status: { in: OPEN_ACCEPTANCE_STATUSES } },
+    select: { status: true },
+  });
+  if (existing) {
+    throw new RiskAcceptanceError(
+      existing.status === "approved"
+        ? "The risk of this finding is already accepted"
+        : "An acceptance of this finding is already awaiting approval"
+    );
+  }
+
+  const [acceptance] = await prisma.$transaction([
+    prisma.riskAcceptance.create({
+      data: {
+        justification,
+        ...dates,
+        fingerprint: finding.fingerprint,
+        checkId: finding.findingId,
+        title: finding.title,
+        severity: finding.severity,
+        resource: finding.resourceArn ?? finding.resourcePath ?? finding.resourceId ?? finding.resource,
+        accountId,
+        findingId: finding.id,
+        requesterId: input.requesterId,
+        approverId: approver.id,
+      },
+      include: riskAcceptanceInclude,
+    }),
+    prisma.findingEvent.create({
+      data: acceptanceEvent(
+        "acceptance_requested",
+        { accountId, fingerprint: finding.fingerprint },
+        input.requesterId,
+        finding,
+        null,
+        justification
+      ),
+    }),
+  ]);
+
+  return acceptance;
+}
+
+/**
+ * Approve or reject a pending acceptance. Approving accepts the current
+ * occurrence of the finding, which later audits carry forward, and takes it
+ * out of the audit's risk score. Rejecting needs a reason.
+ */
+export async function decideRiskAcceptance(
+  acceptance: RiskAcceptance,
+  approverId: string,
+  approve: boolean,
+  comment?: unknown
+) {
+  if (acceptance.status !== "pending") {
+    throw new RiskAcceptanceError(`The acceptance is already ${acceptance.status}`);
+  }
+  const reason = commentText(comment);
+  if (!approve && !reason) {
+    throw new RiskAcceptanceError("A reason is required to reject an acceptance");
+  }
+  if (approve && acceptance.expiresAt <= new Date()) {
+    throw new RiskAcceptanceError("The acceptance expired before it was approved");
+  }
+
+  const finding = await findLatestOccurrence(acceptance);
+  const status = approve ? "approved" : "rejected";
+
+  const [updated] = await prisma.$transaction([
+    prisma.riskAcceptance.update({
+      where: { id: acceptance.id },
+      data: { status, decisionComment: reason, decidedAt: new Date() },
+      include: riskAcceptanceInclude,
+    }),
+    ...(approve && finding
+      ? [
+          prisma.finding.update({
+            where: { id: finding.id },
+            data: { status: "accepted", resolvedAt: null, suppressionRuleId: null },
+          }),
+        ]
+      : []),
+    prisma.findingEvent.create({
+      data: acceptanceEvent(
+        approve ? "risk_accepted" : "acceptance_rejected",
+        acceptance,
+        approverId,
+        finding,
+        approve && finding ? "accepted" : null,
+        reason
+      ),
+    }),
+  ]);
+
+  if (approve && finding) {
+    await rescoreAudit(finding.auditId);
+  }
+  return updated;
+}
+
+/**
+ * Renew an approved acceptance after reviewing it, with new expiry and
+ * review dates
+ */
+export async function renewRiskAcceptance(
+  acceptance: RiskAcceptance,
+  dates: AcceptanceDates,
+  comment?: unknown
+) {
+  if (acceptance.status !== "approved") {
+    throw new RiskAcceptanceError("Only approved acceptances can be renewed");
+  }
+  const reviewComment = commentText(comment);
+
+  return prisma.riskAcceptance.update({
+    where: { id: acceptance.id },
+    data: {
+      ...dates,
+      reviewedAt: new Date(),
+      // The next review date gets a reminder of its own
+      reviewRemindedAt: null,
+      ...(reviewComment && { decisionComment: reviewComment }),
+    },
+    include: riskAcceptanceInclude,
+  });
+}
+
+/**
+ * End a pending or approved acceptance because it expired or was revoked.
+ * An accepted finding is reopened and counts against the risk score again.
+ */
+export async function endRiskAcceptance(
+  acceptance: RiskAcceptance,
+  status: "expired" | "revoked",
+  actorId: string | null,
+  comment?: unknown
+) {
+  const reason = commentText(comment);
+
+  // Claim the acceptance so that it is ended only once
+  const { count } = await prisma.riskAcceptance.updateMany({
+    where: { id: acceptance.id, status: { in: OPEN_ACCEPTANCE_STATUSES } },
+    data: { status },
+  });
+  if (count === 0) {
+    throw new RiskAcceptanceError("The acceptance has already ended");
+  }
+
+  const finding = await findLatestOccurrence(acceptance);
+  const reopen = acceptance.status === "approved" && finding?.status === "accepted";
+
+  await prisma.$transaction([
+    ...(reopen
+      ? [prisma.finding.update({ where: { id: finding.id }, data: { status: "open" } })]
+      : []),
+    prisma.findingEvent.create({
+      data: acceptanceEvent(
+        status === "expired" ? "acceptance_expired" : "acceptance_revoked",
+        acceptance,
+        actorId,
+        finding,
+        reopen ? "open" : null,
+        reason
+      ),
+    }),
+  ]);
+
+  if (reopen) {
+    await rescoreAudit(finding.auditId);
+  }
+  return prisma.riskAcceptance.findUniqueOrThrow({
+    where: { id: acceptance.id },
+    include: riskAcceptanceInclude,
+  });
+}
+
+/**
+ * Expire the pending and approved acceptances whose expiry date passed,
+ * reopening their findings. Safe to run in several workers at once.
+ */
+export async function expireRiskAcceptances(now: Date = new Date()): Promise<number> {
+  const due = await prisma.riskAcceptance.findMany({
+    where: { status: { in: OPEN_ACCEPTANCE_STATUSES }, expiresAt: { lte: now } },
+  });
+
+  let expired = 0;
+  for (const acceptance of due) {
+    try {
+      await endRiskAcceptance(acceptance, "expired", null);
+      expired++;
+    } catch (error) {
+      // Ended by another worker or by hand in the meantime
+      if (!(error instanceof RiskAcceptanceError)) throw error;
+    }
+  }
+  return expired;
+}
+
+/**
+ * Remind the approvers of approved acceptances whose review date passed, once
+ * per review date. An acceptance whose approver was deleted is brought to the
+ * account owner. A reminder that could not be sent, e.g. because Spike.sh is
+ * not set up, is tried again on the next run. Safe to run in several workers
+ * at once.
+ */
+export async function remindRiskReviews(now: Date = new Date()): Promise<number> {
+  const due = await prisma.riskAcceptance.findMany({
+    where: {
+      status: "approved",
+      reviewAt: { lte: now },
+      expiresAt: { gt: now },
+      reviewRemindedAt: null,
+    },
+    include: { account: { select: { name: true, provider: true, userId: true } } },
+  });
+
+  let reminded = 0;
+  for (const acceptance of due) {
+    // Claim the reminder so that no other worker sends it too
+    const { count } = await prisma.riskAcceptance.updateMany({
+      where: { id: acceptance.id, reviewRemindedAt: null },
+      data: { reviewRemindedAt: now },
+    });
+    if (count === 0) continue;
+
+    const { account } = acceptance;
+    const sent = await sendRiskReviewReminder(
+      acceptance.approverId ?? account.userId,
+      account.provider as CloudProvider,
+      account.name,
+      acceptance
+    );
+    if (sent) {
+      reminded++;
+    } else {
+      await prisma.riskAcceptance.updateMany({
+        where: { id: acceptance.id, reviewRemindedAt: now },
+        data: { reviewRemindedAt: null },
+      });
+    }
+  }
+  return reminded;
+}
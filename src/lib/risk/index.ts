@@ -0,0 +1,12 @@
+export {
+  requestRiskAcceptance,
+  decideRiskAcceptance,
+  renewRiskAcceptance,
+  endRiskAcceptance,
+  expireRiskAcceptances,
+  remindRiskReviews,
+  parseAcceptanceDates,
+  riskAcceptanceInclude,
+  RiskAcceptanceError,
+  OPEN_ACCEPTANCE_STATUSES,
+} from "./acceptance";
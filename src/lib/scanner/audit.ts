@@ -0,0 +1,482 @@
+import { prisma } from "@/lib/db";
+import { loadSlaPolicy } from "@/lib/sla";
+import { applySuppressionRules, loadActiveRules } from "@/lib/suppressions";
+import { isVerified, UNVERIFIED_ACCOUNT_ERROR } from "@/lib/verification";
+import type { CloudProvider } from "@/types";
+import { awsScanner } from "./aws";
+import { azureScanner } from "./azure";
+import { errorMessage } from "./errors";
+import { gcpScanner } from "./gcp";
+import { resolveMissingFindings, trackFindings } from "./lifecycle";
+import { getChecks, getPhases } from "./registry";
+import { mapRegions, runPhaseChecks } from "./run-checks";
+import {
+  calculateComplianceScore,
+  calculateRiskScore,
+  countBySeverity,
+  countCheckResults,
+  subtractCounts,
+  sumCheckCounts,
+  sumCounts,
+} from "./scoring";
+import type { AuditRunResult, ProviderScanner, ScanTarget, SeverityCounts } from "./types";
+
+const SCANNERS: Record<CloudProvider, ProviderScanner<unknown>> = {
+  AWS: awsScanner,
+  GCP: gcpScanner,
+  AZURE: azureScanner,
+};
+
+export const AUDIT_CANCELLED_MESSAGE = "Cancelled by user";
+
+function getScanner(provider: string): ProviderScanner<unknown> {
+  const scanner = SCANNERS[provider as CloudProvider];
+  if (!scanner) {
+    throw new Error(`Unknown provider ${provider}`);
+  }
+  return scanner;
+}
+
+/**
+ * Create a pending audit for a cloud account with one pending phase per
+ * selected phase that has registered checks (all of them when none are given)
+ */
+export async function createAudit(accountId: string, phaseNumbers?: number[]) {
+  const account = await prisma.cloudAccount.findUniqueOrThrow({
+    where: { id: accountId },
+    select: { provider: true },
+  });
+  const phases = getPhases(account.provider as CloudProvider).filter(
+    (p) => !phaseNumbers?.length || phaseNumbers.includes(p.number)
+  );
+  if (phases.length === 0) {
+    throw new Error("None of the selected phases exist for this provider");
+  }
+
+  return prisma.audit.create({
+    data: {
+      accountId,
+      provider: account.provider,
+      status: "pending",
+      phases: {
+        create: phases.map((phase) => ({
+          phaseNumber: phase.number,
+          name: phase.name,
+          status: "pending",
+        })),
+      },
+    },
+  });
+}
+
+function elapsedSeconds(since: Date): number {
+  return Math.round((Date.now() - since.getTime()) / 1000);
+}
+
+export interface RunAuditOptions {
+  // Checked between phases; once true the run stops without finishing the
+  // audit, e.g. because its job was handed to another worker
+  leaseLost?: () => Promise<boolean>;
+}
+
+/**
+ * Run every unfinished phase of an audit against its cloud account, fanning
+ * regional checks out across the scan regions, and persist phase results,
+ * findings and the audit totals
+ */
+export async function runAudit(
+  auditId: string,
+  { leaseLost }: RunAuditOptions = {}
+): Promise<AuditRunResult> {
+  const audit = await prisma.audit.findUniqueOrThrow({
+    where: { id: auditId },
+    include: {
+      account: true,
+      phases: {
+        where: { status: { in: ["pending", "running"] } },
+        orderBy: { phaseNumber: "asc" },
+      },
+    },
+  });
+  const { account, provider } = audit;
+  const scanner = getScanner(provider);
+
+  // A running audit is resumed, e.g. after its worker died mid-phase
+  if (audit.status !== "pending" && audit.status !== "running") {
+    throw new Error(`Audit ${auditId} is ${audit.status}, expected pending or running`);
+  }
+
+  // Only a still unfinished audit is claimed, so a cancellation that lands
+  // after the check above is not overwritten
+  const startedAt = audit.startedAt ?? new Date();
+  const { count } = await prisma.audit.updateMany({
+    where: { id: auditId, status: { in: ["pending", "running"] } },
+    data: { status: "running", startedAt, completedAt: null, errorMessage: null },
+  });
+  if (count === 0) {
+    throw new Error(`Audit ${auditId} finished before it could be started`);
+  }
+
+  // Credentials that were changed or never checked may belong to a cloud
+  // account other than the one this account names
+  if (!isVerified(account)) {
+    return finishAudit(auditId, startedAt, UNVERIFIED_ACCOUNT_ERROR);
+  }
+
+  // A retried audit keeps the regions it started with
+  let target: ScanTarget<unknown>;
+  try {
+    target = await scanner.connect(account, audit.regions);
+  } catch (error) {
+    return finishAudit(auditId, startedAt, errorMessage(error));
+  }
+  if (audit.regions.length === 0 && target.regions.length > 0) {
+    await prisma.audit.update({ where: { id: auditId }, data: { regions: target.regions } });
+  }
+
+  const checkOptions = { isPermissionError: scanner.isPermissionError };
+  const suppressionRules = await loadActiveRules(account.userId, account.id);
+  const slaPolicy = await loadSlaPolicy(account.userId);
+
+  for (const phase of audit.phases) {
+    if (await leaseLost?.()) {
+      throw new Error(`Audit ${auditId} is being run by another worker`);
+    }
+    // Stop between phases once the audit has been cancelled
+    if (await isCancelled(auditId)) {
+      return finishAudit(auditId, startedAt, AUDIT_CANCELLED_MESSAGE);
+    }
+
+    const phaseStartedAt = new Date();
+    const checks = getChecks<unknown>(provider as CloudProvider, phase.phaseNumber);
+
+    if (checks.length === 0) {
+      await prisma.phase.update({
+        where: { id: phase.id },
+        data: {
+          status: "skipped",
+          errorMessage: "No automated checks available for this phase",
+          completedAt: phaseStartedAt,
+        },
+      });
+      continue;
+    }
+
+    await prisma.phase.update({
+      where: { id: phase.id },
+      data: { status: "running", startedAt: phaseStartedAt, errorMessage: null },
+    });
+
+    try {
+      // Global checks run once; regional checks fan out across regions
+      const globalResults = await runPhaseChecks(
+        checks.filter((c) => !c.regional),
+        target.global,
+        checkOptions
+      );
+      const regionalChecks = checks.filter((c) => c.regional);
+      const regionalResults =
+        regionalChecks.length === 0
+          ? []
+          : await mapRegions(
+              target.regional.map((ctx, i) => ({ ctx, region: target.regions[i] })),
+              async ({ ctx, region }) =>
+                (await runPhaseChecks(regionalChecks, ctx, checkOptions)).map((r) => ({
+                  ...r,
+                  region,
+                }))
+            );
+      const results = [...globalResults, ...regionalResults.flat()];
+
+      const tracked = await trackFindings(
+        account.id,
+        auditId,
+        results.flatMap((r) =>
+          r.findings.map((finding) => ({
+            ...finding,
+            region: finding.region ?? r.region ?? account.region,
+          }))
+        ),
+        slaPolicy
+      );
+      const { findings, events } = applySuppressionRules(
+        suppressionRules,
+        account.id,
+        tracked.findings
+      );
+      const counts = countBySeverity(findings);
+      const checkCounts = countCheckResults(results);
+      const checkErrors = results
+        .filter((r) => r.message)
+        .map((r) => `${r.checkId}${r.region ? ` (${r.region})` : ""}: ${r.message}`)
+        .join("; ");
+
+      // Partial results are kept. A phase where no check could be evaluated
+      // fails when a check errored and is skipped when all lacked permissions.
+      const evaluated = checkCounts.passedChecks + checkCounts.failedChecks;
+      const status =
+        evaluated > 0 ? "completed" : checkCounts.erroredChecks > 0 ? "failed" : "skipped";
+
+      await prisma.$transaction([
+        prisma.finding.updateMany({
+          where: { id: { in: tracked.supersededIds } },
+          data: { latest: false },
+        }),
+        prisma.finding.createMany({
+          data: findings.map((finding) => ({
+            ...finding,
+            provider,
+            auditId,
+            phaseId: phase.id,
+          })),
+        }),
+        prisma.findingEvent.createMany({ data: [...tracked.events, ...events] }),
+        prisma.checkResult.createMany({
+          data: results.map((r) => ({
+            checkId: r.checkId,
+            status: r.status,
+            severity: r.severity,
+            findings: r.findings.length,
+            message: r.message,
+            duration: r.duration,
+            region: r.region,
+            auditId,
+            phaseId: phase.id,
+          })),
+        }),
+        prisma.phase.update({
+          where: { id: phase.id },
+          data: {
+            ...counts,
+            ...checkCounts,
+            status,
+            errorMessage: checkErrors || null,
+            duration: elapsedSeconds(phaseStartedAt),
+            completedAt: new Date(),
+          },
+        }),
+      ]);
+    } catch (error) {
+      console.error(`${provider} audit ${auditId} phase ${phase.phaseNumber} failed:`, error);
+      await prisma.phase.update({
+        where: { id: phase.id },
+        data: {
+          status: "failed",
+          errorMessage: errorMessage(error),
+          duration: elapsedSeconds(phaseStartedAt),
+          completedAt: new Date(),
+        },
+      });
+    }
+  }
+
+  if (await leaseLost?.()) {
+    throw new Error(`Audit ${auditId} is being run by another worker`);
+  }
+  const cancelled = await isCancelled(auditId);
+  return finishAudit(auditId, startedAt, cancelled ? AUDIT_CANCELLED_MESSAGE : undefined);
+}
+
+async function isCancelled(auditId: string): Promise<boolean> {
+  const audit = await prisma.audit.findUnique({
+    where: { id: auditId },
+    select: { errorMessage: true },
+  });
+  return audit?.errorMessage === AUDIT_CANCELLED_MESSAGE;
+}
+
+/**
+ * Cancel a pending or running audit. Phases that have not started are
+ * skipped; the phase in progress finishes and the runner stops after it.
+ */
+export async function cancelAudit(auditId: string) {
+  const [, audit] = await prisma.$transaction([
+    prisma.phase.updateMany({
+      where: { auditId, status: "pending" },
+      data: { status: "skipped", errorMessage: AUDIT_CANCELLED_MESSAGE },
+    }),
+    prisma.audit.update({
+      where: { id: auditId },
+      data: { status: "failed", errorMessage: AUDIT_CANCELLED_MESSAGE, completedAt: new Date() },
+    }),
+  ]);
+  return audit;
+}
+
+/**
+ * Reset the failed phases of a finished audit to pending so the next
+ * runAudit call only re-runs those phases. Returns the number reset.
+ */
+export async function retryAudit(auditId: string): Promise<number> {
+  const [, reset] = await prisma.$transaction([
+    prisma.checkResult.deleteMany({
+      where: { auditId, phase: { status: "failed" } },
+    }),
+    prisma.phase.updateMany({
+      where: { auditId, status: "failed" },
+      data: {
+        status: "pending",
+        passedChecks: 0,
+        failedChecks: 0,
+        skippedChecks: 0,
+        erroredChecks: 0,
+        errorMessage: null,
+        duration: null,
+        startedAt: null,
+        completedAt: null,
+      },
+    }),
+    prisma.audit.update({
+      where: { id: auditId },
+      data: { status: "pending", errorMessage: null, completedAt: null },
+    }),
+  ]);
+  return reset.count;
+}
+
+/**
+ * Roll phase counts up into the audit, compute the compliance score from the
+ * check pass rate, resolve findings the audit no longer raised and update the
+ * account health score.
+ * An audit fails when authentication fails or when no phase completed. Phases
+ * it did not get to then fail with it, so they can be retried, or are skipped
+ * when it was cancelled.
+ */
+async function finishAudit(
+  auditId: string,
+  startedAt: Date,
+  failureReason?: string
+): Promise<AuditRunResult> {
+  if (failureReason) {
+    await prisma.phase.updateMany({
+      where: { auditId, status: { in: ["pending", "running"] } },
+      data: {
+        status: failureReason === AUDIT_CANCELLED_MESSAGE ? "skipped" : "failed",
+        errorMessage: failureReason,
+        completedAt: new Date(),
+      },
+    });
+  }
+  await recordRegionResults(auditId);
+
+  const phases = await prisma.phase.findMany({ where: { auditId } });
+  const totals = sumCounts(phases);
+  const riskScore = await scoreAudit(auditId, totals);
+  const checkTotals = sumCheckCounts(phases);
+  const complianceScore = calculateComplianceScore(checkTotals);
+  const duration = elapsedSeconds(startedAt);
+
+  const ranChecks = phases.some((p) => p.status === "completed" || p.status === "failed");
+  const anyCompleted = phases.some((p) => p.status === "completed");
+  const failed = Boolean(failureReason) || (ranChecks && !anyCompleted);
+  const status = failed ? "failed" : "completed";
+
+  const audit = await prisma.audit.update({
+    where: { id: auditId },
+    data: {
+      status,
+      totalFindings: totals.findings,
+      critical: totals.critical,
+      high: totals.high,
+      medium: totals.medium,
+      low: totals.low,
+      riskScore,
+      ...checkTotals,
+      complianceScore,
+      duration,
+      errorMessage: failureReason ?? (failed ? "All phases failed" : null),
+      completedAt: new Date(),
+    },
+  });
+
+  await resolveMissingFindings(audit.accountId, auditId);
+
+  if (!failed) {
+    await prisma.cloudAccount.update({
+      where: { id: audit.accountId },
+      data: { lastScanAt: new Date(), healthScore: riskScore },
+    });
+  }
+
+  return { auditId, status, totalFindings: totals.findings, riskScore, duration };
+}
+
+/**
+ * Risk score of an audit. Accepted risks still count as findings but no
+ * longer weigh on the score.
+ */
+async function scoreAudit(auditId: string, totals: SeverityCounts): Promise<number> {
+  const accepted = await prisma.finding.findMany({
+    where: { auditId, status: "accepted" },
+    select: { severity: true },
+  });
+  return calculateRiskScore(subtractCounts(totals, countBySeverity(accepted)));
+}
+
+/**
+ * Recompute the risk score of a finished audit once some of its findings
+ * were accepted or stopped being accepted, and the account health score when
+ * it is the latest completed audit of the account
+ */
+export async function rescoreAudit(auditId: string): Promise<number | null> {
+  const audit = await prisma.audit.findUniqueOrThrow({ where: { id: auditId } });
+  if (audit.status !== "completed") return null;
+
+  const riskScore = await scoreAudit(auditId, {
+    findings: audit.totalFindings,
+    critical: audit.critical,
+    high: audit.high,
+    medium: audit.medium,
+    low: audit.low,
+  });
+  const latest = await prisma.audit.findFirst({
+    where: { accountId: audit.accountId, status: "completed" },
+    orderBy: { createdAt: "desc" },
+    select: { id: true },
+  });
+
+  await prisma.$transaction([
+    prisma.audit.update({ where: { id: auditId }, data: { riskScore } }),
+    ...(latest?.id === auditId
+      ? [
+          prisma.cloudAccount.update({
+            where: { id: audit.accountId },
+            data: { healthScore: riskScore },
+          }),
+        ]
+      : []),
+  ]);
+  return riskScore;
+}
+
+/**
+ * Summarise the regional check results of an audit per region. A region
+ * fails when none of its checks could be evaluated because they errored,
+ * e.g. when the region is unreachable.
+ */
+async function recordRegionResults(auditId: string) {
+  const [audit, results] = await Promise.all([
+    prisma.audit.findUniqueOrThrow({ where: { id: auditId }, select: { regions: true } }),
+    prisma.checkResult.findMany({ where: { auditId, region: { not: null } } }),
+  ]);
+
+  const regionResults = audit.regions.map((region) => {
+    const inRegion = results.filter((r) => r.region === region);
+    const errored = inRegion.filter((r) => r.status === "error");
+    const evaluated = inRegion.filter((r) => r.status === "pass" || r.status === "fail");
+
+    return {
+      auditId,
+      region,
+      status: errored.length > 0 && evaluated.length === 0 ? "failed" : "completed",
+      findings: inRegion.reduce((sum, r) => sum + r.findings, 0),
+      erroredChecks: errored.length,
+      errorMessage: errored.map((r) => `${r.checkId}: ${r.message}`).join("; ") || null,
+    };
+  });
+
+  await prisma.$transaction([
+    prisma.regionResult.deleteMany({ where: { auditId } }),
+    prisma.regionResult.createMany({ data: regionResults }),
+  ]);
+}
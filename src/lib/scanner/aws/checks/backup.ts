@@ -0,0 +1,57 @@
+import { DescribeSnapshotAttributeCommand, type Snapshot } from "@aws-sdk/client-ec2";
+import type { CheckViolation } from "../../types";
+import { listSnapshots, tagMap } from "../resources";
+import type { AwsCheck, AwsScanContext } from "../types";
+
+function snapshotResource({ accountId, region }: AwsScanContext, snapshot: Snapshot): CheckViolation {
+  return {
+    resource: snapshot.SnapshotId!,
+    resourceType: "AWS::EC2::Snapshot",
+    resourceArn: `arn:aws:ec2:${region}:${accountId}:snapshot/${snapshot.SnapshotId}`,
+    region,
+    tags: tagMap(snapshot.Tags),
+  };
+}
+
+// Phase 13: Backup & Disaster Recovery
+export const backupChecks: AwsCheck[] = [
+  {
+    id: "BKP-C01",
+    phase: 13,
+    provider: "AWS",
+    regional: true,
+    severity: "CRITICAL",
+    title: "EBS snapshot is publicly shared",
+    description: "Any AWS account can create a volume from this snapshot and read its data.",
+    recommendation: "1. Open EC2 Console → Snapshots. 2. Modify permissions. 3. Set the snapshot to Private.",
+    async evaluate(ctx) {
+      const violations: CheckViolation[] = [];
+      for (const snapshot of await listSnapshots(ctx)) {
+        const { CreateVolumePermissions } = await ctx.clients.ec2.send(
+          new DescribeSnapshotAttributeCommand({
+            SnapshotId: snapshot.SnapshotId,
+            Attribute: "createVolumePermission",
+          })
+        );
+        if (CreateVolumePermissions?.some((p) => p.Group === "all")) {
+          violations.push(snapshotResource(ctx, snapshot));
+        }
+      }
+      return violations;
+    },
+  },
+  {
+    id: "BKP-M01",
+    phase: 13,
+    provider: "AWS",
+    regional: true,
+    severity: "MEDIUM",
+    title: "EBS snapshot not encrypted",
+    description: "The snapshot is stored unencrypted, so any copy or share exposes its data.",
+    recommendation: "Copy the snapshot with encryption enabled and delete the unencrypted original.",
+    async evaluate(ctx) {
+      const snapshots = await listSnapshots(ctx);
+      return snapshots.filter((s) => !s.Encrypted).map((s) => snapshotResource(ctx, s));
+    },
+  },
+];
@@ -0,0 +1,97 @@
+import { GetEbsEncryptionByDefaultCommand, type Instance } from "@aws-sdk/client-ec2";
+import type { CheckViolation } from "../../types";
+import { listInstances, listVolumes, tagMap } from "../resources";
+import type { AwsCheck, AwsScanContext } from "../types";
+
+function instanceResource({ accountId, region }: AwsScanContext, instance: Instance): CheckViolation {
+  return {
+    resource: instance.InstanceId!,
+    resourceType: "AWS::EC2::Instance",
+    resourceArn: `arn:aws:ec2:${region}:${accountId}:instance/${instance.InstanceId}`,
+    region,
+    tags: tagMap(instance.Tags),
+  };
+}
+
+// Phase 5: Compute & Container Security
+export const computeChecks: AwsCheck[] = [
+  {
+    id: "EC2-M01",
+    phase: 5,
+    provider: "AWS",
+    regional: true,
+    severity: "MEDIUM",
+    title: "EBS encryption by default disabled",
+    description: "New EBS volumes in this region are not encrypted unless encryption is requested explicitly.",
+    recommendation: "1. Open EC2 Console → Settings → EBS encryption. 2. Enable 'Always encrypt new EBS volumes'.",
+    async evaluate({ clients, accountId, region }) {
+      const { EbsEncryptionByDefault } = await clients.ec2.send(new GetEbsEncryptionByDefaultCommand({}));
+      if (EbsEncryptionByDefault) return [];
+      return [
+        {
+          resource: region,
+          resourceType: "AWS::EC2::Region",
+          resourceArn: `arn:aws:ec2:${region}:${accountId}`,
+          region,
+        },
+      ];
+    },
+  },
+  {
+    id: "EC2-H01",
+    phase: 5,
+    provider: "AWS",
+    regional: true,
+    severity: "HIGH",
+    title: "EBS volume encryption disabled",
+    description: "EBS volume is not encrypted, exposing data if physical media is compromised.",
+    recommendation: "1. Create encrypted snapshot. 2. Create new encrypted volume. 3. Replace unencrypted volume.",
+    async evaluate(ctx) {
+      const volumes = await listVolumes(ctx);
+      return volumes
+        .filter((v) => !v.Encrypted)
+        .map((v) => ({
+          resource: v.VolumeId!,
+          resourceType: "AWS::EC2::Volume",
+          resourceArn: `arn:aws:ec2:${ctx.region}:${ctx.accountId}:volume/${v.VolumeId}`,
+          region: ctx.region,
+          tags: tagMap(v.Tags),
+        }));
+    },
+  },
+  {
+    id: "EC2-H02",
+    phase: 5,
+    provider: "AWS",
+    regional: true,
+    severity: "HIGH",
+    title: "EC2 instance allows IMDSv1",
+    description: "The instance metadata service accepts unauthenticated IMDSv1 requests, which can leak role credentials through SSRF.",
+    recommendation: "1. Select the instance → Actions → Instance settings → Modify instance metadata options. 2. Set IMDSv2 to Required.",
+    async evaluate(ctx) {
+      const instances = await listInstances(ctx);
+      return instances
+        .filter((i) => i.MetadataOptions?.HttpTokens !== "required")
+        .map((i) => instanceResource(ctx, i));
+    },
+  },
+  {
+    id: "EC2-M02",
+    phase: 5,
+    provider: "AWS",
+    regional: true,
+    severity: "MEDIUM",
+    title: "EC2 instance has a public IP address",
+    description: "The instance is directly reachable from the internet.",
+    recommendation: "Place the instance in a private subnet behind a load balancer or NAT, and reach it through SSM Session Manager.",
+    async evaluate(ctx) {
+      const instances = await listInstances(ctx);
+      return instances
+        .filter((i) => i.PublicIpAddress)
+        .map((i) => ({
+          ...instanceResource(ctx, i),
+          description: `The instance is directly reachable from the internet at ${i.PublicIpAddress}.`,
+        }));
+    },
+  },
+];
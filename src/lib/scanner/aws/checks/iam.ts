@@ -0,0 +1,193 @@
+import {
+  GetAccountPasswordPolicyCommand,
+  GetAccountSummaryCommand,
+  ListAccessKeysCommand,
+  ListAttachedUserPoliciesCommand,
+  ListMFADevicesCommand,
+  type PasswordPolicy,
+  type User,
+} from "@aws-sdk/client-iam";
+import type { CheckViolation } from "../../types";
+import { isAwsError } from "../errors";
+import { listIamUsers } from "../resources";
+import type { AwsCheck, AwsScanContext } from "../types";
+
+const ACCESS_KEY_MAX_AGE_DAYS = 90;
+const MIN_PASSWORD_LENGTH = 14;
+
+function accountSummary({ clients, cache }: AwsScanContext) {
+  return cache.get("iam:account-summary", async () => {
+    const { SummaryMap } = await clients.iam.send(new GetAccountSummaryCommand({}));
+    return SummaryMap ?? {};
+  });
+}
+
+// null when the account has no password policy at all
+function passwordPolicy({ clients, cache }: AwsScanContext) {
+  return cache.get("iam:password-policy", async (): Promise<PasswordPolicy | null> => {
+    try {
+      const { PasswordPolicy: policy } = await clients.iam.send(new GetAccountPasswordPolicyCommand({}));
+      return policy ?? null;
+    } catch (error) {
+      if (isAwsError(error, "NoSuchEntityException", "NoSuchEntity")) return null;
+      throw error;
+    }
+  });
+}
+
+function rootAccount(accountId: string): CheckViolation {
+  return {
+    resource: "Root Account",
+    resourceType: "AWS::IAM::Root",
+    resourceArn: `arn:aws:iam::${accountId}:root`,
+  };
+}
+
+function passwordPolicyResource(accountId: string): CheckViolation {
+  return {
+    resource: "Account Password Policy",
+    resourceType: "AWS::IAM::PasswordPolicy",
+    resourceArn: `arn:aws:iam::${accountId}:account`,
+  };
+}
+
+function iamUser(user: User): CheckViolation {
+  return { resource: user.UserName!, resourceType: "AWS::IAM::User", resourceArn: user.Arn };
+}
+
+// Phase 1: Identity & Access Management
+export const iamChecks: AwsCheck[] = [
+  {
+    id: "IAM-C01",
+    phase: 1,
+    provider: "AWS",
+    severity: "CRITICAL",
+    title: "Root account has no MFA enabled",
+    description: "The AWS root account does not have Multi-Factor Authentication (MFA) enabled. Root accounts have unrestricted access to all resources.",
+    recommendation: "1. Sign in as root user. 2. Navigate to IAM → Security credentials. 3. Click 'Activate MFA'. 4. Choose hardware or virtual MFA. 5. Complete setup wizard.",
+    async evaluate(ctx) {
+      const summary = await accountSummary(ctx);
+      return summary.AccountMFAEnabled === 1 ? [] : [rootAccount(ctx.accountId)];
+    },
+  },
+  {
+    id: "IAM-C02",
+    phase: 1,
+    provider: "AWS",
+    severity: "CRITICAL",
+    title: "Root account has active access keys",
+    description: "Access keys exist for the root account. Leaked root keys give an attacker full control of the account.",
+    recommendation: "1. Sign in as root user. 2. Open Security credentials. 3. Delete all root access keys. 4. Use IAM roles for programmatic access.",
+    async evaluate(ctx) {
+      const summary = await accountSummary(ctx);
+      return (summary.AccountAccessKeysPresent ?? 0) > 0 ? [rootAccount(ctx.accountId)] : [];
+    },
+  },
+  {
+    id: "IAM-H02",
+    phase: 1,
+    provider: "AWS",
+    severity: "HIGH",
+    title: "No IAM password policy configured",
+    description: "The account has no password policy, so IAM users can set passwords of any length and complexity.",
+    recommendation: "1. Open IAM → Account settings. 2. Set a password policy requiring 14+ characters, symbols, numbers and mixed case.",
+    async evaluate(ctx) {
+      const policy = await passwordPolicy(ctx);
+      return policy ? [] : [passwordPolicyResource(ctx.accountId)];
+    },
+  },
+  {
+    id: "IAM-M01",
+    phase: 1,
+    provider: "AWS",
+    severity: "MEDIUM",
+    title: "IAM password policy allows weak passwords",
+    description: `Password policy does not enforce minimum ${MIN_PASSWORD_LENGTH} characters and complexity.`,
+    recommendation: "Configure IAM password policy with strong requirements.",
+    async evaluate(ctx) {
+      // A missing policy is reported by IAM-H02
+      const policy = await passwordPolicy(ctx);
+      if (!policy) return [];
+
+      const isWeak =
+        (policy.MinimumPasswordLength ?? 0) < MIN_PASSWORD_LENGTH ||
+        !policy.RequireSymbols ||
+        !policy.RequireNumbers ||
+        !policy.RequireUppercaseCharacters ||
+        !policy.RequireLowercaseCharacters;
+      return isWeak ? [passwordPolicyResource(ctx.accountId)] : [];
+    },
+  },
+  {
+    id: "IAM-H01",
+    phase: 1,
+    provider: "AWS",
+    severity: "HIGH",
+    title: "IAM user with full administrator access",
+    description: "An IAM user has AdministratorAccess policy attached, granting unrestricted access to all AWS services.",
+    recommendation: "1. Review CloudTrail logs for actual usage. 2. Create custom policy with required permissions only. 3. Remove AdministratorAccess.",
+    async evaluate(ctx) {
+      const violations: CheckViolation[] = [];
+      for (const user of await listIamUsers(ctx)) {
+        const { AttachedPolicies } = await ctx.clients.iam.send(
+          new ListAttachedUserPoliciesCommand({ UserName: user.UserName })
+        );
+        if (AttachedPolicies?.some((p) => p.PolicyName === "AdministratorAccess")) {
+          violations.push(iamUser(user));
+        }
+      }
+      return violations;
+    },
+  },
+  {
+    id: "IAM-H03",
+    phase: 1,
+    provider: "AWS",
+    severity: "HIGH",
+    title: "Console user without MFA",
+    description: "An IAM user with console access has no MFA device registered.",
+    recommendation: "1. Open IAM → Users. 2. Select the user → Security credentials. 3. Assign an MFA device or enforce MFA with an IAM policy.",
+    async evaluate(ctx) {
+      const violations: CheckViolation[] = [];
+      for (const user of await listIamUsers(ctx)) {
+        // PasswordLastUsed is only set for users who sign in to the console
+        if (!user.PasswordLastUsed) continue;
+        const { MFADevices } = await ctx.clients.iam.send(
+          new ListMFADevicesCommand({ UserName: user.UserName })
+        );
+        if ((MFADevices?.length ?? 0) === 0) violations.push(iamUser(user));
+      }
+      return violations;
+    },
+  },
+  {
+    id: "IAM-M02",
+    phase: 1,
+    provider: "AWS",
+    severity: "MEDIUM",
+    title: `Access key older than ${ACCESS_KEY_MAX_AGE_DAYS} days`,
+    description: `An active access key has not been rotated in ${ACCESS_KEY_MAX_AGE_DAYS} days.`,
+    recommendation: "1. Create a new access key. 2. Update applications to use it. 3. Deactivate and delete the old key.",
+    async evaluate(ctx) {
+      const violations: CheckViolation[] = [];
+      for (const user of await listIamUsers(ctx)) {
+        const { AccessKeyMetadata } = await ctx.clients.iam.send(
+          new ListAccessKeysCommand({ UserName: user.UserName })
+        );
+        for (const key of AccessKeyMetadata ?? []) {
+          if (key.Status !== "Active" || !key.CreateDate) continue;
+          const ageDays = (Date.now() - key.CreateDate.getTime()) / 86_400_000;
+          if (ageDays > ACCESS_KEY_MAX_AGE_DAYS) {
+            violations.push({
+              resource: key.AccessKeyId!,
+              resourceType: "AWS::IAM::AccessKey",
+              resourceArn: user.Arn,
+              description: `Active access key ${key.AccessKeyId} of user ${user.UserName} is ${Math.floor(ageDays)} days old and has not been rotated.`,
+            });
+          }
+        }
+      }
+      return violations;
+    },
+  },
+];
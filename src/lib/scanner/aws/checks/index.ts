@@ -0,0 +1,19 @@
+import { registerChecks } from "../../registry";
+import type { AwsCheck } from "../types";
+import { backupChecks } from "./backup";
+import { computeChecks } from "./compute";
+import { iamChecks } from "./iam";
+import { networkChecks } from "./network";
+import { optimizationChecks } from "./optimization";
+import { s3Checks } from "./s3";
+
+export const AWS_CHECKS: AwsCheck[] = [
+  ...iamChecks,
+  ...s3Checks,
+  ...networkChecks,
+  ...computeChecks,
+  ...backupChecks,
+  ...optimizationChecks,
+];
+
+registerChecks(...AWS_CHECKS);
@@ -0,0 +1,172 @@
+import {
+  DescribeFlowLogsCommand,
+  paginateDescribeNetworkAcls,
+  paginateDescribeVpcs,
+  type IpPermission,
+  type SecurityGroup,
+} from "@aws-sdk/client-ec2";
+import type { CheckViolation } from "../../types";
+import { listSecurityGroups, tagMap } from "../resources";
+import type { AwsCheck, AwsScanContext } from "../types";
+
+// Administrative ports that should never be open to the internet
+const SENSITIVE_PORTS: Record<number, string> = {
+  22: "SSH",
+  3389: "RDP",
+};
+
+function isOpenToWorld(permission: IpPermission): boolean {
+  return (
+    (permission.IpRanges ?? []).some((r) => r.CidrIp === "0.0.0.0/0") ||
+    (permission.Ipv6Ranges ?? []).some((r) => r.CidrIpv6 === "::/0")
+  );
+}
+
+function coversPort(permission: IpPermission, port: number): boolean {
+  if (permission.IpProtocol === "-1") return true;
+  const from = permission.FromPort ?? 0;
+  const to = permission.ToPort ?? 65535;
+  return from <= port && port <= to;
+}
+
+function allowsAllFromWorld(group: SecurityGroup): boolean {
+  return (group.IpPermissions ?? []).some((p) => isOpenToWorld(p) && p.IpProtocol === "-1");
+}
+
+function securityGroupResource({ accountId, region }: AwsScanContext, group: SecurityGroup): CheckViolation {
+  return {
+    resource: group.GroupId!,
+    resourceType: "AWS::EC2::SecurityGroup",
+    resourceArn: `arn:aws:ec2:${region}:${accountId}:security-group/${group.GroupId}`,
+    region,
+    tags: tagMap(group.Tags),
+  };
+}
+
+// Phase 3: Network Security
+export const networkChecks: AwsCheck[] = [
+  {
+    id: "NET-C02",
+    phase: 3,
+    provider: "AWS",
+    regional: true,
+    severity: "CRITICAL",
+    title: "Security group allows all traffic from 0.0.0.0/0",
+    description: "A security group rule allows every protocol and port from any IP address.",
+    recommendation: "1. Open EC2 Console → Security Groups. 2. Remove the allow-all inbound rule. 3. Add rules only for required ports and sources.",
+    async evaluate(ctx) {
+      const groups = await listSecurityGroups(ctx);
+      return groups.filter(allowsAllFromWorld).map((g) => securityGroupResource(ctx, g));
+    },
+  },
+  {
+    id: "NET-C01",
+    phase: 3,
+    provider: "AWS",
+    regional: true,
+    severity: "CRITICAL",
+    title: "Security group allows 0.0.0.0/0 on administrative ports",
+    description: "A security group rule allows SSH or RDP access from any IP address, exposing instances to brute force attacks.",
+    recommendation: "1. Open EC2 Console → Security Groups. 2. Edit inbound rules. 3. Restrict SSH/RDP to specific IPs. 4. Consider using AWS SSM Session Manager.",
+    async evaluate(ctx) {
+      const violations: CheckViolation[] = [];
+      for (const group of await listSecurityGroups(ctx)) {
+        // Allow-all rules are reported by NET-C02
+        if (allowsAllFromWorld(group)) continue;
+
+        const publicRules = (group.IpPermissions ?? []).filter(isOpenToWorld);
+        const exposed = Object.entries(SENSITIVE_PORTS).filter(([port]) =>
+          publicRules.some((p) => coversPort(p, Number(port)))
+        );
+        if (exposed.length === 0) continue;
+
+        const services = exposed.map(([port, service]) => `${service} (port ${port})`).join(" and ");
+        violations.push({
+          ...securityGroupResource(ctx, group),
+          title: `Security group allows 0.0.0.0/0 on ${services}`,
+        });
+      }
+      return violations;
+    },
+  },
+  {
+    id: "NET-M02",
+    phase: 3,
+    provider: "AWS",
+    regional: true,
+    severity: "MEDIUM",
+    title: "Default security group allows inbound traffic",
+    description: "The VPC default security group has inbound rules. Resources launched without an explicit group inherit them.",
+    recommendation: "Remove all inbound and outbound rules from the default security group and use dedicated groups instead.",
+    async evaluate(ctx) {
+      const groups = await listSecurityGroups(ctx);
+      return groups
+        .filter((g) => g.GroupName === "default" && (g.IpPermissions?.length ?? 0) > 0)
+        .map((g) => securityGroupResource(ctx, g));
+    },
+  },
+  {
+    id: "NET-M01",
+    phase: 3,
+    provider: "AWS",
+    regional: true,
+    severity: "MEDIUM",
+    title: "VPC flow logs not enabled",
+    description: "VPC Flow Logs are not enabled for network traffic analysis.",
+    recommendation: "Enable VPC Flow Logs to CloudWatch or S3.",
+    async evaluate({ clients, accountId, region }) {
+      const { FlowLogs } = await clients.ec2.send(new DescribeFlowLogsCommand({}));
+      const vpcsWithFlowLogs = new Set((FlowLogs ?? []).map((f) => f.ResourceId));
+
+      const violations: CheckViolation[] = [];
+      for await (const page of paginateDescribeVpcs({ client: clients.ec2 }, {})) {
+        for (const vpc of page.Vpcs ?? []) {
+          const vpcId = vpc.VpcId!;
+          if (vpcsWithFlowLogs.has(vpcId)) continue;
+          violations.push({
+            resource: vpcId,
+            resourceType: "AWS::EC2::VPC",
+            resourceArn: `arn:aws:ec2:${region}:${accountId}:vpc/${vpcId}`,
+            region,
+          });
+        }
+      }
+      return violations;
+    },
+  },
+  {
+    id: "NET-L01",
+    phase: 3,
+    provider: "AWS",
+    regional: true,
+    severity: "LOW",
+    title: "Network ACL allows all inbound traffic",
+    description: "A custom network ACL allows all protocols from any address, providing no subnet-level filtering.",
+    recommendation: "Replace the allow-all rule with rules that only permit required traffic.",
+    async evaluate({ clients, accountId, region }) {
+      const violations: CheckViolation[] = [];
+      for await (const page of paginateDescribeNetworkAcls({ client: clients.ec2 }, {})) {
+        for (const acl of page.NetworkAcls ?? []) {
+          const allowsAll = (acl.Entries ?? []).some(
+            (e) =>
+              !e.Egress &&
+              e.RuleAction === "allow" &&
+              e.Protocol === "-1" &&
+              (e.CidrBlock === "0.0.0.0/0" || e.Ipv6CidrBlock === "::/0") &&
+              (e.RuleNumber ?? 0) < 32767
+          );
+          if (!allowsAll || acl.IsDefault) continue;
+
+          const aclId = acl.NetworkAclId!;
+          violations.push({
+            resource: aclId,
+            resourceType: "AWS::EC2::NetworkAcl",
+            resourceArn: `arn:aws:ec2:${region}:${accountId}:network-acl/${aclId}`,
+            region,
+          });
+        }
+      }
+      return violations;
+    },
+  },
+];
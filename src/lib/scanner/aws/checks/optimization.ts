@@ -0,0 +1,60 @@
+import { DescribeAddressesCommand, paginateDescribeVolumes } from "@aws-sdk/client-ec2";
+import type { CheckViolation } from "../../types";
+import { tagMap } from "../resources";
+import type { AwsCheck } from "../types";
+
+// Phase 15: Resource Optimization
+export const optimizationChecks: AwsCheck[] = [
+  {
+    id: "COST-L01",
+    phase: 15,
+    provider: "AWS",
+    regional: true,
+    severity: "LOW",
+    title: "Unattached EBS volume",
+    description: "The volume is not attached to any instance but is still billed.",
+    recommendation: "Snapshot the volume if its data is needed, then delete it.",
+    async evaluate({ clients, accountId, region }) {
+      const violations: CheckViolation[] = [];
+      for await (const page of paginateDescribeVolumes(
+        { client: clients.ec2 },
+        { Filters: [{ Name: "status", Values: ["available"] }] }
+      )) {
+        for (const volume of page.Volumes ?? []) {
+          const volumeId = volume.VolumeId!;
+          violations.push({
+            resource: volumeId,
+            resourceType: "AWS::EC2::Volume",
+            resourceArn: `arn:aws:ec2:${region}:${accountId}:volume/${volumeId}`,
+            region,
+            tags: tagMap(volume.Tags),
+            description: `The ${volume.Size ?? "?"} GiB volume is not attached to any instance but is still billed.`,
+          });
+        }
+      }
+      return violations;
+    },
+  },
+  {
+    id: "COST-L02",
+    phase: 15,
+    provider: "AWS",
+    regional: true,
+    severity: "LOW",
+    title: "Unassociated Elastic IP address",
+    description: "The Elastic IP is not associated with any resource but is still billed.",
+    recommendation: "Release the Elastic IP if it is no longer needed.",
+    async evaluate({ clients, accountId, region }) {
+      const { Addresses } = await clients.ec2.send(new DescribeAddressesCommand({}));
+      return (Addresses ?? [])
+        .filter((address) => !address.AssociationId)
+        .map((address) => ({
+          resource: address.PublicIp ?? address.AllocationId ?? "Elastic IP",
+          resourceType: "AWS::EC2::EIP",
+          resourceArn: `arn:aws:ec2:${region}:${accountId}:elastic-ip/${address.AllocationId}`,
+          region,
+          description: `Elastic IP ${address.PublicIp} is not associated with any resource but is still billed.`,
+        }));
+    },
+  },
+];
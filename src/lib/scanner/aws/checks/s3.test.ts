@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AwsClients } from "@/lib/aws";
+import { createScanCache } from "../../cache";
+import { runPhaseChecks } from "../../run-checks";
+import { isAwsPermissionError } from "../errors";
+import type { AwsCheck, AwsScanContext } from "../types";
+import { s3Checks } from "./s3";
+
+function awsError(name: string): Error {
+  const error = new Error(`${name} error`);
+  error.name = name;
+  return error;
+}
+
+// Responses per command name, either fixed or per bucket
+type Responses = Record<string, unknown | ((bucket: string) => unknown)>;
+
+function s3Context(responses: Responses): AwsScanContext & { send: ReturnType<typeof vi.fn> } {
+  const send = vi.fn(async (command: { constructor: { name: string }; input: { Bucket?: string } }) => {
+    const name = command.constructor.name.replace(/Command$/, "");
+    const response = responses[name];
+    const value = typeof response === "function" ? response(command.input.Bucket) : response;
+    if (value instanceof Error) throw value;
+    if (value === undefined) throw new Error(`No response for ${name}`);
+    return value;
+  });
+
+  return {
+    clients: { s3: { send } } as unknown as AwsClients,
+    accountId: "123456789012",
+    region: "us-east-1",
+    cache: createScanCache(),
+    send,
+  };
+}
+
+const check = (id: string): AwsCheck => s3Checks.find((c) => c.id === id)!;
+
+const BUCKETS = {
+  Buckets: [
+    { Name: "logs", BucketRegion: "us-east-1" },
+    { Name: "assets", BucketRegion: "eu-west-1" },
+  ],
+};
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("S3 checks", () => {
+  it("flags buckets without default encryption", async () => {
+    const ctx = s3Context({
+      ListBuckets: BUCKETS,
+      GetBucketEncryption: (bucket: string) =>
+        bucket === "assets" ? awsError("ServerSideEncryptionConfigurationNotFoundError") : {},
+    });
+
+    expect(await check("S3-H01").evaluate(ctx)).toEqual([
+      {
+        resource: "assets",
+        resourceType: "AWS::S3::Bucket",
+        resourceArn: "arn:aws:s3:::assets",
+        region: "eu-west-1",
+      },
+    ]);
+  });
+
+  it("treats a missing public access block as not blocking public access", async () => {
+    const ctx = s3Context({
+      ListBuckets: BUCKETS,
+      GetPublicAccessBlock: (bucket: string) =>
+        bucket === "logs"
+          ? {
+              PublicAccessBlockConfiguration: {
+                BlockPublicAcls: true,
+                IgnorePublicAcls: true,
+                BlockPublicPolicy: true,
+                RestrictPublicBuckets: true,
+              },
+            }
+          : awsError("NoSuchPublicAccessBlockConfiguration"),
+    });
+
+    const violations = await check("S3-H02").evaluate(ctx);
+    expect(violations.map((v) => v.resource)).toEqual(["assets"]);
+  });
+
+  it("leaves out buckets that cannot be read and checks the rest", async () => {
+    const ctx = s3Context({
+      ListBuckets: BUCKETS,
+      GetBucketVersioning: (bucket: string) =>
+        bucket === "logs" ? awsError("AccessDenied") : { Status: "Suspended" },
+    });
+
+    const violations = await check("S3-M01").evaluate(ctx);
+    expect(violations.map((v) => v.resource)).toEqual(["assets"]);
+    expect(console.warn).toHaveBeenCalledWith("Skipping bucket logs:", "AccessDenied error");
+  });
+
+  it("skips a check when no bucket can be read for lack of permissions", async () => {
+    const ctx = s3Context({
+      ListBuckets: BUCKETS,
+      GetBucketLogging: awsError("AccessDenied"),
+    });
+
+    const [result] = await runPhaseChecks([check("S3-M02")], ctx, {
+      isPermissionError: isAwsPermissionError,
+    });
+    expect(result).toMatchObject({ checkId: "S3-M02", status: "skipped", findings: [] });
+  });
+
+  it("reports other errors reading every bucket as a check error", async () => {
+    const ctx = s3Context({
+      ListBuckets: BUCKETS,
+      GetBucketLifecycleConfiguration: new Error("socket hang up"),
+    });
+
+    const [result] = await runPhaseChecks([check("S3-L01")], ctx, {
+      isPermissionError: isAwsPermissionError,
+    });
+    expect(result).toMatchObject({ status: "error", message: "socket hang up" });
+  });
+
+  it("passes when there are no buckets", async () => {
+    const ctx = s3Context({ ListBuckets: {} });
+    const results = await runPhaseChecks(s3Checks, ctx);
+    expect(results.every((r) => r.status === "pass")).toBe(true);
+  });
+
+  it("lists the buckets once for all checks of a scan", async () => {
+    const ctx = s3Context({
+      ListBuckets: BUCKETS,
+      GetPublicAccessBlock: awsError("NoSuchPublicAccessBlockConfiguration"),
+      GetBucketEncryption: {},
+      GetBucketVersioning: { Status: "Enabled" },
+      GetBucketLogging: { LoggingEnabled: { TargetBucket: "logs" } },
+      GetBucketLifecycleConfiguration: { Rules: [] },
+    });
+
+    const results = await runPhaseChecks(s3Checks, ctx);
+    expect(results.map((r) => [r.checkId, r.status])).toEqual(
+      s3Checks.map((c) => [c.id, c.id === "S3-H02" ? "fail" : "pass"])
+    );
+    const listCalls = ctx.send.mock.calls.filter(
+      ([command]) => command.constructor.name === "ListBucketsCommand"
+    );
+    expect(listCalls).toHaveLength(1);
+  });
+});
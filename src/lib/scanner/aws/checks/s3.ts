@@ -0,0 +1,143 @@
+import {
+  GetBucketEncryptionCommand,
+  GetBucketLifecycleConfigurationCommand,
+  GetBucketLoggingCommand,
+  GetBucketVersioningCommand,
+  GetPublicAccessBlockCommand,
+  type Bucket,
+} from "@aws-sdk/client-s3";
+import type { CheckViolation } from "../../types";
+import { isAwsError } from "../errors";
+import { listBuckets } from "../resources";
+import type { AwsCheck, AwsScanContext } from "../types";
+
+function bucketResource(bucket: Bucket): CheckViolation {
+  return {
+    resource: bucket.Name!,
+    resourceType: "AWS::S3::Bucket",
+    resourceArn: `arn:aws:s3:::${bucket.Name}`,
+    region: bucket.BucketRegion,
+  };
+}
+
+/**
+ * Report every bucket for which `fails` resolves true. A bucket that cannot
+ * be read is left out instead of failing the check, unless no bucket can be
+ * read, in which case the first error is thrown.
+ */
+async function bucketsFailing(
+  ctx: AwsScanContext,
+  fails: (name: string) => Promise<boolean>
+): Promise<CheckViolation[]> {
+  const buckets = await listBuckets(ctx);
+  const violations: CheckViolation[] = [];
+  const errors: unknown[] = [];
+
+  for (const bucket of buckets) {
+    try {
+      if (await fails(bucket.Name!)) violations.push(bucketResource(bucket));
+    } catch (error) {
+      errors.push(error);
+      console.warn(`Skipping bucket ${bucket.Name}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  if (buckets.length > 0 && errors.length === buckets.length) throw errors[0];
+  return violations;
+}
+
+// Phase 2: S3 Security
+export const s3Checks: AwsCheck[] = [
+  {
+    id: "S3-H02",
+    phase: 2,
+    provider: "AWS",
+    severity: "HIGH",
+    title: "S3 bucket public access not blocked",
+    description: "Public access block is not enabled, risking accidental data exposure.",
+    recommendation: "1. Go to S3 bucket → Permissions. 2. Enable all Block Public Access settings. 3. Review bucket policy.",
+    evaluate: (ctx) =>
+      bucketsFailing(ctx, async (name) => {
+        try {
+          const { PublicAccessBlockConfiguration: config } = await ctx.clients.s3.send(
+            new GetPublicAccessBlockCommand({ Bucket: name })
+          );
+          return !(
+            config?.BlockPublicAcls &&
+            config?.IgnorePublicAcls &&
+            config?.BlockPublicPolicy &&
+            config?.RestrictPublicBuckets
+          );
+        } catch (error) {
+          if (isAwsError(error, "NoSuchPublicAccessBlockConfiguration")) return true;
+          throw error;
+        }
+      }),
+  },
+  {
+    id: "S3-H01",
+    phase: 2,
+    provider: "AWS",
+    severity: "HIGH",
+    title: "S3 bucket without server-side encryption",
+    description: "The S3 bucket does not have default encryption enabled. Data at rest is not protected.",
+    recommendation: "1. Open S3 Console. 2. Select bucket → Properties. 3. Enable default encryption (SSE-S3 or SSE-KMS).",
+    evaluate: (ctx) =>
+      bucketsFailing(ctx, async (name) => {
+        try {
+          await ctx.clients.s3.send(new GetBucketEncryptionCommand({ Bucket: name }));
+          return false;
+        } catch (error) {
+          if (isAwsError(error, "ServerSideEncryptionConfigurationNotFoundError")) return true;
+          throw error;
+        }
+      }),
+  },
+  {
+    id: "S3-M01",
+    phase: 2,
+    provider: "AWS",
+    severity: "MEDIUM",
+    title: "S3 bucket versioning disabled",
+    description: "Versioning is not enabled, so overwritten or deleted objects cannot be recovered.",
+    recommendation: "1. Select bucket → Properties. 2. Enable Bucket Versioning. 3. Consider MFA Delete for critical buckets.",
+    evaluate: (ctx) =>
+      bucketsFailing(ctx, async (name) => {
+        const versioning = await ctx.clients.s3.send(new GetBucketVersioningCommand({ Bucket: name }));
+        return versioning.Status !== "Enabled";
+      }),
+  },
+  {
+    id: "S3-M02",
+    phase: 2,
+    provider: "AWS",
+    severity: "MEDIUM",
+    title: "S3 bucket access logging disabled",
+    description: "Server access logging is not enabled, leaving no record of requests made to the bucket.",
+    recommendation: "1. Select bucket → Properties. 2. Enable Server access logging to a dedicated log bucket.",
+    evaluate: (ctx) =>
+      bucketsFailing(ctx, async (name) => {
+        const logging = await ctx.clients.s3.send(new GetBucketLoggingCommand({ Bucket: name }));
+        return !logging.LoggingEnabled;
+      }),
+  },
+  {
+    id: "S3-L01",
+    phase: 2,
+    provider: "AWS",
+    severity: "LOW",
+    title: "S3 bucket without lifecycle policy",
+    description: "No lifecycle policy configured for storage optimization.",
+    recommendation: "Configure lifecycle policies to optimize storage costs.",
+    evaluate: (ctx) =>
+      bucketsFailing(ctx, async (name) => {
+        try {
+          await ctx.clients.s3.send(new GetBucketLifecycleConfigurationCommand({ Bucket: name }));
+          return false;
+        } catch (error) {
+          if (isAwsError(error, "NoSuchLifecycleConfiguration")) return true;
+          throw error;
+        }
+      }),
+  },
+];
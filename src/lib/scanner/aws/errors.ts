@@ -0,0 +1,20 @@
+/**
+ * Check whether an AWS SDK error has one of the given error names.
+ * Several "is this configured" APIs signal a missing setting with an error.
+ */
+export function isAwsError(error: unknown, ...names: string[]): boolean {
+  return error instanceof Error && names.includes(error.name);
+}
+
+/**
+ * Check whether an AWS SDK error was caused by missing IAM permissions
+ */
+export function isAwsPermissionError(error: unknown): boolean {
+  return isAwsError(
+    error,
+    "AccessDenied",
+    "AccessDeniedException",
+    "UnauthorizedOperation",
+    "AuthorizationError"
+  );
+}
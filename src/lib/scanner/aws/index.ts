@@ -0,0 +1,54 @@
+import { GetCallerIdentityCommand } from "@aws-sdk/client-sts";
+import { createAwsClientsForAccount, type AwsClients } from "@/lib/aws";
+import { createScanCache } from "../cache";
+import { errorMessage } from "../errors";
+import type { ProviderScanner } from "../types";
+import { isAwsPermissionError } from "./errors";
+import { resolveScanRegions } from "./regions";
+import type { AwsScanContext } from "./types";
+import "./checks";
+
+/**
+ * Authenticates with STS and fans regional checks out across the account's
+ * scan regions, resolved when the audit first starts
+ */
+export const awsScanner: ProviderScanner<AwsScanContext> = {
+  isPermissionError: isAwsPermissionError,
+
+  async connect(account, auditRegions) {
+    const clients = createAwsClientsForAccount(account);
+
+    let awsAccountId: string;
+    try {
+      const identity = await clients.sts.send(new GetCallerIdentityCommand({}));
+      awsAccountId = identity.Account ?? account.accountId;
+    } catch (error) {
+      throw new Error(`Unable to authenticate: ${errorMessage(error)}`);
+    }
+
+    let regions = auditRegions;
+    if (regions.length === 0) {
+      try {
+        regions = await resolveScanRegions(account, clients);
+      } catch (error) {
+        throw new Error(`Unable to list enabled regions: ${errorMessage(error)}`);
+      }
+    }
+
+    // Contexts live for the whole audit so phases share cached listings
+    const newContext = (region: string, regionClients: AwsClients): AwsScanContext => ({
+      clients: regionClients,
+      accountId: awsAccountId,
+      region,
+      cache: createScanCache(),
+    });
+    const global = newContext(account.region, clients);
+    const regional = regions.map((region) =>
+      region === account.region
+        ? global
+        : newContext(region, createAwsClientsForAccount(account, region))
+    );
+
+    return { global, regional, regions };
+  },
+};
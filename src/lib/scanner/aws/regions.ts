@@ -0,0 +1,16 @@
+import type { CloudAccount } from "@prisma/client";
+import { listEnabledRegions, type AwsClients } from "@/lib/aws";
+
+/**
+ * Regions an audit of the account covers: every enabled region, the
+ * declared region set, or the home region when no set is declared
+ */
+export async function resolveScanRegions(
+  account: Pick<CloudAccount, "region" | "regions" | "scanAllRegions">,
+  clients: AwsClients
+): Promise<string[]> {
+  if (account.scanAllRegions) {
+    return listEnabledRegions(clients);
+  }
+  return account.regions.length > 0 ? account.regions : [account.region];
+}
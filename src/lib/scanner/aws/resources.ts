@@ -0,0 +1,84 @@
+import {
+  paginateDescribeInstances,
+  paginateDescribeSecurityGroups,
+  paginateDescribeSnapshots,
+  paginateDescribeVolumes,
+  type Instance,
+  type SecurityGroup,
+  type Snapshot,
+  type Tag,
+  type Volume,
+} from "@aws-sdk/client-ec2";
+import { paginateListUsers, type User } from "@aws-sdk/client-iam";
+import { ListBucketsCommand, type Bucket } from "@aws-sdk/client-s3";
+import type { AwsScanContext } from "./types";
+
+// Key/value map of the tags of an EC2 resource
+export function tagMap(tags: Tag[] | undefined): Record<string, string> {
+  return Object.fromEntries((tags ?? []).filter((t) => t.Key).map((t) => [t.Key!, t.Value ?? ""]));
+}
+
+// Resource listings shared by several checks, loaded once per scan
+
+export function listIamUsers({ clients, cache }: AwsScanContext): Promise<User[]> {
+  return cache.get("iam:users", async () => {
+    const users: User[] = [];
+    for await (const page of paginateListUsers({ client: clients.iam }, {})) {
+      users.push(...(page.Users ?? []));
+    }
+    return users;
+  });
+}
+
+export function listBuckets({ clients, cache }: AwsScanContext): Promise<Bucket[]> {
+  return cache.get("s3:buckets", async () => {
+    const { Buckets } = await clients.s3.send(new ListBucketsCommand({}));
+    return Buckets ?? [];
+  });
+}
+
+export function listSecurityGroups({ clients, cache }: AwsScanContext): Promise<SecurityGroup[]> {
+  return cache.get("ec2:security-groups", async () => {
+    const groups: SecurityGroup[] = [];
+    for await (const page of paginateDescribeSecurityGroups({ client: clients.ec2 }, {})) {
+      groups.push(...(page.SecurityGroups ?? []));
+    }
+    return groups;
+  });
+}
+
+export function listVolumes({ clients, cache }: AwsScanContext): Promise<Volume[]> {
+  return cache.get("ec2:volumes", async () => {
+    const volumes: Volume[] = [];
+    for await (const page of paginateDescribeVolumes({ client: clients.ec2 }, {})) {
+      volumes.push(...(page.Volumes ?? []));
+    }
+    return volumes;
+  });
+}
+
+// Instances that have not been terminated
+export function listInstances({ clients, cache }: AwsScanContext): Promise<Instance[]> {
+  return cache.get("ec2:instances", async () => {
+    const instances: Instance[] = [];
+    for await (const page of paginateDescribeInstances({ client: clients.ec2 }, {})) {
+      for (const reservation of page.Reservations ?? []) {
+        instances.push(
+          ...(reservation.Instances ?? []).filter((i) => i.State?.Name !== "terminated")
+        );
+      }
+    }
+    return instances;
+  });
+}
+
+// Snapshots owned by the scanned account
+export function listSnapshots({ clients, cache }: AwsScanContext): Promise<Snapshot[]> {
+  return cache.get("ec2:snapshots", async () => {
+    const snapshots: Snapshot[] = [];
+    for await (const page of paginateDescribeSnapshots({ client: clients.ec2 }, { OwnerIds: ["self"] })) {
+      snapshots.push(...(page.Snapshots ?? []));
+    }
+    return snapshots;
+  });
+}
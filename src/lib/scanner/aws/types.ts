@@ -0,0 +1,13 @@
+import type { AwsClients } from "@/lib/aws";
+import type { ScanCache } from "../cache";
+import type { CheckDefinition } from "../types";
+
+export interface AwsScanContext {
+  clients: AwsClients;
+  // 12-digit AWS account ID, used to build ARNs
+  accountId: string;
+  region: string;
+  cache: ScanCache;
+}
+
+export type AwsCheck = CheckDefinition<AwsScanContext>;
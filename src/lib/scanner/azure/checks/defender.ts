@@ -0,0 +1,52 @@
+import { listDefenderPricings, listSecurityContacts } from "../resources";
+import type { AzureCheck } from "../types";
+
+// Defender plans expected for the resources this scanner looks at
+const REQUIRED_PLANS = ["VirtualMachines", "SqlServers", "StorageAccounts", "KeyVaults", "Arm"];
+
+// Phase 10: Azure Policy & Compliance
+export const defenderChecks: AzureCheck[] = [
+  {
+    id: "AZ-DEF-H01",
+    phase: 10,
+    provider: "AZURE",
+    severity: "HIGH",
+    title: "Microsoft Defender plan not enabled",
+    description: "A Defender for Cloud plan is on the Free tier, so threats against that resource type are not detected.",
+    recommendation: "1. Open Defender for Cloud → Environment settings → the subscription. 2. Turn on the plan. 3. Review the recommended auto-provisioning settings.",
+    evaluate: async (ctx) =>
+      (await listDefenderPricings(ctx))
+        .filter((p) => REQUIRED_PLANS.includes(p.name) && p.properties?.pricingTier !== "Standard")
+        .map((p) => ({
+          resource: `Defender for ${p.name}`,
+          resourceType: "Microsoft.Security/pricings",
+          resourceId: p.id,
+          region: "global",
+          description: `The Defender plan for ${p.name} is on the ${p.properties?.pricingTier ?? "Free"} tier.`,
+        })),
+  },
+  {
+    id: "AZ-DEF-M01",
+    phase: 10,
+    provider: "AZURE",
+    severity: "MEDIUM",
+    title: "No security contact for Defender alerts",
+    description: "No email address receives Defender for Cloud security alerts for the subscription.",
+    recommendation: "1. Open Defender for Cloud → Environment settings → Email notifications. 2. Add security contact emails. 3. Turn on notifications for high severity alerts.",
+    evaluate: async (ctx) => {
+      const contacts = await listSecurityContacts(ctx);
+      const notified = contacts.some(
+        (c) => c.properties?.emails && c.properties.alertNotifications?.state === "On"
+      );
+      if (notified) return [];
+      return [
+        {
+          resource: "Security Contacts",
+          resourceType: "Microsoft.Security/securityContacts",
+          resourceId: `/subscriptions/${ctx.subscriptionId}/providers/Microsoft.Security/securityContacts`,
+          region: "global",
+        },
+      ];
+    },
+  },
+];
@@ -0,0 +1,19 @@
+import { registerChecks } from "../../registry";
+import type { AzureCheck } from "../types";
+import { defenderChecks } from "./defender";
+import { keyVaultChecks } from "./keyvault";
+import { loggingChecks } from "./logging";
+import { networkChecks } from "./network";
+import { rbacChecks } from "./rbac";
+import { storageChecks } from "./storage";
+
+export const AZURE_CHECKS: AzureCheck[] = [
+  ...rbacChecks,
+  ...storageChecks,
+  ...networkChecks,
+  ...loggingChecks,
+  ...keyVaultChecks,
+  ...defenderChecks,
+];
+
+registerChecks(...AZURE_CHECKS);
@@ -0,0 +1,69 @@
+import type { CheckViolation } from "../../types";
+import { listKeyVaults } from "../resources";
+import type { AzureCheck, AzureScanContext, KeyVault } from "../types";
+
+/**
+ * Report every key vault for which `fails` returns true
+ */
+async function vaultsFailing(
+  ctx: AzureScanContext,
+  fails: (vault: KeyVault) => boolean
+): Promise<CheckViolation[]> {
+  return (await listKeyVaults(ctx)).filter(fails).map((vault) => ({
+    resource: vault.name,
+    resourceType: "Microsoft.KeyVault/vaults",
+    resourceId: vault.id,
+    region: vault.location,
+    tags: vault.tags,
+  }));
+}
+
+// Phase 9: Key Vault & Secrets
+export const keyVaultChecks: AzureCheck[] = [
+  {
+    id: "AZ-KV-M01",
+    phase: 9,
+    provider: "AZURE",
+    severity: "MEDIUM",
+    title: "Key Vault without soft delete enabled",
+    description: "Deleted keys, secrets and certificates cannot be recovered.",
+    recommendation: "1. Run az keyvault update --enable-soft-delete true. 2. Set a retention period of at least 7 days.",
+    evaluate: (ctx) => vaultsFailing(ctx, (vault) => vault.properties?.enableSoftDelete === false),
+  },
+  {
+    id: "AZ-KV-M02",
+    phase: 9,
+    provider: "AZURE",
+    severity: "MEDIUM",
+    title: "Key Vault without purge protection",
+    description: "Soft-deleted vault contents can be purged before the retention period ends, e.g. by a compromised administrator.",
+    recommendation: "1. Run az keyvault update --enable-purge-protection true. Purge protection cannot be turned off again.",
+    evaluate: (ctx) => vaultsFailing(ctx, (vault) => !vault.properties?.enablePurgeProtection),
+  },
+  {
+    id: "AZ-KV-L01",
+    phase: 9,
+    provider: "AZURE",
+    severity: "LOW",
+    title: "Key Vault accepts traffic from all networks",
+    description: "The vault firewall is open, so the data plane is reachable from any network.",
+    recommendation: "1. Open the vault → Networking. 2. Allow access from selected networks only, or disable public access and use a private endpoint.",
+    evaluate: (ctx) =>
+      vaultsFailing(
+        ctx,
+        (vault) =>
+          vault.properties?.publicNetworkAccess !== "Disabled" &&
+          vault.properties?.networkAcls?.defaultAction !== "Deny"
+      ),
+  },
+  {
+    id: "AZ-KV-L02",
+    phase: 9,
+    provider: "AZURE",
+    severity: "LOW",
+    title: "Key Vault uses access policies instead of RBAC",
+    description: "Vault access policies cannot be scoped below the vault or managed with Privileged Identity Management.",
+    recommendation: "1. Assign Key Vault data plane roles to current users of the access policies. 2. Switch the permission model to Azure role-based access control.",
+    evaluate: (ctx) => vaultsFailing(ctx, (vault) => !vault.properties?.enableRbacAuthorization),
+  },
+];
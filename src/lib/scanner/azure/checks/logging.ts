@@ -0,0 +1,90 @@
+import type { CheckViolation } from "../../types";
+import { listActivityLogDiagnosticSettings, listLogProfiles } from "../resources";
+import type { AzureCheck, AzureScanContext } from "../types";
+
+// CIS recommends keeping the activity log for at least a year
+const MIN_RETENTION_DAYS = 365;
+
+function activityLogResource(ctx: AzureScanContext): CheckViolation {
+  return {
+    resource: "Subscription Activity Log",
+    resourceType: "Microsoft.Insights/diagnosticSettings",
+    resourceId: `/subscriptions/${ctx.subscriptionId}/providers/Microsoft.Insights/diagnosticSettings`,
+    region: "global",
+  };
+}
+
+/**
+ * Days the activity log is kept for by its export destinations. Infinity
+ * means no expiry (a storage account, or a log profile kept forever); null
+ * means the log is not exported at all.
+ */
+async function activityLogRetentionDays(ctx: AzureScanContext): Promise<number | null> {
+  const exports = (await listActivityLogDiagnosticSettings(ctx)).filter((s) =>
+    s.properties?.logs?.some((l) => l.enabled)
+  );
+  const retention: number[] = [];
+
+  for (const setting of exports) {
+    const { storageAccountId, workspaceId } = setting.properties ?? {};
+    if (storageAccountId) {
+      retention.push(Infinity);
+    } else if (workspaceId) {
+      const workspace = await ctx.client.get<{ properties?: { retentionInDays?: number } }>(
+        workspaceId,
+        "2022-10-01"
+      );
+      retention.push(workspace.properties?.retentionInDays ?? 30);
+    }
+  }
+
+  // Legacy log profiles; 0 days means keep forever
+  for (const profile of await listLogProfiles(ctx)) {
+    const policy = profile.properties?.retentionPolicy;
+    retention.push(!policy?.enabled || policy.days === 0 ? Infinity : policy.days);
+  }
+
+  return retention.length > 0 ? Math.max(...retention) : null;
+}
+
+// Phase 4: Azure Monitor & Logging
+export const loggingChecks: AzureCheck[] = [
+  {
+    id: "AZ-LOG-H01",
+    phase: 4,
+    provider: "AZURE",
+    severity: "HIGH",
+    title: "Activity Log not exported to Log Analytics",
+    description: "No diagnostic setting sends the subscription activity log to a Log Analytics workspace, so control plane events cannot be queried or alerted on.",
+    recommendation: "1. Open Monitor → Activity log → Export Activity Logs. 2. Add a diagnostic setting with all categories. 3. Send it to a Log Analytics workspace.",
+    evaluate: async (ctx) => {
+      const settings = await listActivityLogDiagnosticSettings(ctx);
+      const toWorkspace = settings.some(
+        (s) => s.properties?.workspaceId && s.properties.logs?.some((l) => l.enabled)
+      );
+      return toWorkspace ? [] : [activityLogResource(ctx)];
+    },
+  },
+  {
+    id: "AZ-LOG-M01",
+    phase: 4,
+    provider: "AZURE",
+    severity: "MEDIUM",
+    title: "Activity Log retention below 365 days",
+    description: `The activity log is kept for less than ${MIN_RETENTION_DAYS} days; Azure itself only keeps 90 days.`,
+    recommendation: "1. Export the activity log to a storage account, or 2. raise the Log Analytics workspace retention to at least 365 days.",
+    evaluate: async (ctx) => {
+      const days = await activityLogRetentionDays(ctx);
+      if (days !== null && days >= MIN_RETENTION_DAYS) return [];
+      return [
+        {
+          ...activityLogResource(ctx),
+          description:
+            days === null
+              ? "The activity log is not exported, so it is only kept for Azure's default 90 days."
+              : `The activity log is kept for ${days} days.`,
+        },
+      ];
+    },
+  },
+];
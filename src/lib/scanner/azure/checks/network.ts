@@ -0,0 +1,97 @@
+import type { CheckViolation } from "../../types";
+import { listNetworkSecurityGroups, listNetworkWatchers } from "../resources";
+import type { AzureCheck, AzureScanContext, FlowLog, NetworkSecurityGroup, SecurityRule } from "../types";
+
+// Source prefixes that match any address on the internet
+const INTERNET_SOURCES = ["*", "0.0.0.0", "0.0.0.0/0", "::/0", "internet", "any"];
+
+// Whether a port range entry like "*", "22" or "20-30" covers the port
+function portInRange(range: string, port: number): boolean {
+  if (range === "*") return true;
+  const [from, to = from] = range.split("-").map(Number);
+  return port >= from && port <= to;
+}
+
+/**
+ * Whether an inbound allow rule admits the TCP port from the internet
+ */
+function opensPortToInternet(rule: SecurityRule, port: number): boolean {
+  const { direction, access, protocol, sourceAddressPrefix, sourceAddressPrefixes = [] } = rule.properties;
+  if (direction !== "Inbound" || access !== "Allow") return false;
+  if (protocol !== "*" && protocol.toLowerCase() !== "tcp") return false;
+
+  const sources = [sourceAddressPrefix, ...sourceAddressPrefixes].filter(Boolean) as string[];
+  if (!sources.some((s) => INTERNET_SOURCES.includes(s.toLowerCase()))) return false;
+
+  const ports = [rule.properties.destinationPortRange, ...(rule.properties.destinationPortRanges ?? [])];
+  return ports.some((range) => range !== undefined && portInRange(range, port));
+}
+
+function nsgResource(nsg: NetworkSecurityGroup): CheckViolation {
+  return {
+    resource: nsg.name,
+    resourceType: "Microsoft.Network/networkSecurityGroups",
+    resourceId: nsg.id,
+    region: nsg.location,
+    tags: nsg.tags,
+  };
+}
+
+async function nsgsOpening(ctx: AzureScanContext, port: number): Promise<CheckViolation[]> {
+  const violations: CheckViolation[] = [];
+  for (const nsg of await listNetworkSecurityGroups(ctx)) {
+    const rules = (nsg.properties?.securityRules ?? []).filter((r) => opensPortToInternet(r, port));
+    if (rules.length > 0) {
+      violations.push({
+        ...nsgResource(nsg),
+        description: `Rule ${rules.map((r) => r.name).join(", ")} allows port ${port} from the internet.`,
+      });
+    }
+  }
+  return violations;
+}
+
+// Phase 3: Virtual Network Security
+export const networkChecks: AzureCheck[] = [
+  {
+    id: "AZ-NSG-C01",
+    phase: 3,
+    provider: "AZURE",
+    severity: "CRITICAL",
+    title: "NSG allows RDP from internet (0.0.0.0/0)",
+    description: "An inbound network security group rule allows RDP (port 3389) from any address.",
+    recommendation: "1. Remove or restrict the inbound rule to known source ranges. 2. Use Azure Bastion or just-in-time VM access for RDP.",
+    evaluate: (ctx) => nsgsOpening(ctx, 3389),
+  },
+  {
+    id: "AZ-NSG-C02",
+    phase: 3,
+    provider: "AZURE",
+    severity: "CRITICAL",
+    title: "NSG allows SSH from internet (0.0.0.0/0)",
+    description: "An inbound network security group rule allows SSH (port 22) from any address.",
+    recommendation: "1. Remove or restrict the inbound rule to known source ranges. 2. Use Azure Bastion or just-in-time VM access for SSH.",
+    evaluate: (ctx) => nsgsOpening(ctx, 22),
+  },
+  {
+    id: "AZ-VNET-M01",
+    phase: 3,
+    provider: "AZURE",
+    severity: "MEDIUM",
+    title: "NSG Flow Logs not enabled",
+    description: "Traffic through the network security group is not logged, limiting network forensics.",
+    recommendation: "1. Open Network Watcher → Flow logs. 2. Create a flow log for the NSG or its virtual network. 3. Send it to a storage account with retention and Traffic Analytics.",
+    evaluate: async (ctx) => {
+      const logged = new Set<string>();
+      for (const watcher of await listNetworkWatchers(ctx)) {
+        const flowLogs = await ctx.client.list<FlowLog>(`${watcher.id}/flowLogs`, "2023-09-01");
+        for (const flowLog of flowLogs.filter((f) => f.properties?.enabled)) {
+          logged.add(flowLog.properties!.targetResourceId.toLowerCase());
+        }
+      }
+      return (await listNetworkSecurityGroups(ctx))
+        .filter((nsg) => !logged.has(nsg.id.toLowerCase()))
+        .map(nsgResource);
+    },
+  },
+];
@@ -0,0 +1,71 @@
+import type { CheckViolation } from "../../types";
+import { listRoleAssignments } from "../resources";
+import type { AzureCheck, AzureScanContext, RoleAssignment } from "../types";
+
+// Built-in role definition IDs
+const OWNER_ROLE = "8e3af657-a8ff-443c-a75c-2fe8c4bcb635";
+
+// CIS recommends no more than three subscription owners
+const MAX_OWNERS = 3;
+
+function isSubscriptionScope(ctx: AzureScanContext, assignment: RoleAssignment): boolean {
+  return assignment.properties?.scope.toLowerCase() === `/subscriptions/${ctx.subscriptionId}`.toLowerCase();
+}
+
+function hasRole(assignment: RoleAssignment, roleId: string): boolean {
+  return assignment.properties?.roleDefinitionId.toLowerCase().endsWith(roleId) ?? false;
+}
+
+async function subscriptionOwners(ctx: AzureScanContext): Promise<RoleAssignment[]> {
+  return (await listRoleAssignments(ctx)).filter(
+    (a) => isSubscriptionScope(ctx, a) && hasRole(a, OWNER_ROLE)
+  );
+}
+
+function assignmentResource(assignment: RoleAssignment): CheckViolation {
+  return {
+    resource: assignment.properties?.principalId ?? assignment.name,
+    resourceType: "Microsoft.Authorization/roleAssignments",
+    resourceId: assignment.id,
+    region: "global",
+  };
+}
+
+// Phase 1: Azure Active Directory (Entra ID)
+export const rbacChecks: AzureCheck[] = [
+  {
+    id: "AZ-AAD-H01",
+    phase: 1,
+    provider: "AZURE",
+    severity: "HIGH",
+    title: "Service principal with Owner role on subscription",
+    description: "A service principal holds the Owner role at subscription scope and can change any resource and any access.",
+    recommendation: "1. Open Subscription → Access control (IAM). 2. Replace the Owner assignment with Contributor or narrower roles at resource group scope. 3. Rotate the principal's credentials.",
+    evaluate: async (ctx) =>
+      (await subscriptionOwners(ctx))
+        .filter((a) => a.properties?.principalType === "ServicePrincipal")
+        .map(assignmentResource),
+  },
+  {
+    id: "AZ-AAD-M01",
+    phase: 1,
+    provider: "AZURE",
+    severity: "MEDIUM",
+    title: "More than three subscription owners",
+    description: `More than ${MAX_OWNERS} principals hold the Owner role on the subscription, widening who can change access.`,
+    recommendation: "1. Review Owner assignments in Access control (IAM). 2. Remove owners that do not need full control. 3. Use Privileged Identity Management for just-in-time elevation.",
+    evaluate: async (ctx) => {
+      const owners = await subscriptionOwners(ctx);
+      if (owners.length <= MAX_OWNERS) return [];
+      return [
+        {
+          resource: ctx.subscriptionId,
+          resourceType: "Microsoft.Resources/subscriptions",
+          resourceId: `/subscriptions/${ctx.subscriptionId}`,
+          region: "global",
+          description: `${owners.length} principals hold the Owner role on the subscription.`,
+        },
+      ];
+    },
+  },
+];
@@ -0,0 +1,76 @@
+import type { CheckViolation } from "../../types";
+import { listStorageAccounts } from "../resources";
+import type { AzureCheck, AzureScanContext, StorageAccount } from "../types";
+
+/**
+ * Report every storage account for which `fails` returns true
+ */
+async function accountsFailing(
+  ctx: AzureScanContext,
+  fails: (account: StorageAccount) => boolean
+): Promise<CheckViolation[]> {
+  return (await listStorageAccounts(ctx)).filter(fails).map((account) => ({
+    resource: account.name,
+    resourceType: "Microsoft.Storage/storageAccounts",
+    resourceId: account.id,
+    region: account.location,
+    tags: account.tags,
+  }));
+}
+
+// Phase 2: Blob Storage Security
+export const storageChecks: AzureCheck[] = [
+  {
+    id: "AZ-STOR-H01",
+    phase: 2,
+    provider: "AZURE",
+    severity: "HIGH",
+    title: "Storage account allows public blob access",
+    description: "Containers in the storage account can be configured for anonymous public read access.",
+    recommendation: "1. Open the storage account → Configuration. 2. Set Allow Blob anonymous access to Disabled. 3. Use SAS tokens or Entra ID for sharing.",
+    evaluate: (ctx) => accountsFailing(ctx, (account) => account.properties?.allowBlobPublicAccess !== false),
+  },
+  {
+    id: "AZ-STOR-H02",
+    phase: 2,
+    provider: "AZURE",
+    severity: "HIGH",
+    title: "Storage account without infrastructure encryption",
+    description: "Data is encrypted once at the service level only; infrastructure (double) encryption is not enabled.",
+    recommendation: "1. Create a new storage account with infrastructure encryption enabled (it cannot be turned on later). 2. Migrate the data. 3. Enforce it with Azure Policy.",
+    evaluate: (ctx) =>
+      accountsFailing(ctx, (account) => !account.properties?.encryption?.requireInfrastructureEncryption),
+  },
+  {
+    id: "AZ-STOR-M01",
+    phase: 2,
+    provider: "AZURE",
+    severity: "MEDIUM",
+    title: "Storage account does not require secure transfer",
+    description: "Requests over plain HTTP are accepted, exposing data and keys in transit.",
+    recommendation: "1. Open the storage account → Configuration. 2. Enable Secure transfer required.",
+    evaluate: (ctx) => accountsFailing(ctx, (account) => account.properties?.supportsHttpsTrafficOnly === false),
+  },
+  {
+    id: "AZ-STOR-M02",
+    phase: 2,
+    provider: "AZURE",
+    severity: "MEDIUM",
+    title: "Storage account allows TLS below 1.2",
+    description: "Clients can connect with TLS 1.0 or 1.1, which have known weaknesses.",
+    recommendation: "1. Open the storage account → Configuration. 2. Set Minimum TLS version to 1.2.",
+    evaluate: (ctx) =>
+      accountsFailing(ctx, (account) => (account.properties?.minimumTlsVersion ?? "TLS1_0") < "TLS1_2"),
+  },
+  {
+    id: "AZ-STOR-L01",
+    phase: 2,
+    provider: "AZURE",
+    severity: "LOW",
+    title: "Storage account accepts traffic from all networks",
+    description: "The storage firewall's default action is Allow, so the account is reachable from any network.",
+    recommendation: "1. Open the storage account → Networking. 2. Allow access from selected virtual networks and IP addresses only. 3. Consider private endpoints.",
+    evaluate: (ctx) =>
+      accountsFailing(ctx, (account) => account.properties?.networkAcls?.defaultAction !== "Deny"),
+  },
+];
@@ -0,0 +1,12 @@
+import { AzureApiError } from "@/lib/azure";
+
+/**
+ * Check whether an ARM call failed because the service principal lacks a
+ * role assignment, or because the resource provider is not registered
+ */
+export function isAzurePermissionError(error: unknown): boolean {
+  return (
+    error instanceof AzureApiError &&
+    (error.status === 403 || error.code === "MissingSubscriptionRegistration")
+  );
+}
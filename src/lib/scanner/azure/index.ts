@@ -0,0 +1,41 @@
+import { createAzureClient, getAzureAccessToken, hasAzureCredentials } from "@/lib/azure";
+import { createScanCache } from "../cache";
+import { errorMessage } from "../errors";
+import type { ProviderScanner } from "../types";
+import { isAzurePermissionError } from "./errors";
+import type { AzureScanContext } from "./types";
+import "./checks";
+
+/**
+ * Authenticates with the subscription's service principal. Azure checks are
+ * all global, so a subscription is scanned through a single context.
+ */
+export const azureScanner: ProviderScanner<AzureScanContext> = {
+  isPermissionError: isAzurePermissionError,
+
+  async connect(subscription) {
+    if (!hasAzureCredentials(subscription)) {
+      throw new Error("Subscription has no service principal configured");
+    }
+
+    try {
+      await getAzureAccessToken(subscription, { accountId: subscription.id });
+    } catch (error) {
+      throw new Error(`Unable to authenticate: ${errorMessage(error)}`);
+    }
+
+    // The context lives for the whole audit so phases share cached listings
+    const global: AzureScanContext = {
+      client: createAzureClient({
+        ...subscription,
+        accountId: subscription.id,
+        subscriptionId: subscription.accountId,
+      }),
+      subscriptionId: subscription.accountId,
+      region: subscription.region,
+      cache: createScanCache(),
+    };
+
+    return { global, regional: [], regions: [] };
+  },
+};
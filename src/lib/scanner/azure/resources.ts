@@ -0,0 +1,83 @@
+import type {
+  AzureScanContext,
+  DefenderPricing,
+  DiagnosticSetting,
+  KeyVault,
+  LogProfile,
+  NetworkSecurityGroup,
+  RoleAssignment,
+  SecurityContact,
+  StorageAccount,
+} from "./types";
+
+// Resource listings shared by several checks, loaded once per scan
+
+function providerPath(ctx: AzureScanContext, provider: string): string {
+  return `/subscriptions/${encodeURIComponent(ctx.subscriptionId)}/providers/${provider}`;
+}
+
+export function listRoleAssignments(ctx: AzureScanContext): Promise<RoleAssignment[]> {
+  return ctx.cache.get("authorization:role-assignments", () =>
+    ctx.client.list<RoleAssignment>(
+      providerPath(ctx, "Microsoft.Authorization/roleAssignments"),
+      "2022-04-01"
+    )
+  );
+}
+
+export function listStorageAccounts(ctx: AzureScanContext): Promise<StorageAccount[]> {
+  return ctx.cache.get("storage:accounts", () =>
+    ctx.client.list<StorageAccount>(providerPath(ctx, "Microsoft.Storage/storageAccounts"), "2023-01-01")
+  );
+}
+
+export function listNetworkSecurityGroups(ctx: AzureScanContext): Promise<NetworkSecurityGroup[]> {
+  return ctx.cache.get("network:nsgs", () =>
+    ctx.client.list<NetworkSecurityGroup>(
+      providerPath(ctx, "Microsoft.Network/networkSecurityGroups"),
+      "2023-09-01"
+    )
+  );
+}
+
+export function listNetworkWatchers(ctx: AzureScanContext): Promise<Array<{ id: string; name: string }>> {
+  return ctx.cache.get("network:watchers", () =>
+    ctx.client.list(providerPath(ctx, "Microsoft.Network/networkWatchers"), "2023-09-01")
+  );
+}
+
+export function listActivityLogDiagnosticSettings(ctx: AzureScanContext): Promise<DiagnosticSetting[]> {
+  return ctx.cache.get("insights:diagnostic-settings", () =>
+    ctx.client.list<DiagnosticSetting>(
+      providerPath(ctx, "Microsoft.Insights/diagnosticSettings"),
+      "2021-05-01-preview"
+    )
+  );
+}
+
+export function listLogProfiles(ctx: AzureScanContext): Promise<LogProfile[]> {
+  return ctx.cache.get("insights:log-profiles", () =>
+    ctx.client.list<LogProfile>(providerPath(ctx, "Microsoft.Insights/logprofiles"), "2016-03-01")
+  );
+}
+
+export function listKeyVaults(ctx: AzureScanContext): Promise<KeyVault[]> {
+  return ctx.cache.get("keyvault:vaults", () =>
+    ctx.client.list<KeyVault>(providerPath(ctx, "Microsoft.KeyVault/vaults"), "2023-07-01")
+  );
+}
+
+export function listDefenderPricings(ctx: AzureScanContext): Promise<DefenderPricing[]> {
+  return ctx.cache.get("security:pricings", () =>
+    ctx.client.list<DefenderPricing>(providerPath(ctx, "Microsoft.Security/pricings"), "2024-01-01")
+  );
+}
+
+export function listSecurityContacts(ctx: AzureScanContext): Promise<SecurityContact[]> {
+  return ctx.cache.get("security:contacts", () =>
+    ctx.client.list<SecurityContact>(
+      providerPath(ctx, "Microsoft.Security/securityContacts"),
+      "2020-01-01-preview"
+    )
+  );
+}
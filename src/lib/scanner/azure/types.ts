@@ -0,0 +1,79 @@
+import type { AzureClient } from "@/lib/azure";
+import type { ScanCache } from "../cache";
+import type { CheckDefinition } from "../types";
+
+export interface AzureScanContext {
+  client: AzureClient;
+  subscriptionId: string;
+  // Default region of the subscription, used for findings on global resources
+  region: string;
+  cache: ScanCache;
+}
+
+export type AzureCheck = CheckDefinition<AzureScanContext>;
+
+// Subsets of the ARM resources that checks read
+
+export interface ArmResource<TProperties> {
+  id: string;
+  name: string;
+  location?: string;
+  tags?: Record<string, string>;
+  properties?: TProperties;
+}
+
+export type RoleAssignment = ArmResource<{
+  roleDefinitionId: string;
+  principalId: string;
+  principalType?: "User" | "Group" | "ServicePrincipal" | "ForeignGroup" | "Device";
+  scope: string;
+}>;
+
+export type StorageAccount = ArmResource<{
+  allowBlobPublicAccess?: boolean;
+  supportsHttpsTrafficOnly?: boolean;
+  minimumTlsVersion?: string;
+  encryption?: { requireInfrastructureEncryption?: boolean };
+  networkAcls?: { defaultAction?: "Allow" | "Deny" };
+}>;
+
+export interface SecurityRule {
+  name: string;
+  properties: {
+    direction: "Inbound" | "Outbound";
+    access: "Allow" | "Deny";
+    protocol: string;
+    sourceAddressPrefix?: string;
+    sourceAddressPrefixes?: string[];
+    destinationPortRange?: string;
+    destinationPortRanges?: string[];
+  };
+}
+
+export type NetworkSecurityGroup = ArmResource<{ securityRules?: SecurityRule[] }>;
+
+export type FlowLog = ArmResource<{ targetResourceId: string; enabled?: boolean }>;
+
+export type DiagnosticSetting = ArmResource<{
+  workspaceId?: string;
+  storageAccountId?: string;
+  eventHubAuthorizationRuleId?: string;
+  logs?: Array<{ category?: string; categoryGroup?: string; enabled: boolean }>;
+}>;
+
+export type LogProfile = ArmResource<{ retentionPolicy?: { enabled: boolean; days: number } }>;
+
+export type KeyVault = ArmResource<{
+  enableSoftDelete?: boolean;
+  enablePurgeProtection?: boolean;
+  enableRbacAuthorization?: boolean;
+  publicNetworkAccess?: string;
+  networkAcls?: { defaultAction?: "Allow" | "Deny" };
+}>;
+
+export type DefenderPricing = ArmResource<{ pricingTier: "Free" | "Standard" }>;
+
+export type SecurityContact = ArmResource<{
+  emails?: string;
+  alertNotifications?: { state?: "On" | "Off" };
+}>;
@@ -0,0 +1,15 @@
+// Per-scan memo so checks that need the same resource listing share one call
+export interface ScanCache {
+  get<T>(key: string, load: () => Promise<T>): Promise<T>;
+}
+
+export function createScanCache(): ScanCache {
+  const entries = new Map<string, Promise<unknown>>();
+
+  return {
+    get<T>(key: string, load: () => Promise<T>): Promise<T> {
+      if (!entries.has(key)) entries.set(key, load());
+      return entries.get(key) as Promise<T>;
+    },
+  };
+}
@@ -0,0 +1,25 @@
+import { createHash } from "crypto";
+import type { ScanFinding } from "./types";
+
+type FingerprintFields = Pick<
+  ScanFinding,
+  "findingId" | "resource" | "resourceArn" | "resourcePath" | "resourceId" | "region"
+>;
+
+/**
+ * Identify a finding across the audits of an account by the check that
+ * raised it and the resource it was raised on. Resources without a provider
+ * identifier are told apart by region, as their names repeat across regions.
+ */
+export function fingerprintFinding(finding: FingerprintFields): string {
+  const resource =
+    finding.resourceArn ??
+    finding.resourcePath ??
+    finding.resourceId ??
+    `${finding.region ?? ""}/${finding.resource}`;
+
+  return createHash("sha256")
+    .update(`${finding.findingId}\n${resource}`)
+    .digest("hex")
+    .slice(0, 32);
+}
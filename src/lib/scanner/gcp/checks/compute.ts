@@ -0,0 +1,85 @@
+import type { CheckViolation } from "../../types";
+import { lastSegment, listInstances } from "../resources";
+import type { GcpCheck, GcpInstance, GcpScanContext } from "../types";
+
+function instanceResource(ctx: GcpScanContext, instance: GcpInstance): CheckViolation {
+  const zone = lastSegment(instance.zone);
+  return {
+    resource: instance.name,
+    resourceType: "compute.googleapis.com/Instance",
+    resourcePath: `projects/${ctx.projectId}/zones/${zone}/instances/${instance.name}`,
+    // us-central1-a → us-central1
+    region: zone.replace(/-[a-z]$/, ""),
+    tags: instance.labels,
+  };
+}
+
+/**
+ * Report every instance for which `fails` returns true
+ */
+async function instancesFailing(
+  ctx: GcpScanContext,
+  fails: (instance: GcpInstance) => boolean
+): Promise<CheckViolation[]> {
+  return (await listInstances(ctx))
+    .filter(fails)
+    .map((instance) => instanceResource(ctx, instance));
+}
+
+function metadataValue(instance: GcpInstance, key: string): string | undefined {
+  return instance.metadata?.items?.find((item) => item.key === key)?.value;
+}
+
+// Phase 5: Compute Engine Security
+export const computeChecks: GcpCheck[] = [
+  {
+    id: "GCP-GCE-H01",
+    phase: 5,
+    provider: "GCP",
+    severity: "HIGH",
+    title: "Compute instance with default service account",
+    description: "The instance runs as the Compute Engine default service account, which has the Editor role by default.",
+    recommendation: "1. Create a dedicated service account with only the roles the workload needs. 2. Stop the instance and change its service account. 3. Restart the instance.",
+    evaluate: (ctx) =>
+      instancesFailing(ctx, (instance) =>
+        (instance.serviceAccounts ?? []).some((sa) =>
+          sa.email.endsWith("-compute@developer.gserviceaccount.com")
+        )
+      ),
+  },
+  {
+    id: "GCP-GCE-M01",
+    phase: 5,
+    provider: "GCP",
+    severity: "MEDIUM",
+    title: "Compute instance with public IP",
+    description: "The instance has an external IP address and is reachable from the internet if firewall rules allow.",
+    recommendation: "1. Remove the external access config. 2. Use Cloud NAT for outbound traffic. 3. Put public services behind a load balancer.",
+    evaluate: (ctx) =>
+      instancesFailing(ctx, (instance) =>
+        (instance.networkInterfaces ?? []).some((ni) => (ni.accessConfigs ?? []).length > 0)
+      ),
+  },
+  {
+    id: "GCP-GCE-M02",
+    phase: 5,
+    provider: "GCP",
+    severity: "MEDIUM",
+    title: "Serial port access enabled",
+    description: "Interactive serial console access is enabled on the instance and is not restricted by firewall rules.",
+    recommendation: "1. Set the serial-port-enable metadata key to false. 2. Enforce the compute.disableSerialPortAccess organization policy.",
+    evaluate: (ctx) =>
+      instancesFailing(ctx, (instance) => metadataValue(instance, "serial-port-enable") === "true"),
+  },
+  {
+    id: "GCP-GCE-L01",
+    phase: 5,
+    provider: "GCP",
+    severity: "LOW",
+    title: "Shielded VM secure boot disabled",
+    description: "Secure boot is off, so the instance does not verify its boot components.",
+    recommendation: "1. Stop the instance. 2. Enable Secure Boot under Shielded VM. 3. Restart the instance.",
+    evaluate: (ctx) =>
+      instancesFailing(ctx, (instance) => !instance.shieldedInstanceConfig?.enableSecureBoot),
+  },
+];
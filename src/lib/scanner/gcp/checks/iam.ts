@@ -0,0 +1,112 @@
+import type { CheckViolation } from "../../types";
+import { getProjectIamPolicy, listServiceAccounts } from "../resources";
+import type { GcpCheck, GcpScanContext } from "../types";
+
+// Keys older than this should have been rotated
+const MAX_KEY_AGE_DAYS = 90;
+
+const PRIMITIVE_ROLES = ["roles/owner", "roles/editor"];
+const PUBLIC_MEMBERS = ["allUsers", "allAuthenticatedUsers"];
+
+function projectResource(ctx: GcpScanContext, member: string): CheckViolation {
+  return {
+    resource: member.slice(member.indexOf(":") + 1),
+    resourceType: "cloudresourcemanager.googleapis.com/Project",
+    resourcePath: `projects/${ctx.projectId}`,
+  };
+}
+
+/**
+ * Report project IAM members that hold one of `roles` and match `member`
+ */
+async function membersWithRole(
+  ctx: GcpScanContext,
+  roles: string[],
+  member: (m: string) => boolean
+): Promise<CheckViolation[]> {
+  const { bindings = [] } = await getProjectIamPolicy(ctx);
+  const violations: CheckViolation[] = [];
+  for (const binding of bindings.filter((b) => roles.includes(b.role))) {
+    for (const m of (binding.members ?? []).filter(member)) {
+      violations.push({
+        ...projectResource(ctx, m),
+        description: `${m} is granted ${binding.role} on project ${ctx.projectId}.`,
+      });
+    }
+  }
+  return violations;
+}
+
+// Phase 1: Identity & Access Management (IAM)
+export const iamChecks: GcpCheck[] = [
+  {
+    id: "GCP-IAM-C01",
+    phase: 1,
+    provider: "GCP",
+    severity: "CRITICAL",
+    title: "Service account with Owner role",
+    description: "A service account has been granted the Owner role, providing unrestricted access to all project resources.",
+    recommendation: "1. Open IAM & Admin → IAM. 2. Replace the Owner role with predefined roles scoped to what the workload needs. 3. Review the service account's key usage.",
+    evaluate: async (ctx) => {
+      const violations = await membersWithRole(ctx, ["roles/owner"], (m) => m.startsWith("serviceAccount:"));
+      return violations.map((v) => ({
+        ...v,
+        resourceType: "iam.googleapis.com/ServiceAccount",
+        resourcePath: `projects/${ctx.projectId}/serviceAccounts/${v.resource}`,
+      }));
+    },
+  },
+  {
+    id: "GCP-IAM-C02",
+    phase: 1,
+    provider: "GCP",
+    severity: "CRITICAL",
+    title: "Project IAM policy grants access to the public",
+    description: "allUsers or allAuthenticatedUsers is bound to a role on the project, granting access to anyone on the internet.",
+    recommendation: "1. Open IAM & Admin → IAM. 2. Remove bindings for allUsers and allAuthenticatedUsers. 3. Grant access to specific identities instead.",
+    evaluate: (ctx) =>
+      getProjectIamPolicy(ctx).then(({ bindings = [] }) =>
+        membersWithRole(ctx, bindings.map((b) => b.role), (m) => PUBLIC_MEMBERS.includes(m))
+      ),
+  },
+  {
+    id: "GCP-IAM-H01",
+    phase: 1,
+    provider: "GCP",
+    severity: "HIGH",
+    title: "User account with primitive role",
+    description: "A user or group has the Owner or Editor role at project level, granting broad access to resources.",
+    recommendation: "1. Open IAM & Admin → IAM. 2. Replace Owner/Editor with predefined roles. 3. Use IAM Recommender to right-size permissions.",
+    evaluate: (ctx) =>
+      membersWithRole(ctx, PRIMITIVE_ROLES, (m) => m.startsWith("user:") || m.startsWith("group:")),
+  },
+  {
+    id: "GCP-IAM-M01",
+    phase: 1,
+    provider: "GCP",
+    severity: "MEDIUM",
+    title: "Service account key not rotated in 90 days",
+    description: `A user-managed service account key is older than ${MAX_KEY_AGE_DAYS} days.`,
+    recommendation: "1. Create a new key for the service account. 2. Roll it out to consumers. 3. Delete the old key, or move to Workload Identity to avoid keys altogether.",
+    evaluate: async (ctx) => {
+      const cutoff = Date.now() - MAX_KEY_AGE_DAYS * 24 * 60 * 60 * 1000;
+      const violations: CheckViolation[] = [];
+
+      for (const account of await listServiceAccounts(ctx)) {
+        const { keys = [] } = await ctx.client.request<{
+          keys?: Array<{ name: string; validAfterTime: string }>;
+        }>("iam", `/v1/${account.name}/keys`, { query: { keyTypes: "USER_MANAGED" } });
+
+        for (const key of keys.filter((k) => new Date(k.validAfterTime).getTime() < cutoff)) {
+          violations.push({
+            resource: account.email,
+            resourceType: "iam.googleapis.com/ServiceAccountKey",
+            resourcePath: key.name,
+            description: `Key ${key.name.split("/").pop()} of ${account.email} was created ${key.validAfterTime.slice(0, 10)}.`,
+          });
+        }
+      }
+      return violations;
+    },
+  },
+];
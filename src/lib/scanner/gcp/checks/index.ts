@@ -0,0 +1,19 @@
+import { registerChecks } from "../../registry";
+import type { GcpCheck } from "../types";
+import { computeChecks } from "./compute";
+import { iamChecks } from "./iam";
+import { loggingChecks } from "./logging";
+import { networkChecks } from "./network";
+import { sqlChecks } from "./sql";
+import { storageChecks } from "./storage";
+
+export const GCP_CHECKS: GcpCheck[] = [
+  ...iamChecks,
+  ...storageChecks,
+  ...networkChecks,
+  ...loggingChecks,
+  ...computeChecks,
+  ...sqlChecks,
+];
+
+registerChecks(...GCP_CHECKS);
@@ -0,0 +1,62 @@
+import { getProjectIamPolicy, listLogSinks } from "../resources";
+import type { GcpCheck } from "../types";
+
+const DATA_ACCESS_LOG_TYPES = ["ADMIN_READ", "DATA_READ", "DATA_WRITE"];
+
+// Phase 4: Cloud Logging & Monitoring
+export const loggingChecks: GcpCheck[] = [
+  {
+    id: "GCP-LOG-H01",
+    phase: 4,
+    provider: "GCP",
+    severity: "HIGH",
+    title: "Audit logging not enabled for all services",
+    description: "Data Access audit logs are not enabled for allServices, so reads and writes of user data are not recorded.",
+    recommendation: "1. Open IAM & Admin → Audit Logs. 2. Enable Admin Read, Data Read and Data Write for all services. 3. Avoid exempting members.",
+    evaluate: async (ctx) => {
+      const { auditConfigs = [] } = await getProjectIamPolicy(ctx);
+      const config = auditConfigs.find((c) => c.service === "allServices");
+      const enabled = config?.auditLogConfigs ?? [];
+      const missing = DATA_ACCESS_LOG_TYPES.filter(
+        (type) => !enabled.some((c) => c.logType === type)
+      );
+      const exempted = enabled.some((c) => c.exemptedMembers?.length);
+
+      if (missing.length === 0 && !exempted) return [];
+      return [
+        {
+          resource: "Project Audit Config",
+          resourceType: "cloudresourcemanager.googleapis.com/Project",
+          resourcePath: `projects/${ctx.projectId}`,
+          description: missing.length
+            ? `Audit log types not enabled for allServices: ${missing.join(", ")}.`
+            : "Some members are exempted from Data Access audit logging.",
+        },
+      ];
+    },
+  },
+  {
+    id: "GCP-LOG-M01",
+    phase: 4,
+    provider: "GCP",
+    severity: "MEDIUM",
+    title: "No log sink exports all log entries",
+    description: "Logs are only kept for the default retention period and are not exported for long-term storage or analysis.",
+    recommendation: "1. Open Logging → Log Router. 2. Create a sink with an empty filter. 3. Route it to a locked Cloud Storage bucket or BigQuery dataset.",
+    evaluate: async (ctx) => {
+      const sinks = await listLogSinks(ctx);
+      // The built-in _Required and _Default sinks only feed in-project buckets
+      const exportsAll = sinks.some(
+        (sink) => !sink.disabled && !sink.name.startsWith("_") && !sink.filter?.trim()
+      );
+      if (exportsAll) return [];
+      return [
+        {
+          resource: "Log Router",
+          resourceType: "logging.googleapis.com/LogSink",
+          resourcePath: `projects/${ctx.projectId}/sinks`,
+        },
+      ];
+    },
+  },
+];
@@ -0,0 +1,102 @@
+import type { CheckViolation } from "../../types";
+import { lastSegment, listFirewalls, listNetworks, listSubnetworks } from "../resources";
+import type { GcpCheck, GcpFirewall, GcpScanContext } from "../types";
+
+const OPEN_RANGES = ["0.0.0.0/0", "::/0"];
+
+// Whether a port list entry like "22" or "20-30" covers the port
+function portInRange(range: string, port: number): boolean {
+  const [from, to = from] = range.split("-").map(Number);
+  return port >= from && port <= to;
+}
+
+/**
+ * Whether an enabled ingress rule admits the port from anywhere on the internet
+ */
+function opensPortToInternet(rule: GcpFirewall, port: number): boolean {
+  if (rule.disabled || (rule.direction ?? "INGRESS") !== "INGRESS") return false;
+  if (!(rule.sourceRanges ?? []).some((r) => OPEN_RANGES.includes(r))) return false;
+
+  return (rule.allowed ?? []).some(
+    (a) =>
+      (a.IPProtocol === "all" || a.IPProtocol === "tcp") &&
+      (!a.ports?.length || a.ports.some((p) => portInRange(p, port)))
+  );
+}
+
+function firewallsOpening(ctx: GcpScanContext, port: number): Promise<CheckViolation[]> {
+  return listFirewalls(ctx).then((rules) =>
+    rules
+      .filter((rule) => opensPortToInternet(rule, port))
+      .map((rule) => ({
+        resource: rule.name,
+        resourceType: "compute.googleapis.com/Firewall",
+        resourcePath: `projects/${ctx.projectId}/global/firewalls/${rule.name}`,
+        region: "global",
+        description: `Firewall rule ${rule.name} on network ${lastSegment(rule.network)} allows port ${port} from the internet.`,
+      }))
+  );
+}
+
+// Phase 3: VPC Network Security
+export const networkChecks: GcpCheck[] = [
+  {
+    id: "GCP-VPC-C01",
+    phase: 3,
+    provider: "GCP",
+    severity: "CRITICAL",
+    title: "Firewall rule allows SSH from 0.0.0.0/0",
+    description: "An ingress firewall rule allows SSH (port 22) from any IP address.",
+    recommendation: "1. Restrict the rule's source ranges to known networks. 2. Use Identity-Aware Proxy TCP forwarding (35.235.240.0/20) for SSH access.",
+    evaluate: (ctx) => firewallsOpening(ctx, 22),
+  },
+  {
+    id: "GCP-VPC-C02",
+    phase: 3,
+    provider: "GCP",
+    severity: "CRITICAL",
+    title: "Firewall rule allows RDP from 0.0.0.0/0",
+    description: "An ingress firewall rule allows RDP (port 3389) from any IP address.",
+    recommendation: "1. Restrict the rule's source ranges to known networks. 2. Use Identity-Aware Proxy TCP forwarding for RDP access.",
+    evaluate: (ctx) => firewallsOpening(ctx, 3389),
+  },
+  {
+    id: "GCP-VPC-H01",
+    phase: 3,
+    provider: "GCP",
+    severity: "HIGH",
+    title: "Default network exists",
+    description: "The auto-created default network ships with permissive firewall rules and subnets in every region.",
+    recommendation: "1. Move workloads to a custom-mode VPC. 2. Delete the default network. 3. Enforce the compute.skipDefaultNetworkCreation organization policy.",
+    evaluate: async (ctx) =>
+      (await listNetworks(ctx))
+        .filter((network) => network.name === "default")
+        .map((network) => ({
+          resource: network.name,
+          resourceType: "compute.googleapis.com/Network",
+          resourcePath: `projects/${ctx.projectId}/global/networks/${network.name}`,
+          region: "global",
+        })),
+  },
+  {
+    id: "GCP-VPC-M01",
+    phase: 3,
+    provider: "GCP",
+    severity: "MEDIUM",
+    title: "VPC Flow Logs not enabled",
+    description: "Subnet traffic is not logged, limiting network forensics.",
+    recommendation: "1. Open VPC network → Subnets. 2. Edit each subnet and turn Flow logs on. 3. Choose an aggregation interval and sample rate.",
+    evaluate: async (ctx) =>
+      (await listSubnetworks(ctx))
+        .filter((subnet) => !(subnet.logConfig?.enable ?? subnet.enableFlowLogs))
+        .map((subnet) => {
+          const region = lastSegment(subnet.region);
+          return {
+            resource: subnet.name,
+            resourceType: "compute.googleapis.com/Subnetwork",
+            resourcePath: `projects/${ctx.projectId}/regions/${region}/subnetworks/${subnet.name}`,
+            region,
+          };
+        }),
+  },
+];
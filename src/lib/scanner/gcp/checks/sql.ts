@@ -0,0 +1,81 @@
+import type { CheckViolation } from "../../types";
+import { listSqlInstances } from "../resources";
+import type { GcpCheck, GcpScanContext, GcpSqlInstance } from "../types";
+
+// SSL modes that reject unencrypted connections
+const ENCRYPTED_SSL_MODES = ["ENCRYPTED_ONLY", "TRUSTED_CLIENT_CERTIFICATE_REQUIRED"];
+
+function sqlResource(ctx: GcpScanContext, instance: GcpSqlInstance): CheckViolation {
+  return {
+    resource: instance.name,
+    resourceType: "sqladmin.googleapis.com/Instance",
+    resourcePath: `projects/${ctx.projectId}/instances/${instance.name}`,
+    region: instance.region,
+    tags: instance.settings?.userLabels,
+  };
+}
+
+/**
+ * Report every Cloud SQL instance for which `fails` returns true
+ */
+async function sqlInstancesFailing(
+  ctx: GcpScanContext,
+  fails: (instance: GcpSqlInstance) => boolean
+): Promise<CheckViolation[]> {
+  return (await listSqlInstances(ctx)).filter(fails).map((instance) => sqlResource(ctx, instance));
+}
+
+// Phase 6: Cloud SQL & BigQuery
+export const sqlChecks: GcpCheck[] = [
+  {
+    id: "GCP-SQL-C01",
+    phase: 6,
+    provider: "GCP",
+    severity: "CRITICAL",
+    title: "Cloud SQL instance open to the internet",
+    description: "An authorized network of 0.0.0.0/0 lets any IP address connect to the instance.",
+    recommendation: "1. Open the instance → Connections. 2. Remove 0.0.0.0/0 from authorized networks. 3. Connect through the Cloud SQL Auth Proxy or private IP.",
+    evaluate: (ctx) =>
+      sqlInstancesFailing(ctx, (instance) =>
+        (instance.settings?.ipConfiguration?.authorizedNetworks ?? []).some(
+          (n) => n.value === "0.0.0.0/0"
+        )
+      ),
+  },
+  {
+    id: "GCP-SQL-H01",
+    phase: 6,
+    provider: "GCP",
+    severity: "HIGH",
+    title: "Cloud SQL instance with public IP",
+    description: "The database instance has a public IP address assigned.",
+    recommendation: "1. Configure private IP on the instance's VPC. 2. Disable public IP. 3. Use the Cloud SQL Auth Proxy for access.",
+    evaluate: (ctx) =>
+      sqlInstancesFailing(ctx, (instance) => Boolean(instance.settings?.ipConfiguration?.ipv4Enabled)),
+  },
+  {
+    id: "GCP-SQL-M01",
+    phase: 6,
+    provider: "GCP",
+    severity: "MEDIUM",
+    title: "Cloud SQL instance does not require SSL",
+    description: "Clients can connect to the instance without encryption.",
+    recommendation: "1. Open the instance → Connections → Security. 2. Allow only SSL connections. 3. Rotate client certificates if used.",
+    evaluate: (ctx) =>
+      sqlInstancesFailing(ctx, (instance) => {
+        const ip = instance.settings?.ipConfiguration;
+        return !ip?.requireSsl && !ENCRYPTED_SSL_MODES.includes(ip?.sslMode ?? "");
+      }),
+  },
+  {
+    id: "GCP-SQL-M02",
+    phase: 6,
+    provider: "GCP",
+    severity: "MEDIUM",
+    title: "Cloud SQL automated backups disabled",
+    description: "The instance has no automated backups, so data cannot be restored after loss or corruption.",
+    recommendation: "1. Open the instance → Edit → Data protection. 2. Enable automated backups and point-in-time recovery.",
+    evaluate: (ctx) =>
+      sqlInstancesFailing(ctx, (instance) => !instance.settings?.backupConfiguration?.enabled),
+  },
+];
@@ -0,0 +1,82 @@
+import type { CheckViolation } from "../../types";
+import { listBuckets } from "../resources";
+import type { GcpBucket, GcpCheck, GcpIamPolicy, GcpScanContext } from "../types";
+
+function bucketResource(bucket: GcpBucket): CheckViolation {
+  return {
+    resource: bucket.name,
+    resourceType: "storage.googleapis.com/Bucket",
+    resourcePath: `gs://${bucket.name}`,
+    region: bucket.location?.toLowerCase(),
+    tags: bucket.labels,
+  };
+}
+
+/**
+ * Report every bucket for which `fails` resolves true
+ */
+async function bucketsFailing(
+  ctx: GcpScanContext,
+  fails: (bucket: GcpBucket) => boolean | Promise<boolean>
+): Promise<CheckViolation[]> {
+  const violations: CheckViolation[] = [];
+  for (const bucket of await listBuckets(ctx)) {
+    if (await fails(bucket)) violations.push(bucketResource(bucket));
+  }
+  return violations;
+}
+
+// Phase 2: Cloud Storage Security
+export const storageChecks: GcpCheck[] = [
+  {
+    id: "GCP-GCS-C01",
+    phase: 2,
+    provider: "GCP",
+    severity: "CRITICAL",
+    title: "Cloud Storage bucket publicly accessible",
+    description: "The bucket IAM policy grants access to allUsers or allAuthenticatedUsers.",
+    recommendation: "1. Open the bucket → Permissions. 2. Remove allUsers and allAuthenticatedUsers. 3. Enforce public access prevention.",
+    evaluate: (ctx) =>
+      bucketsFailing(ctx, async (bucket) => {
+        if (bucket.iamConfiguration?.publicAccessPrevention === "enforced") return false;
+        const { bindings = [] } = await ctx.client.request<GcpIamPolicy>(
+          "storage",
+          `/storage/v1/b/${encodeURIComponent(bucket.name)}/iam`
+        );
+        return bindings.some((b) =>
+          (b.members ?? []).some((m) => m === "allUsers" || m === "allAuthenticatedUsers")
+        );
+      }),
+  },
+  {
+    id: "GCP-GCS-H01",
+    phase: 2,
+    provider: "GCP",
+    severity: "HIGH",
+    title: "Cloud Storage bucket without encryption key management",
+    description: "The bucket is encrypted with Google-managed keys only; no customer-managed key controls access to its data.",
+    recommendation: "1. Create a Cloud KMS key. 2. Set it as the bucket's default encryption key. 3. Grant the Cloud Storage service agent encrypt/decrypt on the key.",
+    evaluate: (ctx) => bucketsFailing(ctx, (bucket) => !bucket.encryption?.defaultKmsKeyName),
+  },
+  {
+    id: "GCP-GCS-M01",
+    phase: 2,
+    provider: "GCP",
+    severity: "MEDIUM",
+    title: "Uniform bucket-level access disabled",
+    description: "Object ACLs are in use, so access cannot be audited from the bucket IAM policy alone.",
+    recommendation: "1. Open the bucket → Permissions. 2. Switch access control to Uniform. 3. Move any object ACL grants into bucket IAM.",
+    evaluate: (ctx) =>
+      bucketsFailing(ctx, (bucket) => !bucket.iamConfiguration?.uniformBucketLevelAccess?.enabled),
+  },
+  {
+    id: "GCP-GCS-L01",
+    phase: 2,
+    provider: "GCP",
+    severity: "LOW",
+    title: "Object versioning disabled",
+    description: "Overwritten or deleted objects cannot be recovered.",
+    recommendation: "1. Run gcloud storage buckets update gs://BUCKET --versioning. 2. Add a lifecycle rule to expire old versions.",
+    evaluate: (ctx) => bucketsFailing(ctx, (bucket) => !bucket.versioning?.enabled),
+  },
+];
@@ -0,0 +1,9 @@
+import { GcpApiError } from "@/lib/gcp";
+
+/**
+ * Check whether a Google API call failed because the service account lacks
+ * permission, or because the API is not enabled in the project
+ */
+export function isGcpPermissionError(error: unknown): boolean {
+  return error instanceof GcpApiError && error.status === 403;
+}
@@ -0,0 +1,42 @@
+import { createGcpClient, getGcpAccessToken } from "@/lib/gcp";
+import { createScanCache } from "../cache";
+import { errorMessage } from "../errors";
+import type { ProviderScanner } from "../types";
+import { isGcpPermissionError } from "./errors";
+import type { GcpScanContext } from "./types";
+import "./checks";
+
+/**
+ * Authenticates with the project's service account key. GCP checks are all
+ * global, so a project is scanned through a single context.
+ */
+export const gcpScanner: ProviderScanner<GcpScanContext> = {
+  isPermissionError: isGcpPermissionError,
+
+  async connect(project) {
+    if (!project.serviceAccountKey) {
+      throw new Error("Project has no service account key configured");
+    }
+    const serviceAccountKey = project.serviceAccountKey;
+
+    try {
+      await getGcpAccessToken(serviceAccountKey, { accountId: project.id });
+    } catch (error) {
+      throw new Error(`Unable to authenticate: ${errorMessage(error)}`);
+    }
+
+    // The context lives for the whole audit so phases share cached listings
+    const global: GcpScanContext = {
+      client: createGcpClient({
+        accountId: project.id,
+        projectId: project.accountId,
+        serviceAccountKey,
+      }),
+      projectId: project.accountId,
+      region: project.region,
+      cache: createScanCache(),
+    };
+
+    return { global, regional: [], regions: [] };
+  },
+};
@@ -0,0 +1,99 @@
+import type {
+  GcpBucket,
+  GcpFirewall,
+  GcpIamPolicy,
+  GcpInstance,
+  GcpLogSink,
+  GcpNetwork,
+  GcpScanContext,
+  GcpServiceAccount,
+  GcpSqlInstance,
+  GcpSubnetwork,
+} from "./types";
+
+// Resource listings shared by several checks, loaded once per scan
+
+function projectPath({ projectId }: GcpScanContext): string {
+  return `/projects/${encodeURIComponent(projectId)}`;
+}
+
+// Last segment of a resource URL, e.g. the zone name of an instance
+export function lastSegment(url: string): string {
+  return url.slice(url.lastIndexOf("/") + 1);
+}
+
+export function getProjectIamPolicy(ctx: GcpScanContext): Promise<GcpIamPolicy> {
+  return ctx.cache.get("crm:iam-policy", () =>
+    ctx.client.request<GcpIamPolicy>("cloudresourcemanager", `/v1${projectPath(ctx)}:getIamPolicy`, {
+      method: "POST",
+      body: { options: { requestedPolicyVersion: 3 } },
+    })
+  );
+}
+
+export function listServiceAccounts(ctx: GcpScanContext): Promise<GcpServiceAccount[]> {
+  return ctx.cache.get("iam:service-accounts", () =>
+    ctx.client.list<GcpServiceAccount>("iam", `/v1${projectPath(ctx)}/serviceAccounts`, "accounts")
+  );
+}
+
+export function listBuckets(ctx: GcpScanContext): Promise<GcpBucket[]> {
+  return ctx.cache.get("storage:buckets", () =>
+    ctx.client.list<GcpBucket>("storage", "/storage/v1/b", "items", { project: ctx.projectId })
+  );
+}
+
+export function listFirewalls(ctx: GcpScanContext): Promise<GcpFirewall[]> {
+  return ctx.cache.get("compute:firewalls", () =>
+    ctx.client.list<GcpFirewall>("compute", `/compute/v1${projectPath(ctx)}/global/firewalls`, "items")
+  );
+}
+
+export function listNetworks(ctx: GcpScanContext): Promise<GcpNetwork[]> {
+  return ctx.cache.get("compute:networks", () =>
+    ctx.client.list<GcpNetwork>("compute", `/compute/v1${projectPath(ctx)}/global/networks`, "items")
+  );
+}
+
+/**
+ * Read a Compute aggregated list, whose pages map each zone or region to
+ * its own list, and flatten it
+ */
+async function listAggregated<T>(ctx: GcpScanContext, resource: string): Promise<T[]> {
+  const items: T[] = [];
+  let pageToken: string | undefined;
+  do {
+    const page = await ctx.client.request<{
+      items?: Record<string, Record<string, T[] | undefined>>;
+      nextPageToken?: string;
+    }>("compute", `/compute/v1${projectPath(ctx)}/aggregated/${resource}`, {
+      query: { pageToken },
+    });
+    for (const scope of Object.values(page.items ?? {})) {
+      items.push(...(scope[resource] ?? []));
+    }
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+  return items;
+}
+
+export function listSubnetworks(ctx: GcpScanContext): Promise<GcpSubnetwork[]> {
+  return ctx.cache.get("compute:subnetworks", () => listAggregated<GcpSubnetwork>(ctx, "subnetworks"));
+}
+
+// Instances in every zone of the project
+export function listInstances(ctx: GcpScanContext): Promise<GcpInstance[]> {
+  return ctx.cache.get("compute:instances", () => listAggregated<GcpInstance>(ctx, "instances"));
+}
+
+export function listLogSinks(ctx: GcpScanContext): Promise<GcpLogSink[]> {
+  return ctx.cache.get("logging:sinks", () =>
+    ctx.client.list<GcpLogSink>("logging", `/v2${projectPath(ctx)}/sinks`, "sinks")
+  );
+}
+
+export function listSqlInstances(ctx: GcpScanContext): Promise<GcpSqlInstance[]> {
+  return ctx.cache.get("sql:instances", () =>
+    ctx.client.list<GcpSqlInstance>("sqladmin", `/v1${projectPath(ctx)}/instances`, "items")
+  );
+}
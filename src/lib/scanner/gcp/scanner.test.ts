@@ -0,0 +1,95 @@
+import { generateKeyPairSync } from "crypto";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import path from "path";
+import type { CloudAccount } from "@prisma/client";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { startReplayServer } from "../../../../scripts/replay-server";
+import { runPhaseChecks } from "../run-checks";
+import type { CheckResult } from "../types";
+import { GCP_CHECKS } from "./checks";
+import { gcpScanner } from ".";
+
+const RECORDING = path.join(__dirname, "../../../../scripts/fixtures/gcp-demo-project.json");
+
+function serviceAccountKey(): string {
+  const { privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  return JSON.stringify({
+    type: "service_account",
+    project_id: "demo-project",
+    client_email: "scanner@demo-project.iam.gserviceaccount.com",
+    private_key: privateKey.export({ type: "pkcs8", format: "pem" }),
+  });
+}
+
+// Scans the demo project through the stand-in replaying its recorded responses
+describe("GCP checks against a recorded project", () => {
+  let server: Server;
+  let results: Map<string, CheckResult>;
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = startReplayServer({
+      name: "GCP",
+      file: RECORDING,
+      port: 0,
+      record: false,
+      isTokenRequest: (url) => url.pathname === "/token",
+      upstreamUrl: () => undefined,
+    });
+    await new Promise((resolve) => server.once("listening", resolve));
+    vi.stubEnv("GCP_ENDPOINT_URL", `http://localhost:${(server.address() as AddressInfo).port}`);
+
+    const project = {
+      id: "account-1",
+      accountId: "demo-project",
+      region: "us-central1",
+      serviceAccountKey: serviceAccountKey(),
+    } as CloudAccount;
+    const { global } = await gcpScanner.connect(project, []);
+    const checkResults = await runPhaseChecks(GCP_CHECKS, global, {
+      isPermissionError: gcpScanner.isPermissionError,
+    });
+    results = new Map(checkResults.map((result) => [result.checkId, result]));
+  });
+
+  afterAll(() => {
+    server?.close();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  const resources = (checkId: string) => results.get(checkId)?.findings.map((f) => f.resource);
+
+  it("evaluates every check", () => {
+    expect([...results.keys()]).toEqual(GCP_CHECKS.map((check) => check.id));
+    expect([...results.values()].filter((r) => r.status === "error")).toEqual([]);
+  });
+
+  it("flags primitive roles and user-managed keys of service accounts", () => {
+    expect(resources("GCP-IAM-C01")).toEqual(["ci-deployer@demo-project.iam.gserviceaccount.com"]);
+    expect(resources("GCP-IAM-H01")).toEqual(["admin@example.com", "developer@example.com"]);
+    expect(resources("GCP-IAM-M01")).toEqual(["ci-deployer@demo-project.iam.gserviceaccount.com"]);
+    expect(results.get("GCP-IAM-C02")?.status).toBe("pass");
+  });
+
+  it("flags public and unversioned buckets", () => {
+    expect(resources("GCP-GCS-C01")).toEqual(["demo-public-assets"]);
+    expect(resources("GCP-GCS-M01")).toEqual(["demo-backups"]);
+  });
+
+  it("flags firewall rules open to the internet and the default network", () => {
+    expect(resources("GCP-VPC-C01")).toEqual(["allow-ssh-all"]);
+    expect(results.get("GCP-VPC-C02")?.status).toBe("pass");
+    expect(resources("GCP-VPC-H01")).toEqual(["default"]);
+  });
+
+  it("skips checks of an API the project has not enabled", () => {
+    for (const id of ["GCP-SQL-C01", "GCP-SQL-H01", "GCP-SQL-M01", "GCP-SQL-M02"]) {
+      expect(results.get(id)).toMatchObject({
+        status: "skipped",
+        message: expect.stringContaining("Cloud SQL Admin API"),
+      });
+    }
+  });
+});
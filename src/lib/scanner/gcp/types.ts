@@ -0,0 +1,106 @@
+import type { GcpClient } from "@/lib/gcp";
+import type { ScanCache } from "../cache";
+import type { CheckDefinition } from "../types";
+
+export interface GcpScanContext {
+  client: GcpClient;
+  projectId: string;
+  // Default region of the project, used for findings on global resources
+  region: string;
+  cache: ScanCache;
+}
+
+export type GcpCheck = CheckDefinition<GcpScanContext>;
+
+// Subsets of the Google API resources that checks read
+
+export interface GcpIamBinding {
+  role: string;
+  members?: string[];
+}
+
+export interface GcpIamPolicy {
+  bindings?: GcpIamBinding[];
+  auditConfigs?: Array<{
+    service: string;
+    auditLogConfigs?: Array<{ logType: string; exemptedMembers?: string[] }>;
+  }>;
+}
+
+export interface GcpServiceAccount {
+  name: string;
+  email: string;
+  disabled?: boolean;
+}
+
+export interface GcpServiceAccountKeyInfo {
+  name: string;
+  validAfterTime: string;
+  keyType?: string;
+}
+
+export interface GcpBucket {
+  name: string;
+  location?: string;
+  labels?: Record<string, string>;
+  versioning?: { enabled?: boolean };
+  encryption?: { defaultKmsKeyName?: string };
+  iamConfiguration?: {
+    uniformBucketLevelAccess?: { enabled?: boolean };
+    publicAccessPrevention?: string;
+  };
+}
+
+export interface GcpFirewall {
+  name: string;
+  network: string;
+  direction?: "INGRESS" | "EGRESS";
+  disabled?: boolean;
+  sourceRanges?: string[];
+  allowed?: Array<{ IPProtocol: string; ports?: string[] }>;
+}
+
+export interface GcpNetwork {
+  name: string;
+  autoCreateSubnetworks?: boolean;
+}
+
+export interface GcpSubnetwork {
+  name: string;
+  region: string;
+  enableFlowLogs?: boolean;
+  logConfig?: { enable?: boolean };
+}
+
+export interface GcpInstance {
+  name: string;
+  zone: string;
+  status?: string;
+  labels?: Record<string, string>;
+  serviceAccounts?: Array<{ email: string; scopes?: string[] }>;
+  networkInterfaces?: Array<{ accessConfigs?: Array<{ natIP?: string }> }>;
+  metadata?: { items?: Array<{ key: string; value?: string }> };
+  shieldedInstanceConfig?: { enableSecureBoot?: boolean };
+}
+
+export interface GcpLogSink {
+  name: string;
+  destination: string;
+  filter?: string;
+  disabled?: boolean;
+}
+
+export interface GcpSqlInstance {
+  name: string;
+  region?: string;
+  settings?: {
+    userLabels?: Record<string, string>;
+    ipConfiguration?: {
+      ipv4Enabled?: boolean;
+      requireSsl?: boolean;
+      sslMode?: string;
+      authorizedNetworks?: Array<{ name?: string; value: string }>;
+    };
+    backupConfiguration?: { enabled?: boolean };
+  };
+}
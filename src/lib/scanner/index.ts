@@ -0,0 +1,32 @@
+export {
+  createAudit,
+  runAudit,
+  cancelAudit,
+  retryAudit,
+  rescoreAudit,
+  AUDIT_CANCELLED_MESSAGE,
+} from "./audit";
+export { fingerprintFinding } from "./fingerprint";
+export { loadEvaluatedChecks } from "./lifecycle";
+export { registerChecks, getChecks, getCheck, getPhases } from "./registry";
+export {
+  calculateRiskScore,
+  calculateComplianceScore,
+  countBySeverity,
+  countCheckResults,
+  subtractCounts,
+  sumCheckCounts,
+} from "./scoring";
+export type {
+  ScanFinding,
+  SeverityCounts,
+  CheckCounts,
+  CheckResult,
+  AuditRunResult,
+  CheckDefinition,
+  CheckMetadata,
+  CheckViolation,
+  RegisteredPhase,
+  ProviderScanner,
+  ScanTarget,
+} from "./types";
@@ -0,0 +1,148 @@
+import { prisma } from "@/lib/db";
+import { slaDueDate, type SlaPolicy } from "@/lib/sla";
+import { fingerprintFinding } from "./fingerprint";
+import type { ScanFinding } from "./types";
+
+/**
+ * Attach lifecycle fields to the findings of an audit by matching them with
+ * the latest occurrence of their fingerprint in earlier audits of the
+ * account. Triage status, assignee and due date carry forward, so a
+ * fingerprint marked a false positive is classified as one again; a finding
+ * raised again after being resolved is reopened and flagged as a regression.
+ * New and regressed findings are due by the SLA policy of their severity.
+ *
+ * Returns the findings to create, the earlier occurrences they supersede and
+ * the history events of regressions.
+ */
+export async function trackFindings<T extends ScanFinding>(
+  accountId: string,
+  auditId: string,
+  findings: T[],
+  slaPolicy: SlaPolicy
+) {
+  const seenAt = new Date();
+  const fingerprinted = findings.map((finding) => ({
+    ...finding,
+    fingerprint: fingerprintFinding(finding),
+  }));
+
+  const previous = await prisma.finding.findMany({
+    where: {
+      fingerprint: { in: fingerprinted.map((f) => f.fingerprint) },
+      latest: true,
+      auditId: { not: auditId },
+      audit: { accountId },
+    },
+    select: {
+      id: true,
+      fingerprint: true,
+      status: true,
+      suppressionRuleId: true,
+      assigneeId: true,
+      dueAt: true,
+      firstSeenAt: true,
+      occurrences: true,
+      regression: true,
+    },
+  });
+  const previousByFingerprint = new Map(previous.map((p) => [p.fingerprint, p]));
+
+  const tracked = fingerprinted.map((finding) => {
+    const prev = previousByFingerprint.get(finding.fingerprint);
+    const regressed = prev?.status === "resolved";
+
+    return {
+      ...finding,
+      status: prev && !regressed ? prev.status : "open",
+      suppressionRuleId: prev && !regressed ? prev.suppressionRuleId : null,
+      assigneeId: prev?.assigneeId ?? null,
+      dueAt: prev && !regressed ? prev.dueAt : slaDueDate(slaPolicy, finding.severity, seenAt),
+      firstSeenAt: prev?.firstSeenAt ?? seenAt,
+      lastSeenAt: seenAt,
+      occurrences: (prev?.occurrences ?? 0) + 1,
+      regression: regressed || Boolean(prev?.regression),
+    };
+  });
+
+  const events = tracked
+    .filter((f) => previousByFingerprint.get(f.fingerprint)?.status === "resolved")
+    .map((f) => ({
+      type: "regressed",
+      fromStatus: "resolved",
+      toStatus: "open",
+      fingerprint: f.fingerprint,
+      accountId,
+    }));
+
+  return { findings: tracked, supersededIds: previous.map((p) => p.id), events };
+}
+
+/**
+ * Load the checks an audit evaluated, as a test of whether the check behind
+ * a finding ran in the finding's region (for regional checks). A check that
+ * errored or was skipped says nothing about the findings it would raise.
+ */
+export async function loadEvaluatedChecks(auditId: string) {
+  const results = await prisma.checkResult.findMany({
+    where: { auditId, status: { in: ["pass", "fail"] } },
+    select: { checkId: true, region: true },
+  });
+
+  // Global checks are recorded without a region
+  const evaluated = new Set(results.map((r) => `${r.checkId}|${r.region ?? ""}`));
+  return (finding: { findingId: string; region: string | null }) =>
+    evaluated.has(`${finding.findingId}|`) ||
+    evaluated.has(`${finding.findingId}|${finding.region ?? ""}`);
+}
+
+/**
+ * Resolve the open findings of an account that an audit no longer raised,
+ * as far as the audit evaluated their checks. False positives keep their
+ * classification, so that the finding is classified again if it comes back.
+ * Pending and approved acceptances of resolved findings end with them, so an
+ * expiring acceptance does not reopen a finding that is gone.
+ */
+export async function resolveMissingFindings(accountId: string, auditId: string): Promise<number> {
+  const [wasEvaluated, candidates] = await Promise.all([
+    loadEvaluatedChecks(auditId),
+    prisma.finding.findMany({
+      where: {
+        latest: true,
+        status: { notIn: ["resolved", "false_positive"] },
+        auditId: { not: auditId },
+        audit: { accountId },
+      },
+      select: { id: true, findingId: true, region: true, fingerprint: true, status: true },
+    }),
+  ]);
+
+  const missing = candidates.filter(wasEvaluated);
+  if (missing.length === 0) return 0;
+
+  const [{ count }] = await prisma.$transaction([
+    prisma.finding.updateMany({
+      where: { id: { in: missing.map((f) => f.id) } },
+      // A resolved finding is no longer held by the rule that ignored it
+      data: { status: "resolved", resolvedAt: new Date(), suppressionRuleId: null },
+    }),
+    prisma.riskAcceptance.updateMany({
+      where: {
+        accountId,
+        fingerprint: { in: missing.map((f) => f.fingerprint) },
+        status: { in: ["pending", "approved"] },
+      },
+      data: { status: "resolved" },
+    }),
+    prisma.findingEvent.createMany({
+      data: missing.map((f) => ({
+        type: "auto_resolved",
+        fromStatus: f.status,
+        toStatus: "resolved",
+        fingerprint: f.fingerprint,
+        accountId,
+        findingId: f.id,
+      })),
+    }),
+  ]);
+  return count;
+}
@@ -0,0 +1,93 @@
+import { AUDIT_PHASES, AZURE_AUDIT_PHASES, GCP_AUDIT_PHASES, type AuditPhase, type CloudProvider } from "@/types";
+import type {
+  CheckDefinition,
+  CheckMetadata,
+  CheckViolation,
+  RegisteredPhase,
+  ScanFinding,
+} from "./types";
+
+// Phase names and descriptions per provider; checks attach to these by number
+const PHASE_CATALOGS: Record<CloudProvider, AuditPhase[]> = {
+  AWS: AUDIT_PHASES,
+  GCP: GCP_AUDIT_PHASES,
+  AZURE: AZURE_AUDIT_PHASES,
+};
+
+// Keyed by check ID. The context type is only known to each provider's runner.
+const checks = new Map<string, CheckDefinition<never>>();
+
+/**
+ * Add checks to the registry. Check IDs are global and must be unique within
+ * a batch; registering an ID again replaces it, which keeps hot reloads
+ * working. Each check must belong to a phase in its provider's catalog.
+ */
+export function registerChecks<TContext>(...definitions: CheckDefinition<TContext>[]): void {
+  const ids = new Set<string>();
+  for (const definition of definitions) {
+    if (ids.has(definition.id)) {
+      throw new Error(`Check ${definition.id} is defined twice`);
+    }
+    ids.add(definition.id);
+    if (!PHASE_CATALOGS[definition.provider].some((p) => p.number === definition.phase)) {
+      throw new Error(
+        `Check ${definition.id} targets unknown ${definition.provider} phase ${definition.phase}`
+      );
+    }
+    checks.set(definition.id, definition as CheckDefinition<never>);
+  }
+}
+
+/**
+ * Registered checks for a provider, optionally limited to one phase, in
+ * registration order
+ */
+export function getChecks<TContext>(provider: CloudProvider, phase?: number): CheckDefinition<TContext>[] {
+  return [...checks.values()].filter(
+    (c) => c.provider === provider && (phase === undefined || c.phase === phase)
+  ) as unknown as CheckDefinition<TContext>[];
+}
+
+export function getCheck(id: string): CheckMetadata | undefined {
+  const check = checks.get(id);
+  return check && toMetadata(check);
+}
+
+function toMetadata(check: CheckDefinition<never>): CheckMetadata {
+  const { id, phase, provider, regional, severity, title, description, recommendation } = check;
+  return { id, phase, provider, regional, severity, title, description, recommendation };
+}
+
+/**
+ * Phases that have at least one registered check, with those checks
+ */
+export function getPhases(provider: CloudProvider): RegisteredPhase[] {
+  const registered = getChecks<never>(provider).map(toMetadata);
+
+  return PHASE_CATALOGS[provider]
+    .map((phase) => ({
+      ...phase,
+      checks: registered.filter((c) => c.phase === phase.number),
+    }))
+    .filter((phase) => phase.checks.length > 0);
+}
+
+/**
+ * Turn a violation into a finding, filling gaps from the check definition
+ */
+export function toScanFinding(check: CheckMetadata, violation: CheckViolation): ScanFinding {
+  return {
+    findingId: check.id,
+    severity: violation.severity ?? check.severity,
+    title: violation.title ?? check.title,
+    description: violation.description ?? check.description,
+    recommendation: check.recommendation,
+    resource: violation.resource,
+    resourceType: violation.resourceType,
+    resourceArn: violation.resourceArn,
+    ...(violation.resourcePath && { resourcePath: violation.resourcePath }),
+    ...(violation.resourceId && { resourceId: violation.resourceId }),
+    region: violation.region,
+    ...(violation.tags && Object.keys(violation.tags).length > 0 && { tags: violation.tags }),
+  };
+}
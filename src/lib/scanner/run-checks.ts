@@ -0,0 +1,68 @@
+import { toScanFinding } from "./registry";
+import type { CheckDefinition, CheckResult } from "./types";
+
+export interface RunChecksOptions {
+  // Errors caused by missing permissions mark the check skipped, not errored
+  isPermissionError?: (error: unknown) => boolean;
+}
+
+/**
+ * Evaluate a phase's checks one after another and record an outcome for
+ * each. A check that throws does not stop the remaining checks.
+ */
+export async function runPhaseChecks<TContext>(
+  checks: CheckDefinition<TContext>[],
+  ctx: TContext,
+  { isPermissionError }: RunChecksOptions = {}
+): Promise<CheckResult[]> {
+  const results: CheckResult[] = [];
+
+  for (const check of checks) {
+    const startedAt = Date.now();
+    const base = { checkId: check.id, severity: check.severity };
+
+    try {
+      const violations = await check.evaluate(ctx);
+      results.push({
+        ...base,
+        status: violations.length > 0 ? "fail" : "pass",
+        findings: violations.map((v) => toScanFinding(check, v)),
+        duration: Date.now() - startedAt,
+      });
+    } catch (error) {
+      results.push({
+        ...base,
+        status: isPermissionError?.(error) ? "skipped" : "error",
+        findings: [],
+        message: error instanceof Error ? error.message : String(error),
+        duration: Date.now() - startedAt,
+      });
+    }
+  }
+
+  return results;
+}
+
+// Regions scanned at the same time; keeps API throttling in check
+const REGION_CONCURRENCY = 4;
+
+/**
+ * Run fn for every item, at most REGION_CONCURRENCY at a time, keeping the
+ * order of the results
+ */
+export async function mapRegions<T, R>(items: T[], fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(REGION_CONCURRENCY, items.length) }, worker)
+  );
+  return results;
+}
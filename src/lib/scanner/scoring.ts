@@ -0,0 +1,116 @@
+import type { CheckCounts, CheckResult, SeverityCounts } from "./types";
+
+// Points deducted from a perfect score of 100 for each finding
+const SEVERITY_WEIGHTS = {
+  critical: 5,
+  high: 2,
+  medium: 0.5,
+  low: 0.1,
+};
+
+/**
+ * Count findings per severity
+ */
+export function countBySeverity(findings: { severity: string }[]): SeverityCounts {
+  const counts: SeverityCounts = { findings: 0, critical: 0, high: 0, medium: 0, low: 0 };
+
+  for (const finding of findings) {
+    counts.findings++;
+    switch (finding.severity) {
+      case "CRITICAL":
+        counts.critical++;
+        break;
+      case "HIGH":
+        counts.high++;
+        break;
+      case "MEDIUM":
+        counts.medium++;
+        break;
+      case "LOW":
+        counts.low++;
+        break;
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Sum several severity counters into one
+ */
+export function sumCounts(counts: SeverityCounts[]): SeverityCounts {
+  return counts.reduce(
+    (total, c) => ({
+      findings: total.findings + c.findings,
+      critical: total.critical + c.critical,
+      high: total.high + c.high,
+      medium: total.medium + c.medium,
+      low: total.low + c.low,
+    }),
+    { findings: 0, critical: 0, high: 0, medium: 0, low: 0 }
+  );
+}
+
+/**
+ * Take the findings of one counter out of another
+ */
+export function subtractCounts(counts: SeverityCounts, excluded: SeverityCounts): SeverityCounts {
+  return {
+    findings: counts.findings - excluded.findings,
+    critical: counts.critical - excluded.critical,
+    high: counts.high - excluded.high,
+    medium: counts.medium - excluded.medium,
+    low: counts.low - excluded.low,
+  };
+}
+
+/**
+ * Calculate a 0-100 risk score where 100 means no findings
+ */
+export function calculateRiskScore(counts: SeverityCounts): number {
+  const penalty =
+    counts.critical * SEVERITY_WEIGHTS.critical +
+    counts.high * SEVERITY_WEIGHTS.high +
+    counts.medium * SEVERITY_WEIGHTS.medium +
+    counts.low * SEVERITY_WEIGHTS.low;
+
+  return Math.max(0, Math.round(100 - penalty));
+}
+
+/**
+ * Count check results per status
+ */
+export function countCheckResults(results: Pick<CheckResult, "status">[]): CheckCounts {
+  return {
+    passedChecks: results.filter((r) => r.status === "pass").length,
+    failedChecks: results.filter((r) => r.status === "fail").length,
+    skippedChecks: results.filter((r) => r.status === "skipped").length,
+    erroredChecks: results.filter((r) => r.status === "error").length,
+  };
+}
+
+/**
+ * Sum several check counters into one
+ */
+export function sumCheckCounts(counts: CheckCounts[]): CheckCounts {
+  return counts.reduce(
+    (total, c) => ({
+      passedChecks: total.passedChecks + c.passedChecks,
+      failedChecks: total.failedChecks + c.failedChecks,
+      skippedChecks: total.skippedChecks + c.skippedChecks,
+      erroredChecks: total.erroredChecks + c.erroredChecks,
+    }),
+    { passedChecks: 0, failedChecks: 0, skippedChecks: 0, erroredChecks: 0 }
+  );
+}
+
+/**
+ * Percentage of evaluated checks that passed. Skipped and errored checks say
+ * nothing about compliance, so they are left out; null when nothing was
+ * evaluated.
+ */
+export function calculateComplianceScore(counts: CheckCounts): number | null {
+  const evaluated = counts.passedChecks + counts.failedChecks;
+  if (evaluated === 0) return null;
+  return Math.round((counts.passedChecks / evaluated) * 100);
+}
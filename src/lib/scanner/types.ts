@@ -0,0 +1,115 @@
+import type { CloudAccount } from "@prisma/client";
+import type { AuditPhase, CheckResultStatus, CloudProvider, Severity } from "@/types";
+
+// A single problem reported by a check, before it is persisted
+export interface ScanFinding {
+  findingId: string;
+  severity: Severity;
+  title: string;
+  description: string;
+  resource: string;
+  resourceType: string;
+  resourceArn?: string;
+  // Full GCP resource name, e.g. projects/p/global/firewalls/allow-ssh
+  resourcePath?: string;
+  // Azure Resource Manager ID, e.g. /subscriptions/s/resourceGroups/rg/providers/...
+  resourceId?: string;
+  region?: string;
+  // AWS and Azure tags or GCP labels of the resource
+  tags?: Record<string, string>;
+  recommendation: string;
+}
+
+// Per-severity counters shared by audits and phases
+export interface SeverityCounts {
+  findings: number;
+  critical: number;
+  high: number;
+  medium: number;
+  low: number;
+}
+
+// Per-status check counters shared by audits and phases
+export interface CheckCounts {
+  passedChecks: number;
+  failedChecks: number;
+  skippedChecks: number;
+  erroredChecks: number;
+}
+
+// Outcome of evaluating one check, before it is persisted
+export interface CheckResult {
+  checkId: string;
+  severity: Severity;
+  status: CheckResultStatus;
+  findings: ScanFinding[];
+  message?: string;
+  // milliseconds
+  duration: number;
+  // Set for regional checks
+  region?: string;
+}
+
+export interface AuditRunResult {
+  auditId: string;
+  status: "completed" | "failed";
+  totalFindings: number;
+  riskScore: number;
+  duration: number;
+}
+
+// A resource that failed a check. Title, description and severity fall back
+// to the check definition when not given.
+export interface CheckViolation {
+  resource: string;
+  resourceType: string;
+  resourceArn?: string;
+  resourcePath?: string;
+  resourceId?: string;
+  region?: string;
+  tags?: Record<string, string>;
+  title?: string;
+  description?: string;
+  severity?: Severity;
+}
+
+// Everything about a check except how it is evaluated
+export interface CheckMetadata {
+  id: string;
+  phase: number;
+  provider: CloudProvider;
+  // Evaluated once per scanned region instead of once per audit
+  regional?: boolean;
+  severity: Severity;
+  title: string;
+  description: string;
+  recommendation: string;
+}
+
+export interface CheckDefinition<TContext> extends CheckMetadata {
+  evaluate: (ctx: TContext) => Promise<CheckViolation[]>;
+}
+
+// An audit phase as assembled from the checks registered for it
+export interface RegisteredPhase extends Omit<AuditPhase, "checks"> {
+  checks: CheckMetadata[];
+}
+
+// The contexts an audit evaluates checks against
+export interface ScanTarget<TContext> {
+  // Context for global checks
+  global: TContext;
+  // One context per scanned region, for regional checks
+  regional: TContext[];
+  // Regions scanned, recorded on the audit
+  regions: string[];
+}
+
+// How the audit runner reaches the accounts of one provider
+export interface ProviderScanner<TContext> {
+  // Errors caused by missing permissions mark a check skipped, not errored
+  isPermissionError: (error: unknown) => boolean;
+  // Authenticate and build the scan contexts. A resumed audit passes the
+  // regions it started with. Throws with a readable reason on failure.
+  connect: (account: CloudAccount, regions: string[]) => Promise<ScanTarget<TContext>>;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { CronError, nextCronRun, parseCron } from "./cron";
+
+const values = (field: { values: Set<number> }) => [...field.values].sort((a, b) => a - b);
+
+describe("parseCron", () => {
+  it("expands ranges, lists and steps", () => {
+    const cron = parseCron("*/15 9-17 1,15 * 1-5");
+    expect(values(cron.minute)).toEqual([0, 15, 30, 45]);
+    expect(values(cron.hour)).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect(values(cron.dayOfMonth)).toEqual([1, 15]);
+    expect(cron.month.any).toBe(true);
+    expect(values(cron.dayOfWeek)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("reads 7 as Sunday and expands macros", () => {
+    expect(values(parseCron("0 0 * * 7").dayOfWeek)).toEqual([0]);
+    expect(values(parseCron("@weekly").dayOfWeek)).toEqual([0]);
+  });
+
+  it.each([
+    "* * * *",
+    "60 * * * *",
+    "* 24 * * *",
+    "5-1 * * * *",
+    "*/0 * * * *",
+    "1,,2 * * * *",
+    "*/ * * * *",
+    ",5 * * * *",
+  ])("rejects %s", (expression) => {
+    expect(() => parseCron(expression)).toThrow(CronError);
+  });
+});
+
+describe("nextCronRun", () => {
+  it("returns the next matching minute after the given time", () => {
+    const after = new Date("2026-01-05T10:07:30Z");
+    expect(nextCronRun("*/15 * * * *", "UTC", after)).toEqual(new Date("2026-01-05T10:15:00Z"));
+    expect(nextCronRun("0 9 * * *", "UTC", after)).toEqual(new Date("2026-01-06T09:00:00Z"));
+  });
+
+  it("never returns the given time itself", () => {
+    const after = new Date("2026-01-05T09:00:00Z");
+    expect(nextCronRun("0 9 * * *", "UTC", after)).toEqual(new Date("2026-01-06T09:00:00Z"));
+  });
+
+  it("reads the fields as wall-clock time in the timezone", () => {
+    const after = new Date("2026-01-05T00:00:00Z");
+    // 09:00 in Berlin is 08:00 UTC in winter
+    expect(nextCronRun("0 9 * * *", "Europe/Berlin", after)).toEqual(
+      new Date("2026-01-05T08:00:00Z")
+    );
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // The 13th or a Friday, whichever comes first: Friday 2026-01-09
+    const after = new Date("2026-01-05T00:00:00Z");
+    expect(nextCronRun("0 0 13 * 5", "UTC", after)).toEqual(new Date("2026-01-09T00:00:00Z"));
+  });
+
+  it("runs at the first minute after a local time skipped by the clocks springing forward", () => {
+    // New York skips 02:00-02:59 on 2026-03-08; 03:00 EDT is 07:00 UTC
+    const after = new Date("2026-03-08T05:00:00Z");
+    expect(nextCronRun("30 2 * * *", "America/New_York", after)).toEqual(
+      new Date("2026-03-08T07:00:00Z")
+    );
+  });
+
+  it("keeps following the schedule after a spring-forward jump", () => {
+    const after = new Date("2026-03-08T07:00:00Z");
+    expect(nextCronRun("30 2 * * *", "America/New_York", after)).toEqual(
+      new Date("2026-03-09T06:30:00Z")
+    );
+  });
+
+  it("runs once at the first occurrence of a repeated local time", () => {
+    // New York repeats 01:00-01:59 on 2026-11-01, first in EDT then in EST
+    const after = new Date("2026-11-01T04:00:00Z");
+    const first = nextCronRun("30 1 * * *", "America/New_York", after);
+    expect(first).toEqual(new Date("2026-11-01T05:30:00Z"));
+    expect(nextCronRun("30 1 * * *", "America/New_York", first)).toEqual(
+      new Date("2026-11-02T06:30:00Z")
+    );
+  });
+
+  it("runs wildcard schedules through both passes of a repeated local time", () => {
+    const after = new Date("2026-11-01T05:30:00Z");
+    expect(nextCronRun("*/30 * * * *", "America/New_York", after)).toEqual(
+      new Date("2026-11-01T06:00:00Z")
+    );
+  });
+
+  it("rejects unknown timezones and expressions that never fire", () => {
+    expect(() => nextCronRun("0 0 * * *", "Mars/Olympus")).toThrow(CronError);
+    expect(() => nextCronRun("0 0 31 2 *", "UTC")).toThrow(CronError);
+  });
+});
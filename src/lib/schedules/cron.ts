@@ -0,0 +1,284 @@
+// Minimal five-field cron support: minute hour day-of-month month day-of-week.
+// Fields accept *, numbers, ranges (1-5), lists (1,15) and steps (*/15, 0-30/10).
+
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronError";
+  }
+}
+
+interface CronField {
+  values: Set<number>;
+  // True when the field was "*", which matters for the day fields
+  any: boolean;
+}
+
+export interface CronExpression {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+// [min, max] per field, in expression order
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+const FIELD_NAMES = ["minute", "hour", "day of month", "month", "day of week"];
+
+// Give up when no run is found within roughly this many years
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function parseField(source: string, index: number): CronField {
+  const [min, max] = FIELD_RANGES[index];
+  const values = new Set<number>();
+
+  for (const part of source.split(",")) {
+    const [range, stepSource] = part.split("/");
+    // Number("") is 0, so "1,,2" or "*/" would otherwise parse
+    if (!range || stepSource === "") {
+      throw new CronError(`Invalid ${FIELD_NAMES[index]} field "${source}"`);
+    }
+    const step = stepSource === undefined ? 1 : Number(stepSource);
+    let start: number;
+    let end: number;
+
+    if (range === "*") {
+      [start, end] = [min, max];
+    } else if (range.includes("-")) {
+      [start, end] = range.split("-").map(Number);
+    } else {
+      start = Number(range);
+      end = stepSource === undefined ? start : max;
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      !Number.isInteger(step) ||
+      step < 1 ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new CronError(`Invalid ${FIELD_NAMES[index]} field "${source}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      // Sunday may be written as 0 or 7
+      values.add(index === 4 && value === 7 ? 0 : value);
+    }
+  }
+
+  return { values, any: source === "*" };
+}
+
+export function parseCron(expression: string): CronExpression {
+  const normalized = MACROS[expression.trim()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronError("Cron expressions need five fields: minute hour day month weekday");
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map(parseField);
+  return { minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface ZonedParts {
+  year: number;
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  weekday: number;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function zonedParts(formatter: Intl.DateTimeFormat, date: Date): ZonedParts {
+  const parts = Object.fromEntries(formatter.formatToParts(date).map((p) => [p.type, p.value]));
+  return {
+    year: Number(parts.year),
+    minute: Number(parts.minute),
+    hour: Number(parts.hour),
+    day: Number(parts.day),
+    month: Number(parts.month),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+const MINUTE_MS = 60_000;
+
+// How far the zone's wall clock is ahead of UTC at a whole minute
+function zoneOffset(parts: ZonedParts, time: number): number {
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) - time;
+}
+
+// Parts of a wall-clock time given as milliseconds since a UTC epoch
+function wallParts(wall: number): ZonedParts {
+  const date = new Date(wall);
+  return {
+    year: date.getUTCFullYear(),
+    minute: date.getUTCMinutes(),
+    hour: date.getUTCHours(),
+    day: date.getUTCDate(),
+    month: date.getUTCMonth() + 1,
+    weekday: date.getUTCDay(),
+  };
+}
+
+// Standard cron: when both day fields are restricted, either may match
+function matchesDay(cron: CronExpression, parts: ZonedParts): boolean {
+  const dom = cron.dayOfMonth.values.has(parts.day);
+  const dow = cron.dayOfWeek.values.has(parts.weekday);
+  if (cron.dayOfMonth.any) return dow;
+  if (cron.dayOfWeek.any) return dom;
+  return dom || dow;
+}
+
+function matches(cron: CronExpression, parts: ZonedParts): boolean {
+  return (
+    cron.month.values.has(parts.month) &&
+    matchesDay(cron, parts) &&
+    cron.hour.values.has(parts.hour) &&
+    cron.minute.values.has(parts.minute)
+  );
+}
+
+/**
+ * When the clocks sprang forward between two times, the first minute after
+ * the jump if a run falls on one of the local times that were skipped
+ */
+function skippedRun(
+  cron: CronExpression,
+  formatter: Intl.DateTimeFormat,
+  from: number,
+  to: number,
+  offset: number
+): number | undefined {
+  for (let time = from + MINUTE_MS; time <= to; time += MINUTE_MS) {
+    const jump = zoneOffset(zonedParts(formatter, new Date(time)), time) - offset;
+    if (jump <= 0) continue;
+
+    const wall = time + offset + jump;
+    for (let skipped = wall - jump; skipped < wall; skipped += MINUTE_MS) {
+      if (matches(cron, wallParts(skipped))) return time;
+    }
+    return undefined;
+  }
+  return undefined;
+}
+
+// Clocks fall back by at most this much at once
+const FALL_BACK_WINDOW_MS = 3 * 60 * MINUTE_MS;
+
+/**
+ * Whether a run falls on the second pass of a local time repeated when the
+ * clocks fell back. Like cron, schedules at a fixed hour and minute run on
+ * the first pass only; those with a wildcard hour or minute run on both.
+ */
+function repeatsEarlierRun(
+  cron: CronExpression,
+  formatter: Intl.DateTimeFormat,
+  time: number,
+  offset: number
+): boolean {
+  if (cron.minute.any || cron.hour.any) return false;
+
+  const before = time - FALL_BACK_WINDOW_MS;
+  const earlierOffset = zoneOffset(zonedParts(formatter, new Date(before)), before);
+  const shift = earlierOffset - offset;
+  if (shift <= 0) return false;
+
+  // The same local time under the earlier offset, if it was in effect then
+  const first = time - shift;
+  return zoneOffset(zonedParts(formatter, new Date(first)), first) === earlierOffset;
+}
+
+/**
+ * First time after `after` at which the expression fires, reading its fields
+ * as wall-clock time in the given IANA timezone. A run whose local time is
+ * skipped when the clocks spring forward happens at the first minute after,
+ * and one at a fixed local time repeated when they fall back happens once.
+ */
+export function nextCronRun(expression: string, timezone: string, after: Date = new Date()): Date {
+  const cron = parseCron(expression);
+  if (!isValidTimezone(timezone)) {
+    throw new CronError(`Unknown timezone "${timezone}"`);
+  }
+
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    weekday: "short",
+    hour: "numeric",
+    minute: "numeric",
+  });
+
+  let time = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * MINUTE_MS;
+  let previous = time;
+  let previousOffset = zoneOffset(zonedParts(formatter, new Date(time)), time);
+
+  // Skip to the next hour when the day or hour cannot match, and straight to
+  // the next matching minute otherwise. Stepping by hours rather than days
+  // keeps DST transitions from skipping past a valid run.
+  while (time <= limit) {
+    const parts = zonedParts(formatter, new Date(time));
+    const offset = zoneOffset(parts, time);
+
+    if (offset > previousOffset) {
+      const run = skippedRun(cron, formatter, previous, time, previousOffset);
+      if (run !== undefined) return new Date(run);
+    }
+    previous = time;
+    previousOffset = offset;
+
+    if (
+      !cron.month.values.has(parts.month) ||
+      !matchesDay(cron, parts) ||
+      !cron.hour.values.has(parts.hour)
+    ) {
+      time += (60 - parts.minute) * MINUTE_MS;
+      continue;
+    }
+
+    const minute = [...cron.minute.values].sort((a, b) => a - b).find((m) => m >= parts.minute);
+    if (minute === undefined) {
+      time += (60 - parts.minute) * MINUTE_MS;
+    } else if (minute === parts.minute) {
+      if (!repeatsEarlierRun(cron, formatter, time, offset)) return new Date(time);
+      time += MINUTE_MS;
+    } else {
+      time += (minute - parts.minute) * MINUTE_MS;
+    }
+  }
+
+  throw new CronError(`Cron expression "${expression}" never fires`);
+}
@@ -0,0 +1,3 @@
+export { parseCron, nextCronRun, isValidTimezone, CronError } from "./cron";
+export { runDueSchedules, startScheduler } from "./scheduler";
+export type { Scheduler } from "./scheduler";
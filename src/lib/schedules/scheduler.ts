@@ -0,0 +1,144 @@
+import type { AuditSchedule } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { auditConcurrencyKey, enqueueJob } from "@/lib/jobs";
+import { expireRiskAcceptances, remindRiskReviews } from "@/lib/risk";
+import { createAudit } from "@/lib/scanner";
+import { expireSuppressionRules } from "@/lib/suppressions";
+import { isVerified, UNVERIFIED_ACCOUNT_ERROR } from "@/lib/verification";
+import { nextCronRun } from "./cron";
+
+/**
+ * Start an audit for a due schedule and return its ID
+ */
+async function launchAudit(schedule: AuditSchedule): Promise<string> {
+  const account = await prisma.cloudAccount.findUnique({ where: { id: schedule.accountId } });
+  if (!account) {
+    throw new Error("Scheduled account no longer exists");
+  }
+  if (!account.isActive) {
+    throw new Error("Account is inactive");
+  }
+  if (!isVerified(account)) {
+    throw new Error(UNVERIFIED_ACCOUNT_ERROR);
+  }
+
+  // Don't queue up runs behind an audit that is still going
+  const activeAudit = await prisma.audit.findFirst({
+    where: { accountId: account.id, status: { in: ["pending", "running"] } },
+  });
+  if (activeAudit) {
+    throw new Error("Skipped: the previous audit is still running");
+  }
+
+  const audit = await createAudit(account.id, schedule.phases);
+  await enqueueJob(
+    "audit.run",
+    { auditId: audit.id },
+    { userId: schedule.userId, concurrencyKey: auditConcurrencyKey(account.id) }
+  );
+  return audit.id;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Launch an audit for every active schedule whose next run is due. A
+ * schedule that missed several runs (e.g. while no worker was up) runs once.
+ * Returns the number of audits started.
+ */
+export async function runDueSchedules(now: Date = new Date()): Promise<number> {
+  const due = await prisma.auditSchedule.findMany({
+    where: { isPaused: false, nextRunAt: { lte: now } },
+    orderBy: { nextRunAt: "asc" },
+  });
+
+  let launched = 0;
+  for (const schedule of due) {
+    let nextRunAt: Date;
+    try {
+      nextRunAt = nextCronRun(schedule.cron, schedule.timezone, now);
+    } catch (error) {
+      await prisma.auditSchedule.update({
+        where: { id: schedule.id },
+        data: { isPaused: true, nextRunAt: null, lastError: errorMessage(error) },
+      });
+      continue;
+    }
+
+    // Claim the run by moving nextRunAt; a scheduler in another worker that
+    // read the same row matches nothing and moves on
+    const { count } = await prisma.auditSchedule.updateMany({
+      where: { id: schedule.id, isPaused: false, nextRunAt: schedule.nextRunAt },
+      data: { nextRunAt, lastRunAt: now },
+    });
+    if (count === 0) continue;
+
+    try {
+      const auditId = await launchAudit(schedule);
+      await prisma.auditSchedule.update({
+        where: { id: schedule.id },
+        data: { lastAuditId: auditId, lastError: null },
+      });
+      launched++;
+    } catch (error) {
+      console.error(`Audit schedule ${schedule.id} failed to launch:`, error);
+      await prisma.auditSchedule.update({
+        where: { id: schedule.id },
+        data: { lastError: errorMessage(error) },
+      });
+    }
+  }
+
+  return launched;
+}
+
+export interface Scheduler {
+  stop(): void;
+}
+
+/**
+ * Check for due schedules, expired suppression rules, expired risk
+ * acceptances and risk acceptances due for review every intervalMs. Safe to
+ * run in several workers at once.
+ */
+export function startScheduler({ intervalMs = 30_000 }: { intervalMs?: number } = {}): Scheduler {
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const tick = async () => {
+    try {
+      const launched = await runDueSchedules();
+      if (launched > 0) {
+        console.log(`Scheduler started ${launched} audit(s)`);
+      }
+      const reopened = await expireSuppressionRules();
+      if (reopened > 0) {
+        console.log(`Scheduler reopened ${reopened} finding(s) of expired suppression rules`);
+      }
+      const expired = await expireRiskAcceptances();
+      if (expired > 0) {
+        console.log(`Scheduler expired ${expired} risk acceptance(s)`);
+      }
+      const reminded = await remindRiskReviews();
+      if (reminded > 0) {
+        console.log(`Scheduler sent ${reminded} risk review reminder(s)`);
+      }
+    } catch (error) {
+      console.error("Scheduler tick failed:", error);
+    }
+    if (!stopped) {
+      timer = setTimeout(tick, intervalMs);
+    }
+  };
+
+  tick();
+
+  return {
+    stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    },
+  };
+}
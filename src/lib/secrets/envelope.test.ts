@@ -0,0 +1,85 @@
+import { randomBytes } from "crypto";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  assertSecretsConfigured,
+  decryptSecret,
+  encryptSecret,
+  isEncryptedSecret,
+  rewrapSecret,
+  secretFingerprint,
+  SecretsError,
+} from "./envelope";
+
+const masterKey = (id: string) => `${id}:${randomBytes(32).toString("base64")}`;
+
+const K1 = masterKey("k1");
+const K2 = masterKey("k2");
+
+describe("secret envelopes", () => {
+  const original = process.env.SECRETS_MASTER_KEYS;
+
+  beforeEach(() => {
+    process.env.SECRETS_MASTER_KEYS = K1;
+  });
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.SECRETS_MASTER_KEYS;
+    else process.env.SECRETS_MASTER_KEYS = original;
+  });
+
+  it("round-trips a secret without storing it in the clear", () => {
+    const stored = encryptSecret("wJalrXUtnFEMI/K7MDENG");
+    expect(isEncryptedSecret(stored)).toBe(true);
+    expect(stored).not.toContain("wJalrXUtnFEMI");
+    expect(decryptSecret(stored)).toBe("wJalrXUtnFEMI/K7MDENG");
+  });
+
+  it("uses a fresh data key for every secret", () => {
+    expect(encryptSecret("same")).not.toBe(encryptSecret("same"));
+  });
+
+  it("returns legacy plaintext values as they are", () => {
+    expect(decryptSecret("legacy-secret")).toBe("legacy-secret");
+  });
+
+  it("rejects tampered ciphertext", () => {
+    const stored = encryptSecret("secret");
+    const tampered = stored.slice(0, -2) + (stored.endsWith("A") ? "BB" : "AA");
+    expect(() => decryptSecret(tampered)).toThrow(SecretsError);
+  });
+
+  it("rewraps secrets under the active key after a rotation", () => {
+    const stored = encryptSecret("secret");
+
+    process.env.SECRETS_MASTER_KEYS = `${K2},${K1}`;
+    expect(decryptSecret(stored)).toBe("secret");
+
+    const rewrapped = rewrapSecret(stored);
+    expect(rewrapped).not.toBe(stored);
+    expect(rewrapSecret(rewrapped)).toBe(rewrapped);
+
+    process.env.SECRETS_MASTER_KEYS = K2;
+    expect(decryptSecret(rewrapped)).toBe("secret");
+    expect(() => decryptSecret(stored)).toThrow('Master key "k1" is not configured');
+  });
+
+  it("encrypts legacy plaintext values when rewrapping", () => {
+    const rewrapped = rewrapSecret("legacy-secret");
+    expect(isEncryptedSecret(rewrapped)).toBe(true);
+    expect(decryptSecret(rewrapped)).toBe("legacy-secret");
+  });
+
+  it("fingerprints a secret the same way encrypted or not", () => {
+    expect(secretFingerprint(encryptSecret("secret"))).toBe(secretFingerprint("secret"));
+    expect(secretFingerprint("secret")).toMatch(/^sha256:[0-9a-f]{12}$/);
+    expect(secretFingerprint(null)).toBeNull();
+  });
+
+  it("reports missing or malformed master keys", () => {
+    delete process.env.SECRETS_MASTER_KEYS;
+    expect(() => assertSecretsConfigured()).toThrow(SecretsError);
+
+    process.env.SECRETS_MASTER_KEYS = "k1:dG9vLXNob3J0";
+    expect(() => assertSecretsConfigured()).toThrow('Master key "k1" must be 32 bytes');
+  });
+});
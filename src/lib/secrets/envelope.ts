@@ -0,0 +1,161 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+// Stored form: enc:v1:<fingerprint>:<master key id>:<wrapped data key>:<encrypted value>
+const PREFIX = "enc:v1";
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+interface Envelope {
+  fingerprint: string;
+  keyId: string;
+  wrappedKey: string;
+  ciphertext: string;
+}
+
+export class SecretsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecretsError";
+  }
+}
+
+/**
+ * Master keys come from SECRETS_MASTER_KEYS as a comma-separated list of
+ * `<id>:<base64 32-byte key>`. The first key encrypts new secrets; the others
+ * are kept so secrets wrapped before a rotation can still be read.
+ */
+function loadMasterKeys(): MasterKey[] {
+  const raw = process.env.SECRETS_MASTER_KEYS;
+  if (!raw) {
+    throw new SecretsError(
+      'SECRETS_MASTER_KEYS is not configured; generate a key with: echo "k1:$(openssl rand -base64 32)"'
+    );
+  }
+
+  return raw.split(",").map((entry) => {
+    const [id, value] = entry.trim().split(":");
+    const key = Buffer.from(value ?? "", "base64");
+    if (!id || key.length !== KEY_BYTES) {
+      throw new SecretsError(`Master key "${id}" must be ${KEY_BYTES} bytes, base64 encoded`);
+    }
+    return { id, key };
+  });
+}
+
+/**
+ * Fail fast when the master keys are missing or malformed, instead of on the
+ * first secret that is saved or read
+ */
+export function assertSecretsConfigured(): void {
+  loadMasterKeys();
+}
+
+function findMasterKey(keyId: string): MasterKey {
+  const masterKey = loadMasterKeys().find((k) => k.id === keyId);
+  if (!masterKey) {
+    throw new SecretsError(`Master key "${keyId}" is not configured`);
+  }
+  return masterKey;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), data].map((b) => b.toString("base64url")).join(".");
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const [iv, tag, data] = sealed.split(".").map((part) => Buffer.from(part, "base64url"));
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]);
+}
+
+function fingerprintOf(plaintext: string): string {
+  return createHash("sha256").update(plaintext).digest("hex").slice(0, 12);
+}
+
+function parseEnvelope(stored: string): Envelope {
+  const [, , fingerprint, keyId, wrappedKey, ciphertext] = stored.split(":");
+  if (!fingerprint || !keyId || !wrappedKey || !ciphertext) {
+    throw new SecretsError("Malformed encrypted secret");
+  }
+  return { fingerprint, keyId, wrappedKey, ciphertext };
+}
+
+function formatEnvelope(envelope: Envelope): string {
+  return [PREFIX, envelope.fingerprint, envelope.keyId, envelope.wrappedKey, envelope.ciphertext].join(":");
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(`${PREFIX}:`);
+}
+
+/**
+ * Encrypt a secret with a fresh data key, wrapped by the active master key
+ */
+export function encryptSecret(plaintext: string): string {
+  const [masterKey] = loadMasterKeys();
+  const dataKey = randomBytes(KEY_BYTES);
+
+  return formatEnvelope({
+    fingerprint: fingerprintOf(plaintext),
+    keyId: masterKey.id,
+    wrappedKey: seal(masterKey.key, dataKey),
+    ciphertext: seal(dataKey, Buffer.from(plaintext, "utf8")),
+  });
+}
+
+/**
+ * Decrypt a stored secret. Values written before encryption was introduced
+ * are returned as-is until the rotation script re-encrypts them.
+ */
+export function decryptSecret(stored: string): string {
+  if (!isEncryptedSecret(stored)) return stored;
+
+  const envelope = parseEnvelope(stored);
+  try {
+    const dataKey = open(findMasterKey(envelope.keyId).key, envelope.wrappedKey);
+    return open(dataKey, envelope.ciphertext).toString("utf8");
+  } catch (error) {
+    if (error instanceof SecretsError) throw error;
+    throw new SecretsError("Secret could not be decrypted");
+  }
+}
+
+/**
+ * Re-wrap a secret's data key with the active master key. Plaintext legacy
+ * values are encrypted. Returns the input unchanged when nothing needs doing.
+ */
+export function rewrapSecret(stored: string): string {
+  if (!isEncryptedSecret(stored)) return encryptSecret(stored);
+
+  const envelope = parseEnvelope(stored);
+  const [activeKey] = loadMasterKeys();
+  if (envelope.keyId === activeKey.id) return stored;
+
+  const dataKey = open(findMasterKey(envelope.keyId).key, envelope.wrappedKey);
+  return formatEnvelope({
+    ...envelope,
+    keyId: activeKey.id,
+    wrappedKey: seal(activeKey.key, dataKey),
+  });
+}
+
+/**
+ * Short, non-reversible identifier for a stored secret, safe to show in the UI
+ */
+export function secretFingerprint(stored: string | null): string | null {
+  if (!stored) return null;
+  const fingerprint = isEncryptedSecret(stored)
+    ? parseEnvelope(stored).fingerprint
+    : fingerprintOf(stored);
+  return `sha256:${fingerprint}`;
+}
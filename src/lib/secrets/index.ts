@@ -0,0 +1,10 @@
+export {
+  encryptSecret,
+  decryptSecret,
+  rewrapSecret,
+  secretFingerprint,
+  isEncryptedSecret,
+  assertSecretsConfigured,
+  SecretsError,
+} from "./envelope";
+export { maskCloudAccount } from "./masking";
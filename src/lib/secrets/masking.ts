@@ -0,0 +1,20 @@
+import type { CloudAccount } from "@prisma/client";
+import { secretFingerprint } from "./envelope";
+
+type StoredSecrets = Pick<CloudAccount, "secretAccessKey" | "serviceAccountKey" | "clientSecret">;
+
+// API responses carry a fingerprint in place of each stored secret. Only the
+// secret of the account's own provider is ever set.
+export function maskCloudAccount<T extends StoredSecrets>({
+  secretAccessKey,
+  serviceAccountKey,
+  clientSecret,
+  ...account
+}: T) {
+  return {
+    ...account,
+    secretAccessKeyFingerprint: secretFingerprint(secretAccessKey),
+    serviceAccountKeyFingerprint: secretFingerprint(serviceAccountKey),
+    clientSecretFingerprint: secretFingerprint(clientSecret),
+  };
+}
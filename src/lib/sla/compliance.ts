@@ -0,0 +1,90 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+
+// Findings held to their due date. Ignored, accepted and false positive
+// findings were set aside and are not expected to be fixed.
+const SLA_STATUSES = ["open", "resolved"];
+
+export interface SlaBreakdown {
+  // Severity, or the ID of the cloud account
+  key: string;
+  label: string;
+  // Findings with a due date
+  tracked: number;
+  // Resolved after their due date or still open past it
+  breached: number;
+  // Still open past their due date
+  overdue: number;
+  // Share of the tracked findings breached, 0-1
+  rate: number;
+}
+
+export interface SlaCompliance {
+  total: SlaBreakdown;
+  bySeverity: SlaBreakdown[];
+  byAccount: SlaBreakdown[];
+}
+
+function emptyBreakdown(key: string, label: string): SlaBreakdown {
+  return { key, label, tracked: 0, breached: 0, overdue: 0, rate: 0 };
+}
+
+function withRate(breakdown: SlaBreakdown): SlaBreakdown {
+  return {
+    ...breakdown,
+    rate: breakdown.tracked > 0 ? breakdown.breached / breakdown.tracked : 0,
+  };
+}
+
+/**
+ * SLA breach rates of the current findings in scope, overall, per severity
+ * and per cloud account
+ */
+export async function getSlaCompliance(
+  scope: Prisma.FindingWhereInput,
+  now: Date = new Date()
+): Promise<SlaCompliance> {
+  const findings = await prisma.finding.findMany({
+    where: { AND: [scope, { latest: true, dueAt: { not: null }, status: { in: SLA_STATUSES } }] },
+    select: {
+      severity: true,
+      status: true,
+      dueAt: true,
+      resolvedAt: true,
+      audit: { select: { account: { select: { id: true, name: true, provider: true } } } },
+    },
+  });
+
+  const total = emptyBreakdown("all", "All findings");
+  const bySeverity = new Map(
+    ["CRITICAL", "HIGH", "MEDIUM", "LOW"].map((s) => [s, emptyBreakdown(s, s[0] + s.slice(1).toLowerCase())])
+  );
+  const byAccount = new Map<string, SlaBreakdown>();
+
+  for (const finding of findings) {
+    const dueAt = finding.dueAt!;
+    const overdue = finding.status === "open" && dueAt < now;
+    const breached =
+      overdue || (finding.status === "resolved" && (finding.resolvedAt ?? now) > dueAt);
+
+    const { account } = finding.audit;
+    if (!byAccount.has(account.id)) {
+      byAccount.set(account.id, emptyBreakdown(account.id, `${account.name} (${account.provider})`));
+    }
+
+    for (const breakdown of [total, bySeverity.get(finding.severity), byAccount.get(account.id)]) {
+      if (!breakdown) continue;
+      breakdown.tracked++;
+      if (breached) breakdown.breached++;
+      if (overdue) breakdown.overdue++;
+    }
+  }
+
+  return {
+    total: withRate(total),
+    bySeverity: [...bySeverity.values()].map(withRate),
+    byAccount: [...byAccount.values()]
+      .map(withRate)
+      .sort((a, b) => b.rate - a.rate || a.label.localeCompare(b.label)),
+  };
+}
@@ -0,0 +1,12 @@
+export {
+  loadSlaPolicy,
+  parseSlaSettings,
+  slaDueDate,
+  slaPolicyFromSettings,
+  SlaPolicyError,
+  DEFAULT_SLA_POLICY,
+  SLA_SETTINGS_FIELDS,
+} from "./policy";
+export type { SlaPolicy } from "./policy";
+export { getSlaCompliance } from "./compliance";
+export type { SlaBreakdown, SlaCompliance } from "./compliance";
@@ -0,0 +1,83 @@
+import type { UserSettings } from "@prisma/client";
+import { addHours } from "date-fns";
+import { prisma } from "@/lib/db";
+import type { Severity } from "@/types";
+
+export class SlaPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SlaPolicyError";
+  }
+}
+
+// Hours to fix a finding of each severity once it is raised
+export type SlaPolicy = Record<Severity, number>;
+
+// Settings column holding the SLA of each severity
+export const SLA_SETTINGS_FIELDS = {
+  CRITICAL: "slaCriticalHours",
+  HIGH: "slaHighHours",
+  MEDIUM: "slaMediumHours",
+  LOW: "slaLowHours",
+} as const satisfies Record<Severity, keyof UserSettings>;
+
+type SlaSettings = Pick<UserSettings, (typeof SLA_SETTINGS_FIELDS)[Severity]>;
+
+export const DEFAULT_SLA_POLICY: SlaPolicy = {
+  CRITICAL: 24,
+  HIGH: 7 * 24,
+  MEDIUM: 30 * 24,
+  LOW: 90 * 24,
+};
+
+const MAX_SLA_HOURS = 365 * 24;
+
+const SEVERITIES = Object.keys(SLA_SETTINGS_FIELDS) as Severity[];
+
+export function slaPolicyFromSettings(settings: SlaSettings | null): SlaPolicy {
+  if (!settings) return DEFAULT_SLA_POLICY;
+  return Object.fromEntries(
+    SEVERITIES.map((severity) => [severity, settings[SLA_SETTINGS_FIELDS[severity]]])
+  ) as SlaPolicy;
+}
+
+// The SLA policy of the user owning an account
+export async function loadSlaPolicy(userId: string): Promise<SlaPolicy> {
+  const settings = await prisma.userSettings.findUnique({
+    where: { userId },
+    select: {
+      slaCriticalHours: true,
+      slaHighHours: true,
+      slaMediumHours: true,
+      slaLowHours: true,
+    },
+  });
+  return slaPolicyFromSettings(settings);
+}
+
+/**
+ * Validate the SLA fields present in a settings update. Each is a whole
+ * number of hours up to a year.
+ */
+export function parseSlaSettings(body: Record<string, unknown>): Partial<SlaSettings> {
+  const settings: Partial<SlaSettings> = {};
+  for (const severity of SEVERITIES) {
+    const field = SLA_SETTINGS_FIELDS[severity];
+    const value = body[field];
+    if (value === undefined || value === null) continue;
+
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 1 || value > MAX_SLA_HOURS) {
+      throw new SlaPolicyError(
+        `The ${severity.toLowerCase()} SLA must be a whole number of hours between 1 and ${MAX_SLA_HOURS}`
+      );
+    }
+    settings[field] = value;
+  }
+  return settings;
+}
+
+// When a finding of a severity raised at a given time is due
+export function slaDueDate(policy: SlaPolicy, severity: string, raisedAt: Date): Date {
+  const hours = policy[severity as Severity] ?? policy.MEDIUM;
+  return addHours(raisedAt, hours);
+}
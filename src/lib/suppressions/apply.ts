@@ -0,0 +1,231 @@
+import type { Prisma, SuppressionRule } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { isRuleActive, matchesRule, type SuppressibleFinding } from "./rules";
+
+interface TrackedFinding extends SuppressibleFinding {
+  fingerprint: string;
+  status: string;
+  suppressionRuleId?: string | null;
+}
+
+const suppressibleSelect = {
+  id: true,
+  findingId: true,
+  resource: true,
+  resourceArn: true,
+  resourcePath: true,
+  resourceId: true,
+  region: true,
+  tags: true,
+  status: true,
+  fingerprint: true,
+  audit: { select: { accountId: true } },
+} satisfies Prisma.FindingSelect;
+
+type StoredFinding = Prisma.FindingGetPayload<{ select: typeof suppressibleSelect }>;
+
+function suppressedEvent(
+  rule: SuppressionRule,
+  accountId: string,
+  finding: { fingerprint: string; status: string; id?: string }
+): Prisma.FindingEventCreateManyInput {
+  return {
+    type: "suppressed",
+    fromStatus: finding.status,
+    toStatus: "ignored",
+    comment: rule.justification,
+    fingerprint: finding.fingerprint,
+    accountId,
+    findingId: finding.id,
+    suppressionRuleId: rule.id,
+  };
+}
+
+function unsuppressedEvent(
+  ruleId: string | null,
+  accountId: string,
+  finding: { fingerprint: string; id?: string },
+  reason: string
+): Prisma.FindingEventCreateManyInput {
+  return {
+    type: "unsuppressed",
+    fromStatus: "ignored",
+    toStatus: "open",
+    comment: reason,
+    fingerprint: finding.fingerprint,
+    accountId,
+    findingId: finding.id,
+    suppressionRuleId: ruleId,
+  };
+}
+
+/**
+ * The unexpired rules of a user that cover an account
+ */
+export function loadActiveRules(userId: string, accountId: string, now: Date = new Date()) {
+  return prisma.suppressionRule.findMany({
+    where: {
+      userId,
+      AND: [
+        { OR: [{ accountId }, { accountId: null }] },
+        { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+      ],
+    },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Apply suppression rules to the findings of an audit once their status was
+ * carried forward. Open findings that match a rule are ignored on its behalf
+ * and findings a rule ignored before that no longer match any rule are
+ * reopened. Findings triaged by hand are left alone.
+ *
+ * Returns the findings to create and the history events of the changes.
+ */
+export function applySuppressionRules<T extends TrackedFinding>(
+  rules: SuppressionRule[],
+  accountId: string,
+  findings: T[]
+) {
+  const events: Prisma.FindingEventCreateManyInput[] = [];
+
+  const applied = findings.map((finding) => {
+    if (finding.status !== "open" && !finding.suppressionRuleId) return finding;
+
+    const matches = (rule: SuppressionRule) => matchesRule(rule, accountId, finding);
+    // A finding stays with the rule that suppressed it while that rule matches
+    const rule =
+      rules.find((r) => r.id === finding.suppressionRuleId && matches(r)) ?? rules.find(matches);
+
+    if (rule) {
+      if (rule.id !== finding.suppressionRuleId) {
+        events.push(suppressedEvent(rule, accountId, finding));
+      }
+      return { ...finding, status: "ignored", suppressionRuleId: rule.id };
+    }
+
+    if (finding.suppressionRuleId) {
+      events.push(
+        unsuppressedEvent(
+          finding.suppressionRuleId,
+          accountId,
+          finding,
+          "No active suppression rule matches the finding anymore"
+        )
+      );
+      return { ...finding, status: "open", suppressionRuleId: null };
+    }
+
+    return finding;
+  });
+
+  return { findings: applied, events };
+}
+
+/**
+ * Bring the current findings in line with a rule that was created, changed
+ * or expired: open findings it matches are ignored, and those it still
+ * ignores that it no longer matches, or all of them once it expired, are
+ * reopened
+ */
+export async function syncRuleFindings(rule: SuppressionRule, now: Date = new Date()) {
+  const active = isRuleActive(rule, now);
+
+  const [current, candidates] = await Promise.all([
+    prisma.finding.findMany({
+      where: { latest: true, status: "ignored", suppressionRuleId: rule.id },
+      select: suppressibleSelect,
+    }),
+    active
+      ? prisma.finding.findMany({
+          where: {
+            latest: true,
+            status: "open",
+            suppressionRuleId: null,
+            audit: {
+              account: { userId: rule.userId },
+              ...(rule.accountId && { accountId: rule.accountId }),
+            },
+            ...(rule.checkId && { findingId: { equals: rule.checkId, mode: "insensitive" } }),
+            ...(rule.region && { region: rule.region }),
+          },
+          select: suppressibleSelect,
+        })
+      : Promise.resolve([] as StoredFinding[]),
+  ]);
+
+  const matches = (f: StoredFinding) => matchesRule(rule, f.audit.accountId, f);
+  const reopen = active ? current.filter((f) => !matches(f)) : current;
+  const suppress = candidates.filter(matches);
+  const reason = active
+    ? "The suppression rule no longer matches the finding"
+    : "The suppression rule expired";
+
+  await prisma.$transaction([
+    prisma.finding.updateMany({
+      where: { id: { in: reopen.map((f) => f.id) } },
+      data: { status: "open", suppressionRuleId: null },
+    }),
+    prisma.finding.updateMany({
+      where: { id: { in: suppress.map((f) => f.id) } },
+      data: { status: "ignored", suppressionRuleId: rule.id },
+    }),
+    prisma.findingEvent.createMany({
+      data: [
+        ...reopen.map((f) => unsuppressedEvent(rule.id, f.audit.accountId, f, reason)),
+        ...suppress.map((f) => suppressedEvent(rule, f.audit.accountId, f)),
+      ],
+    }),
+  ]);
+
+  return { suppressed: suppress.length, reopened: reopen.length };
+}
+
+/**
+ * Delete a rule and reopen the findings it still ignores
+ */
+export async function deleteSuppressionRule(rule: SuppressionRule) {
+  const findings = await prisma.finding.findMany({
+    where: { latest: true, status: "ignored", suppressionRuleId: rule.id },
+    select: suppressibleSelect,
+  });
+
+  await prisma.$transaction([
+    prisma.finding.updateMany({
+      where: { id: { in: findings.map((f) => f.id) } },
+      data: { status: "open", suppressionRuleId: null },
+    }),
+    prisma.findingEvent.createMany({
+      data: findings.map((f) =>
+        unsuppressedEvent(null, f.audit.accountId, f, "The suppression rule was deleted")
+      ),
+    }),
+    prisma.suppressionRule.delete({ where: { id: rule.id } }),
+  ]);
+
+  return findings.length;
+}
+
+/**
+ * Reopen the findings of rules that expired since the last run. Safe to run
+ * in several workers at once.
+ */
+export async function expireSuppressionRules(now: Date = new Date()): Promise<number> {
+  const expired = await prisma.suppressionRule.findMany({
+    where: { expiredAt: null, expiresAt: { lte: now } },
+  });
+
+  let reopened = 0;
+  for (const rule of expired) {
+    // Claim the rule so that no other worker reopens its findings too
+    const { count } = await prisma.suppressionRule.updateMany({
+      where: { id: rule.id, expiredAt: null },
+      data: { expiredAt: now },
+    });
+    if (count === 0) continue;
+
+    reopened += (await syncRuleFindings(rule, now)).reopened;
+  }
+  return reopened;
+}
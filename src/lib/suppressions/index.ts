@@ -0,0 +1,15 @@
+export {
+  parseSuppressionRule,
+  matchesRule,
+  isRuleActive,
+  SuppressionRuleError,
+  RULE_CONDITIONS,
+} from "./rules";
+export type { SuppressionRuleFields, SuppressibleFinding } from "./rules";
+export {
+  loadActiveRules,
+  applySuppressionRules,
+  syncRuleFindings,
+  deleteSuppressionRule,
+  expireSuppressionRules,
+} from "./apply";
@@ -0,0 +1,138 @@
+import type { SuppressionRule } from "@prisma/client";
+
+export class SuppressionRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SuppressionRuleError";
+  }
+}
+
+// Conditions a rule matches findings on
+export const RULE_CONDITIONS = [
+  "accountId",
+  "checkId",
+  "region",
+  "resourcePattern",
+  "tagKey",
+  "tagValue",
+] as const;
+
+export type SuppressionRuleFields = Pick<
+  SuppressionRule,
+  (typeof RULE_CONDITIONS)[number] | "justification" | "owner" | "expiresAt"
+>;
+
+// What a rule is matched against: a finding and the account it belongs to
+export interface SuppressibleFinding {
+  findingId: string;
+  resource: string;
+  resourceArn?: string | null;
+  resourcePath?: string | null;
+  resourceId?: string | null;
+  region?: string | null;
+  tags?: unknown;
+}
+
+function optionalString(value: unknown, label: string): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "string") {
+    throw new SuppressionRuleError(`Invalid ${label}`);
+  }
+  return value.trim() || null;
+}
+
+/**
+ * Validate the fields of a rule as sent by a client. `existing` holds the
+ * current fields of a rule being updated; fields missing from the body keep
+ * their value.
+ */
+export function parseSuppressionRule(
+  body: Record<string, unknown>,
+  existing?: SuppressionRuleFields,
+  now: Date = new Date()
+): SuppressionRuleFields {
+  const pick = (key: Exclude<keyof SuppressionRuleFields, "expiresAt">, label: string) =>
+    key in body ? optionalString(body[key], label) : existing?.[key] ?? null;
+
+  const rule = {
+    accountId: pick("accountId", "account"),
+    checkId: pick("checkId", "check ID"),
+    region: pick("region", "region"),
+    resourcePattern: pick("resourcePattern", "resource pattern"),
+    tagKey: pick("tagKey", "tag key"),
+    tagValue: pick("tagValue", "tag value"),
+    justification: pick("justification", "justification"),
+    owner: pick("owner", "owner"),
+  };
+
+  if (!RULE_CONDITIONS.some((condition) => rule[condition])) {
+    throw new SuppressionRuleError(
+      "A rule needs at least one condition: account, check, region, resource or tag"
+    );
+  }
+  if (rule.tagValue && !rule.tagKey) {
+    throw new SuppressionRuleError("A tag value needs a tag key");
+  }
+  if (!rule.justification) {
+    throw new SuppressionRuleError("A justification is required");
+  }
+  if (!rule.owner) {
+    throw new SuppressionRuleError("An owner is required");
+  }
+
+  let expiresAt = existing?.expiresAt ?? null;
+  if ("expiresAt" in body) {
+    const value = optionalString(body.expiresAt, "expiry date");
+    expiresAt = value ? new Date(value) : null;
+    if (expiresAt && Number.isNaN(expiresAt.getTime())) {
+      throw new SuppressionRuleError("Invalid expiry date");
+    }
+    if (expiresAt && expiresAt <= now) {
+      throw new SuppressionRuleError("The expiry date must be in the future");
+    }
+  }
+
+  return { ...rule, justification: rule.justification, owner: rule.owner, expiresAt };
+}
+
+export function isRuleActive(rule: Pick<SuppressionRule, "expiresAt">, now: Date = new Date()) {
+  return !rule.expiresAt || rule.expiresAt > now;
+}
+
+// Glob with `*` wildcards, matched case-insensitively against the whole value
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Whether a rule matches a finding of the given account. Unset conditions
+ * match anything; the resource pattern is tried on the resource name and on
+ * its ARN, GCP path or Azure ID.
+ */
+export function matchesRule(
+  rule: Pick<SuppressionRule, (typeof RULE_CONDITIONS)[number]>,
+  accountId: string,
+  finding: SuppressibleFinding
+): boolean {
+  if (rule.accountId && rule.accountId !== accountId) return false;
+  if (rule.checkId && rule.checkId.toUpperCase() !== finding.findingId.toUpperCase()) return false;
+  if (rule.region && rule.region !== finding.region) return false;
+
+  if (rule.resourcePattern) {
+    const pattern = globToRegExp(rule.resourcePattern);
+    const names = [finding.resource, finding.resourceArn, finding.resourcePath, finding.resourceId];
+    if (!names.some((name) => name && pattern.test(name))) return false;
+  }
+
+  if (rule.tagKey) {
+    const tags = (finding.tags ?? {}) as Record<string, string>;
+    if (!Object.hasOwn(tags, rule.tagKey)) return false;
+    if (rule.tagValue && tags[rule.tagKey] !== rule.tagValue) return false;
+  }
+
+  return true;
+}
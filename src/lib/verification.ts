@@ -0,0 +1,37 @@
+import type { VerificationStatus } from "@/types";
+
+// Outcome of checking stored credentials against the cloud provider
+export interface CredentialVerification {
+  verified: boolean;
+  error?: string;
+}
+
+// Audits only run on accounts whose credentials were verified against the
+// cloud account they name
+export const UNVERIFIED_ACCOUNT_ERROR = "Verify the account's credentials before running an audit";
+
+export function isVerified(account: { verificationStatus: string }): boolean {
+  return account.verificationStatus === "verified";
+}
+
+/**
+ * Prisma update data recording a verification attempt. A failed check keeps
+ * the timestamp of the last successful one.
+ */
+export function verificationUpdate(result: CredentialVerification): {
+  verificationStatus: VerificationStatus;
+  verificationError: string | null;
+  verifiedAt?: Date;
+} {
+  if (result.verified) {
+    return { verificationStatus: "verified", verificationError: null, verifiedAt: new Date() };
+  }
+  return { verificationStatus: "failed", verificationError: result.error ?? "Verification failed" };
+}
+
+/**
+ * Error message safe to show to the user
+ */
+export function verificationErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown error";
+}
@@ -1,14 +1,51 @@
 // Severity types
 export type Severity = "CRITICAL" | "HIGH" | "MEDIUM" | "LOW";
 
+// Cloud provider types
+export type CloudProvider = "AWS" | "GCP" | "AZURE";
+
 // Audit status types
 export type AuditStatus = "pending" | "running" | "completed" | "failed";
 
 // Phase status types
 export type PhaseStatus = "pending" | "running" | "completed" | "failed" | "skipped";
 
+// Check result status types
+export type CheckResultStatus = "pass" | "fail" | "skipped" | "error";
+
+// Background job status types
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
 // Finding status types
-export type FindingStatus = "open" | "resolved" | "ignored" | "false_positive";
+export type FindingStatus = "open" | "resolved" | "ignored" | "false_positive" | "accepted";
+
+// Finding history event types
+export type FindingEventType =
+  | "status_changed"
+  | "auto_resolved"
+  | "regressed"
+  | "suppressed"
+  | "unsuppressed"
+  | "acceptance_requested"
+  | "risk_accepted"
+  | "acceptance_rejected"
+  | "acceptance_expired"
+  | "acceptance_revoked"
+  | "assigned"
+  | "due_date_changed";
+
+// Risk acceptance statuses. An acceptance is resolved when its finding was
+// resolved while it was open.
+export type RiskAcceptanceStatus =
+  | "pending"
+  | "approved"
+  | "rejected"
+  | "expired"
+  | "revoked"
+  | "resolved";
+
+// Credential verification status types
+export type VerificationStatus = "unverified" | "verified" | "failed";
 
 // Audit phase definitions
 export interface AuditPhase {
@@ -48,6 +85,34 @@ export const AUDIT_PHASES: AuditPhase[] = [
   { number: 25, name: "Subdomain Takeover & Dangling DNS", description: "Orphaned DNS records, dangling resources", checks: 15, category: "DNS" },
 ];
 
+// GCP Audit Phases
+export const GCP_AUDIT_PHASES: AuditPhase[] = [
+  { number: 1, name: "Identity & Access Management (IAM)", description: "IAM bindings, primitive roles, service account keys", checks: 10, category: "Identity" },
+  { number: 2, name: "Cloud Storage Security", description: "Bucket IAM, public access, uniform access, versioning", checks: 8, category: "Storage" },
+  { number: 3, name: "VPC Network Security", description: "Firewall rules, default network, flow logs", checks: 10, category: "Network" },
+  { number: 4, name: "Cloud Logging & Monitoring", description: "Audit logs, log sinks, log-based metrics", checks: 8, category: "Monitoring" },
+  { number: 5, name: "Compute Engine Security", description: "Service accounts, public IPs, serial ports, Shielded VM", checks: 10, category: "Compute" },
+  { number: 6, name: "Cloud SQL & BigQuery", description: "Public IPs, authorized networks, SSL, backups", checks: 8, category: "Database" },
+  { number: 7, name: "Kubernetes Engine (GKE)", description: "Network policy, node service accounts, private clusters", checks: 10, category: "Compute" },
+  { number: 8, name: "Cloud Functions & Run", description: "Ingress settings, unauthenticated invocations", checks: 6, category: "Compute" },
+  { number: 9, name: "Secret Manager & KMS", description: "Key rotation, secret replication and access", checks: 6, category: "Secrets" },
+  { number: 10, name: "API Security", description: "API keys, enabled APIs, restrictions", checks: 5, category: "Application" },
+];
+
+// Azure Audit Phases
+export const AZURE_AUDIT_PHASES: AuditPhase[] = [
+  { number: 1, name: "Azure Active Directory (Entra ID)", description: "RBAC role assignments, privileged principals, MFA", checks: 10, category: "Identity" },
+  { number: 2, name: "Blob Storage Security", description: "Public blob access, secure transfer, TLS, encryption", checks: 8, category: "Storage" },
+  { number: 3, name: "Virtual Network Security", description: "NSG rules, flow logs, exposed management ports", checks: 10, category: "Network" },
+  { number: 4, name: "Azure Monitor & Logging", description: "Activity log export and retention, diagnostic settings", checks: 8, category: "Monitoring" },
+  { number: 5, name: "Virtual Machine Security", description: "Disk encryption, extensions, public IPs", checks: 10, category: "Compute" },
+  { number: 6, name: "Azure SQL & Cosmos DB", description: "Firewall rules, auditing, TDE, threat detection", checks: 8, category: "Database" },
+  { number: 7, name: "Azure Kubernetes Service (AKS)", description: "API server access, RBAC, network policy", checks: 10, category: "Compute" },
+  { number: 8, name: "App Service & Functions", description: "HTTPS-only, TLS, managed identities", checks: 6, category: "Compute" },
+  { number: 9, name: "Key Vault & Secrets", description: "Soft delete, purge protection, network access, RBAC", checks: 6, category: "Secrets" },
+  { number: 10, name: "Azure Policy & Compliance", description: "Defender for Cloud plans, security contacts, policy assignments", checks: 6, category: "Compliance" },
+];
+
 // Dashboard stats
 export interface DashboardStats {
   totalFindings: number;